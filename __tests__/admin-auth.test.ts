@@ -0,0 +1,82 @@
+/**
+ * Admin authorization tests — wallet allow-list + JWT role claim
+ *
+ * Run with: bun test admin-auth
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { createJWT, roleForWallet } from '../lib/auth'
+import { setEnv } from '../lib/env'
+import { api, useMemoryStore } from './helpers'
+import type { MemoryStore } from '../lib/memory-store'
+
+const ADMIN = '0x00000000000000000000000000000000000000ad'
+const OTHER = '0x00000000000000000000000000000000000000b0'
+const ENV = { ADMIN_WALLETS: ` ${ADMIN.toUpperCase()} , 0xfeed ` }
+
+let store: MemoryStore
+
+beforeEach(() => {
+  store = useMemoryStore({ posts: [{ id: 'post1', title: 'Spam' }] })
+})
+
+const bearer = async (payload: Record<string, unknown>) => ({
+  Authorization: `Bearer ${await createJWT(payload)}`,
+})
+
+const deletePost = async (headers: Record<string, string> = {}, env = ENV) =>
+  api('/api/admin/posts/post1', { method: 'DELETE', headers }, env)
+
+describe('requireAdmin', () => {
+  test('the old "admin" header substring is rejected', async () => {
+    const res = await deletePost({ Authorization: 'admin' })
+    expect(res.status).toBe(401)
+    expect(store.dump('posts')[0].deleted_at).toBeUndefined()
+  })
+
+  test('missing or forged token is 401', async () => {
+    expect((await deletePost()).status).toBe(401)
+    const forged = `Bearer ${await createJWT({ sub: ADMIN, role: 'admin' }, { key: { kid: 'default', secret: 'wrong-secret' } })}`
+    expect((await deletePost({ Authorization: forged })).status).toBe(401)
+  })
+
+  test('role claim for a wallet not on the allow-list is 403', async () => {
+    const res = await deletePost(await bearer({ sub: OTHER, type: 'human', role: 'admin' }))
+    expect(res.status).toBe(403)
+  })
+
+  test('allow-listed wallet without the role claim is 403', async () => {
+    const res = await deletePost(await bearer({ sub: ADMIN, type: 'human' }))
+    expect(res.status).toBe(403)
+  })
+
+  test('removing a wallet from the allow-list revokes its token', async () => {
+    const res = await deletePost(await bearer({ sub: ADMIN, type: 'human', role: 'admin' }), { ADMIN_WALLETS: '' })
+    expect(res.status).toBe(403)
+    expect(store.dump('posts')[0].deleted_at).toBeUndefined()
+  })
+
+  test('admin token deletes and reports the acting wallet', async () => {
+    const res = await deletePost(await bearer({ sub: ADMIN, type: 'human', role: 'admin' }))
+    expect(res.status).toBe(200)
+    const data = (await res.json()) as { deleted: string; actor: string }
+    expect(data.deleted).toBe('posts:post1')
+    expect(data.actor).toBe(ADMIN)
+    expect(store.dump('posts')[0].deleted_by).toBe(ADMIN)
+  })
+
+  test('every admin route is guarded', async () => {
+    const cleanup = await api('/api/admin/cleanup', { method: 'DELETE' }, ENV)
+    const session = await api('/api/admin/pb-session', {}, ENV)
+    expect(cleanup.status).toBe(401)
+    expect(session.status).toBe(401)
+  })
+})
+
+describe('roleForWallet', () => {
+  test('grants admin only to allow-listed wallets (case-insensitive)', async () => {
+    setEnv(ENV)
+    expect(roleForWallet(ADMIN)).toBe('admin')
+    expect(roleForWallet(ADMIN.toUpperCase())).toBe('admin')
+    expect(roleForWallet(OTHER)).toBeUndefined()
+  })
+})
@@ -1,39 +1,63 @@
 /**
  * Oracle Universe API - Integration Tests
  *
- * Uses production PocketBase to test real data flow.
+ * Runs the worker in-process against the in-memory store (seeded below).
  * Run with: bun test
+ * Against a deployment: API_URL=https://... bun test
  */
 
 import { describe, test, expect, beforeAll } from 'bun:test'
-
-const API_URL = process.env.API_URL || 'http://localhost:3000'
-const PB_URL = 'https://urchin-app-csg5x.ondigitalocean.app'
+import { api, useMemoryStore } from './helpers'
+import pkg from '../package.json'
+
+const HUMAN_ID = 'cqa5mcamhv0iym4'
+const OWNER_WALLET = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+
+beforeAll(() => {
+  useMemoryStore({
+    humans: [{ id: HUMAN_ID, wallet_address: OWNER_WALLET, github_username: 'nazt', display_name: 'nazt' }],
+    oracles: [
+      {
+        name: 'The Resonance Oracle',
+        birth_issue: 'https://github.com/Oracle-Net-The-resonance-network/the-resonance-oracle/issues/1',
+        owner_wallet: OWNER_WALLET,
+        approved: true,
+        claimed: true,
+        karma: 0,
+      },
+    ],
+    posts: [
+      { title: 'Hello', content: 'First post', author_wallet: OWNER_WALLET, upvotes: 3, downvotes: 0, score: 3 },
+      { title: 'Again', content: 'Second post', author_wallet: OWNER_WALLET, upvotes: 0, downvotes: 1, score: -1 },
+    ],
+    agents: [{ wallet_address: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266', display_name: 'Agent-f39fd6', reputation: 0, verified: false }],
+  })
+})
 
 describe('API Info', () => {
   test('GET /api returns API info', async () => {
-    const res = await fetch(`${API_URL}/api`)
+    const res = await api('/api')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { name: string; version: string; docs: string; openapi: string }
     expect(data.name).toBe('Oracle Universe API')
-    expect(data.version).toBe('1.0.0')
-    expect(data.routes).toBeDefined()
-    expect(data.routes.oracles).toBe('/api/oracles')
+    expect(data.version).toBe(pkg.version)
+    expect(data.docs).toBe('/docs')
+    expect(data.openapi).toBe('/openapi.json')
   })
 
   test('GET /openapi.json returns OpenAPI spec', async () => {
-    const res = await fetch(`${API_URL}/openapi.json`)
+    const res = await api('/openapi.json')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { openapi: string; info: { title: string }; paths: Record<string, unknown> }
     expect(data.openapi).toBe('3.0.3')
     expect(data.info.title).toBe('Oracle Universe API')
     expect(data.paths['/api/oracles']).toBeDefined()
   })
 
   test('GET /skill.md returns markdown', async () => {
-    const res = await fetch(`${API_URL}/skill.md`)
+    const res = await api('/skill.md')
     expect(res.status).toBe(200)
     expect(res.headers.get('content-type')).toContain('text/markdown')
 
@@ -44,87 +68,87 @@ describe('API Info', () => {
 
 describe('Oracles API', () => {
   test('GET /api/oracles returns oracles list', async () => {
-    const res = await fetch(`${API_URL}/api/oracles`)
+    const res = await api('/api/oracles')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { resource: string; items: unknown[]; count: number }
     expect(data.resource).toBe('oracles')
     expect(data.items).toBeInstanceOf(Array)
     expect(data.count).toBeGreaterThanOrEqual(0)
   })
 
   test('GET /api/oracles with pagination', async () => {
-    const res = await fetch(`${API_URL}/api/oracles?page=1&perPage=5`)
+    const res = await api('/api/oracles?page=1&perPage=5')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { items: unknown[] }
     expect(data.items.length).toBeLessThanOrEqual(5)
   })
 
   test('GET /api/oracles/:id returns single oracle or 404', async () => {
     // First get an oracle ID
-    const listRes = await fetch(`${API_URL}/api/oracles`)
-    const listData = await listRes.json()
+    const listRes = await api('/api/oracles')
+    const listData = (await listRes.json()) as { items: { id: string }[] }
 
     if (listData.items.length > 0) {
       const oracleId = listData.items[0].id
-      const res = await fetch(`${API_URL}/api/oracles/${oracleId}`)
+      const res = await api(`/api/oracles/${oracleId}`)
       expect(res.status).toBe(200)
 
-      const data = await res.json()
+      const data = (await res.json()) as { id: string }
       expect(data.id).toBe(oracleId)
     }
 
     // Test 404 for non-existent
-    const notFoundRes = await fetch(`${API_URL}/api/oracles/nonexistent123`)
+    const notFoundRes = await api('/api/oracles/nonexistent123')
     expect(notFoundRes.status).toBe(404)
   })
 })
 
 describe('Feed API', () => {
   test('GET /api/feed returns posts feed', async () => {
-    const res = await fetch(`${API_URL}/api/feed`)
+    const res = await api('/api/feed')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { success: boolean; sort: string; posts: unknown[] }
     expect(data.success).toBe(true)
-    expect(data.sort).toBe('hot')
+    expect(data.sort).toBe('new')
     expect(data.posts).toBeInstanceOf(Array)
   })
 
   test('GET /api/feed?sort=new returns newest posts', async () => {
-    const res = await fetch(`${API_URL}/api/feed?sort=new`)
+    const res = await api('/api/feed?sort=new')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { sort: string }
     expect(data.sort).toBe('new')
   })
 
   test('GET /api/feed?sort=top returns top posts', async () => {
-    const res = await fetch(`${API_URL}/api/feed?sort=top`)
+    const res = await api('/api/feed?sort=top')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { sort: string }
     expect(data.sort).toBe('top')
   })
 })
 
 describe('Stats & Presence API', () => {
   test('GET /api/stats returns universe stats', async () => {
-    const res = await fetch(`${API_URL}/api/stats`)
+    const res = await api('/api/stats')
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { oracleCount: number; humanCount: number; postCount: number }
     expect(typeof data.oracleCount).toBe('number')
     expect(typeof data.humanCount).toBe('number')
     expect(typeof data.postCount).toBe('number')
   })
 
   test('GET /api/presence returns online oracles', async () => {
-    const res = await fetch(`${API_URL}/api/presence`)
+    const res = await api('/api/presence')
     // May return 500 if oracle_heartbeats collection is not accessible
     if (res.status === 200) {
-      const data = await res.json()
+      const data = (await res.json()) as { items: unknown[]; totalOnline: number }
       expect(data.items).toBeInstanceOf(Array)
       expect(typeof data.totalOnline).toBe('number')
     } else {
@@ -135,20 +159,20 @@ describe('Stats & Presence API', () => {
 
 describe('Humans API', () => {
   test('GET /api/humans/me without auth returns 401', async () => {
-    const res = await fetch(`${API_URL}/api/humans/me`)
+    const res = await api('/api/humans/me')
     expect(res.status).toBe(401)
 
-    const data = await res.json()
+    const data = (await res.json()) as { error: string }
     expect(data.error).toContain('Authentication')
   })
 
   test('GET /api/humans/:id/oracles returns human oracles or error', async () => {
     // Use a known human ID from production
     // May fail if PocketBase collection rules block access
-    const res = await fetch(`${API_URL}/api/humans/cqa5mcamhv0iym4/oracles`)
+    const res = await api('/api/humans/cqa5mcamhv0iym4/oracles')
 
     if (res.status === 200) {
-      const data = await res.json()
+      const data = (await res.json()) as { resource: string; items: unknown[] }
       expect(data.resource).toBe('oracles')
       expect(data.items).toBeInstanceOf(Array)
     } else {
@@ -160,10 +184,10 @@ describe('Humans API', () => {
 
 describe('Agents API', () => {
   test('GET /api/agents returns agents list or error if collection missing', async () => {
-    const res = await fetch(`${API_URL}/api/agents`)
+    const res = await api('/api/agents')
     // Agents collection may not exist in all environments
     if (res.status === 200) {
-      const data = await res.json()
+      const data = (await res.json()) as { resource: string; items: unknown[] }
       expect(data.resource).toBe('agents')
       expect(data.items).toBeInstanceOf(Array)
     } else {
@@ -173,18 +197,18 @@ describe('Agents API', () => {
   })
 
   test('GET /api/agents/me without auth returns 401', async () => {
-    const res = await fetch(`${API_URL}/api/agents/me`)
+    const res = await api('/api/agents/me')
     expect(res.status).toBe(401)
 
-    const data = await res.json()
+    const data = (await res.json()) as { error: string }
     expect(data.error).toContain('Authentication')
   })
 
   test('GET /api/agents/presence returns online agents or error', async () => {
-    const res = await fetch(`${API_URL}/api/agents/presence`)
+    const res = await api('/api/agents/presence')
     // Agent heartbeats collection may not exist
     if (res.status === 200) {
-      const data = await res.json()
+      const data = (await res.json()) as { items: unknown[]; totalOnline: number }
       expect(data.items).toBeInstanceOf(Array)
       expect(typeof data.totalOnline).toBe('number')
     } else {
@@ -195,14 +219,14 @@ describe('Agents API', () => {
 
 describe('Agent Auth API', () => {
   test('POST /api/auth/agents/verify without body returns 400', async () => {
-    const res = await fetch(`${API_URL}/api/auth/agents/verify`, {
+    const res = await api('/api/auth/agents/verify', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({}),
     })
     // 400 if endpoint exists, 404 if not deployed yet
     if (res.status === 400) {
-      const data = await res.json()
+      const data = (await res.json()) as { error: string }
       expect(data.error).toContain('Missing message or signature')
     } else {
       expect([400, 404]).toContain(res.status)
@@ -210,7 +234,7 @@ describe('Agent Auth API', () => {
   })
 
   test('POST /api/auth/agents/verify with invalid SIWE message returns error', async () => {
-    const res = await fetch(`${API_URL}/api/auth/agents/verify`, {
+    const res = await api('/api/auth/agents/verify', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -225,30 +249,33 @@ describe('Agent Auth API', () => {
 
 describe('Posts API', () => {
   test('GET /api/posts/:id returns 404 for non-existent', async () => {
-    const res = await fetch(`${API_URL}/api/posts/nonexistent123`)
+    const res = await api('/api/posts/nonexistent123')
     expect(res.status).toBe(404)
   })
 
   test('GET /api/posts/:id/comments returns comments array', async () => {
-    const res = await fetch(`${API_URL}/api/posts/nonexistent123/comments`)
+    const res = await api('/api/posts/nonexistent123/comments')
     // Should return empty array, not error
     expect(res.status).toBe(200)
 
-    const data = await res.json()
+    const data = (await res.json()) as { items: unknown[] }
     expect(data.items).toBeInstanceOf(Array)
   })
 
-  test('POST /api/posts without auth returns 401', async () => {
-    const res = await fetch(`${API_URL}/api/posts`, {
+  test('POST /api/posts without signature returns 400', async () => {
+    const res = await api('/api/posts', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ title: 'Test', content: 'Test content' }),
     })
-    expect(res.status).toBe(401)
+    expect(res.status).toBe(400)
+
+    const data = (await res.json()) as { error: string }
+    expect(data.error).toContain('signature')
   })
 
   test('POST /api/posts without author or agent returns 400', async () => {
-    const res = await fetch(`${API_URL}/api/posts`, {
+    const res = await api('/api/posts', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -258,13 +285,13 @@ describe('Posts API', () => {
     })
     expect(res.status).toBe(400)
 
-    const data = await res.json()
+    const data = (await res.json()) as { error?: string }
     // Error message depends on whether new validation is deployed
     expect(data.error).toBeDefined()
   })
 
   test('POST /api/posts validation rejects both author and agent', async () => {
-    const res = await fetch(`${API_URL}/api/posts`, {
+    const res = await api('/api/posts', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -284,7 +311,7 @@ describe('Posts API', () => {
 
 describe('HTML Pages', () => {
   test('GET / returns landing page HTML', async () => {
-    const res = await fetch(`${API_URL}/`)
+    const res = await api('/')
     expect(res.status).toBe(200)
     expect(res.headers.get('content-type')).toContain('text/html')
 
@@ -293,7 +320,7 @@ describe('HTML Pages', () => {
   })
 
   test('GET /docs returns Scalar docs page', async () => {
-    const res = await fetch(`${API_URL}/docs`)
+    const res = await api('/docs')
     expect(res.status).toBe(200)
     expect(res.headers.get('content-type')).toContain('text/html')
 
@@ -303,7 +330,7 @@ describe('HTML Pages', () => {
   })
 
   test('GET /health returns health page', async () => {
-    const res = await fetch(`${API_URL}/health`)
+    const res = await api('/health')
     expect(res.status).toBe(200)
     expect(res.headers.get('content-type')).toContain('text/html')
   })
@@ -0,0 +1,148 @@
+/**
+ * Auth context tests — one principal per request, declarative guards, uniform 401/403 bodies
+ *
+ * Run with: bun test auth-context
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { createJWT } from '../lib/auth'
+import { capabilityClaims } from '../lib/capabilities'
+import { principalFromClaims } from '../lib/auth-context'
+import type { OracleRecord } from '../lib/pb-types'
+import { api, useMemoryStore } from './helpers'
+
+const HUMAN = '0x00000000000000000000000000000000000000a1'
+const AGENT = '0x00000000000000000000000000000000000000a2'
+const BOT = '0x00000000000000000000000000000000000000b0'
+const STRANGER = '0x00000000000000000000000000000000000000c0'
+
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/7'
+
+const ORACLE = {
+  id: 'oracle1', name: 'Resonance', birth_issue: BIRTH_ISSUE,
+  owner_wallet: HUMAN, bot_wallet: BOT, deleted_at: '',
+} as OracleRecord
+
+beforeEach(() => {
+  useMemoryStore({
+    humans: [{ id: 'human1', wallet_address: HUMAN, github_username: 'nat' }],
+    agents: [{ id: 'agent1', wallet_address: AGENT, display_name: 'Agent-a2', reputation: 0, verified: false }],
+    oracles: [ORACLE],
+    comments: [{ id: 'comment1', post: 'p1', content: 'hi', author_wallet: BOT, upvotes: 0, downvotes: 0, score: 0, deleted_at: '' }],
+  })
+})
+
+const bearer = async (sub: string, type: string) => ({ headers: { Authorization: `Bearer ${await createJWT({ sub, type })}` } })
+
+const body = async (res: Response) => (await res.json()) as { error: string; code: string }
+
+describe('principal', () => {
+  test('token type becomes the principal type', () => {
+    expect(principalFromClaims({ sub: '0x00000000000000000000000000000000000000A1', type: 'human', sid: 's1' }))
+      .toMatchObject({ wallet: HUMAN, type: 'human', sessionId: 's1' })
+    expect(principalFromClaims({ sub: AGENT, type: 'agent' })?.type).toBe('agent')
+    expect(principalFromClaims({ sub: BOT, type: 'something-else' })?.type).toBe('wallet-sign')
+    expect(principalFromClaims({ ...capabilityClaims(ORACLE, ['post'], HUMAN) })?.type).toBe('oracle_bot')
+    expect(principalFromClaims({ type: 'human' })).toBeNull()
+  })
+
+  test('linked human and owned oracles load on demand', async () => {
+    const principal = principalFromClaims({ sub: HUMAN, type: 'human' })!
+    expect((await principal.human())?.id).toBe('human1')
+    expect((await principal.ownedOracles()).map(o => o.id)).toEqual(['oracle1'])
+    expect(await principalFromClaims({ sub: STRANGER, type: 'human' })!.human()).toBeNull()
+  })
+})
+
+describe('guards', () => {
+  test('every guarded route answers 401 the same way', async () => {
+    const routes: [string, RequestInit][] = [
+      ['/api/humans/me', {}],
+      ['/api/agents/me', {}],
+      ['/api/votes/batch', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ postIds: ['p1'] }) }],
+      ['/api/posts/p1/my-vote', {}],
+      ['/api/merkle/my-root', {}],
+      ['/api/notifications', {}],
+      ['/api/oracles/by-birth/7/notifications', {}],
+      ['/api/comments/comment1/upvote', { method: 'POST' }],
+      ['/api/auth/sessions', {}],
+      ['/api/auth/logout-all', { method: 'POST' }],
+      ['/api/admin/pb-session', {}],
+      ['/api/heartbeats', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ oracle: 'oracle1' }) }],
+    ]
+    for (const [path, init] of routes) {
+      const res = await api(path, init)
+      expect(res.status).toBe(401)
+      expect(await body(res)).toEqual({ error: 'Authentication required', code: 'auth_required' })
+
+      const bad = await api(path, { ...init, headers: { ...init.headers, Authorization: 'Bearer nope' } })
+      expect(bad.status).toBe(401)
+      expect((await body(bad)).code).toBe('malformed_token')
+    }
+  })
+
+  test('requireHuman needs a human sign-in', async () => {
+    const res = await api('/api/humans/me', await bearer(HUMAN, 'human'))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ id: 'human1', wallet_address: HUMAN })
+
+    const agent = await api('/api/humans/me', await bearer(HUMAN, 'agent'))
+    expect(agent.status).toBe(403)
+    expect((await body(agent)).code).toBe('forbidden')
+
+    const unknown = await api('/api/humans/me', await bearer(STRANGER, 'human'))
+    expect(unknown.status).toBe(404)
+  })
+
+  test('requireAgent needs an agent sign-in', async () => {
+    const res = await api('/api/agents/me', await bearer(AGENT, 'agent'))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ id: 'agent1', display_name: 'Agent-a2' })
+    expect((await api('/api/agents/me', await bearer(AGENT, 'human'))).status).toBe(403)
+  })
+
+  test('requireAdmin needs an admin-role token for an allow-listed wallet', async () => {
+    const env = { ADMIN_WALLETS: HUMAN }
+    const admin = { headers: { Authorization: `Bearer ${await createJWT({ sub: HUMAN, type: 'human', role: 'admin' })}` } }
+    expect((await api('/api/admin/pb-session', admin, env)).status).toBe(200)
+
+    const plain = await api('/api/admin/pb-session', await bearer(HUMAN, 'human'), env)
+    expect(plain.status).toBe(403)
+    expect(await body(plain)).toEqual({ error: 'Admin role required', code: 'forbidden' })
+    expect((await api('/api/admin/pb-session', admin, { ADMIN_WALLETS: '' })).status).toBe(403)
+  })
+
+  test('comment votes count once per wallet', async () => {
+    const vote = async (direction: 'upvote' | 'downvote', sub = HUMAN) =>
+      (await api(`/api/comments/comment1/${direction}`, { method: 'POST', ...(await bearer(sub, 'human')) })).json()
+
+    expect(await vote('upvote')).toMatchObject({ upvotes: 1, score: 1, user_vote: 'up' })
+    expect(await vote('upvote')).toMatchObject({ upvotes: 0, score: 0, user_vote: null })
+    await vote('upvote')
+    expect(await vote('downvote')).toMatchObject({ upvotes: 0, downvotes: 1, score: -1, user_vote: 'down' })
+    expect(await vote('upvote', STRANGER)).toMatchObject({ upvotes: 1, downvotes: 1, score: 0 })
+  })
+
+  test('requireOracleBot admits the bot and owner, not strangers', async () => {
+    const path = '/api/oracles/by-birth/7/notifications/unread-count'
+    expect((await api(path, await bearer(BOT, 'wallet-sign'))).status).toBe(200)
+    expect((await api(path, await bearer(HUMAN, 'human'))).status).toBe(200)
+
+    const stranger = await api(path, await bearer(STRANGER, 'wallet-sign'))
+    expect(stranger.status).toBe(403)
+    expect((await body(stranger)).code).toBe('forbidden')
+
+    const missing = await api('/api/oracles/by-birth/99/notifications', await bearer(BOT, 'wallet-sign'))
+    expect(missing.status).toBe(404)
+    expect((await body(missing)).code).toBe('not_found')
+  })
+
+  test('capability tokens only pass guards that name their scope', async () => {
+    const token = await createJWT({ ...capabilityClaims(ORACLE, ['notifications:read'], HUMAN) })
+    const auth = { headers: { Authorization: `Bearer ${token}` } }
+    expect((await api('/api/oracles/by-birth/7/notifications', auth)).status).toBe(200)
+
+    const general = await api('/api/merkle/my-root', auth)
+    expect(general.status).toBe(401)
+    expect((await body(general)).code).toBe('scoped_token_not_allowed')
+  })
+})
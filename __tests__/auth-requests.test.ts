@@ -0,0 +1,138 @@
+/**
+ * Bot authorization handshake tests — request → owner approval → code exchange
+ *
+ * Run with: bun test auth-requests
+ */
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { verifyJWTDetailed } from '../lib/auth'
+import { authRequestMessage, AUTH_CODE_TTL_SEC, AUTH_REQUEST_TTL_SEC } from '../lib/auth-requests'
+import { createMemoryKV, setKV } from '../lib/kv'
+import type { CapabilityScope } from '../lib/capabilities'
+import { api, useMemoryStore } from './helpers'
+
+const owner = privateKeyToAccount(generatePrivateKey())
+const bot = privateKeyToAccount(generatePrivateKey())
+const stranger = privateKeyToAccount(generatePrivateKey())
+
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/7'
+
+beforeEach(() => {
+  setKV(createMemoryKV())
+  useMemoryStore({
+    oracles: [
+      { id: 'oracle1', name: 'Resonance', birth_issue: BIRTH_ISSUE, owner_wallet: owner.address.toLowerCase(), bot_wallet: bot.address.toLowerCase() },
+    ],
+  })
+})
+
+afterEach(() => {
+  setSystemTime()
+})
+
+const post = (path: string, body: unknown) =>
+  api(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+
+async function openRequest(scope: CapabilityScope[] = ['heartbeat'], signer = bot) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const signature = await signer.signMessage({ message: authRequestMessage({ birth_issue: BIRTH_ISSUE, scope, timestamp }) })
+  return post('/api/auth/auth-request', { birth_issue: BIRTH_ISSUE, scope, timestamp, signature })
+}
+
+async function opened() {
+  const res = await openRequest()
+  expect(res.status).toBe(200)
+  return (await res.json()) as { reqId: string; secret: string; message: string; status: string }
+}
+
+async function approve(reqId: string, message: string, signer = owner) {
+  const signature = await signer.signMessage({ message })
+  return post('/api/auth/authorize', { reqId, humanWallet: signer.address, signature, message })
+}
+
+const poll = (reqId: string, secret?: string) =>
+  api(`/api/auth/auth-request/${reqId}`, { headers: secret ? { 'X-Auth-Request-Secret': secret } : {} })
+
+describe('bot authorization handshake', () => {
+  test('request → approve → poll → exchange yields a scoped token', async () => {
+    const { reqId, secret, message, status } = await opened()
+    expect(status).toBe('pending')
+
+    const pending = (await (await poll(reqId)).json()) as { status: string; message: string; bot_wallet: string }
+    expect(pending.status).toBe('pending')
+    expect(pending.message).toBe(message)
+    expect(pending.bot_wallet).toBe(bot.address.toLowerCase())
+
+    expect((await approve(reqId, message)).status).toBe(200)
+
+    // Without the secret the code is never shown
+    const publicView = (await (await poll(reqId)).json()) as { status: string; code?: string }
+    expect(publicView.status).toBe('approved')
+    expect(publicView.code).toBeUndefined()
+
+    const { code } = (await (await poll(reqId, secret)).json()) as { code: string }
+    expect(code).toStartWith(`${reqId}.`)
+
+    const res = await post('/api/auth/token', { code, secret })
+    expect(res.status).toBe(200)
+    const { token, scope } = (await res.json()) as { token: string; scope: string[] }
+    expect(scope).toEqual(['heartbeat'])
+
+    const verified = await verifyJWTDetailed(token, { allowCapability: true })
+    expect(verified.ok && verified.payload.sub).toBe(bot.address.toLowerCase())
+    expect(verified.ok && verified.payload.minted_by).toBe(owner.address.toLowerCase())
+  })
+
+  test('codes are single-use', async () => {
+    const { reqId, secret, message } = await opened()
+    const { authCode } = (await (await approve(reqId, message)).json()) as { authCode: string }
+
+    expect((await post('/api/auth/token', { code: authCode, secret })).status).toBe(200)
+    const again = await post('/api/auth/token', { code: authCode, secret })
+    expect(again.status).toBe(400)
+    expect(((await again.json()) as { code: string }).code).toBe('code_already_used')
+  })
+
+  test('exchange needs the bot secret', async () => {
+    const { reqId, message } = await opened()
+    const { authCode } = (await (await approve(reqId, message)).json()) as { authCode: string }
+    expect((await post('/api/auth/token', { code: authCode, secret: 'guess' })).status).toBe(401)
+  })
+
+  test('only the bot wallet can open and only the owner can approve', async () => {
+    expect((await openRequest(['heartbeat'], stranger)).status).toBe(403)
+    expect((await openRequest(['admin' as CapabilityScope])).status).toBe(400)
+
+    const { reqId, message } = await opened()
+    expect((await approve(reqId, message, stranger)).status).toBe(403)
+    expect((await approve(reqId, 'something else')).status).toBe(400)
+    expect((await approve(reqId, message)).status).toBe(200)
+    expect((await approve(reqId, message)).status).toBe(409)
+  })
+
+  test('a malformed approval signature is 401, not a server error', async () => {
+    const { reqId, message } = await opened()
+    const res = await post('/api/auth/authorize', { reqId, humanWallet: owner.address, signature: '0x1234', message })
+    expect(res.status).toBe(401)
+    expect(((await res.json()) as { code: string }).code).toBe('invalid_signature')
+    expect((await approve(reqId, message)).status).toBe(200)
+  })
+
+  test('pending requests and approved codes expire', async () => {
+    const start = Date.now()
+    const first = await opened()
+    setSystemTime(new Date(start + (AUTH_REQUEST_TTL_SEC + 1) * 1000))
+    expect((await poll(first.reqId)).status).toBe(404)
+    expect((await approve(first.reqId, first.message)).status).toBe(404)
+
+    setSystemTime()
+    const second = await opened()
+    const { authCode } = (await (await approve(second.reqId, second.message)).json()) as { authCode: string }
+    setSystemTime(new Date(Date.now() + (AUTH_CODE_TTL_SEC + 1) * 1000))
+    expect((await post('/api/auth/token', { code: authCode, secret: second.secret })).status).toBe(400)
+  })
+
+  test('unknown request ids are 404', async () => {
+    expect((await poll('nope')).status).toBe(404)
+  })
+})
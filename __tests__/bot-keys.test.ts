@@ -0,0 +1,120 @@
+/**
+ * Bot key rotation / revocation tests — signatures, key history, feed attribution
+ *
+ * Run with: bun test bot-keys
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createJWT } from '../lib/auth'
+import { capabilityClaims } from '../lib/capabilities'
+import { createMemoryKV, setKV } from '../lib/kv'
+import { revokeMessage, rotateMessage } from '../lib/bot-keys'
+import type { OracleRecord } from '../lib/pb-types'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const owner = privateKeyToAccount(generatePrivateKey())
+const newBot = privateKeyToAccount(generatePrivateKey())
+const stranger = privateKeyToAccount(generatePrivateKey())
+
+const OWNER = owner.address.toLowerCase()
+const OLD_BOT = '0x00000000000000000000000000000000000000b0'
+const NEW_BOT = newBot.address.toLowerCase()
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/7'
+
+const ORACLE_CREATED = '2026-01-01 00:00:00.000Z'
+
+const ORACLE = {
+  id: 'oracle1', name: 'Resonance', birth_issue: BIRTH_ISSUE, owner_wallet: OWNER, bot_wallet: OLD_BOT, deleted_at: '',
+} as OracleRecord
+
+let store: MemoryStore
+
+beforeEach(() => {
+  setKV(createMemoryKV())
+  store = useMemoryStore({
+    oracles: [{ ...ORACLE, created: ORACLE_CREATED }],
+    posts: [
+      { id: 'post1', title: 'Old key', content: 'signed before rotation', author_wallet: OLD_BOT, oracle_birth_issue: BIRTH_ISSUE, deleted_at: '', created: '2026-01-02 00:00:00.000Z' },
+    ],
+  })
+})
+
+const post = (path: string, body: unknown) =>
+  api(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+
+async function rotate(ownerSigner = owner, botSigner = newBot, newWallet = NEW_BOT) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const message = rotateMessage({ birth_issue: BIRTH_ISSUE, new_wallet: newWallet, timestamp })
+  return post('/api/oracles/oracle1/bot-wallet/rotate', {
+    new_wallet: newWallet,
+    timestamp,
+    owner_signature: await ownerSigner.signMessage({ message }),
+    bot_signature: await botSigner.signMessage({ message }),
+  })
+}
+
+async function revoke(signer = owner) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const bot = store.dump('oracles')[0].bot_wallet as string
+  const signature = await signer.signMessage({ message: revokeMessage({ birth_issue: BIRTH_ISSUE, bot_wallet: bot, timestamp }) })
+  return post('/api/oracles/oracle1/bot-wallet/revoke', { timestamp, signature })
+}
+
+const feedAuthor = async () => {
+  const { posts } = (await (await api('/api/feed')).json()) as { posts: { author: Record<string, unknown> }[] }
+  return posts[0].author
+}
+
+describe('rotation', () => {
+  test('needs the owner and the new wallet to sign', async () => {
+    expect((await rotate(stranger)).status).toBe(401)
+    expect((await rotate(owner, stranger)).status).toBe(401)
+    expect(store.dump('oracles')[0].bot_wallet).toBe(OLD_BOT)
+
+    const res = await rotate()
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ oracle: { bot_wallet: NEW_BOT }, retired: { bot_wallet: OLD_BOT, reason: 'rotated' } })
+
+    const keys = await api('/api/oracles/oracle1/bot-keys')
+    expect(await keys.json()).toMatchObject({
+      bot_wallet: NEW_BOT,
+      items: [{ bot_wallet: OLD_BOT, reason: 'rotated', valid_from: ORACLE_CREATED, changed_by: OWNER }],
+    })
+  })
+
+  test('the owner wallet cannot become the bot wallet', async () => {
+    const res = await rotate(owner, owner, OWNER)
+    expect(res.status).toBe(409)
+    expect(((await res.json()) as { code: string }).code).toBe('bot_wallet_in_use')
+  })
+
+  test('posts signed by the rotated key before rotation stay attributed', async () => {
+    expect(await feedAuthor()).toMatchObject({ type: 'oracle', key_status: 'current' })
+    await rotate()
+    expect(await feedAuthor()).toMatchObject({ type: 'oracle', key_status: 'rotated', bot_wallet: NEW_BOT })
+  })
+})
+
+describe('revocation', () => {
+  test('clears the bot wallet and stops trusting the key', async () => {
+    expect((await revoke(stranger)).status).toBe(401)
+
+    const res = await revoke()
+    expect(res.status).toBe(200)
+    expect(store.dump('oracles')[0]).toMatchObject({ bot_wallet: '', wallet_verified: false })
+    expect((await feedAuthor()).type).toBe('unverified_oracle')
+
+    const again = await revoke()
+    expect(again.status).toBe(409)
+  })
+
+  test('capability tokens of a retired key stop working', async () => {
+    const token = await createJWT({ ...capabilityClaims(ORACLE, ['notifications:read'], OWNER) })
+    const inbox = () => api('/api/oracles/by-birth/7/notifications', { headers: { Authorization: `Bearer ${token}` } })
+    expect((await inbox()).status).toBe(200)
+
+    await rotate()
+    expect((await inbox()).status).toBe(403)
+  })
+})
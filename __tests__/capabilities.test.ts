@@ -0,0 +1,120 @@
+/**
+ * Capability token tests — owner-signed minting and per-route scope checks
+ *
+ * Run with: bun test capabilities
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createJWT } from '../lib/auth'
+import { mintMessage, type CapabilityScope } from '../lib/capabilities'
+import { api, useMemoryStore } from './helpers'
+
+const owner = privateKeyToAccount(generatePrivateKey())
+const bot = privateKeyToAccount(generatePrivateKey())
+const stranger = privateKeyToAccount(generatePrivateKey())
+
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/7'
+const OTHER_ISSUE = 'https://github.com/o/r/issues/8'
+const LINKED = '0x00000000000000000000000000000000000000a2'
+
+beforeEach(() => {
+  useMemoryStore({
+    humans: [{ id: 'owner', wallet_address: owner.address.toLowerCase() }],
+    human_wallets: [{ human: 'owner', wallet: LINKED }],
+    oracles: [
+      { id: 'oracle1', name: 'Resonance', birth_issue: BIRTH_ISSUE, owner_wallet: owner.address.toLowerCase(), bot_wallet: bot.address.toLowerCase() },
+      { id: 'oracle2', name: 'Other', birth_issue: OTHER_ISSUE, owner_wallet: stranger.address.toLowerCase(), bot_wallet: '0xb0b' },
+    ],
+  })
+})
+
+const json = (body: unknown, token?: string): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+  body: JSON.stringify(body),
+})
+
+async function mint(scope: CapabilityScope[], signer = owner, birth_issue = BIRTH_ISSUE, timestamp = Math.floor(Date.now() / 1000)) {
+  const expires_in = 3600
+  const signature = await signer.signMessage({ message: mintMessage({ birth_issue, scope, expires_in, timestamp }) })
+  return api('/api/auth/capabilities', json({ birth_issue, scope, expires_in, timestamp, signature }))
+}
+
+async function mintToken(scope: CapabilityScope[]): Promise<string> {
+  const res = await mint(scope)
+  expect(res.status).toBe(200)
+  return ((await res.json()) as { token: string }).token
+}
+
+const heartbeat = (token?: string, oracle = 'oracle1') => api('/api/heartbeats', json({ oracle, status: 'online' }, token))
+
+describe('POST /api/auth/capabilities', () => {
+  test('owner mints a token for the bot wallet', async () => {
+    const res = await mint(['heartbeat', 'post'])
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as { scope: string[]; bot_wallet: string; birth_issue: string }
+    expect(body.scope).toEqual(['heartbeat', 'post'])
+    expect(body.bot_wallet).toBe(bot.address.toLowerCase())
+    expect(body.birth_issue).toBe(BIRTH_ISSUE)
+  })
+
+  test('only the owner can mint', async () => {
+    expect((await mint(['heartbeat'], stranger)).status).toBe(403)
+    expect((await mint(['heartbeat'], bot)).status).toBe(403)
+  })
+
+  test('rejects unknown scopes, stale requests and missing oracles', async () => {
+    expect((await mint(['admin' as CapabilityScope])).status).toBe(400)
+    expect((await mint([])).status).toBe(400)
+    expect((await mint(['heartbeat'], owner, BIRTH_ISSUE, Math.floor(Date.now() / 1000) - 3600)).status).toBe(401)
+    expect((await mint(['heartbeat'], owner, 'https://github.com/o/r/issues/999')).status).toBe(404)
+  })
+})
+
+describe('scope enforcement', () => {
+  test('heartbeat needs the heartbeat scope for that oracle', async () => {
+    expect((await heartbeat(await mintToken(['heartbeat']))).status).toBe(200)
+    expect((await heartbeat(await mintToken(['post']))).status).toBe(403)
+    expect((await heartbeat(await mintToken(['heartbeat']), 'oracle2')).status).toBe(403)
+  })
+
+  test('heartbeat no longer accepts any Authorization header', async () => {
+    expect((await api('/api/heartbeats', { ...json({ oracle: 'oracle1' }), headers: { Authorization: 'anything' } })).status).toBe(401)
+    const strangerToken = await createJWT({ sub: stranger.address.toLowerCase(), type: 'wallet-sign' })
+    const denied = await heartbeat(strangerToken)
+    expect(denied.status).toBe(403)
+    expect((await denied.json() as { code: string }).code).toBe('forbidden')
+    const ownerToken = await createJWT({ sub: owner.address.toLowerCase(), type: 'human' })
+    expect((await heartbeat(ownerToken)).status).toBe(200)
+  })
+
+  test("heartbeat accepts the owner's linked wallets", async () => {
+    expect((await heartbeat(await createJWT({ sub: LINKED, type: 'human' }))).status).toBe(200)
+  })
+
+  test('oracle inbox needs notifications:read', async () => {
+    const path = '/api/oracles/by-birth/7/notifications'
+    const reader = await mintToken(['notifications:read'])
+    const poster = await mintToken(['post'])
+    expect((await api(path, { headers: { Authorization: `Bearer ${reader}` } })).status).toBe(200)
+    expect((await api(path, { headers: { Authorization: `Bearer ${poster}` } })).status).toBe(403)
+    expect((await api('/api/oracles/by-birth/8/notifications', { headers: { Authorization: `Bearer ${reader}` } })).status).toBe(403)
+  })
+
+  test('posting with a capability token needs the post scope', async () => {
+    const payload = { title: 'Hello', content: 'World', oracle_birth_issue: BIRTH_ISSUE }
+    const signature = await bot.signMessage({ message: JSON.stringify(payload) })
+    const body = { ...payload, signature }
+
+    expect((await api('/api/posts', json(body, await mintToken(['heartbeat'])))).status).toBe(403)
+    expect((await api('/api/posts', json(body, await mintToken(['post'])))).status).toBe(200)
+  })
+
+  test('capability tokens are not accepted as a general login', async () => {
+    const token = await mintToken(['heartbeat', 'notifications:read'])
+    const res = await api('/api/notifications', { headers: { Authorization: `Bearer ${token}` } })
+    expect(res.status).toBe(401)
+    expect(((await res.json()) as { code: string }).code).toBe('scoped_token_not_allowed')
+    expect((await api('/api/auth/sessions', { headers: { Authorization: `Bearer ${token}` } })).status).toBe(401)
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Chainlink proof-of-time tests — RPC failover, round cache, mock provider, feeds, login errors
+ *
+ * Run with: bun test chainlink
+ */
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createSiweMessage } from 'viem/siwe'
+import {
+  CHAINLINK_FEEDS,
+  createMockChainlinkProvider,
+  createRpcChainlinkProvider,
+  getChainlinkRoundData,
+  setChainlinkProvider,
+  type MockChainlinkProvider,
+} from '../lib/chainlink'
+import { checkProofOfTime, getProofOfTimeFeed, parseNonce } from '../lib/proof-of-time'
+import { setEnv } from '../lib/env'
+import { createMemoryKV, setKV } from '../lib/kv'
+import { api, useMemoryStore } from './helpers'
+
+const ROUND = '129127208515966878197'
+const BTC = CHAINLINK_FEEDS[0]
+
+/** ABI-encoded (roundId, answer, startedAt, updatedAt, answeredInRound) */
+function roundResult(roundId: bigint, price: number, updatedAt: number): string {
+  const words = [roundId, BigInt(Math.round(price * 1e8)), BigInt(updatedAt), BigInt(updatedAt), roundId]
+  return '0x' + words.map(w => w.toString(16).padStart(64, '0')).join('')
+}
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } })
+
+let mock: MockChainlinkProvider
+
+beforeEach(() => {
+  mock = createMockChainlinkProvider()
+  setChainlinkProvider(mock)
+})
+
+afterAll(() => {
+  setChainlinkProvider(null)
+})
+
+describe('RPC provider', () => {
+  test('fails over past dead and garbage endpoints', async () => {
+    const hits: string[] = []
+    const provider = createRpcChainlinkProvider({ ethereum: ['https://a.test', 'https://b.test', 'https://c.test'] }, {
+      retries: 0,
+      fetch: async (url) => {
+        hits.push(new URL(url).host)
+        if (url.includes('a.test')) throw new Error('connection refused')
+        if (url.includes('b.test')) return json({ jsonrpc: '2.0', id: 1, result: '0x' })
+        return json({ jsonrpc: '2.0', id: 1, result: roundResult(42n, 76022.17, 1_700_000_000) })
+      },
+    })
+
+    const latest = await provider.latestRound(BTC)
+    expect(latest).toEqual({ roundId: '42', price: 76022.17, timestamp: 1_700_000_000 })
+    expect(hits).toEqual(['a.test', 'b.test', 'c.test'])
+  })
+
+  test('retries the whole list, then gives up', async () => {
+    let calls = 0
+    const provider = createRpcChainlinkProvider({ ethereum: ['https://a.test', 'https://b.test'] }, {
+      retries: 2,
+      fetch: async () => {
+        calls++
+        return new Response('bad gateway', { status: 502 })
+      },
+    })
+
+    await expect(provider.roundTimestamp(BTC, 42n)).rejects.toThrow('All ethereum RPCs failed')
+    expect(calls).toBe(6)
+  })
+
+  test('times out a hanging endpoint', async () => {
+    const provider = createRpcChainlinkProvider({ ethereum: ['https://slow.test', 'https://ok.test'] }, {
+      retries: 0,
+      timeoutMs: 20,
+      fetch: (url, init) => url.includes('slow')
+        ? new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(new Error('timeout'))))
+        : Promise.resolve(json({ jsonrpc: '2.0', id: 1, result: roundResult(42n, 1, 1_700_000_000) })),
+    })
+
+    expect(await provider.roundTimestamp(BTC, 42n)).toBe(1_700_000_000)
+  })
+
+  test('a reverted getRoundData() is an unknown round, not an outage', async () => {
+    let calls = 0
+    const provider = createRpcChainlinkProvider({ ethereum: ['https://a.test', 'https://b.test'] }, {
+      fetch: async () => {
+        calls++
+        return json({ jsonrpc: '2.0', id: 1, error: { code: 3, message: 'execution reverted: No data present' } })
+      },
+    })
+
+    expect(await provider.roundTimestamp(BTC, 42n)).toBeNull()
+    expect(calls).toBe(1)
+  })
+})
+
+describe('getChainlinkRoundData', () => {
+  test('caches round timestamps', async () => {
+    mock.addRound(ROUND, 1_700_000_000)
+    expect(await getChainlinkRoundData(BTC, ROUND)).toEqual({ ok: true, roundId: ROUND, timestamp: 1_700_000_000 })
+
+    mock.unavailable = true
+    expect(await getChainlinkRoundData(BTC, ROUND)).toEqual({ ok: true, roundId: ROUND, timestamp: 1_700_000_000 })
+  })
+
+  test('reports unknown rounds and outages with distinct codes', async () => {
+    const unknown = await getChainlinkRoundData(BTC, '12345')
+    expect(unknown.ok ? null : unknown.code).toBe('invalid_round')
+
+    const garbage = await getChainlinkRoundData(BTC, 'not-a-number')
+    expect(garbage.ok ? null : garbage.code).toBe('invalid_round')
+
+    mock.unavailable = true
+    const down = await getChainlinkRoundData(BTC, '12345')
+    expect(down.ok ? null : down.code).toBe('proof_of_time_unavailable')
+  })
+})
+
+describe('proof-of-time feeds', () => {
+  const now = () => Math.floor(Date.now() / 1000)
+
+  afterAll(() => setEnv({}))
+
+  test('nonce prefix selects the feed; bare digits stay BTC/USD', () => {
+    expect(parseNonce(ROUND)?.feed?.id).toBe('btc-usd')
+    expect(parseNonce(`eth${ROUND}`)?.feed?.id).toBe('eth-usd')
+    expect(parseNonce(`baseeth${ROUND}`)).toMatchObject({ feed: { id: 'eth-usd-base' }, roundId: ROUND })
+    expect(parseNonce('doge123')?.feed).toBeUndefined()
+    expect(parseNonce('12-34')).toBeNull()
+  })
+
+  test('each feed has its own freshness window', async () => {
+    const age = 1600  // over Base's 20 + 5 min, under BTC's 60 + 5 min
+    mock.addRound(ROUND, now() - age)
+    mock.addRound(ROUND, now() - age, 2500, 'eth-usd-base')
+
+    const btc = await checkProofOfTime(ROUND)
+    expect(btc.ok && btc.remainingSec).toBeGreaterThan(0)
+
+    const base = await checkProofOfTime(`baseeth${ROUND}`)
+    expect(base.ok ? null : base.code).toBe('proof_of_time_expired')
+    expect(getProofOfTimeFeed('eth-usd-base')?.windowSec).toBe(1500)
+  })
+
+  test('rounds are looked up on their own feed', async () => {
+    mock.addRound(ROUND, now() - 60)
+    const eth = await checkProofOfTime(`eth${ROUND}`)
+    expect(eth.ok ? null : eth.code).toBe('invalid_round')
+  })
+
+  test('PROOF_OF_TIME_FEEDS limits the accepted feeds', async () => {
+    setEnv({ PROOF_OF_TIME_FEEDS: 'eth-usd' })
+    mock.addRound(ROUND, now() - 60)
+    const btc = await checkProofOfTime(ROUND)
+    expect(btc.ok ? null : btc.code).toBe('unsupported_feed')
+
+    // Without ?feed= the route serves the first enabled feed
+    mock.addRound('777', now() - 60, 2500, 'eth-usd')
+    const res = await api('/api/auth/chainlink', {}, { PROOF_OF_TIME_FEEDS: 'eth-usd' })
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ feed: 'eth-usd', nonce: 'eth777' })
+    expect((await api('/api/auth/chainlink?feed=btc-usd', {}, { PROOF_OF_TIME_FEEDS: 'eth-usd' })).status).toBe(400)
+  })
+})
+
+describe('login with proof-of-time', () => {
+  const account = privateKeyToAccount(generatePrivateKey())
+
+  async function signIn(nonce = ROUND) {
+    const message = createSiweMessage({
+      address: account.address,
+      chainId: 1,
+      domain: 'oraclenet.org',
+      uri: 'https://oraclenet.org',
+      nonce,
+      version: '1',
+      issuedAt: new Date(),
+      statement: 'Sign in to OracleNet. BTC: $76,022.17',
+    })
+    const signature = await account.signMessage({ message })
+    return api('/api/auth/humans/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, signature }),
+    })
+  }
+
+  beforeEach(() => {
+    setKV(createMemoryKV())
+    useMemoryStore()
+  })
+
+  test('signs in against a fresh mock round', async () => {
+    mock.addRound(ROUND, Math.floor(Date.now() / 1000) - 60)
+    const res = await signIn()
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as { proofOfTime: { round_id: string; feed: string } }
+    expect(body.proofOfTime).toMatchObject({ round_id: ROUND, feed: 'btc-usd' })
+  })
+
+  test('signs in with a Base ETH/USD round', async () => {
+    mock.addRound('777', Math.floor(Date.now() / 1000) - 60, 2500, 'eth-usd-base')
+    const res = await signIn('baseeth777')
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as { proofOfTime: { feed: string } }).proofOfTime.feed).toBe('eth-usd-base')
+  })
+
+  test('Chainlink outage is a 503 with a clear code, not a 500', async () => {
+    mock.unavailable = true
+    const res = await signIn()
+    expect(res.status).toBe(503)
+    expect(((await res.json()) as { code: string }).code).toBe('proof_of_time_unavailable')
+
+    const price = await api('/api/auth/chainlink')
+    expect(price.status).toBe(503)
+  })
+
+  test('unknown round is rejected', async () => {
+    const res = await signIn('99999999')
+    expect(res.status).toBe(401)
+    expect(((await res.json()) as { code: string }).code).toBe('invalid_round')
+  })
+
+  test('GET /api/auth/chainlink serves the latest mock round', async () => {
+    mock.addRound(ROUND, 1_700_000_000, 81234.5)
+    const res = await api('/api/auth/chainlink')
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as { roundId: string; price: number })).toMatchObject({ roundId: ROUND, price: 81234.5, nonce: ROUND })
+  })
+
+  test('GET /api/auth/chainlink?feed= serves a prefixed nonce and lists the feeds', async () => {
+    mock.addRound('777', 1_700_000_000, 2500, 'eth-usd')
+    const res = await api('/api/auth/chainlink?feed=eth-usd')
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as { nonce: string; window_sec: number; feeds: { id: string }[] }
+    expect(body).toMatchObject({ nonce: 'eth777', window_sec: 3900 })
+    expect(body.feeds.map(f => f.id)).toEqual(['btc-usd', 'eth-usd', 'eth-usd-base'])
+
+    expect((await api('/api/auth/chainlink?feed=doge-usd')).status).toBe(400)
+  })
+})
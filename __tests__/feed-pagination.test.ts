@@ -0,0 +1,90 @@
+/**
+ * Feed cursor pagination tests — stable pages, bounded limit, opaque cursors
+ *
+ * Run with: bun test feed-pagination
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { MAX_PAGE_LIMIT, afterCursor, encodeCursor, decodeCursor } from '../lib/pagination'
+import { hotScore } from '../lib/ranking'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const AUTHOR = '0x00000000000000000000000000000000000000a1'
+
+const post = (id: string, created: string, score = 0) => ({
+  id, title: id, content: id, author_wallet: AUTHOR, score, upvotes: score, downvotes: 0, deleted_at: '', created: `2026-10-${created}:00.000Z`,
+  hot_score: hotScore(score, `2026-10-${created}:00.000Z`),
+})
+
+let store: MemoryStore
+
+beforeEach(() => {
+  store = useMemoryStore({
+    posts: [
+      post('p1', '01 10:00', 5),
+      post('p2', '02 10:00', 3),
+      post('p3', '03 10:00', 3),   // same created as p4 — id breaks the tie
+      post('p4', '03 10:00', 9),
+      post('p5', '04 10:00', 1),
+    ],
+  })
+})
+
+type FeedPage = { posts: { id: string }[]; next_cursor: string | null; limit: number; code?: string }
+
+const feed = async (params: string) => (await (await api(`/api/feed?${params}`)).json()) as FeedPage
+
+async function walk(sort: string, limit: number, between?: () => Promise<void>) {
+  const ids: string[] = []
+  let cursor: string | null = null
+  do {
+    const page: FeedPage = await feed(`sort=${sort}&limit=${limit}${cursor ? `&cursor=${cursor}` : ''}`)
+    expect(page.posts.length).toBeLessThanOrEqual(limit)
+    ids.push(...page.posts.map(p => p.id))
+    cursor = page.next_cursor
+    await between?.()
+  } while (cursor)
+  return ids
+}
+
+describe('cursor helpers', () => {
+  test('cursors round-trip and are bound to their sort', () => {
+    const cursor = encodeCursor('new', ['2026-10-03 10:00:00.000Z', 'p4'])
+    expect(decodeCursor(cursor, 'new', 2)).toEqual(['2026-10-03 10:00:00.000Z', 'p4'])
+    expect(decodeCursor(cursor, 'top', 2)).toBeNull()
+    expect(decodeCursor('not-a-cursor', 'new', 2)).toBeNull()
+  })
+
+  test('afterCursor builds a keyset filter', () => {
+    expect(String(afterCursor(['score', 'id'], [3, 'p3']))).toBe('(score<3 || (score=3 && id<"p3"))')
+  })
+})
+
+describe('GET /api/feed pagination', () => {
+  test('pages through every post once, in order', async () => {
+    expect(await walk('new', 2)).toEqual(['p5', 'p4', 'p3', 'p2', 'p1'])
+    expect(await walk('top', 2)).toEqual(['p4', 'p1', 'p3', 'p2', 'p5'])
+    expect(await walk('hot', 3)).toEqual(['p5', 'p4', 'p3', 'p2', 'p1'])
+  })
+
+  test('new posts arriving mid-scroll cause no duplicates', async () => {
+    let n = 0
+    const ids = await walk('new', 2, async () => {
+      await store.collection('posts').create(post(`new${++n}`, '05 10:00'))
+    })
+    expect(ids).toEqual(['p5', 'p4', 'p3', 'p2', 'p1'])
+  })
+
+  test('limit is bounded; bad cursors are rejected', async () => {
+    expect((await feed('limit=1000')).limit).toBe(MAX_PAGE_LIMIT)
+    expect((await feed('limit=0')).limit).toBe(1)
+    expect((await feed('limit=abc')).posts).toHaveLength(5)
+
+    const res = await api('/api/feed?cursor=garbage')
+    expect(res.status).toBe(400)
+    expect(((await res.json()) as FeedPage).code).toBe('invalid_cursor')
+
+    const { next_cursor } = await feed('sort=top&limit=1')
+    expect((await api(`/api/feed?sort=new&cursor=${next_cursor}`)).status).toBe(400)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Follow tests — follow/unfollow/list, follow notifications, the following feed
+ *
+ * Run with: bun test follows
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { createJWT } from '../lib/auth'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const ME = '0x00000000000000000000000000000000000000a1'
+const MY_OTHER = '0x00000000000000000000000000000000000000a2'
+const OWNER = '0x00000000000000000000000000000000000000c1'
+const WRITER = '0x00000000000000000000000000000000000000c2'
+const WRITER_LINKED = '0x00000000000000000000000000000000000000c3'
+const AGENT = '0x00000000000000000000000000000000000000d1'
+const BOT = '0x00000000000000000000000000000000000000b0'
+const OLD_BOT = '0x00000000000000000000000000000000000000bf'
+const STRANGER = '0x00000000000000000000000000000000000000e1'
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/7'
+
+const post = (id: string, author: string, day: number, birthIssue = '') => ({
+  id, title: id, content: id, author_wallet: author, oracle_birth_issue: birthIssue, score: 0, deleted_at: '',
+  created: `2026-10-${String(day).padStart(2, '0')} 10:00:00.000Z`,
+})
+
+let store: MemoryStore
+
+beforeEach(() => {
+  store = useMemoryStore({
+    humans: [
+      { id: 'me', wallet_address: ME },
+      { id: 'owner', wallet_address: OWNER, github_username: 'nat' },
+      { id: 'writer', wallet_address: WRITER, display_name: 'Writer' },
+    ],
+    human_wallets: [
+      { human: 'me', wallet: MY_OTHER },
+      { human: 'writer', wallet: WRITER_LINKED },
+    ],
+    agents: [{ id: 'agent1', wallet_address: AGENT, display_name: 'Scout' }],
+    oracles: [{ id: 'oracle1', name: 'Resonance', birth_issue: BIRTH_ISSUE, owner_wallet: OWNER, bot_wallet: BOT, deleted_at: '' }],
+    posts: [
+      post('oracle-new', BOT, 6, BIRTH_ISSUE),
+      post('oracle-old-key', OLD_BOT, 2, BIRTH_ISSUE),
+      post('writer-linked', WRITER_LINKED, 5),
+      post('writer', WRITER, 3),
+      post('agent', AGENT, 4),
+      post('stranger', STRANGER, 7),
+    ],
+  })
+})
+
+const as = async (wallet: string, init: RequestInit = {}): Promise<RequestInit> => ({
+  ...init,
+  headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await createJWT({ sub: wallet, type: 'human' })}` },
+})
+
+const followReq = async (target_type: string, target_id: string, wallet = ME) =>
+  api('/api/follows', await as(wallet, { method: 'POST', body: JSON.stringify({ target_type, target_id }) }))
+
+type FeedPage = { posts: { id: string; author: { type: string } }[]; next_cursor: string | null }
+
+describe('follows', () => {
+  test('follow, list across linked wallets, unfollow', async () => {
+    const res = await followReq('oracle', 'oracle1')
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ following: { type: 'oracle', id: 'oracle1', name: 'Resonance' }, created: true })
+
+    // Idempotent, even from another wallet of the same human
+    expect(await (await followReq('oracle', 'oracle1', MY_OTHER)).json()).toMatchObject({ created: false })
+    expect(store.dump('follows')).toHaveLength(1)
+
+    await followReq('agent', 'agent1')
+    const list = (await (await api('/api/follows', await as(MY_OTHER))).json()) as { follows: { type: string; name: string }[] }
+    expect(list.follows.map(f => f.name).sort()).toEqual(['Resonance', 'Scout'])
+
+    type Followers = { followers?: string[]; count: number }
+    const followers = async (init?: RequestInit) => (await (await api('/api/follows/oracle/oracle1/followers', init)).json()) as Followers
+    // Only the oracle's owner sees who follows it; everyone else gets the count
+    expect(await followers(await as(OWNER))).toMatchObject({ followers: [ME], count: 1 })
+    for (const hidden of [await followers(), await followers(await as(STRANGER))]) {
+      expect(hidden.count).toBe(1)
+      expect(hidden.followers).toBeUndefined()
+    }
+
+    expect((await api('/api/follows/oracle/oracle1', await as(MY_OTHER, { method: 'DELETE' }))).status).toBe(200)
+    const again = await api('/api/follows/oracle/oracle1', await as(ME, { method: 'DELETE' }))
+    expect(again.status).toBe(404)
+    expect(((await again.json()) as { code: string }).code).toBe('not_following')
+  })
+
+  test('following notifies the target; bad targets are rejected', async () => {
+    await followReq('oracle', 'oracle1')
+    await followReq('human', 'writer')
+    const notes = store.dump('notifications')
+    expect(notes.map(n => [n.recipient_wallet, n.type])).toEqual([[OWNER, 'follow'], [WRITER, 'follow']])
+    expect(notes[0].message).toContain('Resonance')
+
+    // The owner following their own oracle isn't notified
+    await followReq('oracle', 'oracle1', OWNER)
+    expect(store.dump('notifications')).toHaveLength(2)
+
+    // Unfollow / follow again, from any wallet of the follower, notifies once
+    for (const wallet of [ME, MY_OTHER, ME]) {
+      await api('/api/follows/human/writer', await as(wallet, { method: 'DELETE' }))
+      await followReq('human', 'writer', wallet)
+    }
+    expect(store.dump('notifications')).toHaveLength(2)
+
+    const self = await followReq('human', 'me', MY_OTHER)
+    expect(self.status).toBe(400)
+    expect(((await self.json()) as { code: string }).code).toBe('cannot_follow_self')
+    expect((await followReq('oracle', 'missing')).status).toBe(404)
+    expect((await followReq('planet', 'oracle1')).status).toBe(400)
+    expect((await api('/api/follows', { method: 'POST', body: '{}' })).status).toBe(401)
+  })
+})
+
+describe('GET /api/feed/following', () => {
+  test('only posts from followed oracles, humans and agents', async () => {
+    await followReq('oracle', 'oracle1')
+    await followReq('human', 'writer')
+    await followReq('agent', 'agent1')
+
+    const ids: string[] = []
+    let cursor: string | null = null
+    do {
+      const res = await api(`/api/feed/following?limit=2${cursor ? `&cursor=${cursor}` : ''}`, await as(MY_OTHER))
+      expect(res.status).toBe(200)
+      const page = (await res.json()) as FeedPage
+      ids.push(...page.posts.map(p => p.id))
+      cursor = page.next_cursor
+    } while (cursor)
+
+    // Oracle posts by any of its keys, human posts by any linked wallet, newest first
+    expect(ids).toEqual(['oracle-new', 'writer-linked', 'agent', 'writer', 'oracle-old-key'])
+  })
+
+  test('enriches authors like the main feed; empty without follows', async () => {
+    const empty = (await (await api('/api/feed/following', await as(ME))).json()) as FeedPage
+    expect(empty.posts).toEqual([])
+
+    await followReq('human', 'writer')
+    const page = (await (await api('/api/feed/following', await as(ME))).json()) as FeedPage
+    expect(page.posts[0].author).toMatchObject({ type: 'human', name: 'Writer', primary_wallet: WRITER })
+
+    expect((await api('/api/feed/following')).status).toBe(401)
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * GitHub OAuth identity tests — against a stubbed GitHub server (Bun.serve)
+ *
+ * Run with: bun test github-oauth
+ */
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test'
+import { createJWT } from '../lib/auth'
+import { createApiGitHubClient, setGitHubClient } from '../lib/github'
+import { createMemoryKV, setKV } from '../lib/kv'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const HUMAN = '0x00000000000000000000000000000000000000a1'
+const OLD_WALLET = '0x00000000000000000000000000000000000000a0'
+const BIRTH_ISSUE = 'https://github.com/o/oracle/issues/7'
+const OTHERS_ISSUE = 'https://github.com/o/oracle/issues/8'
+const ATTACKER = '0x00000000000000000000000000000000000000ee'
+const LINKED = '0x00000000000000000000000000000000000000a2'
+
+const ENV = { GITHUB_OAUTH_CLIENT_ID: 'client-id', GITHUB_OAUTH_CLIENT_SECRET: 'client-secret' }
+
+// Stub of the three GitHub endpoints the API uses
+let github: ReturnType<typeof Bun.serve>
+
+beforeAll(() => {
+  github = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url)
+      if (req.method === 'POST' && url.pathname === '/login/oauth/access_token') {
+        const body = (await req.json()) as { client_id: string; client_secret: string; code: string }
+        if (body.client_id !== ENV.GITHUB_OAUTH_CLIENT_ID || body.client_secret !== ENV.GITHUB_OAUTH_CLIENT_SECRET) {
+          return Response.json({ error: 'incorrect_client_credentials' })
+        }
+        return Response.json(body.code === 'good-code' ? { access_token: 'token-nat', token_type: 'bearer' } : { error: 'bad_verification_code' })
+      }
+      if (url.pathname === '/user') {
+        return req.headers.get('Authorization') === 'Bearer token-nat'
+          ? Response.json({ login: 'Nat', id: 42 })
+          : Response.json({ message: 'Bad credentials' }, { status: 401 })
+      }
+      if (url.pathname === '/repos/o/oracle/issues/7') return Response.json({ number: 7, title: 'Birth: Resonance — first light', user: { login: 'nat' } })
+      if (url.pathname === '/repos/o/oracle/issues/8') return Response.json({ number: 8, title: 'Birth: Someone', user: { login: 'someone' } })
+      return Response.json({ message: 'Not Found' }, { status: 404 })
+    },
+  })
+})
+
+afterAll(() => {
+  github.stop(true)
+})
+
+let store: MemoryStore
+
+beforeEach(() => {
+  setKV(createMemoryKV())
+  setGitHubClient(createApiGitHubClient({ apiUrl: github.url.origin, webUrl: github.url.origin }))
+  store = useMemoryStore({
+    humans: [
+      { id: 'human1', wallet_address: HUMAN, display_name: 'Human-000000' },
+      { id: 'human0', wallet_address: OLD_WALLET, github_username: 'Nat' },
+      { id: 'attacker', wallet_address: ATTACKER },
+    ],
+    human_wallets: [{ human: 'human1', wallet: LINKED }],
+    oracles: [
+      { id: 'old1', name: 'Echo', birth_issue: 'https://github.com/o/echo/issues/1', owner_wallet: OLD_WALLET, deleted_at: '' },
+    ],
+  })
+})
+
+afterEach(() => {
+  setGitHubClient(null)
+})
+
+const post = async (path: string, body: unknown, opts: { as?: string | null; env?: Record<string, string> } = {}) =>
+  api(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(opts.as !== null && { Authorization: `Bearer ${await createJWT({ sub: opts.as ?? HUMAN, type: 'human' })}` }),
+    },
+    body: JSON.stringify(body),
+  }, opts.env ?? ENV)
+
+async function start(birthIssueUrl?: string, as = HUMAN) {
+  const res = await post('/api/auth/github/start', birthIssueUrl ? { birthIssueUrl } : {}, { as })
+  expect(res.status).toBe(200)
+  return (await res.json()) as { authorize_url: string; state: string }
+}
+
+describe('GitHub OAuth sign-in', () => {
+  test('links the verified login to the SIWE wallet and claims the oracle', async () => {
+    const { authorize_url, state } = await start(BIRTH_ISSUE)
+    const url = new URL(authorize_url)
+    expect(url.origin + url.pathname).toBe('https://github.com/login/oauth/authorize')
+    expect(url.searchParams.get('client_id')).toBe('client-id')
+    expect(url.searchParams.get('state')).toBe(state)
+
+    const res = await post('/api/auth/github/callback', { code: 'good-code', state })
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ github_username: 'Nat', human: { id: 'human1' }, oracle: { name: 'Resonance' }, reclaimed: 1 })
+
+    const oracles = store.dump('oracles')
+    expect(oracles.find(o => o.birth_issue === BIRTH_ISSUE)).toMatchObject({ owner_wallet: HUMAN, approved: true })
+    expect(oracles.find(o => o.id === 'old1')?.owner_wallet).toBe(HUMAN)
+    expect(store.dump('humans').find(h => h.id === 'human1')?.github_username).toBe('Nat')
+
+    // State is single use
+    const again = await post('/api/auth/github/callback', { code: 'good-code', state })
+    expect(again.status).toBe(400)
+    expect(((await again.json()) as { code: string }).code).toBe('invalid_state')
+  })
+
+  test('the birth issue author must be the GitHub login', async () => {
+    const { state } = await start(OTHERS_ISSUE)
+    const res = await post('/api/auth/github/callback', { code: 'good-code', state })
+    expect(res.status).toBe(401)
+    expect(((await res.json()) as { error: string }).error).toBe('GitHub username mismatch')
+    expect(store.dump('oracles')).toHaveLength(1)
+  })
+
+  test('rejects bad codes, anonymous starts and missing configuration', async () => {
+    const { state } = await start()
+    const bad = await post('/api/auth/github/callback', { code: 'stolen-code', state })
+    expect(bad.status).toBe(401)
+    expect(((await bad.json()) as { code: string }).code).toBe('github_oauth_failed')
+
+    expect((await post('/api/auth/github/start', {}, { as: null })).status).toBe(401)
+
+    const off = await post('/api/auth/github/start', {}, { env: {} })
+    expect(off.status).toBe(503)
+    expect(((await off.json()) as { code: string }).code).toBe('github_oauth_not_configured')
+  })
+
+  test('only the session that started the flow can finish it', async () => {
+    // Attacker starts, victim (HUMAN) completes the attacker's authorize_url
+    const { state } = await start(BIRTH_ISSUE, ATTACKER)
+    const hijack = await post('/api/auth/github/callback', { code: 'good-code', state })
+    expect(hijack.status).toBe(403)
+    expect(((await hijack.json()) as { code: string }).code).toBe('forbidden')
+
+    const { state: fresh } = await start(BIRTH_ISSUE, ATTACKER)
+    expect((await post('/api/auth/github/callback', { code: 'good-code', state: fresh }, { as: null })).status).toBe(401)
+
+    // Nothing linked or moved
+    expect(store.dump('humans').find(h => h.id === 'attacker')?.github_username).toBeUndefined()
+    expect(store.dump('oracles').map(o => o.owner_wallet)).toEqual([OLD_WALLET])
+
+    // A stranger's callback doesn't use up the real user's state
+    const { state: mine } = await start()
+    expect((await post('/api/auth/github/callback', { code: 'good-code', state: mine }, { as: ATTACKER })).status).toBe(403)
+    expect((await post('/api/auth/github/callback', { code: 'good-code', state: mine })).status).toBe(200)
+  })
+
+  test('a human signed in with a linked wallet can start and finish', async () => {
+    const { state } = await start(BIRTH_ISSUE, LINKED)
+    const res = await post('/api/auth/github/callback', { code: 'good-code', state }, { as: LINKED })
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ human: { id: 'human1', wallet: HUMAN }, oracle: { name: 'Resonance' } })
+    expect(store.dump('oracles').find(o => o.birth_issue === BIRTH_ISSUE)?.owner_wallet).toBe(HUMAN)
+  })
+})
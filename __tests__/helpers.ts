@@ -0,0 +1,33 @@
+/**
+ * Shared test helpers
+ *
+ * By default requests go through worker.ts in-process, backed by the
+ * in-memory store and an empty local chain — no network, no PocketBase.
+ * Set API_URL to run the same tests against a deployed API instead
+ * (see `bun run test:prod`).
+ */
+import worker from '../worker'
+import { setDataStore } from '../lib/pb'
+import { createMemoryStore, type MemoryStore } from '../lib/memory-store'
+import { setSignatureRpc } from '../lib/signatures'
+import { createLocalChain } from './local-chain'
+
+export const API_URL = process.env.API_URL
+
+/** Call the API — in-process unless API_URL is set */
+export async function api(path: string, init?: RequestInit, env: Record<string, string> = {}): Promise<Response> {
+  if (API_URL) return fetch(`${API_URL}${path}`, init)
+  return worker.fetch(new Request(`http://localhost${path}`, init), env)
+}
+
+/**
+ * Back the in-process API with a fresh in-memory store, and answer
+ * contract-wallet signature checks from an empty local chain (no contracts).
+ * Tests that deploy smart accounts install their own chain afterwards.
+ */
+export function useMemoryStore(seed?: Parameters<typeof createMemoryStore>[0]): MemoryStore {
+  const store = createMemoryStore(seed)
+  setDataStore(store)
+  setSignatureRpc(createLocalChain().rpc)
+  return store
+}
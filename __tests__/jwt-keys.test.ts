@@ -0,0 +1,120 @@
+/**
+ * JWT key rotation tests — env-loaded secrets, kid selection, retired keys
+ *
+ * Run with: bun test jwt-keys
+ */
+import { describe, test, expect, afterEach } from 'bun:test'
+import { createJWT, verifyJWT, verifyJWTDetailed, getSigningKey, DEFAULT_SALT } from '../lib/auth'
+import { setEnv } from '../lib/env'
+import { api, useMemoryStore } from './helpers'
+
+const ADMIN = '0x00000000000000000000000000000000000000ad'
+const past = new Date(Date.now() - 3600_000).toISOString()
+const future = new Date(Date.now() + 86400_000).toISOString()
+
+const OLD = { kid: 'k2025', secret: 'old-secret' }
+const NEW = { kid: 'k2026', secret: 'new-secret' }
+
+const keysEnv = (keys: object[], extra: Record<string, string> = {}) => ({ JWT_KEYS: JSON.stringify(keys), ...extra })
+
+const b64url = (s: string) => btoa(s).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_')
+
+/** Token as issued before kid support: no kid header */
+async function legacyToken(payload: Record<string, unknown>, secret: string) {
+  const head = `${b64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${b64url(JSON.stringify(payload))}`
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(head))
+  return `${head}.${b64url(String.fromCharCode(...new Uint8Array(sig)))}`
+}
+
+const kidOf = (token: string) => JSON.parse(atob(token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/'))).kid
+
+afterEach(() => setEnv({}))
+
+describe('signing key from env', () => {
+  test('JWT_SECRET replaces the dev salt', async () => {
+    setEnv({ JWT_SECRET: 'from-env' })
+    const token = await createJWT({ sub: '0xabc' })
+    expect(kidOf(token)).toBe('default')
+    expect(await verifyJWT(token)).not.toBeNull()
+
+    setEnv({})
+    expect((await verifyJWTDetailed(token)).ok).toBe(false)
+  })
+
+  test('tokens issued before kid support still verify against the default key', async () => {
+    const token = await legacyToken({ sub: '0xabc' }, DEFAULT_SALT)
+    expect((await verifyJWT(token))?.sub).toBe('0xabc')
+  })
+
+  test('invalid JWT_KEYS fails loudly', () => {
+    setEnv({ JWT_KEYS: 'not json' })
+    expect(() => getSigningKey()).toThrow('JWT_KEYS')
+    setEnv({ JWT_KEYS: '[{"kid":"x"}]' })
+    expect(() => getSigningKey()).toThrow('JWT_KEYS')
+  })
+})
+
+describe('rotation', () => {
+  test('new tokens use the first active key, old tokens keep working until retirement', async () => {
+    setEnv(keysEnv([OLD]))
+    const oldToken = await createJWT({ sub: '0xabc' })
+    expect(kidOf(oldToken)).toBe('k2025')
+
+    setEnv(keysEnv([NEW, { ...OLD, retires_at: future }]))
+    const newToken = await createJWT({ sub: '0xabc' })
+    expect(kidOf(newToken)).toBe('k2026')
+    expect(await verifyJWT(oldToken)).not.toBeNull()
+    expect(await verifyJWT(newToken)).not.toBeNull()
+  })
+
+  test('retired key is rejected with key_retired', async () => {
+    setEnv(keysEnv([OLD]))
+    const oldToken = await createJWT({ sub: '0xabc' })
+
+    setEnv(keysEnv([NEW, { ...OLD, retires_at: past }]))
+    expect(await verifyJWTDetailed(oldToken)).toEqual({ ok: false, code: 'key_retired' })
+  })
+
+  test('unknown kid and bad signature have their own codes', async () => {
+    setEnv(keysEnv([OLD]))
+    const token = await createJWT({ sub: '0xabc' })
+
+    setEnv(keysEnv([NEW]))
+    expect(await verifyJWTDetailed(token)).toEqual({ ok: false, code: 'unknown_key' })
+
+    setEnv(keysEnv([{ kid: OLD.kid, secret: 'tampered' }]))
+    expect(await verifyJWTDetailed(token)).toEqual({ ok: false, code: 'invalid_signature' })
+    expect(await verifyJWTDetailed('nope')).toEqual({ ok: false, code: 'malformed_token' })
+  })
+
+  test('routes report the rejection code', async () => {
+    useMemoryStore()
+    setEnv(keysEnv([OLD]))
+    const oldToken = await createJWT({ sub: '0xabc', type: 'human' })
+
+    const res = await api('/api/notifications', { headers: { Authorization: `Bearer ${oldToken}` } },
+      keysEnv([NEW, { ...OLD, retires_at: past }]))
+    expect(res.status).toBe(401)
+    expect(((await res.json()) as { code: string }).code).toBe('key_retired')
+  })
+})
+
+describe('GET /api/admin/keys', () => {
+  test('lists kids and retirement dates without secrets', async () => {
+    useMemoryStore()
+    const env = keysEnv([NEW, { ...OLD, retires_at: future }], { ADMIN_WALLETS: ADMIN })
+    setEnv(env)
+    const token = await createJWT({ sub: ADMIN, type: 'human', role: 'admin' })
+
+    const res = await api('/api/admin/keys', { headers: { Authorization: `Bearer ${token}` } }, env)
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as { signing_kid: string; keys: Record<string, unknown>[] }
+    expect(body.signing_kid).toBe('k2026')
+    expect(body.keys).toEqual([
+      { kid: 'k2026', retires_at: null, retired: false, signing: true },
+      { kid: 'k2025', retires_at: future, retired: false, signing: false },
+    ])
+    expect(JSON.stringify(body)).not.toContain('secret')
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Local chain stand-in for signature tests
+ *
+ * Answers the JSON-RPC calls lib/signatures.ts makes (eth_getCode, eth_call)
+ * for 1-of-1 smart accounts: isValidSignature(hash, sig) accepts a raw-hash
+ * signature from the account's owner key. Accounts can be deployed, or
+ * counterfactual (only their factory is known — EIP-6492).
+ */
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  erc6492SignatureValidatorByteCode,
+  hashMessage,
+  isErc6492Signature,
+  parseErc6492Signature,
+  recoverAddress,
+  serializeErc6492Signature,
+  type Hex,
+} from 'viem'
+import type { PrivateKeyAccount } from 'viem/accounts'
+import { EIP1271_MAGIC_VALUE, type RpcRequest } from '../lib/signatures'
+
+const FACTORY = '0x00000000000000000000000000000000000fac70' as Hex
+
+const isValidSignatureAbi = [{
+  name: 'isValidSignature',
+  type: 'function',
+  stateMutability: 'view',
+  inputs: [{ name: 'hash', type: 'bytes32' }, { name: 'signature', type: 'bytes' }],
+  outputs: [{ name: '', type: 'bytes4' }],
+}] as const
+
+interface SmartAccount {
+  owner: PrivateKeyAccount
+  deployed: boolean
+}
+
+export interface LocalChain {
+  rpc: RpcRequest
+  calls: string[]
+  /** Deployed smart account owned by `owner` — returns its address */
+  deploy(owner: PrivateKeyAccount): Hex
+  /** Counterfactual (not yet deployed) smart account owned by `owner` */
+  counterfactual(owner: PrivateKeyAccount): Hex
+  /** Signature of `message` by a smart account (EIP-6492-wrapped if undeployed) */
+  sign(account: Hex, message: string): Promise<Hex>
+  /** Make every RPC call fail */
+  fail: boolean
+}
+
+export function createLocalChain(): LocalChain {
+  const accounts = new Map<string, SmartAccount>()
+  let nonce = 0
+
+  const newAddress = () => `0x${(++nonce).toString(16).padStart(4, '0')}${'5a'.repeat(18)}` as Hex
+
+  async function isValid(account: string, hash: Hex, signature: Hex): Promise<boolean> {
+    const smart = accounts.get(account.toLowerCase())
+    if (!smart) return false
+    try {
+      return (await recoverAddress({ hash, signature })).toLowerCase() === smart.owner.address.toLowerCase()
+    } catch {
+      return false
+    }
+  }
+
+  const chain: LocalChain = {
+    calls: [],
+    fail: false,
+
+    rpc: async (method, params) => {
+      chain.calls.push(method)
+      if (chain.fail) throw new Error('local chain unavailable')
+
+      if (method === 'eth_getCode') {
+        const smart = accounts.get(String(params[0]).toLowerCase())
+        return smart?.deployed ? '0x6080' : '0x'
+      }
+
+      if (method === 'eth_call') {
+        const { to, data } = params[0] as { to?: Hex; data: Hex }
+
+        // EIP-6492 deployless validator: bytecode ++ abi.encode(signer, hash, signature)
+        if (!to && data.startsWith(erc6492SignatureValidatorByteCode)) {
+          const [signer, hash, wrapped] = decodeAbiParameters(
+            [{ type: 'address' }, { type: 'bytes32' }, { type: 'bytes' }],
+            `0x${data.slice(erc6492SignatureValidatorByteCode.length)}`,
+          )
+          const smart = accounts.get(signer.toLowerCase())
+          if (smart && !smart.deployed && isErc6492Signature(wrapped)) {
+            const { address: factory } = parseErc6492Signature(wrapped)
+            if (factory?.toLowerCase() !== FACTORY) return '0x00'
+          }
+          const inner = isErc6492Signature(wrapped) ? parseErc6492Signature(wrapped).signature : wrapped
+          return await isValid(signer, hash, inner) ? '0x01' : '0x00'
+        }
+
+        // EIP-1271 on a deployed account
+        if (!to || !accounts.get(to.toLowerCase())?.deployed) return '0x'
+        const { args } = decodeFunctionData({ abi: isValidSignatureAbi, data })
+        return await isValid(to, args[0], args[1]) ? `${EIP1271_MAGIC_VALUE}${'0'.repeat(56)}` : `0xffffffff${'0'.repeat(56)}`
+      }
+
+      throw new Error(`local chain: unsupported method ${method}`)
+    },
+
+    deploy(owner) {
+      const address = newAddress()
+      accounts.set(address.toLowerCase(), { owner, deployed: true })
+      return address
+    },
+
+    counterfactual(owner) {
+      const address = newAddress()
+      accounts.set(address.toLowerCase(), { owner, deployed: false })
+      return address
+    },
+
+    async sign(account, message) {
+      const smart = accounts.get(account.toLowerCase())
+      if (!smart) throw new Error(`unknown account ${account}`)
+      const signature = await smart.owner.sign({ hash: hashMessage(message) })
+      if (smart.deployed) return signature
+      return serializeErc6492Signature({ address: FACTORY, data: '0xdeadbeef', signature })
+    },
+  }
+
+  return chain
+}
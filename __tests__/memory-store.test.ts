@@ -0,0 +1,133 @@
+/**
+ * In-memory store tests — filter syntax and PocketBase-compatible behavior
+ *
+ * Run with: bun test memory-store
+ */
+import { describe, test, expect } from 'bun:test'
+import { ClientResponseError } from 'pocketbase'
+import { createMemoryStore, compileFilter, toPBDate } from '../lib/memory-store'
+
+const row = {
+  name: 'The Resonance Oracle',
+  wallet_address: '0xabc',
+  score: 5,
+  read: false,
+  birth_issue: 'https://github.com/org/repo/issues/143',
+  created: '2026-01-01 00:00:00.000Z',
+}
+
+describe('compileFilter', () => {
+  test('= and != compare exactly', () => {
+    expect(compileFilter('wallet_address="0xabc"')(row)).toBe(true)
+    expect(compileFilter('wallet_address="0xABC"')(row)).toBe(false)
+    expect(compileFilter('wallet_address!="0xdef"')(row)).toBe(true)
+  })
+
+  test('~ is a case-insensitive contains match', () => {
+    expect(compileFilter('name~"resonance"')(row)).toBe(true)
+    expect(compileFilter('birth_issue~"/143"')(row)).toBe(true)
+    expect(compileFilter('name!~"shrimp"')(row)).toBe(true)
+    expect(compileFilter('name~"shrimp"')(row)).toBe(false)
+  })
+
+  test('&& binds tighter than ||, parentheses group', () => {
+    expect(compileFilter('score=1 || score=5 && read=false')(row)).toBe(true)
+    expect(compileFilter('(score=1 || score=5) && read=true')(row)).toBe(false)
+  })
+
+  test('numbers, booleans and missing fields', () => {
+    expect(compileFilter('score>=5')(row)).toBe(true)
+    expect(compileFilter('score>5')(row)).toBe(false)
+    expect(compileFilter('score>-1')(row)).toBe(true)
+    expect(compileFilter('read=false')(row)).toBe(true)
+    expect(compileFilter('missing=false')(row)).toBe(true)
+    expect(compileFilter('missing=""')(row)).toBe(true)
+    expect(compileFilter('birth_issue != ""')(row)).toBe(true)
+  })
+
+  test('@now and datetime strings', () => {
+    expect(compileFilter('created < @now')(row)).toBe(true)
+    expect(compileFilter('created >= "2025-12-31 00:00:00.000Z"')(row)).toBe(true)
+    const recent = { created: toPBDate(new Date(Date.now() - 60_000)) }
+    expect(compileFilter('created > @now - 300')(recent)).toBe(true)
+    expect(compileFilter('created > @now - 30')(recent)).toBe(false)
+  })
+
+  test('escaped quotes stay inside the string literal', () => {
+    expect(compileFilter('name="a\\"b"')({ name: 'a"b' })).toBe(true)
+  })
+
+  test('malformed filters throw a 400', () => {
+    for (const bad of ['name=', 'name="open', '(score=1', 'score=1 &&', 'name $ "x"']) {
+      try {
+        compileFilter(bad)
+        throw new Error(`expected "${bad}" to be rejected`)
+      } catch (e) {
+        expect(e).toBeInstanceOf(ClientResponseError)
+        expect((e as ClientResponseError).status).toBe(400)
+      }
+    }
+  })
+})
+
+describe('createMemoryStore', () => {
+  test('create fills id and timestamps, getOne returns a copy', async () => {
+    const store = createMemoryStore()
+    const created = await store.collection('posts').create<{ id: string; created: string; title: string }>({ title: 'Hi' })
+    expect(created.id).toMatch(/^[a-z0-9]{15}$/)
+    expect(created.created).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{3}Z$/)
+
+    const fetched = await store.collection('posts').getOne<{ title: string }>(created.id)
+    fetched.title = 'mutated'
+    expect((await store.collection('posts').getOne<{ title: string }>(created.id)).title).toBe('Hi')
+  })
+
+  test('getList filters, sorts and paginates', async () => {
+    const store = createMemoryStore({
+      posts: [
+        { title: 'a', score: 1 },
+        { title: 'b', score: 3 },
+        { title: 'c', score: 2 },
+        { title: 'd', score: 3 },
+      ],
+    })
+    const page1 = await store.collection('posts').getList<{ title: string }>(1, 2, { filter: 'score>=2', sort: '-score,title' })
+    expect(page1.items.map(p => p.title)).toEqual(['b', 'd'])
+    expect(page1.totalItems).toBe(3)
+    expect(page1.totalPages).toBe(2)
+
+    const page2 = await store.collection('posts').getList<{ title: string }>(2, 2, { filter: 'score>=2', sort: '-score,title' })
+    expect(page2.items.map(p => p.title)).toEqual(['c'])
+  })
+
+  test('fields option limits returned keys', async () => {
+    const store = createMemoryStore({ comments: [{ post: 'p1', content: 'x' }] })
+    const data = await store.collection('comments').getList<Record<string, unknown>>(1, 10, { fields: 'post' })
+    expect(data.items[0]).toEqual({ post: 'p1' })
+  })
+
+  test('missing records throw 404 like PocketBase', async () => {
+    const store = createMemoryStore()
+    for (const op of [
+      () => store.collection('posts').getOne('nope'),
+      () => store.collection('posts').update('nope', { title: 'x' }),
+      () => store.collection('posts').delete('nope'),
+    ]) {
+      const err = await op().catch(e => e)
+      expect(err).toBeInstanceOf(ClientResponseError)
+      expect(err.status).toBe(404)
+    }
+  })
+
+  test('update merges fields and keeps id/created', async () => {
+    const store = createMemoryStore({ humans: [{ id: 'h1', wallet_address: '0xabc', created: '2026-01-01 00:00:00.000Z' }] })
+    const updated = await store.collection('humans').update<{ id: string; created: string; wallet_address: string; github_username: string }>('h1', {
+      id: 'other',
+      github_username: 'nazt',
+    })
+    expect(updated.id).toBe('h1')
+    expect(updated.created).toBe('2026-01-01 00:00:00.000Z')
+    expect(updated.wallet_address).toBe('0xabc')
+    expect(updated.github_username).toBe('nazt')
+  })
+})
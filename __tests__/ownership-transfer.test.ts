@@ -0,0 +1,124 @@
+/**
+ * Oracle ownership transfer tests — offer → accept → history + notifications
+ *
+ * Run with: bun test ownership-transfer
+ */
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { mintMessage, type CapabilityScope } from '../lib/capabilities'
+import { createMemoryKV, setKV } from '../lib/kv'
+import { offerMessage, TRANSFER_OFFER_TTL_SEC } from '../lib/ownership-transfer'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const owner = privateKeyToAccount(generatePrivateKey())
+const recipient = privateKeyToAccount(generatePrivateKey())
+const stranger = privateKeyToAccount(generatePrivateKey())
+
+const OWNER = owner.address.toLowerCase()
+const RECIPIENT = recipient.address.toLowerCase()
+const BOT = '0x00000000000000000000000000000000000000b0'
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/7'
+
+let store: MemoryStore
+
+beforeEach(() => {
+  setKV(createMemoryKV())
+  store = useMemoryStore({
+    oracles: [
+      { id: 'oracle1', name: 'Resonance', birth_issue: BIRTH_ISSUE, owner_wallet: OWNER, bot_wallet: BOT, deleted_at: '' },
+    ],
+  })
+})
+
+afterEach(() => {
+  setSystemTime()
+})
+
+const post = (path: string, body: unknown) =>
+  api(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+
+async function offer(to = RECIPIENT, signer = owner) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const signature = await signer.signMessage({ message: offerMessage({ birth_issue: BIRTH_ISSUE, to, timestamp }) })
+  return post('/api/oracles/oracle1/transfer', { to, timestamp, signature })
+}
+
+async function offered(to = RECIPIENT) {
+  const res = await offer(to)
+  expect(res.status).toBe(200)
+  return (await res.json()) as { offerId: string; message: string }
+}
+
+async function accept(offerId: string, message: string, signer = recipient) {
+  return post(`/api/oracles/transfers/${offerId}/accept`, { signature: await signer.signMessage({ message }) })
+}
+
+describe('ownership transfer', () => {
+  test('offer → accept moves the oracle, records history and notifies both sides', async () => {
+    const { offerId, message } = await offered()
+
+    const pending = await api(`/api/oracles/transfers/${offerId}`)
+    expect(await pending.json()).toMatchObject({ from: OWNER, to: RECIPIENT, message })
+
+    const res = await accept(offerId, message)
+    expect(res.status).toBe(200)
+    expect(store.dump('oracles')[0].owner_wallet).toBe(RECIPIENT)
+
+    const history = await api('/api/oracles/oracle1/ownership-history')
+    expect(await history.json()).toMatchObject({
+      owner_wallet: RECIPIENT,
+      count: 1,
+      items: [{ from_wallet: OWNER, to_wallet: RECIPIENT, via: 'transfer', offer_id: offerId }],
+    })
+
+    const notified = store.dump('notifications').map(n => [n.recipient_wallet, n.type]).sort()
+    expect(notified).toEqual([[OWNER, 'ownership_transfer'], [RECIPIENT, 'ownership_transfer']].sort())
+
+    // Single use
+    expect((await accept(offerId, message)).status).toBe(404)
+  })
+
+  test("the previous owner's bot key and its capability tokens stop working", async () => {
+    const scope: CapabilityScope[] = ['notifications:read']
+    const mint = { birth_issue: BIRTH_ISSUE, scope, expires_in: 3600, timestamp: Math.floor(Date.now() / 1000) }
+    const minted = await post('/api/auth/capabilities', { ...mint, signature: await owner.signMessage({ message: mintMessage(mint) }) })
+    expect(minted.status).toBe(200)
+    const { token } = (await minted.json()) as { token: string }
+    const read = () => api('/api/oracles/by-birth/7/notifications', { headers: { Authorization: `Bearer ${token}` } })
+    expect((await read()).status).toBe(200)
+
+    const { offerId, message } = await offered()
+    expect((await accept(offerId, message)).status).toBe(200)
+
+    expect(store.dump('oracles')[0]).toMatchObject({ owner_wallet: RECIPIENT, bot_wallet: '' })
+    expect(store.dump('oracle_bot_keys')).toMatchObject([{ bot_wallet: BOT, reason: 'rotated', changed_by: RECIPIENT }])
+    expect((await read()).status).toBe(403)
+  })
+
+  test('only the owner can offer, only the recipient can accept', async () => {
+    expect((await offer(RECIPIENT, stranger)).status).toBe(401)
+    expect((await offer(BOT)).status).toBe(403)
+
+    const { offerId, message } = await offered()
+    expect((await accept(offerId, message, stranger)).status).toBe(401)
+    expect(store.dump('oracles')[0].owner_wallet).toBe(OWNER)
+  })
+
+  test('a new offer supersedes the pending one', async () => {
+    const first = await offered()
+    await offered(stranger.address.toLowerCase())
+
+    const res = await accept(first.offerId, first.message)
+    expect(res.status).toBe(409)
+    expect(((await res.json()) as { code: string }).code).toBe('transfer_offer_superseded')
+  })
+
+  test('pending offers expire', async () => {
+    const { offerId, message } = await offered()
+    setSystemTime(new Date(Date.now() + (TRANSFER_OFFER_TTL_SEC + 1) * 1000))
+
+    // KV may already have dropped it — either way it can't be accepted
+    expect([404, 410]).toContain((await accept(offerId, message)).status)
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Filter builder tests — escaping, composition and injection fuzzing
+ *
+ * Filters are evaluated by the in-memory store, whose string scanner follows
+ * PocketBase's fexpr rules, so a value that escapes its quotes here would
+ * escape them in production too.
+ *
+ * Run with: bun test pb-filter
+ */
+import { describe, test, expect } from 'bun:test'
+import { and, or, eq, ne, like, gte, anyOf, literal, listAnyOf, ANY_OF_BATCH_SIZE } from '../lib/pb-filter'
+import { createMemoryStore, compileFilter } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+// Deterministic PRNG so fuzz failures are reproducible
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const NASTY = ['"', "'", '\\', '|', '&', '=', '!', '~', '(', ')', ' ', '%', '@', 'a', 'x', '0', '\n']
+const VECTORS = [
+  '" || name != "',
+  '" || 1=1 || name="',
+  'x\\',
+  'x\\" || name != "',
+  '\\" || kind="other',
+  "' || name != '",
+  '") || (name != "',
+  '@now',
+  '',
+]
+
+function randomValue(rand: () => number): string {
+  const len = Math.floor(rand() * 12)
+  let out = ''
+  for (let i = 0; i < len; i++) out += NASTY[Math.floor(rand() * NASTY.length)]
+  return out
+}
+
+/** What a stored value must equal for eq(field, value) to match it */
+const expectedMatch = (value: string) => value.replace(/\\+$/, '')
+
+describe('literal', () => {
+  test('quotes strings and escapes inner quotes', () => {
+    expect(literal('abc')).toBe('"abc"')
+    expect(literal('a"b')).toBe('"a\\"b"')
+  })
+
+  test('drops trailing backslashes that would escape the closing quote', () => {
+    expect(literal('abc\\\\')).toBe('"abc"')
+  })
+
+  test('numbers, booleans, null and dates', () => {
+    expect(literal(5)).toBe('5')
+    expect(literal(false)).toBe('false')
+    expect(literal(null)).toBe('null')
+    expect(literal(new Date('2026-01-01T00:00:00.000Z'))).toBe('"2026-01-01 00:00:00.000Z"')
+    expect(() => literal(Number.NaN)).toThrow()
+  })
+})
+
+describe('composition', () => {
+  test('and/or group with parentheses and skip falsy parts', () => {
+    expect<string>(and(eq('a', 1), eq('b', 'x'))).toBe('(a=1 && b="x")')
+    expect<string>(or(eq('a', 1), null, false, eq('a', 2))).toBe('(a=1 || a=2)')
+    expect<string>(and(eq('a', 1), undefined)).toBe('a=1')
+  })
+
+  test('anyOf dedups values', () => {
+    expect<string>(anyOf('w', ['0x1', '0x2', '0x1'])).toBe('(w="0x1" || w="0x2")')
+  })
+
+  test('rejects field names that are not identifiers', () => {
+    expect(() => eq('name="x" || id', 'y')).toThrow()
+    expect(() => and()).toThrow()
+  })
+
+  test('comparison helpers', () => {
+    expect<string>(ne('birth_issue', '')).toBe('birth_issue!=""')
+    expect<string>(like('name', 'res')).toBe('name~"res"')
+    expect<string>(gte('score', 3)).toBe('score>=3')
+  })
+})
+
+describe('injection fuzzing', () => {
+  const rand = mulberry32(1337)
+  const values = [...VECTORS, ...Array.from({ length: 400 }, () => randomValue(rand))]
+  const rows = values.map((v, i) => ({ id: `r${i}`, name: v, kind: i % 2 ? 'target' : 'other' }))
+
+  test('eq() matches exactly the rows holding that value — never more', () => {
+    for (const v of values) {
+      const match = compileFilter(and(eq('name', v), eq('kind', 'target')))
+      const got = rows.filter(match).map(r => r.id)
+      const want = rows.filter(r => r.name === expectedMatch(v) && r.kind === 'target').map(r => r.id)
+      expect(got).toEqual(want)
+    }
+  })
+
+  test('two hostile values in one filter cannot merge into an expression', () => {
+    for (let i = 0; i < 300; i++) {
+      const a = values[Math.floor(rand() * values.length)]
+      const b = values[Math.floor(rand() * values.length)]
+      const match = compileFilter(and(eq('name', a), eq('kind', b)))
+      const got = rows.filter(match).map(r => r.id)
+      const want = rows.filter(r => r.name === expectedMatch(a) && r.kind === expectedMatch(b)).map(r => r.id)
+      expect(got).toEqual(want)
+    }
+  })
+
+  test('like() never widens into other conditions', () => {
+    for (const v of VECTORS) {
+      const match = compileFilter(and(like('name', v), eq('kind', 'target')))
+      expect(rows.filter(match).every(r => r.kind === 'target')).toBe(true)
+    }
+  })
+})
+
+describe('listAnyOf', () => {
+  test('batches long OR-lists and merges results', async () => {
+    const wallets = Array.from({ length: ANY_OF_BATCH_SIZE * 2 + 7 }, (_, i) => `0x${i.toString(16).padStart(40, '0')}`)
+    const store = createMemoryStore({ humans: wallets.map(w => ({ wallet_address: w })) })
+
+    const calls: string[] = []
+    const spy = {
+      collection: (name: string) => {
+        const inner = store.collection(name)
+        return {
+          ...inner,
+          getList: <T>(page?: number, perPage?: number, options?: { filter?: string }) => {
+            calls.push(options?.filter || '')
+            return inner.getList<T>(page, perPage, options)
+          },
+        }
+      },
+    }
+
+    const found = await listAnyOf<{ wallet_address: string }>(spy, 'humans', 'wallet_address', [...wallets, wallets[0]])
+    expect(calls.length).toBe(3)
+    expect(found.map(h => h.wallet_address).sort()).toEqual([...wallets].sort())
+  })
+
+  test('where is ANDed onto every batch', async () => {
+    const store = createMemoryStore({
+      votes: [
+        { voter_wallet: '0xa', target_id: 'p1' },
+        { voter_wallet: '0xb', target_id: 'p1' },
+        { voter_wallet: '0xa', target_id: 'p2' },
+      ],
+    })
+    const found = await listAnyOf<{ target_id: string }>(store, 'votes', 'target_id', ['p1', 'p2'], { where: eq('voter_wallet', '0xa') })
+    expect(found.map(v => v.target_id).sort()).toEqual(['p1', 'p2'])
+  })
+
+  test('reads every page of a batch, not just the first', async () => {
+    const votes = Array.from({ length: 25 }, (_, i) => ({ voter_wallet: `0x${i}`, target_id: i % 2 ? 'p1' : 'p2' }))
+    const store = createMemoryStore({ votes })
+    const found = await listAnyOf<{ voter_wallet: string }>(store, 'votes', 'target_id', ['p1', 'p2'], { perPage: 10 })
+    expect(found.map(v => v.voter_wallet).sort()).toEqual(votes.map(v => v.voter_wallet).sort())
+  })
+
+  test('empty value list makes no request', async () => {
+    const found = await listAnyOf(createMemoryStore(), 'humans', 'wallet_address', [])
+    expect(found).toEqual([])
+  })
+})
+
+describe('routes reject filter injection', () => {
+  test('GET /api/humans/by-github/:username does not match other humans', async () => {
+    useMemoryStore({ humans: [{ wallet_address: '0xabc', github_username: 'nazt' }] })
+
+    const payload = encodeURIComponent('x" || github_username != "')
+    const res = await api(`/api/humans/by-github/${payload}`)
+    expect(res.status).toBe(404)
+
+    const ok = await api('/api/humans/by-github/nazt')
+    expect(ok.status).toBe(200)
+  })
+})
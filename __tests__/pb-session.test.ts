@@ -0,0 +1,114 @@
+/**
+ * PocketBase superuser session tests — token caching and re-auth on 401
+ *
+ * Runs against a tiny local HTTP stand-in for PocketBase's auth + records API.
+ * Run with: bun test pb-session
+ */
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test'
+import PocketBase from 'pocketbase'
+import { createAdminSession } from '../lib/pb-session'
+
+const b64url = (obj: unknown) => btoa(JSON.stringify(obj)).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_')
+const fakeToken = (expSec: number) =>
+  `${b64url({ alg: 'HS256', typ: 'JWT' })}.${b64url({ id: 'su1', type: 'auth', exp: expSec, n: Math.random() })}.sig`
+
+// Fake PocketBase state
+let logins = 0
+let validToken = ''
+let tokenTtlSec = 3600
+let server: ReturnType<typeof Bun.serve>
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url)
+      if (url.pathname === '/api/collections/_superusers/auth-with-password') {
+        const body = (await req.json()) as { identity: string; password: string }
+        if (body.password !== 'secret') {
+          return Response.json({ status: 400, message: 'Failed to authenticate.', data: {} }, { status: 400 })
+        }
+        logins++
+        validToken = fakeToken(Math.floor(Date.now() / 1000) + tokenTtlSec)
+        return Response.json({ token: validToken, record: { id: 'su1', collectionName: '_superusers', email: body.identity } })
+      }
+      if (url.pathname === '/api/collections/posts/records') {
+        if (req.headers.get('Authorization') !== validToken) {
+          return Response.json({ status: 401, message: 'The request requires valid authorization token.', data: {} }, { status: 401 })
+        }
+        return Response.json({ page: 1, perPage: 30, totalItems: 1, totalPages: 1, items: [{ id: 'p1', title: 'Hello' }] })
+      }
+      return new Response('not found', { status: 404 })
+    },
+  })
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+beforeEach(() => {
+  logins = 0
+  validToken = ''
+  tokenTtlSec = 3600
+})
+
+function newSession(password = 'secret') {
+  const client = new PocketBase(`http://localhost:${server.port}`)
+  client.autoCancellation(false)
+  return createAdminSession(client, () => ({ email: 'admin@oraclenet.dev', password }))
+}
+
+describe('createAdminSession', () => {
+  test('logs in once and reuses the cached token', async () => {
+    const session = newSession()
+    await session.ensure()
+    await session.ensure()
+    await session.ensure()
+    expect(logins).toBe(1)
+    expect(session.metrics().logins).toBe(1)
+    expect(session.metrics().cacheHits).toBe(2)
+  })
+
+  test('concurrent callers share one login', async () => {
+    const session = newSession()
+    await Promise.all([session.ensure(), session.ensure(), session.ensure()])
+    expect(logins).toBe(1)
+  })
+
+  test('re-authenticates when the cached token is about to expire', async () => {
+    tokenTtlSec = 30 // inside the refresh threshold
+    const session = newSession()
+    await session.ensure()
+    await session.ensure()
+    expect(logins).toBe(2)
+  })
+
+  test('401 triggers one re-login and a transparent retry', async () => {
+    const session = newSession()
+    await session.ensure()
+
+    // Backend wipe: the cached token is no longer accepted
+    validToken = 'wiped'
+
+    const data = await session.store.collection('posts').getList(1, 30)
+    expect(data.items[0].id).toBe('p1')
+    expect(logins).toBe(2)
+    expect(session.metrics().reauthOn401).toBe(1)
+  })
+
+  test('bad credentials surface the login error and count a failure', async () => {
+    const session = newSession('wrong')
+    const err = await session.ensure().catch(e => e)
+    expect(err?.status).toBe(400)
+    expect(session.metrics().failedLogins).toBe(1)
+  })
+
+  test('missing credentials throw before calling PocketBase', async () => {
+    const client = new PocketBase(`http://localhost:${server.port}`)
+    const session = createAdminSession(client, () => ({}))
+    const err = await session.ensure().catch(e => e)
+    expect(err?.message).toContain('PB_ADMIN_EMAIL')
+    expect(logins).toBe(0)
+  })
+})
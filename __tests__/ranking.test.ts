@@ -0,0 +1,132 @@
+/**
+ * Feed ranking tests — hot decay, rising velocity, top windows, backfill
+ *
+ * Run with: bun test ranking
+ */
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from 'bun:test'
+import { createJWT } from '../lib/auth'
+import { toPBDate } from '../lib/pb-filter'
+import { HOT_DECAY_SEC, addUpvote, hotScore, rankUnscored } from '../lib/ranking'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const AUTHOR = '0x00000000000000000000000000000000000000a1'
+const VOTERS = ['0x00000000000000000000000000000000000000b1', '0x00000000000000000000000000000000000000b2']
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+
+const ago = (hours: number) => new Date(NOW.getTime() - hours * 3600 * 1000)
+
+const post = (id: string, hoursAgo: number, score = 0) => ({
+  id, title: id, content: id, author_wallet: AUTHOR, score, upvotes: Math.max(score, 0), downvotes: Math.max(-score, 0),
+  hot_score: hotScore(score, ago(hoursAgo)), deleted_at: '', created: toPBDate(ago(hoursAgo)),
+})
+
+let store: MemoryStore
+
+beforeEach(() => {
+  setSystemTime(NOW)
+  store = useMemoryStore({
+    posts: [
+      post('fresh', 1, 2),
+      post('lastweek', 5 * 24, 50),
+      post('lastmonth', 20 * 24, 400),
+      post('sunk', 2, -5),
+    ],
+  })
+})
+
+afterEach(() => {
+  setSystemTime()
+})
+
+type FeedPage = { posts: { id: string }[]; next_cursor: string | null; t?: string }
+
+const feed = async (params: string) => (await (await api(`/api/feed?${params}`)).json()) as FeedPage
+const ids = async (params: string) => (await feed(params)).posts.map(p => p.id)
+
+async function vote(postId: string, voter: string) {
+  const token = await createJWT({ sub: voter, type: 'human' })
+  const res = await api(`/api/posts/${postId}/vote`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ direction: 'up' }),
+  })
+  expect(res.status).toBe(200)
+}
+
+describe('scores', () => {
+  test('hot: 10x the votes buys one decay period of age', () => {
+    const newer = hotScore(10, new Date(NOW.getTime() + HOT_DECAY_SEC * 1000))
+    expect(hotScore(100, NOW)).toBeCloseTo(newer, 6)
+    expect(hotScore(-10, NOW)).toBeLessThan(hotScore(0, NOW))
+  })
+
+  test('rising: recent upvotes outweigh more, older ones', () => {
+    const old = [ago(48), ago(47), ago(46)].reduce<number>((acc, at) => addUpvote(acc, at), 0)
+    expect(addUpvote(0, ago(1))).toBeGreaterThan(old)
+    // Two votes at once are worth exactly twice one (ln 2 in log space)
+    expect(addUpvote(addUpvote(0, NOW), NOW) - addUpvote(0, NOW)).toBeCloseTo(Math.LN2, 6)
+  })
+})
+
+describe('GET /api/feed ranking', () => {
+  test('hot lets new posts overtake old popular ones', async () => {
+    expect(await ids('sort=hot')).toEqual(['fresh', 'sunk', 'lastweek', 'lastmonth'])
+    expect(await ids('sort=top')).toEqual(['lastmonth', 'lastweek', 'fresh', 'sunk'])
+  })
+
+  test('voting updates the cached scores; rising follows vote velocity', async () => {
+    expect(await ids('sort=rising')).toEqual([])
+
+    await vote('lastmonth', VOTERS[0])
+    setSystemTime(ago(-2))
+    await vote('sunk', VOTERS[0])
+    await vote('sunk', VOTERS[1])
+
+    const sunk = store.dump('posts').find(p => p.id === 'sunk')!
+    expect(sunk.score).toBe(-3)
+    expect(sunk.hot_score).toBe(hotScore(-3, sunk.created))
+    expect(await ids('sort=rising')).toEqual(['sunk', 'lastmonth'])
+  })
+
+  test('top windows filter by age and bind their cursors', async () => {
+    expect(await ids('sort=top&t=day')).toEqual(['fresh', 'sunk'])
+    expect(await ids('sort=top&t=week')).toEqual(['lastweek', 'fresh', 'sunk'])
+    expect(await ids('sort=top&t=month')).toEqual(['lastmonth', 'lastweek', 'fresh', 'sunk'])
+    expect((await feed('sort=top&t=forever')).t).toBe('all')
+
+    const { next_cursor } = await feed('sort=top&t=week&limit=1')
+    expect((await feed(`sort=top&t=week&limit=1&cursor=${next_cursor}`)).posts[0].id).toBe('fresh')
+    expect((await api(`/api/feed?sort=top&t=month&cursor=${next_cursor}`)).status).toBe(400)
+  })
+
+  test('toggling a vote on and off counts one voter once', async () => {
+    await vote('lastmonth', VOTERS[0])
+    await vote('lastmonth', VOTERS[1])
+
+    // One wallet spamming up, off, up, off, … on another post, an hour later
+    setSystemTime(ago(-1))
+    for (let i = 0; i < 11; i++) await vote('fresh', VOTERS[0])
+
+    const fresh = store.dump('posts').find(p => p.id === 'fresh')!
+    expect(fresh.rising_score).toBe(addUpvote(0, ago(-1)))
+    expect(await ids('sort=rising')).toEqual(['lastmonth', 'fresh'])
+
+    // Withdrawing the last upvote takes the post out of rising
+    await vote('fresh', VOTERS[0])
+    expect(await ids('sort=rising')).toEqual(['lastmonth'])
+  })
+})
+
+describe('rankUnscored', () => {
+  test('scores posts written before ranking from their votes', async () => {
+    await store.collection('posts').create({ id: 'legacy', title: 'l', content: 'l', author_wallet: AUTHOR, score: 1, upvotes: 1, deleted_at: '' })
+    await store.collection('votes').create({ voter_wallet: VOTERS[0], target_type: 'post', target_id: 'legacy', value: 1 })
+
+    expect(await rankUnscored(store)).toEqual(['legacy'])
+    const legacy = store.dump('posts').find(p => p.id === 'legacy')!
+    expect(legacy.hot_score).toBe(hotScore(1, legacy.created))
+    expect(legacy.rising_score).toBeGreaterThan(0)
+    expect(await rankUnscored(store)).toEqual([])
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Replay protection tests — a signed sign-in message is accepted once
+ *
+ * Run with: bun test replay
+ */
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { claimSignature, REPLAY_ERROR_CODE } from '../lib/replay'
+import { createMemoryKV, setKV } from '../lib/kv'
+import { api, useMemoryStore } from './helpers'
+
+beforeEach(() => {
+  setKV(createMemoryKV())
+  useMemoryStore()
+})
+
+afterEach(() => {
+  setSystemTime()
+})
+
+async function signed() {
+  const account = privateKeyToAccount(generatePrivateKey())
+  const message = `oraclenet:${Math.floor(Date.now() / 1000)}`
+  return { message, signature: await account.signMessage({ message }) }
+}
+
+const post = (path: string, body: unknown) =>
+  api(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+
+describe('claimSignature', () => {
+  test('second claim within the window fails, after the window succeeds', async () => {
+    expect(await claimSignature('0xAbc', 'hello', 120)).toBe(true)
+    expect(await claimSignature('0xabc', 'hello', 120)).toBe(false)
+    expect(await claimSignature('0xabc', 'other', 120)).toBe(true)
+
+    setSystemTime(new Date(Date.now() + 121_000))
+    expect(await claimSignature('0xabc', 'hello', 120)).toBe(true)
+  })
+})
+
+describe('signed sign-in routes', () => {
+  test('wallet-sign rejects a reused signature', async () => {
+    const body = await signed()
+    expect((await post('/api/auth/wallet-sign', body)).status).toBe(200)
+
+    const again = await post('/api/auth/wallet-sign', body)
+    expect(again.status).toBe(401)
+    expect(((await again.json()) as { code: string }).code).toBe(REPLAY_ERROR_CODE)
+  })
+
+  test('notifications inbox rejects a reused signature', async () => {
+    const body = await signed()
+    expect((await post('/api/notifications/inbox', body)).status).toBe(200)
+
+    const again = await post('/api/notifications/inbox', body)
+    expect(again.status).toBe(401)
+    expect(((await again.json()) as { code: string }).code).toBe(REPLAY_ERROR_CODE)
+  })
+
+  test('a failed attempt does not burn the signature', async () => {
+    const body = await signed()
+    expect((await post('/api/auth/wallet-sign', { ...body, signature: '0xdead' })).status).toBe(401)
+    expect((await post('/api/auth/wallet-sign', body)).status).toBe(200)
+  })
+})
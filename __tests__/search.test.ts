@@ -0,0 +1,130 @@
+/**
+ * Search tests — ranking, grouping by type, author / birth_issue / date filters
+ *
+ * Run with: bun test search
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { createMemoryKV, setKV } from '../lib/kv'
+import { SEARCH_CANDIDATES, parseTerms, rankMatch } from '../lib/search'
+import type { MemoryStore } from '../lib/memory-store'
+import { SEARCH_RATE_LIMIT } from '../routes/search'
+import { api, useMemoryStore } from './helpers'
+
+const OWNER = '0x00000000000000000000000000000000000000c1'
+const OWNER_LINKED = '0x00000000000000000000000000000000000000c2'
+const BOT = '0x00000000000000000000000000000000000000b0'
+const OLD_BOT = '0x00000000000000000000000000000000000000bf'
+const OTHER = '0x00000000000000000000000000000000000000e1'
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/7'
+
+const at = (day: number) => `2026-10-${String(day).padStart(2, '0')} 10:00:00.000Z`
+
+let store: MemoryStore
+
+beforeEach(() => {
+  setKV(createMemoryKV())
+  store = useMemoryStore({
+    humans: [{ id: 'owner', wallet_address: OWNER }],
+    human_wallets: [{ human: 'owner', wallet: OWNER_LINKED }],
+    oracles: [
+      { id: 'oracle1', name: 'Resonance', description: 'Listens for echoes in the merkle tree', birth_issue: BIRTH_ISSUE, owner_wallet: OWNER, bot_wallet: BOT, deleted_at: '' },
+      { id: 'oracle2', name: 'Echo Chamber', description: 'Repeats things', birth_issue: 'https://github.com/o/r/issues/8', owner_wallet: OTHER, deleted_at: '' },
+    ],
+    oracle_bot_keys: [{ oracle: 'oracle1', bot_wallet: OLD_BOT, reason: 'rotated' }],
+    posts: [
+      { id: 'title-hit', title: 'Merkle roots explained', content: 'how the tree is built', author_wallet: BOT, oracle_birth_issue: BIRTH_ISSUE, deleted_at: '', created: at(3) },
+      { id: 'content-hit', title: 'Weekly notes', content: 'a merkle proof came up', author_wallet: OTHER, oracle_birth_issue: '', deleted_at: '', created: at(5) },
+      { id: 'linked-author', title: 'Merkle musings', content: 'x', author_wallet: OWNER_LINKED, oracle_birth_issue: '', deleted_at: '', created: at(1) },
+      { id: 'deleted', title: 'Merkle gone', content: 'x', author_wallet: OTHER, deleted_at: at(6), created: at(2) },
+    ],
+    comments: [
+      { id: 'c-bot', post: 'content-hit', content: 'Merkle proofs are neat', author_wallet: BOT, deleted_at: '', created: at(4) },
+      { id: 'c-old-key', post: 'content-hit', content: 'merkle again', author_wallet: OLD_BOT, deleted_at: '', created: at(2) },
+      { id: 'c-other', post: 'title-hit', content: 'what is a merkle tree?', author_wallet: OTHER, deleted_at: '', created: at(6) },
+    ],
+  })
+})
+
+type SearchResponse = {
+  results: Record<'posts' | 'comments' | 'oracles', { id: string; relevance: number; snippet: string }[]>
+  counts: Record<string, number>
+  truncated: Record<string, boolean>
+  code?: string
+}
+
+const search = async (params: string, ip = '203.0.113.1') => {
+  const res = await api(`/api/search?${params}`, { headers: { 'CF-Connecting-IP': ip } })
+  return { status: res.status, body: (await res.json()) as SearchResponse }
+}
+const ids = (hits: { id: string }[]) => hits.map(h => h.id)
+
+describe('search helpers', () => {
+  test('terms are distinct, lowercase and wildcard-free', () => {
+    expect(parseTerms('Merkle  merkle % TREE a')).toEqual(['merkle', 'tree'])
+  })
+
+  test('title beats content; all terms required; phrase bonus', () => {
+    const fields = { title: 3, content: 1 }
+    expect(rankMatch({ title: 'merkle', content: '' }, fields, ['merkle'])).toBeGreaterThan(rankMatch({ title: '', content: 'merkle' }, fields, ['merkle']))
+    expect(rankMatch({ title: 'merkle', content: '' }, fields, ['merkle', 'tree'])).toBe(0)
+    expect(rankMatch({ title: 'merkle tree', content: '' }, fields, ['merkle', 'tree']))
+      .toBeGreaterThan(rankMatch({ title: 'tree of merkle', content: '' }, fields, ['merkle', 'tree']))
+  })
+})
+
+describe('GET /api/search', () => {
+  test('ranked results grouped by type', async () => {
+    const { status, body } = await search('q=merkle')
+    expect(status).toBe(200)
+    expect(ids(body.results.posts)).toEqual(['title-hit', 'linked-author', 'content-hit'])
+    expect(ids(body.results.comments)).toEqual(['c-other', 'c-bot', 'c-old-key'])   // equal relevance → newest first
+    expect(ids(body.results.oracles)).toEqual(['oracle1'])
+    expect(body.counts).toEqual({ posts: 3, comments: 3, oracles: 1 })
+    expect(body.results.posts[2].snippet).toBe('a merkle proof came up')
+
+    expect(ids((await search('q=echo&type=oracles')).body.results.oracles)).toEqual(['oracle2', 'oracle1'])
+  })
+
+  test('filters: author identity, birth_issue, date range', async () => {
+    const byOwner = (await search(`q=merkle&author=${OWNER}`)).body.results
+    expect(ids(byOwner.posts)).toEqual(['linked-author'])
+    expect(ids(byOwner.oracles)).toEqual(['oracle1'])
+
+    // An oracle's posts, its comments under any key, and the oracle itself
+    const byOracle = (await search(`q=merkle&birth_issue=${encodeURIComponent(BIRTH_ISSUE)}`)).body.results
+    expect(ids(byOracle.posts)).toEqual(['title-hit'])
+    expect(ids(byOracle.comments)).toEqual(['c-bot', 'c-old-key'])
+    expect(ids(byOracle.oracles)).toEqual(['oracle1'])
+
+    // A bare `to` date covers that whole day
+    const ranged = (await search('q=merkle&type=posts,comments&from=2026-10-03&to=2026-10-05')).body
+    expect(ids(ranged.results.posts)).toEqual(['title-hit', 'content-hit'])
+    expect(ids(ranged.results.comments)).toEqual(['c-bot'])
+    expect(ranged.counts).toEqual({ posts: 2, comments: 1 })
+  })
+
+  test('rejects empty queries, unknown types and bad dates', async () => {
+    expect((await search('q=%20a')).body.code).toBe('invalid_query')
+    expect((await search('q=merkle&type=users')).body.code).toBe('invalid_type')
+    const bad = await search('q=merkle&from=yesterday')
+    expect(bad.status).toBe(400)
+    expect(bad.body.code).toBe('invalid_date')
+  })
+
+  test('reports when only the newest matches were ranked', async () => {
+    expect((await search('q=merkle&type=posts')).body.truncated).toEqual({ posts: false })
+    for (let i = 0; i <= SEARCH_CANDIDATES; i++) {
+      await store.collection('posts').create({ title: `merkle filler ${i}`, content: '', author_wallet: OTHER, deleted_at: '' })
+    }
+    const { body } = await search('q=merkle&type=posts')
+    expect(body.truncated).toEqual({ posts: true })
+  })
+
+  test('rate-limited per client', async () => {
+    for (let i = 0; i < SEARCH_RATE_LIMIT.limit; i++) expect((await search('q=echo&type=oracles')).status).toBe(200)
+    const res = await api('/api/search?q=echo', { headers: { 'CF-Connecting-IP': '203.0.113.1' } })
+    expect(res.status).toBe(429)
+    expect(res.headers.get('Retry-After')).toBeTruthy()
+    expect((await search('q=echo&type=oracles', '203.0.113.2')).status).toBe(200)
+  })
+})
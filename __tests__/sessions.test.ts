@@ -0,0 +1,162 @@
+/**
+ * Session tests — refresh rotation, reuse detection, logout and device list
+ *
+ * Signs in through POST /api/auth/wallet-sign with throwaway wallets.
+ * Run with: bun test sessions
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { verifyJWT } from '../lib/auth'
+import { ACCESS_TOKEN_TTL_SEC } from '../lib/sessions'
+import { api, useMemoryStore } from './helpers'
+import type { MemoryStore } from '../lib/memory-store'
+
+type Tokens = { token: string; refresh_token: string; expires_in: number; wallet: string }
+
+let store: MemoryStore
+
+beforeEach(() => {
+  store = useMemoryStore()
+})
+
+// Each sign-in signs a different timestamp — a reused signature is rejected (lib/replay.ts)
+let clockSkew = 0
+
+async function signIn(key = generatePrivateKey(), userAgent = 'test-device'): Promise<Tokens> {
+  const account = privateKeyToAccount(key)
+  const message = `oraclenet:${Math.floor(Date.now() / 1000) - clockSkew++}`
+  const signature = await account.signMessage({ message })
+  const res = await api('/api/auth/wallet-sign', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': userAgent },
+    body: JSON.stringify({ message, signature }),
+  })
+  expect(res.status).toBe(200)
+  return (await res.json()) as Tokens
+}
+
+const post = (path: string, body: unknown = {}, token?: string) =>
+  api(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+    body: JSON.stringify(body),
+  })
+
+const refresh = (refresh_token: string) => post('/api/auth/refresh', { refresh_token })
+
+describe('sign-in', () => {
+  test('returns a short-lived access token bound to a session', async () => {
+    const tokens = await signIn()
+    expect(tokens.expires_in).toBe(ACCESS_TOKEN_TTL_SEC)
+
+    const payload = await verifyJWT(tokens.token)
+    expect(payload?.sid).toBe(tokens.refresh_token.split('.')[0])
+    expect((payload?.exp as number) - (payload?.iat as number)).toBe(ACCESS_TOKEN_TTL_SEC)
+
+    const [session] = store.dump('sessions')
+    expect(session.wallet).toBe(tokens.wallet)
+    expect(session.user_agent).toBe('test-device')
+    expect(JSON.stringify(session)).not.toContain(tokens.refresh_token.split('.')[1])
+  })
+})
+
+describe('POST /api/auth/refresh', () => {
+  test('rotates the refresh token', async () => {
+    const first = await signIn()
+    const res = await refresh(first.refresh_token)
+    expect(res.status).toBe(200)
+    const second = (await res.json()) as Tokens
+    expect(second.refresh_token).not.toBe(first.refresh_token)
+    expect((await verifyJWT(second.token))?.sub).toBe(first.wallet)
+
+    const third = await refresh(second.refresh_token)
+    expect(third.status).toBe(200)
+  })
+
+  test('replaying a rotated refresh token revokes the session', async () => {
+    const first = await signIn()
+    const second = (await (await refresh(first.refresh_token)).json()) as Tokens
+
+    const replay = await refresh(first.refresh_token)
+    expect(replay.status).toBe(401)
+    expect(((await replay.json()) as { code: string }).code).toBe('refresh_token_reused')
+
+    const after = await refresh(second.refresh_token)
+    expect(((await after.json()) as { code: string }).code).toBe('session_revoked')
+  })
+
+  test('garbage and missing tokens', async () => {
+    expect((await post('/api/auth/refresh', {})).status).toBe(400)
+    const res = await refresh('nope.nope')
+    expect(((await res.json()) as { code: string }).code).toBe('invalid_refresh_token')
+  })
+})
+
+describe('logout', () => {
+  test('POST /logout with the access token ends that session only', async () => {
+    const key = generatePrivateKey()
+    const laptop = await signIn(key)
+    const phone = await signIn(key)
+
+    expect((await post('/api/auth/logout', {}, laptop.token)).status).toBe(200)
+    expect((await refresh(laptop.refresh_token)).status).toBe(401)
+    expect((await refresh(phone.refresh_token)).status).toBe(200)
+  })
+
+  test('POST /logout accepts the refresh token when the access token is gone', async () => {
+    const tokens = await signIn()
+    expect((await post('/api/auth/logout', { refresh_token: 'x.y' })).status).toBe(401)
+    expect((await post('/api/auth/logout', { refresh_token: tokens.refresh_token })).status).toBe(200)
+    expect((await refresh(tokens.refresh_token)).status).toBe(401)
+  })
+
+  test('POST /logout-all ends every session of the wallet', async () => {
+    const key = generatePrivateKey()
+    const a = await signIn(key)
+    const b = await signIn(key)
+    const other = await signIn()
+
+    const res = await post('/api/auth/logout-all', {}, a.token)
+    expect(((await res.json()) as { revoked: number }).revoked).toBe(2)
+    expect((await refresh(b.refresh_token)).status).toBe(401)
+    expect((await refresh(other.refresh_token)).status).toBe(200)
+  })
+})
+
+describe('GET /api/auth/sessions', () => {
+  test('lists the wallet\'s devices and kills another one', async () => {
+    const key = generatePrivateKey()
+    const laptop = await signIn(key, 'laptop')
+    const phone = await signIn(key, 'phone')
+    const auth = { headers: { Authorization: `Bearer ${laptop.token}` } }
+
+    const list = (await (await api('/api/auth/sessions', auth)).json()) as {
+      items: { id: string; user_agent: string; current: boolean }[]
+    }
+    expect(list.items.map(s => s.user_agent).sort()).toEqual(['laptop', 'phone'])
+    expect(list.items.find(s => s.current)?.user_agent).toBe('laptop')
+
+    const phoneId = list.items.find(s => s.user_agent === 'phone')!.id
+    const kill = await api(`/api/auth/sessions/${phoneId}`, { method: 'DELETE', ...auth })
+    expect(kill.status).toBe(200)
+    expect((await refresh(phone.refresh_token)).status).toBe(401)
+
+    const after = (await (await api('/api/auth/sessions', auth)).json()) as { count: number }
+    expect(after.count).toBe(1)
+  })
+
+  test('cannot kill another wallet\'s session', async () => {
+    const mine = await signIn()
+    const theirs = await signIn()
+    const res = await api(`/api/auth/sessions/${theirs.refresh_token.split('.')[0]}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${mine.token}` },
+    })
+    expect(res.status).toBe(404)
+    expect((await refresh(theirs.refresh_token)).status).toBe(200)
+  })
+
+  test('requires a token', async () => {
+    expect((await api('/api/auth/sessions')).status).toBe(401)
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Smart-contract wallet signature tests — EIP-1271 / EIP-6492 against a local chain stand-in
+ *
+ * Run with: bun test signatures
+ */
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { setSignatureRpc, verifyWalletSignature } from '../lib/signatures'
+import { createLocalChain, type LocalChain } from './local-chain'
+import { api, useMemoryStore } from './helpers'
+
+const owner = privateKeyToAccount(generatePrivateKey())
+const eoa = privateKeyToAccount(generatePrivateKey())
+
+let chain: LocalChain
+
+beforeEach(() => {
+  chain = createLocalChain()
+  setSignatureRpc(chain.rpc)
+})
+
+afterAll(() => {
+  setSignatureRpc(null)
+})
+
+describe('verifyWalletSignature', () => {
+  test('EOA signatures are checked locally, without the RPC', async () => {
+    const signature = await eoa.signMessage({ message: 'hello' })
+    expect(await verifyWalletSignature(eoa.address, 'hello', signature)).toBe(true)
+    expect(chain.calls).toEqual([])
+  })
+
+  test('deployed smart account — EIP-1271', async () => {
+    const account = chain.deploy(owner)
+    const signature = await chain.sign(account, 'hello')
+
+    expect(await verifyWalletSignature(account, 'hello', signature)).toBe(true)
+    expect(await verifyWalletSignature(account, 'other message', signature)).toBe(false)
+    expect(chain.calls).toContain('eth_getCode')
+  })
+
+  test('smart account owned by someone else is rejected', async () => {
+    const account = chain.deploy(privateKeyToAccount(generatePrivateKey()))
+    const signature = await owner.sign({ hash: '0x'.padEnd(66, '1') as `0x${string}` })
+    expect(await verifyWalletSignature(account, 'hello', signature)).toBe(false)
+  })
+
+  test('counterfactual smart account — EIP-6492', async () => {
+    const account = chain.counterfactual(owner)
+    const signature = await chain.sign(account, 'hello')
+
+    expect(await verifyWalletSignature(account, 'hello', signature)).toBe(true)
+    expect(await verifyWalletSignature(account, 'other message', signature)).toBe(false)
+  })
+
+  test('undeployed account without a 6492 wrapper is rejected', async () => {
+    const account = chain.counterfactual(owner)
+    const signature = await owner.signMessage({ message: 'hello' })
+    expect(await verifyWalletSignature(account, 'hello', signature)).toBe(false)
+  })
+
+  test('without SIGNATURE_RPC_URL contract wallets are not checked at all', async () => {
+    const account = chain.deploy(owner)
+    const signature = await chain.sign(account, 'hello')
+    setSignatureRpc(null)
+    expect(await verifyWalletSignature(account, 'hello', signature)).toBe(false)
+    expect(chain.calls).toEqual([])
+  })
+
+  test('RPC failure never counts as a valid signature', async () => {
+    const account = chain.deploy(owner)
+    const signature = await chain.sign(account, 'hello')
+    chain.fail = true
+    expect(await verifyWalletSignature(account, 'hello', signature)).toBe(false)
+  })
+})
+
+describe('routes accept smart-wallet signatures', () => {
+  test('POST /api/posts with a contract wallet author', async () => {
+    useMemoryStore()
+    setSignatureRpc(chain.rpc)
+    const account = chain.deploy(owner)
+    const title = 'From a Safe'
+    const content = 'Signed through EIP-1271'
+    const signature = await chain.sign(account, JSON.stringify({ title, content }))
+
+    const res = await api('/api/posts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, content, signature, wallet: account }),
+    })
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as { author_wallet: string }).author_wallet).toBe(account.toLowerCase())
+
+    const forged = await api('/api/posts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, content: 'changed', signature, wallet: account }),
+    })
+    expect(forged.status).toBe(401)
+  })
+
+  test('POST /api/mentions with a contract wallet signer', async () => {
+    useMemoryStore({ oracles: [{ id: 'o1', name: 'Resonance', owner_wallet: '0x' + '1'.repeat(40) }] })
+    setSignatureRpc(chain.rpc)
+    const account = chain.counterfactual(owner)
+    const signature = await chain.sign(account, JSON.stringify({ action: 'mention', oracle: 'Resonance' }))
+
+    const res = await api('/api/mentions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ oracle: 'Resonance', signature, wallet: account }),
+    })
+    expect(res.status).toBe(200)
+  })
+})
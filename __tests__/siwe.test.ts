@@ -0,0 +1,94 @@
+/**
+ * EIP-4361 validation tests — lib/siwe.ts
+ *
+ * Run with: bun test siwe
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createSiweMessage } from 'viem/siwe'
+import { setEnv } from '../lib/env'
+import { verifySIWE, HUMAN_SIWE_STATEMENT, AGENT_SIWE_STATEMENT, type SiweErrorCode } from '../lib/siwe'
+
+const account = privateKeyToAccount(generatePrivateKey())
+
+type MessageFields = Partial<Parameters<typeof createSiweMessage>[0]>
+
+function message(fields: MessageFields = {}): string {
+  return createSiweMessage({
+    address: account.address,
+    chainId: 1,
+    domain: 'oraclenet.org',
+    uri: 'https://oraclenet.org',
+    nonce: '129127208515966878197',
+    version: '1',
+    issuedAt: new Date(),
+    statement: 'Sign in to OracleNet. BTC: $76,022.17',
+    ...fields,
+  })
+}
+
+async function check(fields: MessageFields = {}, options = { statement: HUMAN_SIWE_STATEMENT }) {
+  const msg = message(fields)
+  return verifySIWE(msg, await account.signMessage({ message: msg }), options)
+}
+
+async function rejects(fields: MessageFields, code: SiweErrorCode, options = { statement: HUMAN_SIWE_STATEMENT }) {
+  const result = await check(fields, options)
+  expect(result.ok ? null : result.code).toBe(code)
+}
+
+beforeEach(() => {
+  setEnv({})
+})
+
+describe('verifySIWE', () => {
+  test('accepts a well-formed message for an allowed domain and chain', async () => {
+    const result = await check()
+    expect(result.ok).toBe(true)
+    expect(result.ok && result.wallet).toBe(account.address.toLowerCase())
+    expect(result.ok && result.nonce).toBe('129127208515966878197')
+  })
+
+  test('rejects other domains and URIs that do not belong to the domain', async () => {
+    await rejects({ domain: 'evil.example', uri: 'https://evil.example' }, 'siwe_domain_not_allowed')
+    await rejects({ uri: 'https://evil.example/login' }, 'siwe_uri_mismatch')
+  })
+
+  test('domain and chain allow-lists come from env', async () => {
+    setEnv({ SIWE_DOMAINS: 'staging.oraclenet.org', SIWE_CHAIN_IDS: '1, 8453' })
+    await rejects({}, 'siwe_domain_not_allowed')
+    expect((await check({ domain: 'staging.oraclenet.org', uri: 'https://staging.oraclenet.org', chainId: 8453 })).ok).toBe(true)
+    await rejects({ domain: 'staging.oraclenet.org', uri: 'https://staging.oraclenet.org', chainId: 10 }, 'siwe_chain_not_allowed')
+  })
+
+  test('rejects chains outside the default allow-list', async () => {
+    await rejects({ chainId: 137 }, 'siwe_chain_not_allowed')
+  })
+
+  test('checks issuedAt skew, expiry and notBefore', async () => {
+    const now = Date.now()
+    await rejects({ issuedAt: new Date(now + 10 * 60_000) }, 'siwe_issued_in_future')
+    await rejects({ issuedAt: new Date(now - 2 * 3600_000) }, 'siwe_issued_too_long_ago')
+    await rejects({ expirationTime: new Date(now - 1000) }, 'siwe_expired')
+    await rejects({ notBefore: new Date(now + 60_000) }, 'siwe_not_yet_valid')
+  })
+
+  test('statement must match the sign-in flow', async () => {
+    await rejects({ statement: 'I am Agent-123' }, 'siwe_statement_mismatch')
+    expect((await check({ statement: 'I am Agent-123' }, { statement: AGENT_SIWE_STATEMENT })).ok).toBe(true)
+    expect((await check({ statement: undefined }, { statement: AGENT_SIWE_STATEMENT })).ok).toBe(true)
+    await rejects({}, 'siwe_statement_mismatch', { statement: AGENT_SIWE_STATEMENT })
+  })
+
+  test('rejects a signature from another wallet', async () => {
+    const other = privateKeyToAccount(generatePrivateKey())
+    const msg = message()
+    const result = await verifySIWE(msg, await other.signMessage({ message: msg }))
+    expect(result.ok ? null : result.code).toBe('siwe_signature_mismatch')
+  })
+
+  test('rejects text that is not a SIWE message', async () => {
+    const result = await verifySIWE('not a valid siwe message', '0x1234')
+    expect(result.ok ? null : result.code).toBe('siwe_malformed')
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Soft delete tests — admin delete/restore, read-route filtering, scheduled purge
+ *
+ * Run with: bun test soft-delete
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createJWT } from '../lib/auth'
+import { toPBDate } from '../lib/pb-filter'
+import { purgeExpired } from '../lib/soft-delete'
+import { api, useMemoryStore } from './helpers'
+import type { MemoryStore } from '../lib/memory-store'
+
+const ADMIN = '0x00000000000000000000000000000000000000ad'
+const ENV = { ADMIN_WALLETS: ADMIN }
+const BIRTH_ISSUE = 'https://github.com/o/r/issues/1'
+const bot = privateKeyToAccount(generatePrivateKey())
+const OWNER = '0x00000000000000000000000000000000000000c1'
+
+let store: MemoryStore
+
+beforeEach(() => {
+  store = useMemoryStore({
+    humans: [{ id: 'owner', wallet_address: OWNER, github_username: 'nat' }],
+    oracles: [{ id: 'oracle1', name: 'Resonance', birth_issue: BIRTH_ISSUE, owner_wallet: OWNER, bot_wallet: bot.address.toLowerCase() }],
+    posts: [
+      { id: 'post1', title: 'Keep', content: 'a', author_wallet: '0xaaa', oracle_birth_issue: BIRTH_ISSUE },
+      { id: 'post2', title: 'Remove', content: 'b', author_wallet: '0xaaa', oracle_birth_issue: BIRTH_ISSUE },
+    ],
+    comments: [
+      { id: 'comment1', post: 'post1', content: 'keep', author_wallet: '0xbbb' },
+      { id: 'comment2', post: 'post1', content: 'remove', author_wallet: '0xbbb' },
+    ],
+  })
+})
+
+async function asAdmin(path: string, method: string) {
+  const token = await createJWT({ sub: ADMIN, type: 'human', role: 'admin' })
+  return api(path, { method, headers: { Authorization: `Bearer ${token}` } }, ENV)
+}
+
+const json = async (res: Response) => (await res.json()) as Record<string, any>
+
+describe('admin soft delete', () => {
+  test('DELETE marks the record instead of removing it', async () => {
+    const res = await asAdmin('/api/admin/posts/post2', 'DELETE')
+    expect(res.status).toBe(200)
+    expect((await json(res)).soft).toBe(true)
+
+    const post = store.dump('posts').find(p => p.id === 'post2')!
+    expect(post.deleted_at).toBeTruthy()
+    expect(post.deleted_by).toBe(ADMIN)
+  })
+
+  test('collections outside posts/comments/oracles are still hard-deleted', async () => {
+    store.reset()
+    await store.collection('humans').create({ id: 'human1', wallet_address: '0xccc' })
+    const res = await asAdmin('/api/admin/humans/human1', 'DELETE')
+    expect((await json(res)).soft).toBe(false)
+    expect(store.dump('humans')).toEqual([])
+  })
+
+  test('deleting twice is a conflict', async () => {
+    await asAdmin('/api/admin/posts/post2', 'DELETE')
+    expect((await asAdmin('/api/admin/posts/post2', 'DELETE')).status).toBe(409)
+  })
+
+  test('restore brings the record back and is audited', async () => {
+    await asAdmin('/api/admin/posts/post2', 'DELETE')
+    const res = await asAdmin('/api/admin/posts/post2/restore', 'POST')
+    expect(res.status).toBe(200)
+    expect((await api('/api/posts/post2')).status).toBe(200)
+    expect(store.dump('admin_audit').map(e => e.action)).toEqual(['delete', 'restore'])
+  })
+
+  test('restore rejects live records and unsupported collections', async () => {
+    expect((await asAdmin('/api/admin/posts/post1/restore', 'POST')).status).toBe(409)
+    expect((await asAdmin('/api/admin/humans/x/restore', 'POST')).status).toBe(400)
+    expect((await asAdmin('/api/admin/posts/missing/restore', 'POST')).status).toBe(404)
+  })
+})
+
+describe('read routes hide soft-deleted records', () => {
+  test('feed, single post and oracle posts', async () => {
+    await asAdmin('/api/admin/posts/post2', 'DELETE')
+
+    const feed = await json(await api('/api/feed'))
+    expect(feed.posts.map((p: { id: string }) => p.id)).toEqual(['post1'])
+
+    expect((await api('/api/posts/post2')).status).toBe(404)
+
+    const oraclePosts = await json(await api('/api/oracles/oracle1/posts'))
+    expect(oraclePosts.items.map((p: { id: string }) => p.id)).toEqual(['post1'])
+
+    const stats = await json(await api('/api/stats'))
+    expect(stats.postCount).toBe(1)
+  })
+
+  test('comments list and feed comment counts', async () => {
+    await asAdmin('/api/admin/comments/comment2', 'DELETE')
+
+    const comments = await json(await api('/api/posts/post1/comments'))
+    expect(comments.items.map((c: { id: string }) => c.id)).toEqual(['comment1'])
+
+    const feed = await json(await api('/api/feed'))
+    expect(feed.posts.find((p: { id: string }) => p.id === 'post1').comment_count).toBe(1)
+  })
+
+  test('soft-deleted oracle is gone from list and get', async () => {
+    await asAdmin('/api/admin/oracles/oracle1', 'DELETE')
+
+    expect((await api('/api/oracles/oracle1')).status).toBe(404)
+    expect((await api('/api/oracles/oracle1/posts')).status).toBe(404)
+    expect((await json(await api('/api/oracles'))).items).toEqual([])
+  })
+
+  test("soft-deleted oracle is gone from its owner's lists and Merkle root", async () => {
+    const lists = async () => [
+      (await json(await api('/api/humans/owner/oracles'))).count,
+      (await json(await api('/api/humans/by-github/nat/oracles'))).count,
+      (await json(await api(`/api/merkle/owner/${OWNER}`))).oracle_count,
+    ]
+    expect(await lists()).toEqual([1, 1, 1])
+
+    await asAdmin('/api/admin/oracles/oracle1', 'DELETE')
+    expect(await lists()).toEqual([0, 0, 0])
+    expect((await api(`/api/merkle/proof/${OWNER}/1`)).status).toBe(404)
+  })
+
+  test('the bot of a soft-deleted oracle can no longer post', async () => {
+    const payload = { title: 'Still here', content: 'c', oracle_birth_issue: BIRTH_ISSUE }
+    const body = JSON.stringify({ ...payload, signature: await bot.signMessage({ message: JSON.stringify(payload) }) })
+    const post = () => api('/api/posts', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body })
+
+    await asAdmin('/api/admin/oracles/oracle1', 'DELETE')
+    expect((await post()).status).toBe(404)
+    expect(store.dump('posts')).toHaveLength(2)
+
+    await asAdmin('/api/admin/oracles/oracle1/restore', 'POST')
+    expect((await post()).status).toBe(200)
+  })
+
+  test('votes on soft-deleted posts and comments are 404', async () => {
+    await asAdmin('/api/admin/posts/post2', 'DELETE')
+    await asAdmin('/api/admin/comments/comment2', 'DELETE')
+
+    const token = await createJWT({ sub: '0xddd', type: 'human' })
+    const headers = { Authorization: `Bearer ${token}` }
+    expect((await api('/api/posts/post2/upvote', { method: 'POST', headers })).status).toBe(404)
+    expect((await api('/api/comments/comment2/upvote', { method: 'POST', headers })).status).toBe(404)
+  })
+})
+
+describe('purgeExpired', () => {
+  test('hard-deletes only records past the retention window, with an audit entry', async () => {
+    const old = toPBDate(new Date(Date.now() - 40 * 86400 * 1000))
+    const recent = toPBDate(new Date(Date.now() - 86400 * 1000))
+    await store.collection('posts').update('post1', { deleted_at: recent, deleted_by: ADMIN })
+    await store.collection('posts').update('post2', { deleted_at: old, deleted_by: ADMIN })
+
+    const purged = await purgeExpired(store, 30)
+    expect(purged).toEqual(['posts:post2'])
+    expect(store.dump('posts').map(p => p.id)).toEqual(['post1'])
+
+    const [entry] = store.dump('admin_audit')
+    expect(entry.action).toBe('purge')
+    expect(entry.actor).toBe('system')
+    expect(entry.snapshot.title).toBe('Remove')
+  })
+
+  test('live records are never purged', async () => {
+    expect(await purgeExpired(store, 0)).toEqual([])
+    expect(store.dump('posts').length).toBe(2)
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Verify-identity payload parser + check pipeline tests (mock GitHub + Chainlink)
+ *
+ * Run with: bun test verification
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createMockChainlinkProvider, setChainlinkProvider } from '../lib/chainlink'
+import { createMockGitHubClient, setGitHubClient, type MockGitHubClient } from '../lib/github'
+import { oracleNameFromTitle, parseVerificationPayload } from '../lib/verification'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const human = privateKeyToAccount(generatePrivateKey())
+const WALLET = human.address.toLowerCase()
+const BOT = '0x00000000000000000000000000000000000000b0'
+
+const VERIFY_ISSUE = 'https://github.com/o/identity/issues/1'
+const BIRTH_ISSUE = 'https://github.com/o/oracle/issues/7'
+const ROUND = '100'
+
+let github: MockGitHubClient
+let store: MemoryStore
+
+beforeEach(() => {
+  store = useMemoryStore({})
+  github = createMockGitHubClient()
+  setGitHubClient(github)
+  const chainlink = createMockChainlinkProvider()
+  chainlink.addRound(ROUND, Math.floor(Date.now() / 1000) - 60)
+  chainlink.addRound('1', Math.floor(Date.now() / 1000) - 86400)
+  setChainlinkProvider(chainlink)
+})
+
+afterEach(() => {
+  setGitHubClient(null)
+  setChainlinkProvider(null)
+})
+
+async function signedBody(fields: Record<string, unknown> = {}, signer = human) {
+  const payload = { version: 1, wallet: WALLET, birth_issue: BIRTH_ISSUE, bot_wallet: BOT, chainlink_round: ROUND, ...fields }
+  const signature = await signer.signMessage({ message: JSON.stringify(payload, null, 2) })
+  return '### Verify\n\n```json\n' + JSON.stringify({ ...payload, signature }, null, 2) + '\n```\n'
+}
+
+async function seedIssues(opts: { body?: string; birthAuthor?: string } = {}) {
+  github.addIssue(VERIFY_ISSUE, { title: 'Verify: nat', body: opts.body ?? await signedBody(), user: { login: 'nat' } })
+  github.addIssue(BIRTH_ISSUE, { title: 'Birth: Resonance — first light', body: '', user: { login: opts.birthAuthor ?? 'Nat' } })
+}
+
+const post = (path: string, body: unknown) =>
+  api(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+
+type Report = { ok: boolean; checks: { name: string; ok: boolean; skipped?: boolean; code?: string }[]; would_link?: Record<string, unknown> }
+
+describe('parseVerificationPayload', () => {
+  test('JSON code block — signed message is the payload minus signature', () => {
+    const body = '```json\n{\n  "wallet": "0xABCDEF0000000000000000000000000000000001",\n  "chainlink_round": "9",\n  "signature": "0x01"\n}\n```'
+    const parsed = parseVerificationPayload(body)
+    expect(parsed.source).toBe('json_block')
+    expect(parsed.payload).toMatchObject({ version: 1, wallet: '0xabcdef0000000000000000000000000000000001', chainlink_round: '9', signature: '0x01' })
+    expect(parsed.signedMessage).toBe(JSON.stringify({ wallet: '0xABCDEF0000000000000000000000000000000001', chainlink_round: '9' }, null, 2))
+  })
+
+  test('whole-body JSON and markdown labels', () => {
+    expect(parseVerificationPayload('{"wallet":"0x0000000000000000000000000000000000000001","version":2}'))
+      .toMatchObject({ source: 'json_body', payload: { version: 2 } })
+
+    const labels = parseVerificationPayload([
+      '**Wallet:** `0x00000000000000000000000000000000000000A1`',
+      `**Birth Issue:** ${BIRTH_ISSUE}`,
+      `Bot Wallet: ${BOT}`,
+    ].join('\n'))
+    expect(labels).toMatchObject({
+      source: 'labels',
+      signedMessage: null,
+      payload: { wallet: '0x00000000000000000000000000000000000000a1', birth_issue: BIRTH_ISSUE, bot_wallet: BOT },
+    })
+  })
+
+  test('oracle name from the birth issue title', () => {
+    expect(oracleNameFromTitle('Birth: Resonance — first light')).toBe('Resonance')
+    expect(oracleNameFromTitle('')).toBeUndefined()
+  })
+})
+
+describe('POST /api/auth/verify-identity/dry-run', () => {
+  test('reports every check and writes nothing', async () => {
+    await seedIssues()
+    const res = await post('/api/auth/verify-identity/dry-run', { verificationIssueUrl: VERIFY_ISSUE })
+    expect(res.status).toBe(200)
+    const report = (await res.json()) as Report
+    expect(report.ok).toBe(true)
+    expect(report.checks.every(c => c.ok)).toBe(true)
+    expect(report.would_link).toMatchObject({ githubUsername: 'nat', walletAddress: WALLET, birthIssue: BIRTH_ISSUE, oracleName: 'Resonance', botWallet: BOT })
+
+    expect(store.dump('humans')).toEqual([])
+    expect(store.dump('oracles')).toEqual([])
+  })
+
+  test('keeps going past failures', async () => {
+    await seedIssues({ body: await signedBody({ chainlink_round: '1' }), birthAuthor: 'someone-else' })
+    const report = (await (await post('/api/auth/verify-identity/dry-run', { verificationIssueUrl: VERIFY_ISSUE })).json()) as Report
+
+    expect(report.ok).toBe(false)
+    const failed = report.checks.filter(c => !c.ok).map(c => c.name)
+    expect(failed).toEqual(['proof_of_time', 'github_author'])
+    expect(report.checks.find(c => c.name === 'proof_of_time')?.code).toBe('proof_of_time_expired')
+    expect(report.would_link).toBeUndefined()
+  })
+
+  test('a missing issue skips what depends on it', async () => {
+    const report = (await (await post('/api/auth/verify-identity/dry-run', { verificationIssueUrl: VERIFY_ISSUE })).json()) as Report
+    expect(report.checks[1]).toMatchObject({ name: 'verification_issue', ok: false })
+    expect(report.checks.slice(2).every(c => c.skipped)).toBe(true)
+  })
+})
+
+describe('POST /api/auth/verify-identity', () => {
+  test('links wallet, GitHub and oracle once every check passes', async () => {
+    await seedIssues()
+    const res = await post('/api/auth/verify-identity', { verificationIssueUrl: VERIFY_ISSUE })
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ success: true, github_username: 'nat', oracle_name: 'Resonance' })
+    expect(store.dump('oracles')[0]).toMatchObject({ owner_wallet: WALLET, bot_wallet: BOT, birth_issue: BIRTH_ISSUE })
+  })
+
+  test('answers with the first failing check', async () => {
+    await seedIssues({ body: await signedBody({ version: 2 }) })
+    const res = await post('/api/auth/verify-identity', { verificationIssueUrl: VERIFY_ISSUE })
+    expect(res.status).toBe(400)
+    expect(((await res.json()) as { code: string }).code).toBe('unsupported_payload_version')
+
+    await seedIssues({ body: await signedBody({}, privateKeyToAccount(generatePrivateKey())) })
+    const forged = await post('/api/auth/verify-identity', { verificationIssueUrl: VERIFY_ISSUE })
+    expect(forged.status).toBe(401)
+    expect(((await forged.json()) as { error: string }).error).toBe('Signature does not match wallet address')
+    expect(store.dump('humans')).toEqual([])
+  })
+})
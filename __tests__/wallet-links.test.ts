@@ -0,0 +1,141 @@
+/**
+ * Linked wallet tests — link/unlink/primary, and one identity across wallets
+ *
+ * Run with: bun test wallet-links
+ */
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { createJWT } from '../lib/auth'
+import { createMemoryKV, setKV } from '../lib/kv'
+import { REPLAY_ERROR_CODE } from '../lib/replay'
+import { linkMessage } from '../lib/wallet-links'
+import type { MemoryStore } from '../lib/memory-store'
+import { api, useMemoryStore } from './helpers'
+
+const primary = privateKeyToAccount(generatePrivateKey())
+const second = privateKeyToAccount(generatePrivateKey())
+const stranger = privateKeyToAccount(generatePrivateKey())
+
+const PRIMARY = primary.address.toLowerCase()
+const SECOND = second.address.toLowerCase()
+const BOT = '0x00000000000000000000000000000000000000b0'
+
+let store: MemoryStore
+
+beforeEach(() => {
+  setKV(createMemoryKV())
+  store = useMemoryStore({
+    humans: [
+      { id: 'human1', wallet_address: PRIMARY, github_username: 'nat' },
+      { id: 'human2', wallet_address: stranger.address.toLowerCase() },
+    ],
+    oracles: [
+      { id: 'oracle1', name: 'Resonance', birth_issue: 'https://github.com/o/r/issues/7', owner_wallet: SECOND, bot_wallet: BOT, deleted_at: '' },
+    ],
+  })
+})
+
+const auth = async (wallet: string, init: RequestInit = {}): Promise<RequestInit> => ({
+  ...init,
+  headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await createJWT({ sub: wallet, type: 'human' })}` },
+})
+
+async function linkBody(account = second, signer = account, human = 'human1') {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const wallet = account.address
+  const signature = await signer.signMessage({ message: linkMessage({ human, wallet, timestamp }) })
+  return { wallet, timestamp, signature }
+}
+
+const link = async (body: unknown, as = PRIMARY) =>
+  api('/api/humans/me/wallets', await auth(as, { method: 'POST', body: JSON.stringify(body) }))
+
+describe('linking', () => {
+  test('the new wallet signs, the signed-in human confirms', async () => {
+    const res = await link(await linkBody())
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ primary: PRIMARY, wallets: [{ wallet: PRIMARY, primary: true }, { wallet: SECOND, primary: false }] })
+
+    const list = await api('/api/humans/me/wallets', await auth(SECOND))
+    expect(((await list.json()) as { primary: string }).primary).toBe(PRIMARY)
+  })
+
+  test('rejects signatures from another wallet, replays and taken wallets', async () => {
+    expect((await link(await linkBody(second, stranger))).status).toBe(401)
+
+    const body = await linkBody()
+    expect((await link(body)).status).toBe(200)
+    const replay = await link(body)
+    expect(replay.status).toBe(401)
+    expect(((await replay.json()) as { code: string }).code).toBe(REPLAY_ERROR_CODE)
+
+    const taken = await link(await linkBody(stranger))
+    expect(taken.status).toBe(409)
+    expect(((await taken.json()) as { code: string }).code).toBe('wallet_already_linked')
+  })
+
+  test('oracle bot wallets cannot be linked', async () => {
+    const bot = privateKeyToAccount(generatePrivateKey())
+    await store.collection('oracles').update('oracle1', { bot_wallet: bot.address.toLowerCase() })
+    const res = await link(await linkBody(bot))
+    expect(res.status).toBe(403)
+  })
+
+  test('primary can be switched; only non-primary wallets unlink', async () => {
+    await link(await linkBody())
+
+    const switched = await api('/api/humans/me/wallets/primary', await auth(PRIMARY, { method: 'PUT', body: JSON.stringify({ wallet: second.address }) }))
+    expect(switched.status).toBe(200)
+    expect(((await switched.json()) as { primary: string }).primary).toBe(SECOND)
+    expect(store.dump('humans').find(h => h.id === 'human1')?.wallet_address).toBe(SECOND)
+
+    const unlinkPrimary = await api(`/api/humans/me/wallets/${SECOND}`, await auth(PRIMARY, { method: 'DELETE' }))
+    expect(unlinkPrimary.status).toBe(400)
+
+    const unlink = await api(`/api/humans/me/wallets/${PRIMARY}`, await auth(SECOND, { method: 'DELETE' }))
+    expect(unlink.status).toBe(200)
+    expect(((await unlink.json()) as { wallets: unknown[] }).wallets).toHaveLength(1)
+    expect((await api('/api/humans/me', await auth(PRIMARY))).status).toBe(404)
+  })
+})
+
+describe('one identity across wallets', () => {
+  beforeEach(async () => {
+    expect((await link(await linkBody())).status).toBe(200)
+  })
+
+  test('a linked wallet is the same human', async () => {
+    const me = await api('/api/humans/me', await auth(SECOND))
+    expect(((await me.json()) as { id: string }).id).toBe('human1')
+
+    const check = await api(`/api/auth/humans/check?address=${SECOND}`)
+    expect(await check.json()).toMatchObject({ registered: true, human: { id: 'human1' } })
+  })
+
+  test('feed resolves posts from a linked wallet to the human', async () => {
+    await store.collection('posts').create({ title: 'Hi', content: 'from my other wallet', author_wallet: SECOND, deleted_at: '' })
+    const res = await api('/api/feed')
+    const { posts } = (await res.json()) as { posts: { author: Record<string, unknown> }[] }
+    expect(posts[0].author).toMatchObject({ type: 'human', github_username: 'nat', primary_wallet: PRIMARY })
+  })
+
+  test('notifications of every linked wallet land in one inbox', async () => {
+    const notifications = store.collection('notifications')
+    await notifications.create({ recipient_wallet: PRIMARY, actor_wallet: BOT, type: 'comment', read: false })
+    const other = await notifications.create({ recipient_wallet: SECOND, actor_wallet: BOT, type: 'comment', read: false })
+
+    const res = await api('/api/notifications', await auth(PRIMARY))
+    expect(((await res.json()) as { unreadCount: number }).unreadCount).toBe(2)
+
+    const read = await api(`/api/notifications/${other.id}/read`, await auth(PRIMARY, { method: 'PATCH' }))
+    expect(read.status).toBe(200)
+  })
+
+  test('merkle owner root and my oracles span linked wallets', async () => {
+    const owner = await api(`/api/merkle/owner/${PRIMARY}`)
+    expect(await owner.json()).toMatchObject({ oracle_count: 1, wallets: [PRIMARY, SECOND] })
+
+    const mine = await api('/api/me/oracles', await auth(PRIMARY))
+    expect(((await mine.json()) as { items: { id: string }[] }).items.map(o => o.id)).toEqual(['oracle1'])
+  })
+})
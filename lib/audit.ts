@@ -0,0 +1,64 @@
+/**
+ * Admin audit log — append-only record of admin mutations
+ *
+ * Every admin mutation writes one admin_audit entry per affected record:
+ * who did it, what, to which record, and a snapshot of the record before the
+ * change (enough to restore it). Entries are only ever created — no route
+ * updates or deletes them, and admin_audit is not in the admin records
+ * allow-list.
+ */
+import type { DataStore } from './store'
+import { and, eq, gte, lte } from './pb-filter'
+import type { AdminAuditRecord } from './pb-types'
+
+export const AUDIT_COLLECTION = 'admin_audit'
+
+export type AuditAction = AdminAuditRecord['action']
+
+export interface AuditEntry {
+  actor: string
+  action: AuditAction
+  target_collection: string
+  target_id: string
+  snapshot?: Record<string, unknown> | null
+}
+
+export interface AuditQuery {
+  actor?: string
+  action?: string
+  collection?: string
+  targetId?: string
+  since?: Date
+  until?: Date
+}
+
+/**
+ * Append an audit entry.
+ * Call BEFORE the mutation: if the entry can't be written, the mutation must not run.
+ */
+export async function recordAudit(pb: DataStore, entry: AuditEntry): Promise<AdminAuditRecord> {
+  return pb.collection(AUDIT_COLLECTION).create<AdminAuditRecord>({
+    actor: entry.actor.toLowerCase(),
+    action: entry.action,
+    target_collection: entry.target_collection,
+    target_id: entry.target_id,
+    snapshot: entry.snapshot ?? null,
+  })
+}
+
+/** Newest-first page of audit entries matching the query */
+export async function listAudit(pb: DataStore, query: AuditQuery, page = 1, perPage = 50) {
+  const filter = [
+    query.actor ? eq('actor', query.actor.toLowerCase()) : null,
+    query.action ? eq('action', query.action) : null,
+    query.collection ? eq('target_collection', query.collection) : null,
+    query.targetId ? eq('target_id', query.targetId) : null,
+    query.since ? gte('created', query.since) : null,
+    query.until ? lte('created', query.until) : null,
+  ]
+
+  return pb.collection(AUDIT_COLLECTION).getList<AdminAuditRecord>(page, perPage, {
+    filter: filter.some(Boolean) ? and(...filter) : undefined,
+    sort: '-created',
+  })
+}
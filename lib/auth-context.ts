@@ -0,0 +1,240 @@
+/**
+ * Request principal — who is calling, resolved once per request
+ *
+ * authContext is an Elysia plugin: it verifies the Bearer token and exposes
+ * `auth` ({ principal, code }) to the handlers of every module that uses it.
+ * Routes opt into a guard declaratively:
+ *   .get('/me', ({ human }) => ..., { requireHuman: true })
+ *   .get('/by-birth/:birthIssue/x', ({ oracle }) => ..., { requireOracleBot: { param: 'birthIssue' } })
+ *   .delete('/api/admin/x', ({ principal }) => ..., { requireAdmin: true })
+ *
+ * Guards answer with the same bodies everywhere:
+ *   401 { error: 'Authentication required', code }  — no token (auth_required) or a rejected one (JWTErrorCode)
+ *   403 { error, code: 'forbidden' }                — signed in, but not as what the route needs
+ *   404 { error, code: 'not_found' }                — the human/agent/oracle the guard needs doesn't exist
+ *
+ * Capability tokens (lib/capabilities.ts) resolve to an 'oracle_bot'
+ * principal, but only requireOracleBot with a matching scope accepts them.
+ * The linked human, its wallets and owned oracles cost queries, so the
+ * principal loads them on first use and keeps them for the rest of the request.
+ */
+import { Elysia } from 'elysia'
+import { isAdminWallet, verifyBearer, type JWTErrorCode } from './auth'
+import { capabilityDenied, isCapabilityToken, type CapabilityClaims, type CapabilityScope } from './capabilities'
+import { getAdminPB } from './pb'
+import { eq, like } from './pb-filter'
+import { isDeleted } from './soft-delete'
+import { findHumanByWallet, oraclesOwnedBy, walletsOfHuman } from './wallet-links'
+import type { AgentRecord, HumanRecord, OracleRecord } from './pb-types'
+
+export type PrincipalType = 'human' | 'agent' | 'oracle_bot' | 'wallet-sign'
+
+export interface Principal {
+  wallet: string                       // lowercase
+  type: PrincipalType
+  claims: Record<string, unknown>
+  sessionId?: string                   // session tokens only (lib/sessions.ts)
+  capability?: CapabilityClaims        // capability tokens only
+  /** Human this wallet belongs to, as primary or linked wallet (memoized) */
+  human(): Promise<HumanRecord | null>
+  /** Every wallet of that human, primary first — just [wallet] without one (memoized) */
+  wallets(): Promise<string[]>
+  /** Oracles owned by any of those wallets, soft-deleted ones excluded (memoized) */
+  ownedOracles(): Promise<OracleRecord[]>
+}
+
+export interface AuthState {
+  principal: Principal | null
+  code?: JWTErrorCode                  // why the token was rejected, if there was one
+}
+
+export type AuthErrorCode = JWTErrorCode | 'auth_required' | 'forbidden' | 'not_found'
+
+export interface AuthFailure {
+  status: 401 | 403 | 404
+  body: { error: string; code: AuthErrorCode }
+}
+
+export interface OracleBotGuard {
+  param: string                        // route param holding the birth issue (number or full URL)
+  scope?: CapabilityScope              // capability tokens must grant this; without it they are refused
+  allowOwner?: boolean                 // the oracle's owner_wallet passes too
+}
+
+const SESSION_TYPES: PrincipalType[] = ['human', 'agent', 'wallet-sign']
+
+function memo<T>(load: () => Promise<T>): () => Promise<T> {
+  let pending: Promise<T> | undefined
+  return () => (pending ??= load())
+}
+
+/** Principal for verified token claims — null when the token names no wallet */
+export function principalFromClaims(claims: Record<string, unknown>): Principal | null {
+  if (typeof claims.sub !== 'string' || !claims.sub) return null
+  const wallet = claims.sub.toLowerCase()
+  const capability = isCapabilityToken(claims) ? claims : undefined
+  const human = memo(async () => findHumanByWallet(await getAdminPB(), wallet))
+  const wallets = memo(async () => {
+    const found = await human()
+    return found ? walletsOfHuman(await getAdminPB(), found) : [wallet]
+  })
+  const type: PrincipalType = capability
+    ? 'oracle_bot'
+    : SESSION_TYPES.find(t => t === claims.type) ?? 'wallet-sign'
+
+  return {
+    wallet,
+    type,
+    claims,
+    sessionId: typeof claims.sid === 'string' ? claims.sid : undefined,
+    capability,
+    human,
+    wallets,
+    ownedOracles: memo(async () => oraclesOwnedBy(await getAdminPB(), await wallets())),
+  }
+}
+
+/** Verify the Bearer token of a request — no header = anonymous, not an error */
+export async function resolveAuth(request: Request): Promise<AuthState> {
+  const result = await verifyBearer(request, { allowCapability: true })
+  if (!result) return { principal: null }
+  if (!result.ok) return { principal: null, code: result.code }
+  return { principal: principalFromClaims(result.payload) }
+}
+
+// One resolution per request, shared by the `auth` resolver and the guards
+const resolved = new WeakMap<Request, Promise<AuthState>>()
+
+function authFor(request: Request): Promise<AuthState> {
+  let auth = resolved.get(request)
+  if (!auth) resolved.set(request, (auth = resolveAuth(request)))
+  return auth
+}
+
+/** Oracle for a birth issue — full URL, or just the issue number ("143" from oracle-v2#143) */
+export async function findOracleByBirthIssue(birthIssue: string): Promise<OracleRecord | null> {
+  const pb = await getAdminPB()
+  const byNumber = /^\d+$/.test(birthIssue)
+  const data = await pb.collection('oracles').getList<OracleRecord>(1, 10, {
+    filter: byNumber ? like('birth_issue', `/${birthIssue}`) : eq('birth_issue', birthIssue),
+  })
+  const oracle = data.items.find(o => byNumber ? o.birth_issue?.endsWith(`/${birthIssue}`) : o.birth_issue === birthIssue)
+  return oracle && !isDeleted(oracle) ? oracle : null
+}
+
+// ═══════════════════════════════════════════════════════════════
+// GUARDS
+// ═══════════════════════════════════════════════════════════════
+
+const fail = (status: AuthFailure['status'], error: string, code: AuthErrorCode): AuthFailure => ({ status, body: { error, code } })
+export const isFailure = (value: Principal | AuthFailure): value is AuthFailure => 'status' in value && 'body' in value
+
+/** Any accepted token, capability tokens included — for checks that follow with checkOracleBot */
+export function checkPrincipal(auth: AuthState): Principal | AuthFailure {
+  return auth.principal ?? fail(401, 'Authentication required', auth.code ?? 'auth_required')
+}
+
+/** Signed in with a session token (any type) — capability tokens are refused */
+export function checkSession(auth: AuthState): Principal | AuthFailure {
+  const principal = checkPrincipal(auth)
+  if (isFailure(principal)) return principal
+  if (principal.capability) return fail(401, 'Authentication required', 'scoped_token_not_allowed')
+  return principal
+}
+
+/**
+ * Admin session — role: 'admin' from SIWE sign-in, and the wallet still on
+ * ADMIN_WALLETS. Removing a wallet from the list revokes access immediately,
+ * even for unexpired tokens.
+ */
+export function checkAdmin(auth: AuthState): Principal | AuthFailure {
+  const principal = checkSession(auth)
+  if (isFailure(principal)) return principal
+  if (principal.claims.role !== 'admin' || !isAdminWallet(principal.wallet)) return fail(403, 'Admin role required', 'forbidden')
+  return principal
+}
+
+/** May this principal act as the oracle's bot (or owner — any wallet of that human — if allowed)? */
+export async function checkOracleBot(principal: Principal, oracle: OracleRecord, guard: Omit<OracleBotGuard, 'param'>): Promise<AuthFailure | null> {
+  if (principal.capability) {
+    if (!guard.scope) return fail(403, 'Scoped tokens are not accepted here', 'forbidden')
+    const denied = capabilityDenied(principal.capability, guard.scope, { birthIssue: oracle.birth_issue || '', wallet: oracle.bot_wallet || '' })
+    return denied ? fail(403, denied, 'forbidden') : null
+  }
+  if (oracle.bot_wallet?.toLowerCase() === principal.wallet) return null
+  const owner = oracle.owner_wallet?.toLowerCase()
+  if (guard.allowOwner && owner && (await principal.wallets()).includes(owner)) return null
+  return fail(403, guard.allowOwner ? 'Not authorized — wallet must be oracle owner or bot' : 'Not authorized — wallet must be the oracle bot', 'forbidden')
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PLUGIN
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * `.use(authContext)` in a route module: adds `auth` to every handler and the
+ * requireAuth / requireHuman / requireAgent / requireOracleBot / requireAdmin route options.
+ */
+export const authContext = new Elysia()
+  .resolve({ as: 'scoped' }, async ({ request }) => ({ auth: await authFor(request) }))
+  .macro({
+    // Any session token → `principal`
+    requireAuth: {
+      async resolve({ request, status }) {
+        const principal = checkSession(await authFor(request))
+        if (isFailure(principal)) return status(principal.status, principal.body)
+        return { principal }
+      },
+    },
+
+    // Human sign-in (SIWE) with a human record → `principal`, `human`
+    requireHuman: {
+      async resolve({ request, status }) {
+        const principal = checkSession(await authFor(request))
+        if (isFailure(principal)) return status(principal.status, principal.body)
+        if (principal.type !== 'human') return status(403, { error: 'Human sign-in required', code: 'forbidden' as const })
+        const human = await principal.human()
+        if (!human) return status(404, { error: 'Human not found', code: 'not_found' as const })
+        return { principal, human }
+      },
+    },
+
+    // Agent sign-in with an agent record → `principal`, `agent`
+    requireAgent: {
+      async resolve({ request, status }) {
+        const principal = checkSession(await authFor(request))
+        if (isFailure(principal)) return status(principal.status, principal.body)
+        if (principal.type !== 'agent') return status(403, { error: 'Agent sign-in required', code: 'forbidden' as const })
+        const pb = await getAdminPB()
+        const data = await pb.collection('agents').getList<AgentRecord>(1, 1, { filter: eq('wallet_address', principal.wallet) })
+        const agent = data.items?.[0]
+        if (!agent) return status(404, { error: 'Agent not found', code: 'not_found' as const })
+        return { principal, agent }
+      },
+    },
+
+    // Admin sign-in on the ADMIN_WALLETS allow-list → `principal`
+    requireAdmin: {
+      async resolve({ request, status }) {
+        const principal = checkAdmin(await authFor(request))
+        if (isFailure(principal)) return status(principal.status, principal.body)
+        return { principal }
+      },
+    },
+
+    // Bot of the oracle named by a route param → `principal`, `oracle`
+    requireOracleBot(guard: OracleBotGuard) {
+      return {
+        async resolve({ request, params, status }) {
+          const principal = checkPrincipal(await authFor(request))
+          if (isFailure(principal)) return status(principal.status, principal.body)
+          const birthIssue = (params as Record<string, string | undefined>)[guard.param] || ''
+          const oracle = await findOracleByBirthIssue(birthIssue)
+          if (!oracle) return status(404, { error: `No oracle found for birth issue #${birthIssue}`, code: 'not_found' as const })
+          const denied = await checkOracleBot(principal, oracle, guard)
+          if (denied) return status(denied.status, denied.body)
+          return { principal, oracle }
+        },
+      }
+    },
+  })
@@ -0,0 +1,167 @@
+/**
+ * Bot authorization handshake (device-style flow)
+ *
+ * 1. Bot:   POST /api/auth/auth-request — signed by the oracle's bot_wallet,
+ *           gets { reqId, secret }. The secret never leaves the bot.
+ * 2. Human: GET /api/auth/auth-request/:reqId shows what is being asked,
+ *           POST /api/auth/authorize signs approveMessage(request) with the
+ *           oracle's owner_wallet → request becomes 'approved' with a one-time code.
+ * 3. Bot:   polls GET /api/auth/auth-request/:reqId with its secret
+ *           (X-Auth-Request-Secret) until the code shows up, then
+ *           POST /api/auth/token { code, secret } → scoped capability token.
+ *
+ * Requests live in KV (lib/kv.ts) and expire after AUTH_REQUEST_TTL_SEC;
+ * an approved code must be exchanged within AUTH_CODE_TTL_SEC and only once.
+ */
+import { getJSON, putJSON, type KVStore } from './kv'
+import { randomSecret, sha256Hex } from './sessions'
+import type { CapabilityScope } from './capabilities'
+import type { OracleRecord } from './pb-types'
+
+export const AUTH_REQUEST_TTL_SEC = 10 * 60     // pending request waits 10 min for the human
+export const AUTH_CODE_TTL_SEC = 2 * 60         // approved code must be exchanged within 2 min
+export const AUTH_REQUEST_MAX_AGE_SEC = 300     // signed create request valid for 5 min
+
+// Exchanged requests are kept a little longer so polls see the final state
+const EXCHANGED_TTL_SEC = 60
+
+export type AuthRequestStatus = 'pending' | 'approved' | 'exchanged'
+
+export type AuthRequestErrorCode =
+  | 'auth_request_not_found'
+  | 'auth_request_expired'
+  | 'auth_request_not_pending'
+  | 'invalid_code'
+  | 'code_already_used'
+  | 'invalid_secret'
+
+export interface AuthRequest {
+  id: string
+  birth_issue: string
+  oracle: string           // oracle record id
+  bot_wallet: string
+  scope: CapabilityScope[]
+  status: AuthRequestStatus
+  secret_hash: string      // SHA-256 of the bot's secret
+  code?: string            // one-time code, set on approval
+  approved_by?: string     // owner wallet that signed the approval
+  created_at: number       // unix seconds
+  expires_at: number       // unix seconds — pending: request expiry, approved: code expiry
+}
+
+type Result<T> = { ok: true } & T | { ok: false; code: AuthRequestErrorCode }
+
+const key = (id: string) => `auth-request:${id}`
+
+const nowSec = () => Math.floor(Date.now() / 1000)
+
+/** Canonical message the bot signs to open a request (scope order doesn't matter) */
+export function authRequestMessage(req: { birth_issue: string; scope: CapabilityScope[]; timestamp: number }): string {
+  return JSON.stringify({
+    action: 'auth_request',
+    birth_issue: req.birth_issue,
+    scope: [...new Set(req.scope)].sort(),
+    timestamp: req.timestamp,
+  })
+}
+
+/** Message the owner signs to approve — spells out who gets what */
+export function approveMessage(req: Pick<AuthRequest, 'id' | 'birth_issue' | 'bot_wallet' | 'scope'>): string {
+  return [
+    'Authorize OracleNet bot',
+    `Oracle: ${req.birth_issue}`,
+    `Bot wallet: ${req.bot_wallet}`,
+    `Scope: ${req.scope.join(', ')}`,
+    `Request: ${req.id}`,
+  ].join('\n')
+}
+
+/** What anyone holding the request id may see (no secret, no code) */
+export function publicView(req: AuthRequest) {
+  return {
+    reqId: req.id,
+    status: req.status,
+    birth_issue: req.birth_issue,
+    bot_wallet: req.bot_wallet,
+    scope: req.scope,
+    message: approveMessage(req),
+    expires_at: new Date(req.expires_at * 1000).toISOString(),
+    ...(req.approved_by && { approved_by: req.approved_by }),
+  }
+}
+
+async function save(kv: KVStore, req: AuthRequest, ttlSec: number) {
+  await putJSON(kv, key(req.id), req, ttlSec)
+}
+
+/** Open a pending request for `oracle`'s bot — returns the request and the bot's secret */
+export async function createAuthRequest(
+  kv: KVStore,
+  oracle: Pick<OracleRecord, 'id' | 'birth_issue' | 'bot_wallet'>,
+  scope: CapabilityScope[],
+): Promise<{ request: AuthRequest; secret: string }> {
+  const secret = randomSecret()
+  const now = nowSec()
+  const request: AuthRequest = {
+    id: crypto.randomUUID(),
+    birth_issue: oracle.birth_issue || '',
+    oracle: oracle.id,
+    bot_wallet: (oracle.bot_wallet || '').toLowerCase(),
+    scope: [...new Set(scope)].sort(),
+    status: 'pending',
+    secret_hash: await sha256Hex(secret),
+    created_at: now,
+    expires_at: now + AUTH_REQUEST_TTL_SEC,
+  }
+  await save(kv, request, AUTH_REQUEST_TTL_SEC)
+  return { request, secret }
+}
+
+/** Load a request — expired ones are reported even if KV hasn't dropped them yet */
+export async function getAuthRequest(kv: KVStore, id: string): Promise<Result<{ request: AuthRequest }>> {
+  const request = await getJSON<AuthRequest>(kv, key(id))
+  if (!request) return { ok: false, code: 'auth_request_not_found' }
+  if (request.expires_at <= nowSec()) return { ok: false, code: 'auth_request_expired' }
+  return { ok: true, request }
+}
+
+export async function secretMatches(req: AuthRequest, secret: string): Promise<boolean> {
+  return !!secret && req.secret_hash === await sha256Hex(secret)
+}
+
+/** Mark a pending request approved by `approver` and attach a one-time code */
+export async function approveAuthRequest(kv: KVStore, req: AuthRequest, approver: string): Promise<Result<{ code: string }>> {
+  if (req.status !== 'pending') return { ok: false, code: 'auth_request_not_pending' }
+
+  const code = `${req.id}.${randomSecret()}`
+  await save(kv, {
+    ...req,
+    status: 'approved',
+    code,
+    approved_by: approver.toLowerCase(),
+    expires_at: nowSec() + AUTH_CODE_TTL_SEC,
+  }, AUTH_CODE_TTL_SEC)
+  return { ok: true, code }
+}
+
+/**
+ * Exchange a code (+ the bot's secret) — single use.
+ * KV has no compare-and-swap, so two exchanges racing across locations could
+ * both pass; within one location the second one sees 'exchanged'.
+ */
+export async function exchangeAuthCode(kv: KVStore, code: string, secret: string): Promise<Result<{ request: AuthRequest }>> {
+  const [id] = code.split('.')
+  if (!id) return { ok: false, code: 'invalid_code' }
+
+  const found = await getAuthRequest(kv, id)
+  if (!found.ok) return found.code === 'auth_request_not_found' ? { ok: false, code: 'invalid_code' } : found
+  const { request } = found
+
+  if (request.status === 'exchanged') return { ok: false, code: 'code_already_used' }
+  if (request.status !== 'approved' || request.code !== code) return { ok: false, code: 'invalid_code' }
+  if (!await secretMatches(request, secret)) return { ok: false, code: 'invalid_secret' }
+
+  const { code: _used, ...rest } = request
+  await save(kv, { ...rest, status: 'exchanged', expires_at: nowSec() + EXCHANGED_TTL_SEC }, EXCHANGED_TTL_SEC)
+  return { ok: true, request }
+}
@@ -4,107 +4,213 @@
  * Uses Web Crypto API for CF Workers compatibility.
  * All auth is SIWE (wallet signature) + custom JWT. No PocketBase passwords.
  */
-import { recoverMessageAddress } from 'viem'
-import { parseSiweMessage } from 'viem/siwe'
+import { getEnv } from './env'
 
-// Salt for JWT signing (fallback if SECRET_SALT not set)
+// Dev-only JWT secret — used when neither JWT_KEYS nor JWT_SECRET is set
 export const DEFAULT_SALT = 'oracle-universe-dev-salt-change-in-production'
 
+/** Roles carried in the JWT `role` claim */
+export type Role = 'admin'
+
 /**
- * Create a JWT token (signature-based, not password-based)
- * Uses HMAC-SHA256 for signing
+ * Admin wallet allow-list from ADMIN_WALLETS (comma-separated, case-insensitive)
+ * Read per call so a secret change takes effect without a redeploy of the code.
  */
-export async function createJWT(payload: Record<string, unknown>, secret = DEFAULT_SALT): Promise<string> {
-  const header = { alg: 'HS256', typ: 'JWT' }
-  const encode = (obj: unknown) =>
-    btoa(JSON.stringify(obj))
-      .replace(/=/g, '')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
+export function getAdminWallets(): Set<string> {
+  return new Set(
+    (getEnv('ADMIN_WALLETS') || '')
+      .split(',')
+      .map(w => w.trim().toLowerCase())
+      .filter(Boolean)
+  )
+}
 
-  const headerB64 = encode(header)
-  const payloadB64 = encode({
-    ...payload,
-    iat: Math.floor(Date.now() / 1000),
-    exp: Math.floor(Date.now() / 1000) + 86400 * 7, // 7 days
-  })
+export function isAdminWallet(wallet: string): boolean {
+  return getAdminWallets().has(wallet.toLowerCase())
+}
+
+/** Role granted to a wallet at sign-in, if any */
+export function roleForWallet(wallet: string): Role | undefined {
+  return isAdminWallet(wallet) ? 'admin' : undefined
+}
+
+/**
+ * JWT signing keys
+ *
+ * JWT_KEYS (JSON) holds every key that may still verify tokens, newest first:
+ *   [{"kid":"2026-10","secret":"…"},{"kid":"default","secret":"…","retires_at":"2026-11-01T00:00:00Z"}]
+ * New tokens are signed with the first key that isn't retired and carry its
+ * `kid` in the header. Rotating = prepend a new key and give the old one a
+ * retires_at at least one token lifetime away, so nobody is logged out early.
+ * After retires_at, tokens signed with that key fail with `key_retired`.
+ *
+ * Without JWT_KEYS there is one key, kid "default", secret JWT_SECRET (or the
+ * dev salt). Tokens without a kid (issued before rotation) use "default".
+ */
+export interface JWTKey {
+  kid: string
+  secret: string
+  retires_at?: string
+}
+
+export type JWTErrorCode =
+  | 'malformed_token' | 'unknown_key' | 'key_retired' | 'invalid_signature' | 'token_expired'
+  | 'scoped_token_not_allowed'
+
+export type JWTVerifyResult =
+  | { ok: true; payload: Record<string, unknown>; kid: string }
+  | { ok: false; code: JWTErrorCode }
+
+export const DEFAULT_KID = 'default'
+
+const TOKEN_TTL_SEC = 86400 * 7 // 7 days
+
+export function getJWTKeys(): JWTKey[] {
+  const raw = getEnv('JWT_KEYS')
+  if (!raw) return [{ kid: DEFAULT_KID, secret: getEnv('JWT_SECRET') || DEFAULT_SALT }]
+
+  let keys: unknown
+  try {
+    keys = JSON.parse(raw)
+  } catch {
+    throw new Error('JWT_KEYS is not valid JSON')
+  }
+  if (
+    !Array.isArray(keys) || keys.length === 0 ||
+    !keys.every(k => typeof k?.kid === 'string' && k.kid && typeof k?.secret === 'string' && k.secret)
+  ) {
+    throw new Error('JWT_KEYS must be a non-empty array of { kid, secret, retires_at? }')
+  }
+  return keys as JWTKey[]
+}
+
+export function isKeyRetired(key: JWTKey, now = new Date()): boolean {
+  return !!key.retires_at && new Date(key.retires_at) <= now
+}
+
+/** Key used for new tokens — the first one that isn't retired */
+export function getSigningKey(): JWTKey {
+  const key = getJWTKeys().find(k => !isKeyRetired(k))
+  if (!key) throw new Error('No active JWT signing key — every key in JWT_KEYS is retired')
+  return key
+}
 
-  const encoder = new TextEncoder()
-  const key = await crypto.subtle.importKey(
+const b64url = (bytes: string) => btoa(bytes).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_')
+
+const b64urlDecode = (str: string) =>
+  atob(str.replace(/-/g, '+').replace(/_/g, '/') + '=='.slice(0, (4 - (str.length % 4)) % 4))
+
+function hmacKey(secret: string, usage: 'sign' | 'verify') {
+  return crypto.subtle.importKey(
     'raw',
-    encoder.encode(secret),
+    new TextEncoder().encode(secret),
     { name: 'HMAC', hash: 'SHA-256' },
     false,
-    ['sign']
+    [usage]
   )
-  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${headerB64}.${payloadB64}`))
-  const sigB64 = btoa(String.fromCharCode(...new Uint8Array(signature)))
-    .replace(/=/g, '')
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
+}
 
-  return `${headerB64}.${payloadB64}.${sigB64}`
+export interface CreateJWTOptions {
+  key?: JWTKey      // default: current signing key
+  ttlSec?: number   // default: 7 days
 }
 
 /**
- * Verify a SIWE (Sign-In With Ethereum) message + signature
- * Returns recovered wallet address and nonce, or null if invalid/expired
+ * Create a JWT token (signature-based, not password-based)
+ * Uses HMAC-SHA256 with the current signing key (kid in header)
  */
-export async function verifySIWE(message: string, signature: string): Promise<{
-  wallet: string
-  nonce: string
-} | null> {
-  try {
-    const siwe = parseSiweMessage(message)
-    if (!siwe.address || !siwe.nonce) return null
+export async function createJWT(payload: Record<string, unknown>, options: CreateJWTOptions = {}): Promise<string> {
+  const { key = getSigningKey(), ttlSec = TOKEN_TTL_SEC } = options
+  const header = { alg: 'HS256', typ: 'JWT', kid: key.kid }
+  const encode = (obj: unknown) => b64url(JSON.stringify(obj))
 
-    // Check expiration if set
-    if (siwe.expirationTime && new Date(siwe.expirationTime) < new Date()) return null
-    if (siwe.notBefore && new Date(siwe.notBefore) > new Date()) return null
+  const headerB64 = encode(header)
+  const payloadB64 = encode({
+    ...payload,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(Date.now() / 1000) + ttlSec,
+  })
+
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await hmacKey(key.secret, 'sign'),
+    new TextEncoder().encode(`${headerB64}.${payloadB64}`)
+  )
+  const sigB64 = b64url(String.fromCharCode(...new Uint8Array(signature)))
 
-    const recovered = await recoverMessageAddress({
-      message,
-      signature: signature as `0x${string}`,
-    })
+  return `${headerB64}.${payloadB64}.${sigB64}`
+}
 
-    if (recovered.toLowerCase() !== siwe.address.toLowerCase()) return null
+// SIWE verification (EIP-4361 field checks + signer recovery) lives in lib/siwe.ts
+export { verifySIWE } from './siwe'
 
-    return { wallet: recovered.toLowerCase(), nonce: siwe.nonce }
-  } catch {
-    return null
-  }
+export interface VerifyJWTOptions {
+  /** Accept scoped capability tokens (lib/capabilities.ts) — only routes that check scopes */
+  allowCapability?: boolean
 }
 
 /**
- * Verify a JWT token and return payload if valid
- * Returns null if invalid or expired
+ * Verify a JWT token, saying why it failed
+ * The key is picked by the header kid; retired keys fail with key_retired.
+ * Capability tokens fail with scoped_token_not_allowed unless the caller opts in.
  */
-export async function verifyJWT(token: string, secret = DEFAULT_SALT): Promise<Record<string, unknown> | null> {
+export async function verifyJWTDetailed(token: string, options: VerifyJWTOptions = {}): Promise<JWTVerifyResult> {
+  const [headerB64, payloadB64, sigB64] = token.split('.')
+  if (!headerB64 || !payloadB64 || !sigB64) return { ok: false, code: 'malformed_token' }
+
+  let header: { alg?: string; kid?: string }
+  let payload: Record<string, unknown>
+  let sigArray: Uint8Array<ArrayBuffer>
   try {
-    const [headerB64, payloadB64, sigB64] = token.split('.')
-    if (!headerB64 || !payloadB64 || !sigB64) return null
+    header = JSON.parse(b64urlDecode(headerB64))
+    payload = JSON.parse(b64urlDecode(payloadB64))
+    sigArray = new Uint8Array([...b64urlDecode(sigB64)].map(c => c.charCodeAt(0)))
+  } catch {
+    return { ok: false, code: 'malformed_token' }
+  }
+  if (header.alg !== 'HS256') return { ok: false, code: 'malformed_token' }
+
+  const kid = header.kid || DEFAULT_KID
+  const key = getJWTKeys().find(k => k.kid === kid)
+  if (!key) return { ok: false, code: 'unknown_key' }
+  if (isKeyRetired(key)) return { ok: false, code: 'key_retired' }
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await hmacKey(key.secret, 'verify'),
+    sigArray,
+    new TextEncoder().encode(`${headerB64}.${payloadB64}`)
+  )
+  if (!valid) return { ok: false, code: 'invalid_signature' }
 
-    const encoder = new TextEncoder()
-    const key = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['verify']
-    )
+  if (typeof payload.exp === 'number' && payload.exp < Math.floor(Date.now() / 1000)) {
+    return { ok: false, code: 'token_expired' }
+  }
 
-    // Decode signature (restore base64 padding)
-    const sigStr = atob(sigB64.replace(/-/g, '+').replace(/_/g, '/') + '=='.slice(0, (4 - (sigB64.length % 4)) % 4))
-    const sigArray = new Uint8Array([...sigStr].map(c => c.charCodeAt(0)))
+  if (payload.type === 'capability' && !options.allowCapability) {
+    return { ok: false, code: 'scoped_token_not_allowed' }
+  }
 
-    const valid = await crypto.subtle.verify('HMAC', key, sigArray, encoder.encode(`${headerB64}.${payloadB64}`))
-    if (!valid) return null
+  return { ok: true, payload, kid }
+}
 
-    const payload = JSON.parse(atob(payloadB64.replace(/-/g, '+').replace(/_/g, '/')))
-    if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) return null // Expired
+/**
+ * Verify a JWT token and return payload if valid
+ * Returns null if invalid, expired or signed with a retired key
+ */
+export async function verifyJWT(token: string): Promise<Record<string, unknown> | null> {
+  const result = await verifyJWTDetailed(token)
+  return result.ok ? result.payload : null
+}
 
-    return payload
-  } catch {
-    return null
-  }
+/**
+ * Verify the Bearer token of a request
+ * Returns null when there is no Authorization header
+ */
+export async function verifyBearer(request: Request, options: VerifyJWTOptions = {}): Promise<JWTVerifyResult | null> {
+  const authHeader = request.headers.get('Authorization')
+  if (!authHeader) return null
+  const token = authHeader.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+  return verifyJWTDetailed(token, options)
 }
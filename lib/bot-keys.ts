@@ -0,0 +1,120 @@
+/**
+ * Oracle bot key rotation and revocation
+ *
+ * The owner can swap an oracle's bot_wallet without a new verification issue:
+ *   rotate — owner AND the new bot wallet sign rotateMessage(...) (proves possession)
+ *   revoke — owner signs revokeMessage(...); bot_wallet is cleared (leaked key)
+ *
+ * Every key that leaves service gets an oracle_bot_keys entry with the window
+ * it was valid in. The feed uses that to keep attributing posts signed by a
+ * rotated key before its rotation; revoked keys are never trusted again —
+ * a leaked key may have signed anything.
+ *
+ * Capability tokens carry the bot wallet as `sub`; checks against the
+ * current bot_wallet make tokens of a rotated/revoked key useless.
+ */
+import type { DataStore } from './store'
+import { eq, fromPBDate, listAnyOf, toPBDate } from './pb-filter'
+import { findHumanByWallet } from './wallet-links'
+import type { OracleBotKeyRecord, OracleRecord } from './pb-types'
+
+export const BOT_KEYS_COLLECTION = 'oracle_bot_keys'
+
+export const BOT_KEY_MAX_AGE_SEC = 300                // signed rotate/revoke request valid for 5 min
+
+export type BotKeyErrorCode = 'same_bot_wallet' | 'bot_wallet_in_use' | 'no_bot_wallet'
+
+export type BotKeyResult =
+  | { ok: true; oracle: OracleRecord; retired: OracleBotKeyRecord | null }
+  | { ok: false; code: BotKeyErrorCode; error: string }
+
+/** Canonical message the owner and the new bot wallet both sign */
+export function rotateMessage(req: { birth_issue: string; new_wallet: string; timestamp: number }): string {
+  return JSON.stringify({
+    action: 'rotate_bot_wallet',
+    birth_issue: req.birth_issue,
+    new_wallet: req.new_wallet.toLowerCase(),
+    timestamp: req.timestamp,
+  })
+}
+
+/** Canonical message the owner signs to revoke the current bot wallet */
+export function revokeMessage(req: { birth_issue: string; bot_wallet: string; timestamp: number }): string {
+  return JSON.stringify({
+    action: 'revoke_bot_wallet',
+    birth_issue: req.birth_issue,
+    bot_wallet: req.bot_wallet.toLowerCase(),
+    timestamp: req.timestamp,
+  })
+}
+
+/** Retired keys of an oracle, oldest first */
+export async function botKeyHistory(pb: DataStore, oracleId: string): Promise<OracleBotKeyRecord[]> {
+  const data = await pb.collection(BOT_KEYS_COLLECTION).getList<OracleBotKeyRecord>(1, 200, {
+    filter: eq('oracle', oracleId),
+    sort: 'created',
+  })
+  return data.items || []
+}
+
+/**
+ * Record the oracle's current bot_wallet as retired.
+ * It became valid when the previous key was retired (or when the oracle was created).
+ */
+export async function retireBotKey(
+  pb: DataStore,
+  oracle: OracleRecord,
+  reason: OracleBotKeyRecord['reason'],
+  actor: string,
+): Promise<OracleBotKeyRecord | null> {
+  if (!oracle.bot_wallet) return null
+  const previous = (await botKeyHistory(pb, oracle.id)).at(-1)
+  return pb.collection(BOT_KEYS_COLLECTION).create<OracleBotKeyRecord>({
+    oracle: oracle.id,
+    birth_issue: oracle.birth_issue || '',
+    bot_wallet: oracle.bot_wallet.toLowerCase(),
+    valid_from: previous?.valid_until || oracle.created,
+    valid_until: toPBDate(new Date()),
+    reason,
+    changed_by: actor.toLowerCase(),
+  })
+}
+
+/** Point the oracle at a new bot wallet — caller has checked both signatures */
+export async function rotateBotWallet(pb: DataStore, oracle: OracleRecord, newWallet: string, actor: string): Promise<BotKeyResult> {
+  const w = newWallet.toLowerCase()
+  if (oracle.bot_wallet?.toLowerCase() === w) {
+    return { ok: false, code: 'same_bot_wallet', error: 'Wallet is already the bot wallet of this oracle' }
+  }
+
+  // A bot key must not double as a human identity or another oracle's key
+  const other = await pb.collection('oracles').getList<OracleRecord>(1, 1, { filter: eq('bot_wallet', w) })
+  if (other.items?.length || w === oracle.owner_wallet?.toLowerCase() || await findHumanByWallet(pb, w)) {
+    return { ok: false, code: 'bot_wallet_in_use', error: 'Wallet already belongs to a human or another oracle' }
+  }
+
+  const retired = await retireBotKey(pb, oracle, 'rotated', actor)
+  const updated = await pb.collection('oracles').update<OracleRecord>(oracle.id, { bot_wallet: w, wallet_verified: true })
+  return { ok: true, oracle: updated, retired }
+}
+
+/** Clear the oracle's bot wallet — posts signed with it show as unverified from now on */
+export async function revokeBotWallet(pb: DataStore, oracle: OracleRecord, actor: string): Promise<BotKeyResult> {
+  if (!oracle.bot_wallet) return { ok: false, code: 'no_bot_wallet', error: 'Oracle has no bot wallet to revoke' }
+
+  const retired = await retireBotKey(pb, oracle, 'revoked', actor)
+  const updated = await pb.collection('oracles').update<OracleRecord>(oracle.id, { bot_wallet: '', wallet_verified: false })
+  return { ok: true, oracle: updated, retired }
+}
+
+/** Rotated (not revoked) keys for these wallets — for attributing old posts */
+export async function rotatedKeysOf(pb: DataStore, wallets: string[]): Promise<OracleBotKeyRecord[]> {
+  const keys = await listAnyOf<OracleBotKeyRecord>(pb, BOT_KEYS_COLLECTION, 'bot_wallet', wallets.map(w => w.toLowerCase()))
+  return keys.filter(k => k.reason === 'rotated')
+}
+
+/** Was `key` the oracle's bot wallet when something was signed at `at`? */
+export function keyValidAt(key: Pick<OracleBotKeyRecord, 'valid_from' | 'valid_until'>, at: string): boolean {
+  const time = fromPBDate(at)
+  return (!key.valid_from || fromPBDate(key.valid_from) <= time) && time < fromPBDate(key.valid_until)
+}
@@ -0,0 +1,90 @@
+/**
+ * Scoped capability tokens for oracle bots
+ *
+ * Instead of a broad session JWT, an oracle owner can mint a token for the
+ * bot that only allows some actions for one oracle:
+ *   { type: 'capability', sub: bot_wallet, scope: ['post', 'heartbeat'], birth_issue, oracle }
+ *
+ * Minting is a signed request: the owner signs mintMessage(...) and
+ * POST /api/auth/capabilities checks the signer is the oracle's owner_wallet.
+ * Routes call capabilityDenied() before acting, so a leaked bot token can
+ * only do what it was granted.
+ */
+import type { OracleRecord } from './pb-types'
+
+export const CAPABILITY_SCOPES = ['post', 'comment', 'heartbeat', 'notifications:read'] as const
+
+export type CapabilityScope = (typeof CAPABILITY_SCOPES)[number]
+
+export const CAPABILITY_DEFAULT_TTL_SEC = 86400       // 1 day
+export const CAPABILITY_MAX_TTL_SEC = 30 * 86400      // 30 days
+export const MINT_MAX_AGE_SEC = 300                   // signed mint request valid for 5 min
+
+export interface CapabilityClaims {
+  sub: string            // bot wallet the token acts as
+  type: 'capability'
+  scope: CapabilityScope[]
+  birth_issue: string
+  oracle: string         // oracle record id
+  minted_by: string      // owner wallet that signed the mint request
+}
+
+export interface MintRequest {
+  birth_issue: string
+  scope: CapabilityScope[]
+  expires_in: number
+  timestamp: number
+}
+
+export function isCapabilityScope(value: unknown): value is CapabilityScope {
+  return CAPABILITY_SCOPES.includes(value as CapabilityScope)
+}
+
+export function isCapabilityToken(payload: Record<string, unknown>): payload is Record<string, unknown> & CapabilityClaims {
+  return payload.type === 'capability'
+}
+
+/** Canonical message the owner signs to mint a token (scope order doesn't matter) */
+export function mintMessage(req: MintRequest): string {
+  return JSON.stringify({
+    action: 'mint_capability',
+    birth_issue: req.birth_issue,
+    scope: [...new Set(req.scope)].sort(),
+    expires_in: req.expires_in,
+    timestamp: req.timestamp,
+  })
+}
+
+/** Claims for a token minted by the owner of `oracle` */
+export function capabilityClaims(oracle: OracleRecord, scope: CapabilityScope[], mintedBy: string): CapabilityClaims {
+  return {
+    sub: (oracle.bot_wallet || '').toLowerCase(),
+    type: 'capability',
+    scope: [...new Set(scope)].sort(),
+    birth_issue: oracle.birth_issue || '',
+    oracle: oracle.id,
+    minted_by: mintedBy.toLowerCase(),
+  }
+}
+
+/**
+ * Does this capability token allow `scope`?
+ * `target` narrows the check to one oracle (birth_issue) and/or one acting wallet.
+ * Returns null when allowed, otherwise the reason.
+ */
+export function capabilityDenied(
+  claims: CapabilityClaims,
+  scope: CapabilityScope,
+  target: { birthIssue?: string; wallet?: string } = {},
+): string | null {
+  if (!Array.isArray(claims.scope) || !claims.scope.includes(scope)) {
+    return `Token does not grant "${scope}"`
+  }
+  if (target.birthIssue !== undefined && claims.birth_issue !== target.birthIssue) {
+    return 'Token is scoped to a different oracle'
+  }
+  if (target.wallet !== undefined && claims.sub !== target.wallet.toLowerCase()) {
+    return 'Token was issued for a different wallet'
+  }
+  return null
+}
@@ -1,13 +1,64 @@
 /**
  * Chainlink price oracle integration
  *
- * Fetches BTC/USD price from Chainlink on Ethereum Mainnet.
- * Used for proof-of-time nonce in SIWE authentication.
+ * Reads Chainlink price feeds (BTC/USD and ETH/USD on Ethereum, ETH/USD on Base).
+ * Used for proof-of-time nonces in SIWE authentication (lib/proof-of-time.ts).
+ *
+ * Reads go through a ChainlinkProvider:
+ * - RPC provider (default): the network's RPC URLs tried in order, each call
+ *   with a timeout, the whole list retried CHAINLINK_RPC_RETRIES more times
+ * - Mock provider (tests): fixed rounds, no network
+ * setChainlinkProvider() swaps it, like setDataStore() for PocketBase.
+ *
+ * Rounds never change once written, so round timestamps are cached per isolate.
+ *
+ * Environment:
+ * - CHAINLINK_RPC_URLS: comma-separated Ethereum mainnet RPC URLs (failover order)
+ * - CHAINLINK_BASE_RPC_URLS: same for Base
+ * - CHAINLINK_RPC_TIMEOUT_MS: per-call timeout (default 3000)
+ * - CHAINLINK_RPC_RETRIES: extra passes over the URL list (default 1)
  */
+import { getEnv } from './env'
+
+export type ChainlinkNetwork = 'ethereum' | 'base'
+
+export interface ChainlinkFeed {
+  id: string               // 'btc-usd'
+  pair: string             // 'BTC/USD'
+  network: ChainlinkNetwork
+  address: string          // aggregator proxy
+  decimals: number
+  heartbeatSec: number     // feed updates at least this often
+}
+
+// Aggregator proxies — https://docs.chain.link/data-feeds/price-feeds/addresses
+export const CHAINLINK_FEEDS: ChainlinkFeed[] = [
+  { id: 'btc-usd', pair: 'BTC/USD', network: 'ethereum', address: '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c', decimals: 8, heartbeatSec: 3600 },
+  { id: 'eth-usd', pair: 'ETH/USD', network: 'ethereum', address: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', decimals: 8, heartbeatSec: 3600 },
+  { id: 'eth-usd-base', pair: 'ETH/USD', network: 'base', address: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70', decimals: 8, heartbeatSec: 1200 },
+]
+
+export const DEFAULT_RPC_URLS: Record<ChainlinkNetwork, string[]> = {
+  ethereum: [
+    'https://ethereum.publicnode.com',
+    'https://eth.llamarpc.com',
+    'https://cloudflare-eth.com',
+  ],
+  base: [
+    'https://mainnet.base.org',
+    'https://base.publicnode.com',
+  ],
+}
 
-// Chainlink BTC/USD price feed on Ethereum Mainnet
-const CHAINLINK_BTC_USD = '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c'
-const ETH_RPC = 'https://ethereum.publicnode.com'
+const RPC_URL_ENV: Record<ChainlinkNetwork, string> = {
+  ethereum: 'CHAINLINK_RPC_URLS',
+  base: 'CHAINLINK_BASE_RPC_URLS',
+}
+
+const DEFAULT_TIMEOUT_MS = 3000
+const DEFAULT_RETRIES = 1
+
+const ROUND_CACHE_MAX = 500
 
 export interface ChainlinkPrice {
   price: number
@@ -15,66 +66,230 @@ export interface ChainlinkPrice {
   timestamp: number
 }
 
-/**
- * Fetch BTC price from Chainlink oracle
- * Returns price, roundId (for use as nonce), and timestamp
- */
-export async function getChainlinkBtcPrice(): Promise<ChainlinkPrice> {
-  const calldata = '0xfeaf968c' // latestRoundData()
+export interface ChainlinkProvider {
+  /** Latest round of a feed — throws if no RPC answered */
+  latestRound(feed: ChainlinkFeed): Promise<ChainlinkPrice>
+  /** Timestamp of a round, null if the feed has no such round — throws if no RPC answered */
+  roundTimestamp(feed: ChainlinkFeed, roundId: bigint): Promise<number | null>
+}
+
+export type RoundErrorCode = 'invalid_round' | 'proof_of_time_unavailable'
+
+export type RoundResult =
+  | { ok: true; roundId: string; timestamp: number }
+  | { ok: false; code: RoundErrorCode; error: string }
+
+export interface RpcProviderOptions {
+  timeoutMs?: number
+  retries?: number
+  fetch?: (url: string, init: RequestInit) => Promise<Response>
+}
+
+// ═══════════════════════════════════════════════════════════════
+// RPC PROVIDER
+// ═══════════════════════════════════════════════════════════════
+
+type CallOutcome = { reverted: true } | { reverted: false; data: string }
 
-  const response = await fetch(ETH_RPC, {
+/** eth_call against the feed on one URL — throws on network/timeout/garbage */
+async function ethCall(url: string, to: string, calldata: string, options: Required<RpcProviderOptions>): Promise<CallOutcome> {
+  const response = await options.fetch(url, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       jsonrpc: '2.0',
       id: 1,
       method: 'eth_call',
-      params: [{ to: CHAINLINK_BTC_USD, data: calldata }, 'latest'],
+      params: [{ to, data: calldata }, 'latest'],
     }),
+    signal: AbortSignal.timeout(options.timeoutMs),
   })
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+  const body = (await response.json()) as { result?: unknown; error?: { message?: string } }
+  // getRoundData() reverts for rounds that don't exist — an answer, not an outage
+  if (body.error && /revert/i.test(body.error.message || '')) return { reverted: true }
+  if (body.error) throw new Error(body.error.message || 'RPC error')
+  if (typeof body.result !== 'string' || !/^0x[0-9a-fA-F]{320}$/.test(body.result)) {
+    throw new Error('Malformed eth_call result')
+  }
+  return { reverted: false, data: body.result.slice(2) }
+}
+
+/**
+ * Provider over several RPC URLs per network: each URL in order, then the
+ * list again `retries` more times. Throws once every attempt failed.
+ */
+export function createRpcChainlinkProvider(
+  urlsByNetwork: Partial<Record<ChainlinkNetwork, string[]>>,
+  opts: RpcProviderOptions = {},
+): ChainlinkProvider {
+  const options: Required<RpcProviderOptions> = {
+    timeoutMs: opts.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    retries: opts.retries ?? DEFAULT_RETRIES,
+    fetch: opts.fetch ?? ((url, init) => fetch(url, init)),
+  }
 
-  const result = (await response.json()) as { result: string }
+  async function call(feed: ChainlinkFeed, calldata: string): Promise<CallOutcome> {
+    const urls = urlsByNetwork[feed.network] || []
+    const errors: string[] = []
+    for (let pass = 0; pass <= options.retries; pass++) {
+      for (const url of urls) {
+        try {
+          return await ethCall(url, feed.address, calldata, options)
+        } catch (e: unknown) {
+          errors.push(`${new URL(url).host}: ${e instanceof Error ? e.message : String(e)}`)
+        }
+      }
+    }
+    throw new Error(`All ${feed.network} RPCs failed for ${feed.id} (${errors.join('; ') || 'no RPC URLs'})`)
+  }
 
   // Decode: (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
-  const data = result.result.slice(2) // remove 0x
-  const roundId = BigInt('0x' + data.slice(0, 64)).toString()
-  const answer = BigInt('0x' + data.slice(64, 128))
-  const updatedAt = BigInt('0x' + data.slice(192, 256))
+  const word = (data: string, i: number) => BigInt('0x' + data.slice(i * 64, (i + 1) * 64))
 
   return {
-    price: Number(answer) / 1e8,
-    roundId,
-    timestamp: Number(updatedAt),
+    async latestRound(feed) {
+      const outcome = await call(feed, '0xfeaf968c') // latestRoundData()
+      if (outcome.reverted) throw new Error('latestRoundData() reverted')
+      return {
+        price: Number(word(outcome.data, 1)) / 10 ** feed.decimals,
+        roundId: word(outcome.data, 0).toString(),
+        timestamp: Number(word(outcome.data, 3)),
+      }
+    },
+
+    async roundTimestamp(feed, roundId) {
+      // getRoundData(uint80) selector = 0x9a6fc8f5
+      const outcome = await call(feed, '0x9a6fc8f5' + roundId.toString(16).padStart(64, '0'))
+      if (outcome.reverted) return null
+      const updatedAt = Number(word(outcome.data, 3))
+      return updatedAt > 0 ? updatedAt : null
+    },
   }
 }
 
+// ═══════════════════════════════════════════════════════════════
+// MOCK PROVIDER
+// ═══════════════════════════════════════════════════════════════
+
+export interface MockChainlinkProvider extends ChainlinkProvider {
+  /** Add a round (timestamp in unix seconds) — the newest one per feed is "latest" */
+  addRound(roundId: string, timestamp: number, price?: number, feedId?: string): void
+  /** Simulate every RPC being down */
+  unavailable: boolean
+}
+
+/** Offline provider with fixed rounds — for tests */
+export function createMockChainlinkProvider(): MockChainlinkProvider {
+  const rounds = new Map<string, number>()                  // "feed:round" → timestamp
+  const latest = new Map<string, ChainlinkPrice>()          // feed → newest round
+
+  const provider: MockChainlinkProvider = {
+    unavailable: false,
+
+    addRound(roundId, timestamp, price = 76022.17, feedId = 'btc-usd') {
+      rounds.set(`${feedId}:${roundId}`, timestamp)
+      const current = latest.get(feedId)
+      if (!current || timestamp >= current.timestamp) latest.set(feedId, { roundId, timestamp, price })
+    },
+
+    async latestRound(feed) {
+      const round = latest.get(feed.id)
+      if (provider.unavailable || !round) throw new Error('Mock Chainlink provider unavailable')
+      return round
+    },
+
+    async roundTimestamp(feed, roundId) {
+      if (provider.unavailable) throw new Error('Mock Chainlink provider unavailable')
+      return rounds.get(`${feed.id}:${roundId}`) ?? null
+    },
+  }
+  return provider
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ACTIVE PROVIDER + ROUND CACHE
+// ═══════════════════════════════════════════════════════════════
+
+// Non-null = use this provider instead of the env-configured RPCs
+let providerOverride: ChainlinkProvider | null = null
+let envProvider: { key: string; provider: ChainlinkProvider } | null = null
+
+/** Replace the provider (pass null to go back to the env-configured RPCs) */
+export function setChainlinkProvider(provider: ChainlinkProvider | null) {
+  providerOverride = provider
+  roundCache.clear()
+}
+
+export function getChainlinkProvider(): ChainlinkProvider {
+  if (providerOverride) return providerOverride
+
+  const urls = {} as Record<ChainlinkNetwork, string[]>
+  for (const network of Object.keys(RPC_URL_ENV) as ChainlinkNetwork[]) {
+    const configured = (getEnv(RPC_URL_ENV[network]) || '').split(',').map(u => u.trim()).filter(Boolean)
+    urls[network] = configured.length ? configured : DEFAULT_RPC_URLS[network]
+  }
+  const timeoutMs = Number(getEnv('CHAINLINK_RPC_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS
+  const retries = Number(getEnv('CHAINLINK_RPC_RETRIES') ?? DEFAULT_RETRIES)
+  const config = {
+    urls,
+    timeoutMs,
+    retries: Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RETRIES,
+  }
+
+  // Rebuilt only when the env config changes
+  const key = JSON.stringify(config)
+  if (envProvider?.key !== key) {
+    envProvider = { key, provider: createRpcChainlinkProvider(config.urls, config) }
+  }
+  return envProvider.provider
+}
+
+// "feed:roundId" → timestamp, insertion-ordered so the oldest entry is evicted first
+const roundCache = new Map<string, number>()
+
+function cacheRound(feed: ChainlinkFeed, roundId: string, timestamp: number) {
+  if (roundCache.size >= ROUND_CACHE_MAX) roundCache.delete(roundCache.keys().next().value as string)
+  roundCache.set(`${feed.id}:${roundId}`, timestamp)
+}
+
+/**
+ * Fetch the latest round of a feed
+ * Returns price, roundId (for the proof-of-time nonce), and timestamp — throws if unavailable
+ */
+export async function getChainlinkLatestRound(feed: ChainlinkFeed): Promise<ChainlinkPrice> {
+  const latest = await getChainlinkProvider().latestRound(feed)
+  cacheRound(feed, latest.roundId, latest.timestamp)
+  return latest
+}
+
 /**
  * Fetch a specific round's data from Chainlink
  * Used to get the timestamp of a claimed roundId for freshness checks
  */
-export async function getChainlinkRoundData(roundId: string): Promise<{ roundId: string; timestamp: number }> {
-  // getRoundData(uint80) selector = 0x9a6fc8f5
-  const roundBigInt = BigInt(roundId)
-  const paddedRound = roundBigInt.toString(16).padStart(64, '0')
-  const calldata = '0x9a6fc8f5' + paddedRound
-
-  const response = await fetch(ETH_RPC, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      jsonrpc: '2.0',
-      id: 1,
-      method: 'eth_call',
-      params: [{ to: CHAINLINK_BTC_USD, data: calldata }, 'latest'],
-    }),
-  })
+export async function getChainlinkRoundData(feed: ChainlinkFeed, roundId: string): Promise<RoundResult> {
+  let round: bigint
+  try {
+    round = BigInt(roundId)
+  } catch {
+    return { ok: false, code: 'invalid_round', error: 'Nonce is not a Chainlink roundId' }
+  }
 
-  const result = (await response.json()) as { result: string }
-  const data = result.result.slice(2)
-  const updatedAt = BigInt('0x' + data.slice(192, 256))
+  const cached = roundCache.get(`${feed.id}:${round}`)
+  if (cached !== undefined) return { ok: true, roundId, timestamp: cached }
 
-  return {
-    roundId,
-    timestamp: Number(updatedAt),
+  let timestamp: number | null
+  try {
+    timestamp = await getChainlinkProvider().roundTimestamp(feed, round)
+  } catch (e: unknown) {
+    console.error('[chainlink]', e instanceof Error ? e.message : String(e))
+    return { ok: false, code: 'proof_of_time_unavailable', error: 'Proof-of-time unavailable - Chainlink could not be reached, try again shortly' }
   }
+  if (timestamp === null) {
+    return { ok: false, code: 'invalid_round', error: `Unknown ${feed.pair} round` }
+  }
+
+  cacheRound(feed, round.toString(), timestamp)
+  return { ok: true, roundId, timestamp }
 }
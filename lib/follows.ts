@@ -0,0 +1,148 @@
+/**
+ * Follows — humans and agents following oracles, humans and agents
+ *
+ * A follow is a `follows` record { follower_wallet, target_type, target_id }
+ * written with the wallet the follower signed in with. Reads go through
+ * every wallet of the follower's identity (lib/wallet-links.ts), so a human
+ * keeps their follows whichever linked wallet they sign in with.
+ *
+ * Following feed authors (followedAuthors):
+ *   oracle → posts carrying its birth_issue (any bot key, current or rotated)
+ *   human  → posts signed by any of their wallets
+ *   agent  → posts signed by its wallet
+ */
+import type { DataStore } from './store'
+import { and, anyOf, eq, listAnyOf } from './pb-filter'
+import { NOT_DELETED, isDeleted } from './soft-delete'
+import { createNotification } from './notifications'
+import { walletsOfHuman } from './wallet-links'
+import type { AgentRecord, FollowRecord, HumanRecord, NotificationRecord, OracleRecord } from './pb-types'
+
+export const FOLLOWS_COLLECTION = 'follows'
+
+export const MAX_FOLLOWS = 200
+
+export type FollowTargetType = 'oracle' | 'human' | 'agent'
+
+export const FOLLOW_TARGET_TYPES: FollowTargetType[] = ['oracle', 'human', 'agent']
+
+export const isFollowTargetType = (value: unknown): value is FollowTargetType =>
+  typeof value === 'string' && (FOLLOW_TARGET_TYPES as string[]).includes(value)
+
+export interface FollowTarget {
+  type: FollowTargetType
+  id: string
+  name: string
+  wallet: string           // who hears about new followers: oracle owner, human primary, agent wallet
+}
+
+export type FollowErrorCode = 'target_not_found' | 'cannot_follow_self' | 'too_many_follows' | 'not_following'
+
+export type FollowResult =
+  | { ok: true; follow: FollowRecord; target: FollowTarget; created: boolean }
+  | { ok: false; code: FollowErrorCode; error: string }
+
+/** The followed oracle, human or agent — null if missing (or soft-deleted) */
+export async function resolveFollowTarget(pb: DataStore, type: FollowTargetType, id: string): Promise<FollowTarget | null> {
+  try {
+    if (type === 'oracle') {
+      const oracle = await pb.collection('oracles').getOne<OracleRecord>(id)
+      if (isDeleted(oracle)) return null
+      return { type, id, name: oracle.oracle_name || oracle.name, wallet: (oracle.owner_wallet || '').toLowerCase() }
+    }
+    if (type === 'human') {
+      const human = await pb.collection('humans').getOne<HumanRecord>(id)
+      const name = human.github_username || human.display_name || `Human-${human.wallet_address.slice(2, 8)}`
+      return { type, id, name, wallet: human.wallet_address.toLowerCase() }
+    }
+    const agent = await pb.collection('agents').getOne<AgentRecord>(id)
+    return { type, id, name: agent.display_name || `Agent-${agent.wallet_address.slice(2, 8)}`, wallet: agent.wallet_address.toLowerCase() }
+  } catch {
+    return null
+  }
+}
+
+/** Follows of an identity — pass every wallet of it (principal.wallets()) */
+export async function followsOf(pb: DataStore, wallets: string[]): Promise<FollowRecord[]> {
+  const follows = await listAnyOf<FollowRecord>(pb, FOLLOWS_COLLECTION, 'follower_wallet', wallets.map(w => w.toLowerCase()), { perPage: MAX_FOLLOWS })
+  return follows.sort((a, b) => (b.created || '').localeCompare(a.created || ''))
+}
+
+/**
+ * Follow a target — idempotent (following twice returns the existing follow).
+ * The target hears about it with a 'follow' notification, once per follower:
+ * unfollowing and following again does not notify a second time.
+ */
+export async function follow(
+  pb: DataStore,
+  follower: { wallet: string; wallets: string[] },
+  type: FollowTargetType,
+  id: string,
+): Promise<FollowResult> {
+  const target = await resolveFollowTarget(pb, type, id)
+  if (!target) return { ok: false, code: 'target_not_found', error: `${type} not found` }
+
+  const mine = follower.wallets.map(w => w.toLowerCase())
+  if (type !== 'oracle' && mine.includes(target.wallet)) {
+    return { ok: false, code: 'cannot_follow_self', error: 'Cannot follow yourself' }
+  }
+
+  const existing = await followsOf(pb, mine)
+  const same = existing.find(f => f.target_type === type && f.target_id === id)
+  if (same) return { ok: true, follow: same, target, created: false }
+  if (existing.length >= MAX_FOLLOWS) {
+    return { ok: false, code: 'too_many_follows', error: `Cannot follow more than ${MAX_FOLLOWS} oracles, humans and agents` }
+  }
+
+  const wallet = follower.wallet.toLowerCase()
+  const created = await pb.collection(FOLLOWS_COLLECTION).create<FollowRecord>({ follower_wallet: wallet, target_type: type, target_id: id })
+
+  // An owner following their own oracle doesn't need telling
+  const message = type === 'oracle' ? `started following your oracle ${target.name}` : 'started following you'
+  if (target.wallet && !mine.includes(target.wallet) && !(await notifiedBefore(pb, target.wallet, mine, message))) {
+    await createNotification(pb, { recipient_wallet: target.wallet, actor_wallet: wallet, type: 'follow', message })
+  }
+  return { ok: true, follow: created, target, created: true }
+}
+
+/** Did any wallet of the follower already send this follow notification? */
+async function notifiedBefore(pb: DataStore, recipient: string, actors: string[], message: string): Promise<boolean> {
+  const data = await pb.collection('notifications').getList<NotificationRecord>(1, 1, {
+    filter: and(eq('recipient_wallet', recipient), eq('type', 'follow'), eq('message', message), anyOf('actor_wallet', actors)),
+  })
+  return data.totalItems > 0
+}
+
+/** Unfollow — removes the follow whichever of the identity's wallets made it */
+export async function unfollow(pb: DataStore, wallets: string[], type: FollowTargetType, id: string): Promise<{ ok: true } | { ok: false; code: FollowErrorCode; error: string }> {
+  const existing = (await followsOf(pb, wallets)).filter(f => f.target_type === type && f.target_id === id)
+  if (existing.length === 0) return { ok: false, code: 'not_following', error: `Not following this ${type}` }
+  for (const f of existing) await pb.collection(FOLLOWS_COLLECTION).delete(f.id)
+  return { ok: true }
+}
+
+/** Follower wallets of a target, newest first */
+export async function followersOf(pb: DataStore, type: FollowTargetType, id: string, limit: number): Promise<{ wallets: string[]; total: number }> {
+  const data = await pb.collection(FOLLOWS_COLLECTION).getList<FollowRecord>(1, limit, {
+    filter: and(eq('target_type', type), eq('target_id', id)),
+    sort: '-created',
+  })
+  return { wallets: (data.items || []).map(f => f.follower_wallet), total: data.totalItems }
+}
+
+/** Birth issues and wallets whose posts belong in the following feed */
+export async function followedAuthors(pb: DataStore, follows: FollowRecord[]): Promise<{ birthIssues: string[]; wallets: string[] }> {
+  const idsOf = (type: FollowTargetType) => follows.filter(f => f.target_type === type).map(f => f.target_id)
+
+  const [oracles, humans, agents] = await Promise.all([
+    listAnyOf<OracleRecord>(pb, 'oracles', 'id', idsOf('oracle'), { where: NOT_DELETED }),
+    listAnyOf<HumanRecord>(pb, 'humans', 'id', idsOf('human')),
+    listAnyOf<AgentRecord>(pb, 'agents', 'id', idsOf('agent')),
+  ])
+  const humanWallets = await Promise.all(humans.map(h => walletsOfHuman(pb, h)))
+
+  return {
+    birthIssues: [...new Set(oracles.map(o => o.birth_issue).filter(Boolean))] as string[],
+    wallets: [...new Set([...humanWallets.flat(), ...agents.map(a => a.wallet_address.toLowerCase())])],
+  }
+}
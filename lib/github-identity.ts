@@ -0,0 +1,94 @@
+/**
+ * Linking a verified GitHub login to a wallet — the writes after the checks
+ *
+ * Shared by both proofs of GitHub identity:
+ *   verify-identity — authors of a verification issue + birth issue (lib/verification.ts)
+ *   GitHub OAuth    — the login GitHub reports for the authorized user (lib/github-oauth.ts)
+ *
+ * Owner and bot key changes go into their histories first
+ * (lib/ownership-transfer.ts, lib/bot-keys.ts).
+ */
+import type { DataStore } from './store'
+import { eq, listAnyOf } from './pb-filter'
+import { findHumanByWallet } from './wallet-links'
+import { recordOwnership, type OwnershipVia } from './ownership-transfer'
+import { retireBotKey } from './bot-keys'
+import type { HumanRecord, OracleRecord } from './pb-types'
+
+export interface OracleClaim {
+  birthIssue: string
+  oracleName: string
+  ownerWallet: string
+  via: OwnershipVia
+  verificationIssue?: string
+  botWallet?: string
+}
+
+/** Set the GitHub login on the wallet's human — created if the wallet has none yet */
+export async function linkGitHubLogin(pb: DataStore, wallet: string, githubUsername: string): Promise<HumanRecord> {
+  const existing = await findHumanByWallet(pb, wallet)
+  if (existing) {
+    return pb.collection('humans').update<HumanRecord>(existing.id, {
+      github_username: githubUsername,
+      display_name: githubUsername,
+    })
+  }
+  return pb.collection('humans').create<HumanRecord>({
+    wallet_address: wallet.toLowerCase(),
+    github_username: githubUsername,
+    display_name: githubUsername,
+  })
+}
+
+/** Find or create the oracle of a birth issue and make `ownerWallet` its owner */
+export async function claimOracle(pb: DataStore, claim: OracleClaim): Promise<OracleRecord> {
+  const owner = claim.ownerWallet.toLowerCase()
+  const data = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
+    filter: eq('birth_issue', claim.birthIssue),
+  })
+  const fields = {
+    owner_wallet: owner,
+    name: claim.oracleName,
+    approved: true,
+    ...(claim.verificationIssue && { verification_issue: claim.verificationIssue }),
+    ...(claim.botWallet && { bot_wallet: claim.botWallet, wallet_verified: true }),
+  }
+
+  const existing = data.items?.[0]
+  if (!existing) {
+    return pb.collection('oracles').create<OracleRecord>({ birth_issue: claim.birthIssue, ...fields })
+  }
+
+  if (existing.owner_wallet && existing.owner_wallet.toLowerCase() !== owner) {
+    await recordOwnership(pb, { oracle: existing, from: existing.owner_wallet, to: owner, via: claim.via })
+  }
+  if (claim.botWallet && existing.bot_wallet && existing.bot_wallet.toLowerCase() !== claim.botWallet.toLowerCase()) {
+    await retireBotKey(pb, existing, 'rotated', owner)
+  }
+  return pb.collection('oracles').update<OracleRecord>(existing.id, fields)
+}
+
+/**
+ * Re-claim: move oracles owned by other wallets of the same GitHub login to `wallet`.
+ * Only call once `wallet` is proven (SIWE signature or session) — never for bot wallets.
+ */
+export async function reclaimOracles(pb: DataStore, githubUsername: string, wallet: string): Promise<OracleRecord[]> {
+  const w = wallet.toLowerCase()
+  const bot = await pb.collection('oracles').getList<OracleRecord>(1, 1, { filter: eq('bot_wallet', w) })
+  if (bot.items.length > 0) return []
+
+  const humans = await pb.collection('humans').getList<HumanRecord>(1, 200, {
+    filter: eq('github_username', githubUsername),
+  })
+  const oldWallets = (humans.items || [])
+    .map(h => h.wallet_address)
+    .filter(addr => addr && addr.toLowerCase() !== w)
+  if (!oldWallets.length) return []
+
+  const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'owner_wallet', oldWallets)
+  for (const o of oracles) {
+    await recordOwnership(pb, { oracle: o, from: o.owner_wallet || '', to: w, via: 'reclaim' })
+    await pb.collection('oracles').update(o.id, { owner_wallet: w })
+  }
+  return oracles
+}
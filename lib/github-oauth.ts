@@ -0,0 +1,58 @@
+/**
+ * GitHub OAuth path for linking a GitHub login — no public issues needed
+ *
+ * 1. Human (SIWE session): POST /api/auth/github/start → { authorize_url, state }.
+ *    The state remembers the wallet and, optionally, the birth issue to claim.
+ * 2. GitHub redirects back to the frontend with ?code&state.
+ * 3. Frontend, same SIWE session: POST /api/auth/github/callback { code, state } → the API exchanges
+ *    the code, reads the verified login and links it to the wallet (lib/github-identity.ts).
+ *    With a birth issue, its author must be that login — same rule as verify-identity.
+ *
+ * States live in KV for GITHUB_OAUTH_STATE_TTL_SEC, are single use, and only
+ * the human that started the flow (signed in with any of its wallets) can
+ * finish it. The callback checks that with findOAuthState before it
+ * consumes the state, so a stranger's request doesn't burn it.
+ */
+import { getJSON, putJSON, type KVStore } from './kv'
+import { randomSecret } from './sessions'
+import type { GitHubOAuthConfig } from './github'
+
+export const GITHUB_OAUTH_STATE_TTL_SEC = 10 * 60     // user has 10 min to authorize on GitHub
+
+export interface OAuthState {
+  wallet: string           // primary wallet of the human the login gets linked to
+  human: string            // humans record id — only this human can finish the flow
+  birth_issue?: string     // oracle to claim once the login is known
+  oracle_name?: string
+  created_at: number       // unix seconds
+}
+
+const key = (state: string) => `github-oauth:${state}`
+
+/** Remember who started the flow — returns the opaque state for the authorize URL */
+export async function createOAuthState(kv: KVStore, data: Omit<OAuthState, 'created_at'>): Promise<string> {
+  const state = randomSecret()
+  await putJSON(kv, key(state), { ...data, wallet: data.wallet.toLowerCase(), created_at: Math.floor(Date.now() / 1000) }, GITHUB_OAUTH_STATE_TTL_SEC)
+  return state
+}
+
+/** Load a state without using it up — null when unknown, expired or already used */
+export async function findOAuthState(kv: KVStore, state: string): Promise<OAuthState | null> {
+  if (!state) return null
+  return getJSON<OAuthState>(kv, key(state))
+}
+
+/** Load and drop a state — null when unknown, expired or already used */
+export async function consumeOAuthState(kv: KVStore, state: string): Promise<OAuthState | null> {
+  const data = await findOAuthState(kv, state)
+  if (!data) return null
+  await kv.delete(key(state))
+  return data
+}
+
+/** github.com URL the human is sent to (read:user is all we need — the login) */
+export function authorizeUrl(config: GitHubOAuthConfig, state: string): string {
+  const params = new URLSearchParams({ client_id: config.clientId, state, scope: 'read:user', allow_signup: 'false' })
+  if (config.redirectUri) params.set('redirect_uri', config.redirectUri)
+  return `https://github.com/login/oauth/authorize?${params}`
+}
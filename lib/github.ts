@@ -0,0 +1,185 @@
+/**
+ * GitHub client — issues for verify-identity, OAuth for the sign-in path
+ *
+ * The API client calls api.github.com (with GITHUB_TOKEN when set, for the
+ * higher rate limit) and github.com for the OAuth code exchange. Tests swap
+ * in createMockGitHubClient() — or an API client pointed at a stub server —
+ * via setGitHubClient(), same pattern as the Chainlink provider.
+ *
+ * OAuth works with an OAuth App or a GitHub App's user authorization; both
+ * use the same endpoints (GITHUB_OAUTH_CLIENT_ID / GITHUB_OAUTH_CLIENT_SECRET).
+ */
+import { getEnv } from './env'
+
+export interface IssueRef {
+  owner: string
+  repo: string
+  number: number
+}
+
+export interface GitHubIssue {
+  number: number
+  title?: string
+  body?: string | null
+  state?: string
+  created_at?: string
+  user?: { login?: string }
+}
+
+export type IssueResult =
+  | { ok: true; issue: GitHubIssue }
+  | { ok: false; status: number }
+
+export type OAuthTokenResult =
+  | { ok: true; accessToken: string }
+  | { ok: false; status: number; error?: string }
+
+export type UserResult =
+  | { ok: true; login: string; id: number }
+  | { ok: false; status: number }
+
+export interface GitHubClient {
+  getIssue(ref: IssueRef): Promise<IssueResult>
+  /** Exchange an OAuth authorization code for a user access token */
+  exchangeOAuthCode(code: string, redirectUri?: string): Promise<OAuthTokenResult>
+  /** The user an access token belongs to */
+  getAuthenticatedUser(accessToken: string): Promise<UserResult>
+}
+
+export interface GitHubOAuthConfig {
+  clientId: string
+  clientSecret: string
+  redirectUri?: string
+}
+
+/** OAuth app credentials from env, or null when the OAuth path is not configured */
+export function getGitHubOAuthConfig(): GitHubOAuthConfig | null {
+  const clientId = getEnv('GITHUB_OAUTH_CLIENT_ID')
+  const clientSecret = getEnv('GITHUB_OAUTH_CLIENT_SECRET')
+  if (!clientId || !clientSecret) return null
+  return { clientId, clientSecret, redirectUri: getEnv('GITHUB_OAUTH_REDIRECT_URI') || undefined }
+}
+
+/** owner/repo/number from a github.com issue URL, or null */
+export function parseIssueUrl(url: string): IssueRef | null {
+  const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)\/issues\/(\d+)/)
+  if (!match) return null
+  return { owner: match[1], repo: match[2], number: Number(match[3]) }
+}
+
+export const issueUrl = (ref: IssueRef) => `https://github.com/${ref.owner}/${ref.repo}/issues/${ref.number}`
+
+export interface ApiClientOptions {
+  apiUrl?: string          // REST API (default https://api.github.com)
+  webUrl?: string          // OAuth endpoints (default https://github.com)
+}
+
+/** Client for GitHub over HTTP — reads GITHUB_TOKEN / OAuth env per call so env changes apply */
+export function createApiGitHubClient(options: ApiClientOptions = {}): GitHubClient {
+  const apiUrl = options.apiUrl ?? 'https://api.github.com'
+  const webUrl = options.webUrl ?? 'https://github.com'
+
+  return {
+    async getIssue(ref) {
+      const headers: Record<string, string> = { 'User-Agent': 'OracleNet-API' }
+      const token = getEnv('GITHUB_TOKEN')
+      if (token) headers['Authorization'] = `Bearer ${token}`
+
+      const res = await fetch(`${apiUrl}/repos/${ref.owner}/${ref.repo}/issues/${ref.number}`, { headers })
+      if (!res.ok) return { ok: false, status: res.status }
+      return { ok: true, issue: (await res.json()) as GitHubIssue }
+    },
+
+    async exchangeOAuthCode(code, redirectUri) {
+      const config = getGitHubOAuthConfig()
+      if (!config) return { ok: false, status: 503, error: 'GitHub OAuth is not configured' }
+
+      const res = await fetch(`${webUrl}/login/oauth/access_token`, {
+        method: 'POST',
+        headers: { 'User-Agent': 'OracleNet-API', 'Accept': 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          code,
+          ...(redirectUri && { redirect_uri: redirectUri }),
+        }),
+      })
+      if (!res.ok) return { ok: false, status: res.status }
+      // GitHub answers 200 with { error } for bad or expired codes
+      const data = (await res.json()) as { access_token?: string; error?: string; error_description?: string }
+      if (!data.access_token) return { ok: false, status: 401, error: data.error_description || data.error }
+      return { ok: true, accessToken: data.access_token }
+    },
+
+    async getAuthenticatedUser(accessToken) {
+      const res = await fetch(`${apiUrl}/user`, {
+        headers: { 'User-Agent': 'OracleNet-API', 'Accept': 'application/vnd.github+json', 'Authorization': `Bearer ${accessToken}` },
+      })
+      if (!res.ok) return { ok: false, status: res.status }
+      const user = (await res.json()) as { login?: string; id?: number }
+      if (!user.login) return { ok: false, status: 502 }
+      return { ok: true, login: user.login, id: user.id ?? 0 }
+    },
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MOCK CLIENT
+// ═══════════════════════════════════════════════════════════════
+
+export interface MockGitHubClient extends GitHubClient {
+  /** Serve `issue` for this issue URL */
+  addIssue(url: string, issue: Omit<GitHubIssue, 'number'>): void
+  /** An OAuth code that signs in as `login` */
+  addOAuthCode(code: string, login: string): void
+}
+
+/** Offline client with fixed issues and OAuth codes — anything unknown fails */
+export function createMockGitHubClient(): MockGitHubClient {
+  const issues = new Map<string, GitHubIssue>()
+  const codes = new Map<string, string>()              // code → login
+
+  return {
+    addIssue(url, issue) {
+      const ref = parseIssueUrl(url)
+      if (!ref) throw new Error(`Not a GitHub issue URL: ${url}`)
+      issues.set(issueUrl(ref).toLowerCase(), { ...issue, number: ref.number })
+    },
+    async getIssue(ref) {
+      const issue = issues.get(issueUrl(ref).toLowerCase())
+      return issue ? { ok: true, issue: structuredClone(issue) } : { ok: false, status: 404 }
+    },
+
+    addOAuthCode(code, login) {
+      codes.set(code, login)
+    },
+    async exchangeOAuthCode(code) {
+      const login = codes.get(code)
+      if (!login) return { ok: false, status: 401, error: 'bad_verification_code' }
+      codes.delete(code)
+      return { ok: true, accessToken: `mock-token:${login}` }
+    },
+    async getAuthenticatedUser(accessToken) {
+      const login = accessToken.startsWith('mock-token:') ? accessToken.slice('mock-token:'.length) : ''
+      return login ? { ok: true, login, id: 1 } : { ok: false, status: 401 }
+    },
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ACTIVE CLIENT
+// ═══════════════════════════════════════════════════════════════
+
+const apiClient = createApiGitHubClient()
+
+// Non-null = use this client instead of api.github.com
+let clientOverride: GitHubClient | null = null
+
+/** Replace the client (pass null to go back to api.github.com) */
+export function setGitHubClient(client: GitHubClient | null) {
+  clientOverride = client
+}
+
+export function getGitHubClient(): GitHubClient {
+  return clientOverride ?? apiClient
+}
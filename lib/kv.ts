@@ -0,0 +1,78 @@
+/**
+ * Key-value store for short-lived state: bot auth requests and one-time codes,
+ * used-signature replay guards, ownership transfer offers, GitHub OAuth states
+ * and rate-limit counters
+ *
+ * KVStore is the slice of the Workers KV namespace API we use, so a KV
+ * binding can be passed in as-is. worker.ts binds `AUTH_KV` (wrangler.toml);
+ * without it (server.ts, tests) an in-memory store scoped to the isolate is
+ * used — which only holds in a single process, so the deployed worker logs
+ * an error when the binding is missing.
+ *
+ * Workers KV is eventually consistent — values written in one location can
+ * take up to ~60s to show up elsewhere. Fine for a human-paced handshake.
+ */
+
+export interface KVPutOptions {
+  /** Seconds until the key disappears (Workers KV minimum is 60) */
+  expirationTtl?: number
+}
+
+export interface KVStore {
+  get(key: string): Promise<string | null>
+  put(key: string, value: string, options?: KVPutOptions): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/** In-memory KVStore honouring expirationTtl */
+export function createMemoryKV(): KVStore {
+  const entries = new Map<string, { value: string; expiresAt: number | null }>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry.value
+    },
+    async put(key, value, options = {}) {
+      const ttl = options.expirationTtl
+      entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : null })
+    },
+    async delete(key) {
+      entries.delete(key)
+    },
+  }
+}
+
+const fallback = createMemoryKV()
+
+// Non-null = use this store instead of the in-memory fallback
+let kvOverride: KVStore | null = null
+
+/** Use a KV binding / test store (pass null to go back to the in-memory fallback) */
+export function setKV(kv: KVStore | null) {
+  kvOverride = kv
+}
+
+export function getKV(): KVStore {
+  return kvOverride ?? fallback
+}
+
+/** JSON helpers — every value we keep in KV is a JSON record */
+export async function getJSON<T>(kv: KVStore, key: string): Promise<T | null> {
+  const raw = await kv.get(key)
+  if (raw === null) return null
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return null
+  }
+}
+
+export async function putJSON(kv: KVStore, key: string, value: unknown, ttlSec: number): Promise<void> {
+  await kv.put(key, JSON.stringify(value), { expirationTtl: ttlSec })
+}
@@ -0,0 +1,410 @@
+/**
+ * In-memory DataStore — PocketBase stand-in for tests and offline dev
+ *
+ * Supports the filter syntax the routes use:
+ *   =  !=  ~  !~  >  >=  <  <=   &&  ||  ( )   "strings"  numbers  true/false/null  @now
+ *
+ * Errors are thrown as ClientResponseError with PocketBase's status codes
+ * (404 missing record, 400 bad filter) so route error handling behaves the same.
+ */
+import { ClientResponseError } from 'pocketbase'
+import type { RecordModel } from 'pocketbase'
+import type { CollectionStore, DataStore, ListResult, StoreListOptions } from './store'
+import { toPBDate } from './pb-filter'
+
+export { toPBDate }
+
+type Row = Record<string, any>
+
+export interface MemoryStore extends DataStore {
+  /** Drop all records (or only one collection's) */
+  reset(collection?: string): void
+  /** Raw rows of a collection — for test assertions */
+  dump(collection: string): Row[]
+}
+
+function newRecordId(): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789'
+  const bytes = crypto.getRandomValues(new Uint8Array(15))
+  return [...bytes].map(b => alphabet[b % alphabet.length]).join('')
+}
+
+function pbError(status: number, message: string): ClientResponseError {
+  return new ClientResponseError({ status, response: { status, message, data: {} } })
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FILTER PARSER
+// ═══════════════════════════════════════════════════════════════
+
+type Token =
+  | { kind: 'op'; value: string }
+  | { kind: 'paren'; value: '(' | ')' }
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'ident'; value: string }
+  | { kind: 'now' }
+
+type Operand =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'field'; name: string }
+  | { kind: 'now'; offsetSec: number }
+
+type Node =
+  | { kind: 'and' | 'or'; left: Node; right: Node }
+  | { kind: 'cmp'; op: string; left: Operand; right: Operand }
+
+const OPERATORS = ['&&', '||', '!=', '>=', '<=', '!~', '=', '~', '>', '<', '+', '-']
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < filter.length) {
+    const ch = filter[i]
+    if (/\s/.test(ch)) { i++; continue }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: 'paren', value: ch })
+      i++
+      continue
+    }
+
+    if (ch === '"' || ch === "'") {
+      // Same rules as PocketBase's fexpr scanner: the literal ends at the first
+      // matching quote NOT preceded by a backslash, and only \<quote> is unescaped
+      let raw = ''
+      let prev = ''
+      let closed = false
+      i++
+      while (i < filter.length) {
+        const c = filter[i++]
+        if (c === ch && prev !== '\\') {
+          closed = true
+          break
+        }
+        raw += c
+        prev = c
+      }
+      if (!closed) throw new Error('Unterminated string literal')
+      tokens.push({ kind: 'string', value: raw.split('\\' + ch).join(ch) })
+      continue
+    }
+
+    const op = OPERATORS.find(o => filter.startsWith(o, i))
+    if (op) {
+      tokens.push({ kind: 'op', value: op })
+      i += op.length
+      continue
+    }
+
+    const num = filter.slice(i).match(/^\d+(\.\d+)?/)
+    if (num) {
+      tokens.push({ kind: 'number', value: Number(num[0]) })
+      i += num[0].length
+      continue
+    }
+
+    if (filter.startsWith('@now', i)) {
+      tokens.push({ kind: 'now' })
+      i += 4
+      continue
+    }
+
+    const ident = filter.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/)
+    if (ident) {
+      tokens.push({ kind: 'ident', value: ident[0] })
+      i += ident[0].length
+      continue
+    }
+
+    throw new Error(`Unexpected character "${ch}" at ${i}`)
+  }
+  return tokens
+}
+
+function parse(tokens: Token[]): Node {
+  let pos = 0
+  const peek = () => tokens[pos]
+  const isOp = (value: string) => peek()?.kind === 'op' && (peek() as { value: string }).value === value
+
+  function parseOr(): Node {
+    let node = parseAnd()
+    while (isOp('||')) {
+      pos++
+      node = { kind: 'or', left: node, right: parseAnd() }
+    }
+    return node
+  }
+
+  function parseAnd(): Node {
+    let node = parsePrimary()
+    while (isOp('&&')) {
+      pos++
+      node = { kind: 'and', left: node, right: parsePrimary() }
+    }
+    return node
+  }
+
+  function parsePrimary(): Node {
+    const tok = peek()
+    if (tok?.kind === 'paren' && tok.value === '(') {
+      pos++
+      const node = parseOr()
+      const close = peek()
+      if (close?.kind !== 'paren' || close.value !== ')') throw new Error('Missing closing parenthesis')
+      pos++
+      return node
+    }
+    const left = parseOperand()
+    const opTok = peek()
+    if (opTok?.kind !== 'op' || ['&&', '||', '+', '-'].includes(opTok.value)) {
+      throw new Error('Expected comparison operator')
+    }
+    pos++
+    return { kind: 'cmp', op: opTok.value, left, right: parseOperand() }
+  }
+
+  function parseOperand(): Operand {
+    const tok = tokens[pos++]
+    if (!tok) throw new Error('Unexpected end of filter')
+    switch (tok.kind) {
+      case 'string':
+        return { kind: 'literal', value: tok.value }
+      case 'number':
+        return { kind: 'literal', value: tok.value }
+      case 'op': {
+        // Negative number literal
+        const next = tokens[pos]
+        if (tok.value === '-' && next?.kind === 'number') {
+          pos++
+          return { kind: 'literal', value: -next.value }
+        }
+        throw new Error(`Unexpected operator "${tok.value}"`)
+      }
+      case 'ident':
+        if (tok.value === 'true' || tok.value === 'false') return { kind: 'literal', value: tok.value === 'true' }
+        if (tok.value === 'null') return { kind: 'literal', value: null }
+        return { kind: 'field', name: tok.value }
+      case 'now': {
+        // Optional "@now - 300" / "@now + 60" offset in seconds
+        let offsetSec = 0
+        if ((isOp('-') || isOp('+')) && tokens[pos + 1]?.kind === 'number') {
+          const sign = isOp('-') ? -1 : 1
+          offsetSec = sign * (tokens[pos + 1] as { value: number }).value
+          pos += 2
+        }
+        return { kind: 'now', offsetSec }
+      }
+      default:
+        throw new Error('Unexpected token in filter')
+    }
+  }
+
+  const node = parseOr()
+  if (pos < tokens.length) throw new Error('Unexpected trailing tokens in filter')
+  return node
+}
+
+function resolveOperand(operand: Operand, row: Row): unknown {
+  switch (operand.kind) {
+    case 'literal':
+      return operand.value
+    case 'field':
+      return operand.name.split('.').reduce<any>((v, key) => v?.[key], row)
+    case 'now':
+      return toPBDate(new Date(Date.now() + operand.offsetSec * 1000))
+  }
+}
+
+/** Missing fields take the zero value of whatever they are compared against (PocketBase semantics) */
+function zeroValueLike(other: unknown): unknown {
+  if (typeof other === 'boolean') return false
+  if (typeof other === 'number') return 0
+  if (typeof other === 'string') return ''
+  return null
+}
+
+function compareValues(op: string, a: unknown, b: unknown): boolean {
+  if (a === undefined || a === null) a = zeroValueLike(b)
+  if (b === undefined || b === null) b = zeroValueLike(a)
+
+  switch (op) {
+    case '=':
+      return a === b || (typeof a !== typeof b && String(a) === String(b))
+    case '!=':
+      return !compareValues('=', a, b)
+    case '~':
+    case '!~': {
+      let pattern = String(b).toLowerCase()
+      if (!pattern.includes('%')) pattern = `%${pattern}%`
+      const regex = new RegExp(
+        '^' + pattern.split('%').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$',
+        's',
+      )
+      const matched = regex.test(String(a).toLowerCase())
+      return op === '~' ? matched : !matched
+    }
+    default: {
+      const numeric = typeof a === 'number' && typeof b === 'number'
+      const x = numeric ? (a as number) : String(a)
+      const y = numeric ? (b as number) : String(b)
+      if (op === '>') return x > y
+      if (op === '>=') return x >= y
+      if (op === '<') return x < y
+      if (op === '<=') return x <= y
+      return false
+    }
+  }
+}
+
+function evaluate(node: Node, row: Row): boolean {
+  switch (node.kind) {
+    case 'and':
+      return evaluate(node.left, row) && evaluate(node.right, row)
+    case 'or':
+      return evaluate(node.left, row) || evaluate(node.right, row)
+    case 'cmp':
+      return compareValues(node.op, resolveOperand(node.left, row), resolveOperand(node.right, row))
+  }
+}
+
+/**
+ * Compile a PocketBase filter string into a predicate.
+ * Throws a 400 ClientResponseError on syntax PocketBase would also reject.
+ */
+export function compileFilter(filter: string): (row: Row) => boolean {
+  if (!filter.trim()) return () => true
+  let node: Node
+  try {
+    node = parse(tokenize(filter))
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e)
+    throw pbError(400, `Invalid filter: ${message}`)
+  }
+  return row => evaluate(node, row)
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STORE
+// ═══════════════════════════════════════════════════════════════
+
+function compareForSort(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return -1
+  if (b === undefined || b === null) return 1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a) < String(b) ? -1 : 1
+}
+
+function sortRows(rows: Row[], sort?: string): Row[] {
+  if (!sort) return rows
+  const keys = sort.split(',').map(s => s.trim()).filter(Boolean).map(s =>
+    s.startsWith('-') ? { field: s.slice(1), dir: -1 } : { field: s.replace(/^\+/, ''), dir: 1 }
+  )
+  return [...rows].sort((a, b) => {
+    for (const { field, dir } of keys) {
+      const diff = compareForSort(a[field], b[field])
+      if (diff !== 0) return diff * dir
+    }
+    return 0
+  })
+}
+
+function pickFields(row: Row, fields?: string): Row {
+  if (!fields || fields.split(',').some(f => f.trim() === '*')) return structuredClone(row)
+  const picked: Row = {}
+  for (const f of fields.split(',').map(f => f.trim())) {
+    if (f in row) picked[f] = structuredClone(row[f])
+  }
+  return picked
+}
+
+/**
+ * Create an in-memory store, optionally seeded with records per collection.
+ * Seed rows without id/created/updated get them filled in.
+ */
+export function createMemoryStore(seed: Record<string, Row[]> = {}): MemoryStore {
+  const collections = new Map<string, Map<string, Row>>()
+
+  function rowsOf(name: string): Map<string, Row> {
+    let rows = collections.get(name)
+    if (!rows) {
+      rows = new Map()
+      collections.set(name, rows)
+    }
+    return rows
+  }
+
+  function insert(name: string, body: Row): Row {
+    const now = toPBDate(new Date())
+    const row: Row = {
+      created: now,
+      updated: now,
+      ...structuredClone(body),
+      id: body.id || newRecordId(),
+      collectionId: name,
+      collectionName: name,
+    }
+    const rows = rowsOf(name)
+    if (rows.has(row.id)) throw pbError(400, 'Failed to create record.')
+    rows.set(row.id, row)
+    return row
+  }
+
+  function collection(name: string): CollectionStore {
+    return {
+      async getList<T = RecordModel>(page = 1, perPage = 30, options: StoreListOptions = {}): Promise<ListResult<T>> {
+        const predicate = compileFilter(options.filter || '')
+        const matched = sortRows([...rowsOf(name).values()].filter(predicate), options.sort)
+        const start = (page - 1) * perPage
+        return {
+          page,
+          perPage,
+          totalItems: matched.length,
+          totalPages: Math.ceil(matched.length / perPage),
+          items: matched.slice(start, start + perPage).map(r => pickFields(r, options.fields) as T),
+        }
+      },
+
+      async getOne<T = RecordModel>(id: string, options: { fields?: string } = {}): Promise<T> {
+        const row = rowsOf(name).get(id)
+        if (!row) throw pbError(404, "The requested resource wasn't found.")
+        return pickFields(row, options.fields) as T
+      },
+
+      async create<T = RecordModel>(body: Row = {}): Promise<T> {
+        return structuredClone(insert(name, body)) as T
+      },
+
+      async update<T = RecordModel>(id: string, body: Row = {}): Promise<T> {
+        const rows = rowsOf(name)
+        const row = rows.get(id)
+        if (!row) throw pbError(404, "The requested resource wasn't found.")
+        const { id: _id, created: _created, ...changes } = body
+        const updated = { ...row, ...structuredClone(changes), updated: toPBDate(new Date()) }
+        rows.set(id, updated)
+        return structuredClone(updated) as T
+      },
+
+      async delete(id: string): Promise<boolean> {
+        if (!rowsOf(name).delete(id)) throw pbError(404, "The requested resource wasn't found.")
+        return true
+      },
+    }
+  }
+
+  for (const [name, rows] of Object.entries(seed)) {
+    for (const row of rows) insert(name, row)
+  }
+
+  return {
+    collection,
+    reset(name?: string) {
+      if (name) collections.delete(name)
+      else collections.clear()
+    },
+    dump(name: string) {
+      return [...rowsOf(name).values()].map(r => structuredClone(r))
+    },
+  }
+}
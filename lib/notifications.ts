@@ -5,7 +5,8 @@
  * - resolveOracleBotWallet: oracle posts → bot_wallet, human posts → null
  * - createNotification: self-suppression, simple create
  */
-import type PocketBase from 'pocketbase'
+import type { DataStore } from './store'
+import { eq } from './pb-filter'
 import type { PostRecord, OracleRecord } from './pb-types'
 
 /**
@@ -14,12 +15,12 @@ import type { PostRecord, OracleRecord } from './pb-types'
  * Human posts → the author_wallet.
  */
 export async function resolvePostOwnerWallet(
-  pb: PocketBase,
+  pb: DataStore,
   post: PostRecord,
 ): Promise<string | null> {
   if (post.oracle_birth_issue) {
     const data = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-      filter: `birth_issue="${post.oracle_birth_issue}"`,
+      filter: eq('birth_issue', post.oracle_birth_issue),
     })
     const oracle = data.items?.[0]
     if (oracle?.owner_wallet) return oracle.owner_wallet.toLowerCase()
@@ -32,13 +33,13 @@ export async function resolvePostOwnerWallet(
  * Returns bot_wallet if the post has oracle_birth_issue, else null.
  */
 export async function resolveOracleBotWallet(
-  pb: PocketBase,
+  pb: DataStore,
   post: PostRecord,
 ): Promise<string | null> {
   if (!post.oracle_birth_issue) return null
   try {
     const data = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-      filter: `birth_issue="${post.oracle_birth_issue}"`,
+      filter: eq('birth_issue', post.oracle_birth_issue),
     })
     const oracle = data.items?.[0]
     return oracle?.bot_wallet?.toLowerCase() || null
@@ -54,11 +55,11 @@ export async function resolveOracleBotWallet(
  * 2. actor is a bot_wallet owned by recipient (oracle commenting on owner's behalf)
  */
 export async function createNotification(
-  pb: PocketBase,
+  pb: DataStore,
   data: {
     recipient_wallet: string
     actor_wallet: string
-    type: 'comment' | 'mention'
+    type: 'comment' | 'mention' | 'ownership_transfer' | 'follow'
     message: string
     post_id?: string
     comment_id?: string
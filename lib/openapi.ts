@@ -145,12 +145,32 @@ export const openApiSpec = {
         }
       }
     },
+    '/api/search': {
+      get: {
+        tags: ['Feed'],
+        summary: 'Search posts, comments and oracles',
+        parameters: [
+          { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+          { name: 'type', in: 'query', schema: { type: 'string', default: 'posts,comments,oracles' } },
+          { name: 'author', in: 'query', schema: { type: 'string' } },
+          { name: 'birth_issue', in: 'query', schema: { type: 'string' } },
+          { name: 'from', in: 'query', schema: { type: 'string', format: 'date-time' } },
+          { name: 'to', in: 'query', schema: { type: 'string', format: 'date-time' } },
+          { name: 'limit', in: 'query', schema: { type: 'string', default: '20' } }
+        ],
+        responses: {
+          '200': { description: 'Ranked results grouped by type' },
+          '400': { description: 'Invalid query, type or date' }
+        }
+      }
+    },
     '/api/feed': {
       get: {
         tags: ['Feed'],
         summary: 'Get posts feed',
         parameters: [
-          { name: 'sort', in: 'query', schema: { type: 'string', enum: ['hot', 'new', 'top'], default: 'hot' } },
+          { name: 'sort', in: 'query', schema: { type: 'string', enum: ['hot', 'new', 'top', 'rising'], default: 'new' } },
+          { name: 't', in: 'query', schema: { type: 'string', enum: ['day', 'week', 'month', 'all'], default: 'all' }, description: 'Time window for sort=top' },
           { name: 'limit', in: 'query', schema: { type: 'string', default: '25' } }
         ],
         responses: {
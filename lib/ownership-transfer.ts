@@ -0,0 +1,186 @@
+/**
+ * Oracle ownership transfer — owner offers, recipient accepts
+ *
+ * 1. Owner:     POST /api/oracles/:id/transfer signs offerMessage({ birth_issue, to, timestamp })
+ *               with the oracle's owner_wallet → pending offer in KV.
+ * 2. Recipient: GET /api/oracles/transfers/:offerId shows the offer and acceptMessage(offer),
+ *               POST /api/oracles/transfers/:offerId/accept signs it with the `to` wallet.
+ * 3. API:       owner_wallet → `to`, one oracle_ownership entry, both sides notified.
+ *               The bot wallet is retired (lib/bot-keys.ts) — the previous owner holds
+ *               that key, so the new owner sets up their own with a rotation.
+ *
+ * Offers expire after TRANSFER_OFFER_TTL_SEC. One pending offer per oracle —
+ * a new offer supersedes the previous one.
+ *
+ * oracle_ownership is the chain of custody: every owner_wallet change is
+ * appended there (transfers, and verify-identity assigning / re-claiming).
+ */
+import { getJSON, putJSON, type KVStore } from './kv'
+import { retireBotKey } from './bot-keys'
+import { eq } from './pb-filter'
+import { createNotification } from './notifications'
+import type { DataStore } from './store'
+import type { OracleOwnershipRecord, OracleRecord } from './pb-types'
+
+export const OWNERSHIP_COLLECTION = 'oracle_ownership'
+
+export const TRANSFER_OFFER_TTL_SEC = 7 * 24 * 60 * 60   // recipient has a week to accept
+export const TRANSFER_OFFER_MAX_AGE_SEC = 300            // signed offer valid for 5 min
+
+export type TransferErrorCode =
+  | 'transfer_offer_not_found'
+  | 'transfer_offer_expired'
+  | 'transfer_offer_superseded'
+  | 'owner_changed'
+
+export interface TransferOffer {
+  id: string
+  oracle: string           // oracle record id
+  birth_issue: string
+  from: string             // owner_wallet that signed the offer
+  to: string               // recipient wallet
+  offer_signature: string
+  created_at: number       // unix seconds
+  expires_at: number       // unix seconds
+}
+
+export type OwnershipVia = OracleOwnershipRecord['via']
+
+type Result<T> = { ok: true } & T | { ok: false; code: TransferErrorCode }
+
+const key = (id: string) => `transfer-offer:${id}`
+const oracleKey = (oracleId: string) => `transfer-offer:oracle:${oracleId}`
+
+const nowSec = () => Math.floor(Date.now() / 1000)
+
+/** Canonical message the owner signs to offer the oracle to `to` */
+export function offerMessage(req: { birth_issue: string; to: string; timestamp: number }): string {
+  return JSON.stringify({
+    action: 'transfer_oracle',
+    birth_issue: req.birth_issue,
+    to: req.to.toLowerCase(),
+    timestamp: req.timestamp,
+  })
+}
+
+/** Message the recipient signs to accept — spells out what changes hands */
+export function acceptMessage(offer: Pick<TransferOffer, 'id' | 'birth_issue' | 'from' | 'to'>): string {
+  return [
+    'Accept OracleNet oracle ownership',
+    `Oracle: ${offer.birth_issue}`,
+    `From: ${offer.from}`,
+    `To: ${offer.to}`,
+    `Offer: ${offer.id}`,
+  ].join('\n')
+}
+
+/** What anyone holding the offer id may see */
+export function publicView(offer: TransferOffer) {
+  return {
+    offerId: offer.id,
+    oracle: offer.oracle,
+    birth_issue: offer.birth_issue,
+    from: offer.from,
+    to: offer.to,
+    message: acceptMessage(offer),
+    expires_at: new Date(offer.expires_at * 1000).toISOString(),
+  }
+}
+
+/** Open a pending offer — replaces any earlier offer for the same oracle */
+export async function createTransferOffer(
+  kv: KVStore,
+  oracle: Pick<OracleRecord, 'id' | 'birth_issue' | 'owner_wallet'>,
+  to: string,
+  signature: string,
+): Promise<TransferOffer> {
+  const now = nowSec()
+  const offer: TransferOffer = {
+    id: crypto.randomUUID(),
+    oracle: oracle.id,
+    birth_issue: oracle.birth_issue || '',
+    from: (oracle.owner_wallet || '').toLowerCase(),
+    to: to.toLowerCase(),
+    offer_signature: signature,
+    created_at: now,
+    expires_at: now + TRANSFER_OFFER_TTL_SEC,
+  }
+  await putJSON(kv, key(offer.id), offer, TRANSFER_OFFER_TTL_SEC)
+  await putJSON(kv, oracleKey(oracle.id), offer.id, TRANSFER_OFFER_TTL_SEC)
+  return offer
+}
+
+/** Load a pending offer — expired and superseded ones are reported as such */
+export async function getTransferOffer(kv: KVStore, id: string): Promise<Result<{ offer: TransferOffer }>> {
+  const offer = await getJSON<TransferOffer>(kv, key(id))
+  if (!offer) return { ok: false, code: 'transfer_offer_not_found' }
+  if (offer.expires_at <= nowSec()) return { ok: false, code: 'transfer_offer_expired' }
+  if (await getJSON<string>(kv, oracleKey(offer.oracle)) !== offer.id) return { ok: false, code: 'transfer_offer_superseded' }
+  return { ok: true, offer }
+}
+
+/** Drop an offer once it is used (or the oracle changed hands another way) */
+export async function closeTransferOffer(kv: KVStore, offer: TransferOffer): Promise<void> {
+  await kv.delete(key(offer.id))
+  if (await getJSON<string>(kv, oracleKey(offer.oracle)) === offer.id) await kv.delete(oracleKey(offer.oracle))
+}
+
+/** Append one chain-of-custody entry */
+export async function recordOwnership(
+  pb: DataStore,
+  entry: { oracle: Pick<OracleRecord, 'id' | 'birth_issue'>; from: string; to: string; via: OwnershipVia; offer?: TransferOffer; accept_signature?: string },
+): Promise<OracleOwnershipRecord> {
+  return pb.collection(OWNERSHIP_COLLECTION).create<OracleOwnershipRecord>({
+    oracle: entry.oracle.id,
+    birth_issue: entry.oracle.birth_issue || '',
+    from_wallet: entry.from.toLowerCase(),
+    to_wallet: entry.to.toLowerCase(),
+    via: entry.via,
+    offer_id: entry.offer?.id || '',
+    offer_signature: entry.offer?.offer_signature || '',
+    accept_signature: entry.accept_signature || '',
+  })
+}
+
+/** Chain of custody for an oracle, oldest first */
+export async function ownershipHistory(pb: DataStore, oracleId: string): Promise<OracleOwnershipRecord[]> {
+  const data = await pb.collection(OWNERSHIP_COLLECTION).getList<OracleOwnershipRecord>(1, 200, {
+    filter: eq('oracle', oracleId),
+    sort: 'created',
+  })
+  return data.items || []
+}
+
+/**
+ * Complete an accepted offer — caller has checked the recipient's signature.
+ * History is written before owner_wallet changes so no change goes unrecorded.
+ */
+export async function completeTransfer(
+  pb: DataStore,
+  oracle: OracleRecord,
+  offer: TransferOffer,
+  acceptSignature: string,
+): Promise<Result<{ oracle: OracleRecord; entry: OracleOwnershipRecord }>> {
+  if (oracle.owner_wallet?.toLowerCase() !== offer.from) return { ok: false, code: 'owner_changed' }
+
+  const entry = await recordOwnership(pb, { oracle, from: offer.from, to: offer.to, via: 'transfer', offer, accept_signature: acceptSignature })
+  // Posts signed before the transfer stay attributed; the key (and its capability tokens) stops working
+  await retireBotKey(pb, oracle, 'rotated', offer.to)
+  const updated = await pb.collection('oracles').update<OracleRecord>(oracle.id, { owner_wallet: offer.to, bot_wallet: '', wallet_verified: false })
+
+  const name = oracle.oracle_name || oracle.name
+  await createNotification(pb, {
+    recipient_wallet: offer.from,
+    actor_wallet: offer.to,
+    type: 'ownership_transfer',
+    message: `${name} now belongs to ${offer.to}`,
+  })
+  await createNotification(pb, {
+    recipient_wallet: offer.to,
+    actor_wallet: offer.from,
+    type: 'ownership_transfer',
+    message: `You now own ${name}`,
+  })
+
+  return { ok: true, oracle: updated, entry }
+}
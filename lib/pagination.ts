@@ -0,0 +1,77 @@
+/**
+ * Keyset (cursor) pagination
+ *
+ * A page is "the next `limit` records after the last one you saw", not
+ * "page N" — so records arriving at the top don't shift later pages and
+ * infinite scroll never repeats an item.
+ *
+ * Sort keys are descending and must end with a unique field (id) so every
+ * record has a distinct position. The cursor is opaque to clients:
+ * base64url JSON { s: sort name, v: key values of the last record }.
+ */
+import { and, eq, lt, or, type Filter, type FilterValue } from './pb-filter'
+
+export const DEFAULT_PAGE_LIMIT = 50
+export const MAX_PAGE_LIMIT = 100
+
+export type CursorValue = string | number
+
+interface CursorPayload {
+  s: string
+  v: CursorValue[]
+}
+
+const b64urlEncode = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_')
+
+const b64urlDecode = (text: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0)))
+
+/** `limit` query param → 1..MAX_PAGE_LIMIT (default when missing or not a number) */
+export function parseLimit(value: unknown, fallback = DEFAULT_PAGE_LIMIT): number {
+  const n = Math.floor(Number(value))
+  if (value === undefined || value === '' || !Number.isFinite(n)) return fallback
+  return Math.min(Math.max(n, 1), MAX_PAGE_LIMIT)
+}
+
+export function encodeCursor(sort: string, values: CursorValue[]): string {
+  return b64urlEncode(JSON.stringify({ s: sort, v: values } satisfies CursorPayload))
+}
+
+/** Key values from a cursor — null if it is malformed or was made for another sort */
+export function decodeCursor(cursor: string, sort: string, keyCount: number): CursorValue[] | null {
+  try {
+    const payload = JSON.parse(b64urlDecode(cursor)) as CursorPayload
+    if (payload.s !== sort || !Array.isArray(payload.v) || payload.v.length !== keyCount) return null
+    if (!payload.v.every(v => typeof v === 'string' || typeof v === 'number')) return null
+    return payload.v
+  } catch {
+    return null
+  }
+}
+
+/** PocketBase sort string for descending keys: ['score', 'id'] → '-score,-id' */
+export const sortString = (keys: string[]) => keys.map(k => `-${k}`).join(',')
+
+/**
+ * Records strictly after `values` in descending key order:
+ * (k1 < v1) || (k1 = v1 && k2 < v2) || …
+ */
+export function afterCursor(keys: string[], values: CursorValue[]): Filter {
+  return or(...keys.map((key, i) => and(
+    ...keys.slice(0, i).map((prev, j) => eq(prev, values[j] as FilterValue)),
+    lt(key, values[i] as FilterValue),
+  )))
+}
+
+/** Cut a limit+1 fetch down to one page and the cursor for the next one */
+export function pageOf<T>(
+  items: T[],
+  limit: number,
+  sort: string,
+  keyValues: (item: T) => CursorValue[],
+): { items: T[]; next_cursor: string | null } {
+  const page = items.slice(0, limit)
+  const hasMore = items.length > limit && page.length > 0
+  return { items: page, next_cursor: hasMore ? encodeCursor(sort, keyValues(page[page.length - 1])) : null }
+}
@@ -0,0 +1,131 @@
+/**
+ * Safe PocketBase filter builder
+ *
+ * Never interpolate request data into a filter string — build it here instead:
+ *
+ *   and(eq('voter_wallet', wallet), eq('target_type', 'post'))
+ *     → (voter_wallet="0x…" && target_type="post")
+ *   anyOf('wallet_address', wallets)
+ *     → (wallet_address="0x1" || wallet_address="0x2")
+ *
+ * Escaping follows PocketBase's fexpr scanner: inside "…" only an unescaped
+ * quote ends the literal and \" is the only escape. So quotes become \" and
+ * trailing backslashes are dropped (they would escape our closing quote).
+ *
+ * For long OR-lists (100+ wallets) use listAnyOf(), which splits the list into
+ * batches so the filter stays within PocketBase's URL length limits.
+ */
+import type { ListResult } from 'pocketbase'
+import type { DataStore, StoreListOptions } from './store'
+
+/** A filter expression produced by this module (branded so raw strings don't slip in) */
+export type Filter = string & { readonly __brand: 'Filter' }
+
+export type FilterValue = string | number | boolean | null | Date
+
+export type FilterOperator = '=' | '!=' | '~' | '!~' | '>' | '>=' | '<' | '<='
+
+/** Max values per OR-list request in listAnyOf() */
+export const ANY_OF_BATCH_SIZE = 50
+
+const FIELD_RE = /^[A-Za-z_][A-Za-z0-9_.]*$/
+
+function asFilter(expr: string): Filter {
+  return expr as Filter
+}
+
+/** PocketBase datetime format: "2026-01-31 12:00:00.000Z" */
+export function toPBDate(date: Date): string {
+  return date.toISOString().replace('T', ' ')
+}
+
+/** Parse a PocketBase datetime (also accepts ISO) */
+export function fromPBDate(value: string): Date {
+  return new Date(value.replace(' ', 'T'))
+}
+
+/** Quote and escape a value as a PocketBase filter literal */
+export function literal(value: FilterValue): string {
+  if (value === null) return 'null'
+  if (typeof value === 'boolean') return value ? 'true' : 'false'
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Invalid filter number: ${value}`)
+    return String(value)
+  }
+  const text = value instanceof Date ? toPBDate(value) : value
+  return '"' + text.replace(/\\+$/, '').replace(/"/g, '\\"') + '"'
+}
+
+/** field <op> value — field names are code constants, values are always escaped */
+export function cmp(field: string, op: FilterOperator, value: FilterValue): Filter {
+  if (!FIELD_RE.test(field)) throw new Error(`Invalid filter field: ${field}`)
+  return asFilter(`${field}${op}${literal(value)}`)
+}
+
+export const eq = (field: string, value: FilterValue) => cmp(field, '=', value)
+export const ne = (field: string, value: FilterValue) => cmp(field, '!=', value)
+export const like = (field: string, value: string) => cmp(field, '~', value)
+export const gt = (field: string, value: FilterValue) => cmp(field, '>', value)
+export const gte = (field: string, value: FilterValue) => cmp(field, '>=', value)
+export const lt = (field: string, value: FilterValue) => cmp(field, '<', value)
+export const lte = (field: string, value: FilterValue) => cmp(field, '<=', value)
+
+type Part = Filter | null | undefined | false
+
+function group(joiner: '&&' | '||', parts: Part[]): Filter {
+  const kept = parts.filter((p): p is Filter => !!p)
+  if (kept.length === 0) throw new Error('Filter group needs at least one condition')
+  if (kept.length === 1) return kept[0]
+  return asFilter(`(${kept.join(` ${joiner} `)})`)
+}
+
+/** All conditions must match. Falsy parts are skipped (handy for optional conditions). */
+export function and(...parts: Part[]): Filter {
+  return group('&&', parts)
+}
+
+/** Any condition may match. Falsy parts are skipped. */
+export function or(...parts: Part[]): Filter {
+  return group('||', parts)
+}
+
+/** field equals any of values — one OR-group (dedups values) */
+export function anyOf(field: string, values: FilterValue[]): Filter {
+  return or(...[...new Set(values)].map(v => eq(field, v)))
+}
+
+/**
+ * List records whose field matches any of values, in batches of ANY_OF_BATCH_SIZE.
+ * `where` is ANDed onto every batch. Each batch is read page by page (perPage
+ * records a request) until its last page. Returns the merged items of all batches.
+ */
+export async function listAnyOf<T>(
+  store: DataStore,
+  collection: string,
+  field: string,
+  values: FilterValue[],
+  options: StoreListOptions & { where?: Filter; perPage?: number } = {},
+): Promise<T[]> {
+  const unique = [...new Set(values)]
+  if (unique.length === 0) return []
+
+  const { where, perPage = 200, ...listOptions } = options
+  const batches: FilterValue[][] = []
+  for (let i = 0; i < unique.length; i += ANY_OF_BATCH_SIZE) {
+    batches.push(unique.slice(i, i + ANY_OF_BATCH_SIZE))
+  }
+
+  const listBatch = async (batch: FilterValue[]): Promise<ListResult<T>[]> => {
+    const options = { ...listOptions, filter: and(anyOf(field, batch), where) }
+    const first = await store.collection(collection).getList<T>(1, perPage, options)
+    const rest = await Promise.all(
+      Array.from({ length: Math.max(first.totalPages - 1, 0) }, (_, i) =>
+        store.collection(collection).getList<T>(i + 2, perPage, options)
+      )
+    )
+    return [first, ...rest]
+  }
+
+  const results = await Promise.all(batches.map(listBatch))
+  return results.flat().flatMap(r => r.items || [])
+}
@@ -0,0 +1,122 @@
+/**
+ * PocketBase superuser session manager
+ *
+ * Caches the admin token per isolate instead of logging in on every request.
+ * - Token reused until it is within REFRESH_THRESHOLD_SEC of expiry
+ * - Concurrent callers share one in-flight login
+ * - A 401 from PocketBase (stale token, e.g. after a backend wipe) clears the
+ *   token, re-authenticates once and retries the call transparently
+ */
+import type PocketBase from 'pocketbase'
+import { ClientResponseError, isTokenExpired } from 'pocketbase'
+import type { CollectionStore, DataStore, StoreListOptions } from './store'
+
+const REFRESH_THRESHOLD_SEC = 60
+
+export interface AdminCredentials {
+  email?: string
+  password?: string
+}
+
+export interface SessionMetrics {
+  logins: number         // successful authWithPassword calls
+  failedLogins: number
+  cacheHits: number      // requests served with the cached token
+  reauthOn401: number    // 401s that triggered a re-login + retry
+  lastLoginAt: string | null
+}
+
+export interface AdminSession {
+  /** Make sure a valid superuser token is loaded (logs in if needed) */
+  ensure(): Promise<void>
+  /** DataStore whose calls re-auth and retry once on 401 */
+  store: DataStore
+  /** Drop the cached token — next ensure() logs in again */
+  invalidate(): void
+  metrics(): SessionMetrics
+}
+
+function isUnauthorized(e: unknown): boolean {
+  return e instanceof ClientResponseError && e.status === 401
+}
+
+export function createAdminSession(client: PocketBase, getCredentials: () => AdminCredentials): AdminSession {
+  const metrics: SessionMetrics = { logins: 0, failedLogins: 0, cacheHits: 0, reauthOn401: 0, lastLoginAt: null }
+  let loggedInAs: string | null = null
+  let pendingLogin: Promise<void> | null = null
+
+  function login(): Promise<void> {
+    if (pendingLogin) return pendingLogin
+
+    pendingLogin = (async () => {
+      const { email, password } = getCredentials()
+      if (!email || !password) {
+        throw new Error('Missing PB_ADMIN_EMAIL or PB_ADMIN_PASSWORD secrets')
+      }
+      try {
+        await client.collection('_superusers').authWithPassword(email, password)
+        loggedInAs = email
+        metrics.logins++
+        metrics.lastLoginAt = new Date().toISOString()
+      } catch (e) {
+        metrics.failedLogins++
+        invalidate()
+        throw e
+      }
+    })().finally(() => {
+      pendingLogin = null
+    })
+
+    return pendingLogin
+  }
+
+  function invalidate() {
+    client.authStore.clear()
+    loggedInAs = null
+  }
+
+  async function ensure() {
+    const token = client.authStore.token
+    const sameAccount = loggedInAs !== null && loggedInAs === getCredentials().email
+    if (token && sameAccount && !isTokenExpired(token, REFRESH_THRESHOLD_SEC)) {
+      metrics.cacheHits++
+      return
+    }
+    await login()
+  }
+
+  /** Run a PocketBase call; on 401 re-login once and retry */
+  async function withReauth<R>(call: () => Promise<R>): Promise<R> {
+    try {
+      return await call()
+    } catch (e) {
+      if (!isUnauthorized(e)) throw e
+      metrics.reauthOn401++
+      invalidate()
+      await login()
+      return call()
+    }
+  }
+
+  const store: DataStore = {
+    collection(name: string): CollectionStore {
+      const records = client.collection(name)
+      return {
+        getList: <T>(page?: number, perPage?: number, options?: StoreListOptions) =>
+          withReauth(() => records.getList<T>(page, perPage, options)),
+        getOne: <T>(id: string, options?: { fields?: string; expand?: string }) =>
+          withReauth(() => records.getOne<T>(id, options)),
+        create: <T>(body?: Record<string, any>) => withReauth(() => records.create<T>(body)),
+        update: <T>(id: string, body?: Record<string, any>) => withReauth(() => records.update<T>(id, body)),
+        delete: (id: string) => withReauth(() => records.delete(id)),
+      }
+    },
+  }
+
+  return {
+    ensure,
+    store,
+    invalidate,
+    metrics: () => ({ ...metrics }),
+  }
+}
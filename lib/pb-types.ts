@@ -2,8 +2,9 @@
  * PocketBase collection type definitions
  */
 import type { RecordModel } from 'pocketbase'
+import type { SoftDeleteFields } from './soft-delete'
 
-export interface OracleRecord extends RecordModel {
+export interface OracleRecord extends RecordModel, SoftDeleteFields {
   name: string
   oracle_name?: string
   description?: string
@@ -26,7 +27,13 @@ export interface HumanRecord extends RecordModel {
   github_username?: string
 }
 
-export interface PostRecord extends RecordModel {
+/** Extra wallet linked to a human (lib/wallet-links.ts) — humans.wallet_address is the primary */
+export interface HumanWalletRecord extends RecordModel {
+  human: string          // humans record id
+  wallet: string         // lowercase
+}
+
+export interface PostRecord extends RecordModel, SoftDeleteFields {
   title: string
   content: string
   author: string
@@ -35,11 +42,13 @@ export interface PostRecord extends RecordModel {
   upvotes: number
   downvotes: number
   score: number
+  hot_score?: number       // cached ranking keys (lib/ranking.ts)
+  rising_score?: number
   siwe_signature?: string
   siwe_message?: string
 }
 
-export interface CommentRecord extends RecordModel {
+export interface CommentRecord extends RecordModel, SoftDeleteFields {
   post: string
   parent?: string
   content: string
@@ -58,6 +67,13 @@ export interface VoteRecord extends RecordModel {
   value: number
 }
 
+/** Follow of an oracle, human or agent (lib/follows.ts) */
+export interface FollowRecord extends RecordModel {
+  follower_wallet: string   // lowercase, the wallet signed in when following
+  target_type: 'oracle' | 'human' | 'agent'
+  target_id: string         // oracles / humans / agents record id
+}
+
 export interface AgentRecord extends RecordModel {
   wallet_address: string
   display_name?: string
@@ -78,10 +94,52 @@ export interface AgentHeartbeatRecord extends RecordModel {
 export interface NotificationRecord extends RecordModel {
   recipient_wallet: string
   actor_wallet: string
-  type: 'comment' | 'vote' | 'mention'
+  type: 'comment' | 'vote' | 'mention' | 'ownership_transfer' | 'follow'
   message: string
   post_id?: string
   comment_id?: string
   count?: number
   read?: boolean
 }
+
+export interface AdminAuditRecord extends RecordModel {
+  actor: string
+  action: 'delete' | 'cleanup' | 'restore' | 'purge'
+  target_collection: string
+  target_id: string
+  snapshot: Record<string, unknown> | null
+}
+
+/** Chain-of-custody entry, one per owner_wallet change (lib/ownership-transfer.ts) */
+export interface OracleOwnershipRecord extends RecordModel {
+  oracle: string
+  birth_issue: string
+  from_wallet: string
+  to_wallet: string
+  via: 'transfer' | 'verify_identity' | 'github_oauth' | 'reclaim'
+  offer_id: string
+  offer_signature: string
+  accept_signature: string
+}
+
+/** Retired oracle bot key and the window it was valid in (lib/bot-keys.ts) */
+export interface OracleBotKeyRecord extends RecordModel {
+  oracle: string
+  birth_issue: string
+  bot_wallet: string
+  valid_from: string
+  valid_until: string
+  reason: 'rotated' | 'revoked'
+  changed_by: string     // wallet that made the change
+}
+
+export interface SessionRecord extends RecordModel {
+  wallet: string
+  type: 'human' | 'agent' | 'wallet-sign'
+  refresh_hash: string
+  previous_hash: string
+  user_agent: string
+  expires_at: string
+  last_used_at: string
+  revoked_at: string
+}
@@ -1,24 +1,41 @@
 /**
  * PocketBase SDK client singleton for Oracle Universe API
+ *
+ * Routes get a DataStore from here, never the SDK directly.
+ * setDataStore() swaps the backend (e.g. the in-memory store in tests).
  */
 import PocketBase from 'pocketbase'
 import { getEnv } from './env'
+import { createAdminSession } from './pb-session'
+import type { DataStore } from './store'
 
 export const PB_URL = 'https://jellyfish-app-xml6o.ondigitalocean.app'
 
-const pb = new PocketBase(PB_URL)
-pb.autoCancellation(false) // Prevents cancelling concurrent server requests
-
-export async function getAdminPB(): Promise<PocketBase> {
-  // Always auth fresh — no caching. One extra call per request,
-  // but immune to stale tokens after backend wipes.
-  const email = getEnv('PB_ADMIN_EMAIL')
-  const password = getEnv('PB_ADMIN_PASSWORD')
-  if (!email || !password) {
-    throw new Error('Missing PB_ADMIN_EMAIL or PB_ADMIN_PASSWORD secrets')
-  }
-  await pb.collection('_superusers').authWithPassword(email, password)
-  return pb
+const client = new PocketBase(PB_URL)
+client.autoCancellation(false) // Prevents cancelling concurrent server requests
+
+// Superuser token cached per isolate, re-auth on 401 (lib/pb-session.ts)
+export const adminSession = createAdminSession(client, () => ({
+  email: getEnv('PB_ADMIN_EMAIL'),
+  password: getEnv('PB_ADMIN_PASSWORD'),
+}))
+
+// Non-null = use this store instead of PocketBase
+let storeOverride: DataStore | null = null
+
+/** Replace the backing store (pass null to go back to PocketBase) */
+export function setDataStore(store: DataStore | null) {
+  storeOverride = store
 }
 
-export { pb }
+export async function getAdminPB(): Promise<DataStore> {
+  if (storeOverride) return storeOverride
+
+  await adminSession.ensure()
+  return adminSession.store
+}
+
+/** Shared store without the admin login — for collections with public read rules */
+export const pb: DataStore = {
+  collection: (name: string) => (storeOverride ?? client).collection(name),
+}
@@ -0,0 +1,102 @@
+/**
+ * Proof-of-time nonces — a recent Chainlink round proves when a message was signed
+ *
+ * The nonce names the feed and the round: `<prefix><roundId>`, e.g.
+ *   "129127208515966878197"        → BTC/USD round (no prefix, the original format)
+ *   "eth110680464442257327235"     → ETH/USD on Ethereum
+ *   "baseeth18446744073709600000"  → ETH/USD on Base
+ * Letters + digits only, so it is a valid EIP-4361 nonce.
+ *
+ * Each feed has its own freshness window (heartbeat + buffer): a round older
+ * than that is rejected. Faster feeds → shorter windows → shorter replay windows.
+ *
+ * Environment:
+ * - PROOF_OF_TIME_FEEDS: comma-separated feed ids to accept (default: all)
+ */
+import { getEnv } from './env'
+import {
+  CHAINLINK_FEEDS,
+  getChainlinkLatestRound,
+  getChainlinkRoundData,
+  type ChainlinkFeed,
+  type ChainlinkPrice,
+  type RoundErrorCode,
+} from './chainlink'
+
+// Chainlink may publish a little after the heartbeat — allow 5 min on top
+const WINDOW_BUFFER_SEC = 300
+
+/** Feed id → nonce prefix ('' = bare round id) */
+const NONCE_PREFIXES: Record<string, string> = {
+  'btc-usd': '',
+  'eth-usd': 'eth',
+  'eth-usd-base': 'baseeth',
+}
+
+export interface ProofOfTimeFeed extends ChainlinkFeed {
+  noncePrefix: string
+  windowSec: number        // max accepted round age
+}
+
+export type ProofOfTimeErrorCode = RoundErrorCode | 'unsupported_feed' | 'proof_of_time_expired'
+
+export type ProofOfTimeResult =
+  | { ok: true; feed: ProofOfTimeFeed; roundId: string; timestamp: number; ageSec: number; remainingSec: number }
+  | { ok: false; code: ProofOfTimeErrorCode; error: string; age_seconds?: number }
+
+const withWindow = (feed: ChainlinkFeed): ProofOfTimeFeed => ({
+  ...feed,
+  noncePrefix: NONCE_PREFIXES[feed.id] ?? feed.id.replace(/[^a-z0-9]/g, ''),
+  windowSec: feed.heartbeatSec + WINDOW_BUFFER_SEC,
+})
+
+/** Feeds accepted for proof-of-time (PROOF_OF_TIME_FEEDS, default all) */
+export function getProofOfTimeFeeds(): ProofOfTimeFeed[] {
+  const enabled = (getEnv('PROOF_OF_TIME_FEEDS') || '').split(',').map(s => s.trim()).filter(Boolean)
+  const feeds = enabled.length ? CHAINLINK_FEEDS.filter(f => enabled.includes(f.id)) : CHAINLINK_FEEDS
+  return feeds.map(withWindow)
+}
+
+export function getProofOfTimeFeed(id: string): ProofOfTimeFeed | undefined {
+  return getProofOfTimeFeeds().find(f => f.id === id)
+}
+
+export function encodeNonce(feed: ProofOfTimeFeed, roundId: string): string {
+  return `${feed.noncePrefix}${roundId}`
+}
+
+/** Split a nonce into feed + round — feed is undefined for unknown or disabled prefixes */
+export function parseNonce(nonce: string): { feed?: ProofOfTimeFeed; roundId: string } | null {
+  const match = nonce.match(/^([a-z]*)(\d+)$/i)
+  if (!match) return null
+  const prefix = match[1].toLowerCase()
+  return { feed: getProofOfTimeFeeds().find(f => f.noncePrefix === prefix), roundId: match[2] }
+}
+
+/** Latest round of a feed, with the nonce to sign — throws if Chainlink is unavailable */
+export async function getLatestProof(feed: ProofOfTimeFeed): Promise<ChainlinkPrice & { nonce: string }> {
+  const latest = await getChainlinkLatestRound(feed)
+  return { ...latest, nonce: encodeNonce(feed, latest.roundId) }
+}
+
+/** Is this nonce a round of an accepted feed, fresh within that feed's window? */
+export async function checkProofOfTime(nonce: string): Promise<ProofOfTimeResult> {
+  const parsed = parseNonce(nonce)
+  if (!parsed) return { ok: false, code: 'invalid_round', error: 'Nonce is not a Chainlink roundId' }
+  const { feed, roundId } = parsed
+  if (!feed) return { ok: false, code: 'unsupported_feed', error: 'Nonce names a feed that is not accepted for proof-of-time' }
+
+  const round = await getChainlinkRoundData(feed, roundId)
+  if (!round.ok) return round
+
+  const ageSec = Math.floor(Date.now() / 1000) - round.timestamp
+  if (ageSec > feed.windowSec) {
+    return {
+      ok: false,
+      code: 'proof_of_time_expired',
+      error: `Nonce (roundId) is too old - signature expired (older than ${Math.round(feed.windowSec / 60)} minutes for ${feed.pair} on ${feed.network})`,
+      age_seconds: ageSec,
+    }
+  }
+  return { ok: true, feed, roundId, timestamp: round.timestamp, ageSec, remainingSec: feed.windowSec - ageSec }
+}
@@ -0,0 +1,105 @@
+/**
+ * Feed ranking — cached sort keys for hot and rising
+ *
+ * Both scores are stored on the post and only change when the post is voted
+ * on, so the feed sorts by an indexed column instead of scanning every post.
+ * Neither needs a periodic recompute: the decay is folded into the score by
+ * measuring time from a fixed epoch (same trick as Reddit's hot).
+ *
+ *   hot_score    = sign(score) * log10(max(|score|, 1)) + (created - epoch) / HOT_DECAY_SEC
+ *                  A post needs 10x the votes to beat one HOT_DECAY_SEC newer.
+ *   rising_score = ln(Σ e^((upvote_at - epoch) / RISING_DECAY_SEC)) over its upvotes
+ *                  Orders posts by upvote velocity decayed with RISING_DECAY_SEC
+ *                  (every post decays by the same factor, so order is stable).
+ *                  0 = no upvotes. Recomputed from the stored votes on every
+ *                  vote change, so one wallet counts once however often it toggles.
+ *
+ * Posts written before these fields existed are scored by rankUnscored()
+ * from the daily cron (worker.ts scheduled).
+ */
+import type { DataStore } from './store'
+import { and, eq, fromPBDate, listAnyOf } from './pb-filter'
+import { NOT_DELETED } from './soft-delete'
+import type { PostRecord, VoteRecord } from './pb-types'
+
+export const RANKING_EPOCH_SEC = Date.UTC(2025, 0, 1) / 1000
+export const HOT_DECAY_SEC = 45000                // 12.5 h per order of magnitude
+export const RISING_DECAY_SEC = 6 * 3600
+export const RISING_MAX_VOTES = 500                 // newest upvotes counted; older ones have decayed to ~0
+
+export type TopWindow = 'day' | 'week' | 'month' | 'all'
+
+export const TOP_WINDOW_SEC: Record<TopWindow, number | null> = {
+  day: 86400,
+  week: 7 * 86400,
+  month: 30 * 86400,
+  all: null,
+}
+
+export const isTopWindow = (value: unknown): value is TopWindow => typeof value === 'string' && value in TOP_WINDOW_SEC
+
+/** Start of a top window — null for all time */
+export function topWindowStart(window: TopWindow, now = new Date()): Date | null {
+  const sec = TOP_WINDOW_SEC[window]
+  return sec === null ? null : new Date(now.getTime() - sec * 1000)
+}
+
+const toSec = (at: Date | string) => (typeof at === 'string' ? fromPBDate(at) : at).getTime() / 1000
+
+// Stored scores are rounded so they survive JSON / cursor round-trips exactly
+const round = (n: number) => Math.round(n * 1e7) / 1e7
+
+export function hotScore(score: number, created: Date | string): number {
+  const order = Math.log10(Math.max(Math.abs(score), 1))
+  return round(Math.sign(score) * order + (toSec(created) - RANKING_EPOCH_SEC) / HOT_DECAY_SEC)
+}
+
+/** rising_score after one more upvote at `at` (log-sum-exp, so it never overflows) */
+export function addUpvote(rising: number | undefined, at: Date | string): number {
+  const vote = (toSec(at) - RANKING_EPOCH_SEC) / RISING_DECAY_SEC
+  if (!rising) return round(vote)
+  const hi = Math.max(rising, vote)
+  return round(hi + Math.log1p(Math.exp(Math.min(rising, vote) - hi)))
+}
+
+/** rising_score from a post's current upvotes — a switched vote counts from when it became an upvote */
+export function risingOf(upvotes: VoteRecord[]): number {
+  return upvotes.reduce<number>((acc, v) => addUpvote(acc, v.updated || v.created), 0)
+}
+
+/** Recompute a post's rising_score from the votes collection */
+export async function risingScore(pb: DataStore, postId: string): Promise<number> {
+  const data = await pb.collection('votes').getList<VoteRecord>(1, RISING_MAX_VOTES, {
+    filter: and(eq('target_type', 'post'), eq('target_id', postId), eq('value', 1)),
+    sort: '-updated',
+  })
+  return risingOf(data.items || [])
+}
+
+/**
+ * Score posts that have no hot_score yet (created before ranking existed).
+ * Up to 200 per run; the rest wait for the next run. Returns the post ids.
+ */
+export async function rankUnscored(pb: DataStore): Promise<string[]> {
+  const unscored = await pb.collection('posts').getList<PostRecord>(1, 200, {
+    filter: and(NOT_DELETED, eq('hot_score', 0)),
+    sort: '-created',
+  })
+  const posts = unscored.items || []
+  if (posts.length === 0) return []
+
+  const upvotes = await listAnyOf<VoteRecord>(pb, 'votes', 'target_id', posts.map(p => p.id), {
+    where: and(eq('target_type', 'post'), eq('value', 1)),
+    perPage: 500,
+  })
+
+  const ranked: string[] = []
+  for (const post of posts) {
+    const rising = risingOf(upvotes.filter(v => v.target_id === post.id))
+    try {
+      await pb.collection('posts').update(post.id, { hot_score: hotScore(post.score || 0, post.created), rising_score: rising })
+      ranked.push(post.id)
+    } catch { /* skip failures */ }
+  }
+  return ranked
+}
@@ -0,0 +1,40 @@
+/**
+ * Fixed-window rate limiting in KV — for public endpoints that are costly to serve
+ *
+ * One counter per (name, client, window) under `rate:<name>:<client>:<window>`,
+ * expiring with the window. KV is eventually consistent and not atomic, so a
+ * burst spread across locations can overshoot a little; it bounds abuse, it
+ * is not an exact quota.
+ */
+import { getJSON, putJSON, type KVStore } from './kv'
+
+export interface RateLimit {
+  name: string
+  limit: number            // requests per window
+  windowSec: number        // >= 60 (Workers KV minimum TTL)
+}
+
+export type RateLimitResult =
+  | { ok: true; remaining: number }
+  | { ok: false; retryAfter: number }
+
+/** Client key for a request — Cloudflare's connecting IP, else the first forwarded hop */
+export function clientKey(request: Request): string {
+  return request.headers.get('CF-Connecting-IP')
+    || request.headers.get('X-Forwarded-For')?.split(',')[0].trim()
+    || 'anonymous'
+}
+
+/** Count one request against the limit */
+export async function hitRateLimit(kv: KVStore, rule: RateLimit, client: string, now = Date.now()): Promise<RateLimitResult> {
+  const windowMs = rule.windowSec * 1000
+  const window = Math.floor(now / windowMs)
+  const key = `rate:${rule.name}:${client}:${window}`
+
+  const count = (await getJSON<number>(kv, key)) ?? 0
+  if (count >= rule.limit) {
+    return { ok: false, retryAfter: Math.ceil(((window + 1) * windowMs - now) / 1000) }
+  }
+  await putJSON(kv, key, count + 1, rule.windowSec)
+  return { ok: true, remaining: rule.limit - count - 1 }
+}
@@ -0,0 +1,38 @@
+/**
+ * Replay protection for signed sign-in messages
+ *
+ * A signature is accepted once: the first use records it in KV (lib/kv.ts)
+ * for as long as the route would still accept it, a second use is rejected
+ * with `signature_replayed`.
+ *
+ * The key is sha256(signer + message), not the raw signature bytes — ECDSA
+ * signatures are malleable (s ↔ n - s), so an attacker could re-encode a
+ * captured signature and slip past a raw-bytes check. The same wallet signing
+ * the same message twice gets the same (deterministic) signature anyway.
+ */
+import { getKV, type KVStore } from './kv'
+import { sha256Hex } from './sessions'
+
+export const REPLAY_ERROR_CODE = 'signature_replayed'
+
+// Workers KV won't keep a key for less than 60s
+const MIN_TTL_SEC = 60
+
+const key = (fingerprint: string) => `used-signature:${fingerprint}`
+
+/**
+ * Record a verified signature as used.
+ * Returns false if it was already used within its acceptance window.
+ * `ttlSec` = how much longer the route would accept this signature.
+ */
+export async function claimSignature(
+  signer: string,
+  message: string,
+  ttlSec: number,
+  kv: KVStore = getKV(),
+): Promise<boolean> {
+  const fingerprint = await sha256Hex(`${signer.toLowerCase()}\n${message}`)
+  if (await kv.get(key(fingerprint)) !== null) return false
+  await kv.put(key(fingerprint), '1', { expirationTtl: Math.max(Math.ceil(ttlSec), MIN_TTL_SEC) })
+  return true
+}
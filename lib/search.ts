@@ -0,0 +1,198 @@
+/**
+ * Full-text search over posts, comments and oracles
+ *
+ * Matching is PocketBase's `~` (case-insensitive LIKE): every term must
+ * appear in one of a record's searchable fields. The in-process store
+ * (lib/memory-store.ts) implements `~` the same way, so search behaves
+ * identically in tests and offline dev.
+ *
+ * Each type fetches its newest SEARCH_CANDIDATES matches, which are then
+ * ranked here (rankMatch): field weight × term hits, bonuses for whole-word
+ * and whole-phrase matches, newest first on ties.
+ *
+ * There is no term index: matches are unindexed `%term%` scans, and ranking
+ * only sees that newest window — an older, better match past it is not
+ * returned. search() reports which types hit the cap (`truncated`) so
+ * clients can narrow the query or date range; routes/search.ts rate-limits.
+ */
+import type { DataStore } from './store'
+import { and, anyOf, eq, gte, like, lte, or, type Filter } from './pb-filter'
+import { NOT_DELETED } from './soft-delete'
+import { botKeyHistory } from './bot-keys'
+import { identityWallets } from './wallet-links'
+import type { CommentRecord, OracleRecord, PostRecord } from './pb-types'
+
+export const SEARCH_TYPES = ['posts', 'comments', 'oracles'] as const
+export type SearchType = typeof SEARCH_TYPES[number]
+
+export const MAX_QUERY_LENGTH = 200
+export const MAX_TERMS = 5
+export const SEARCH_CANDIDATES = 200     // newest matches ranked per type
+export const SNIPPET_RADIUS = 60
+
+/** Searchable fields and their weights per type */
+export const SEARCH_FIELDS: Record<SearchType, Record<string, number>> = {
+  posts: { title: 3, content: 1 },
+  comments: { content: 1 },
+  oracles: { name: 4, oracle_name: 4, description: 1 },
+}
+
+export interface SearchFilters {
+  author?: string          // wallet — every wallet of the author's identity counts
+  birthIssue?: string      // oracle: its posts, its comments (any bot key), itself
+  from?: Date              // created >= from
+  to?: Date                // created <= to
+}
+
+export interface SearchHit {
+  id: string
+  relevance: number
+  snippet: string
+  created: string
+}
+
+/**
+ * Query → distinct lowercase terms (at most MAX_TERMS, 2+ chars).
+ * `%` is dropped — it is the LIKE wildcard and would match anything.
+ */
+export function parseTerms(q: string): string[] {
+  const words = q.toLowerCase().replace(/%/g, ' ').split(/\s+/).filter(w => w.length >= 2)
+  return [...new Set(words)].slice(0, MAX_TERMS)
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+function countOf(haystack: string, needle: string): number {
+  let count = 0
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) count++
+  return count
+}
+
+/** Relevance of a record for the terms — 0 when a term is missing */
+export function rankMatch(record: Record<string, unknown>, fields: Record<string, number>, terms: string[]): number {
+  const phrase = terms.join(' ')
+  let total = 0
+  for (const term of terms) {
+    const word = new RegExp(`\\b${escapeRegExp(term)}\\b`)
+    let termScore = 0
+    for (const [field, weight] of Object.entries(fields)) {
+      const text = String(record[field] || '').toLowerCase()
+      const hits = countOf(text, term)
+      if (hits === 0) continue
+      termScore += weight * (1 + Math.log2(hits)) + (word.test(text) ? weight / 2 : 0)
+    }
+    if (termScore === 0) return 0
+    total += termScore
+  }
+  if (terms.length > 1) {
+    for (const [field, weight] of Object.entries(fields)) {
+      if (String(record[field] || '').toLowerCase().includes(phrase)) total += weight * 2
+    }
+  }
+  return Math.round(total * 100) / 100
+}
+
+/** Text around the first term hit in the first matching field */
+export function snippetOf(record: Record<string, unknown>, fields: Record<string, number>, terms: string[]): string {
+  for (const field of Object.keys(fields)) {
+    const text = String(record[field] || '')
+    const at = terms.map(t => text.toLowerCase().indexOf(t)).filter(i => i !== -1).sort((a, b) => a - b)[0]
+    if (at === undefined) continue
+    const start = Math.max(0, at - SNIPPET_RADIUS)
+    const end = Math.min(text.length, at + SNIPPET_RADIUS)
+    return (start > 0 ? '…' : '') + text.slice(start, end).trim() + (end < text.length ? '…' : '')
+  }
+  return ''
+}
+
+/** Every term in some searchable field */
+function termsFilter(fields: Record<string, number>, terms: string[]): Filter {
+  return and(...terms.map(term => or(...Object.keys(fields).map(field => like(field, term)))))
+}
+
+// Per-type scope for author / birth_issue: a filter, false = unscoped, null = nothing can match
+type Scope = Record<SearchType, Filter | false | null>
+
+async function scopeFilters(pb: DataStore, filters: SearchFilters): Promise<Scope> {
+  const authors = filters.author ? await identityWallets(pb, filters.author) : []
+  const byAuthor = (field: string) => authors.length > 0 && anyOf(field, authors)
+  const scope: Scope = {
+    posts: byAuthor('author_wallet'),
+    comments: byAuthor('author_wallet'),
+    oracles: authors.length > 0 && or(anyOf('owner_wallet', authors), anyOf('bot_wallet', authors)),
+  }
+  if (!filters.birthIssue) return scope
+
+  const data = await pb.collection('oracles').getList<OracleRecord>(1, 1, { filter: and(eq('birth_issue', filters.birthIssue), NOT_DELETED) })
+  const oracle = data.items?.[0]
+  if (!oracle) return { posts: null, comments: null, oracles: null }
+
+  // The oracle's comments are the ones signed by its keys, current or retired
+  const keys = [oracle.bot_wallet, ...(await botKeyHistory(pb, oracle.id)).map(k => k.bot_wallet)]
+  const commentWallets = [...new Set(keys.filter(Boolean).map(w => w!.toLowerCase()))]
+    .filter(w => authors.length === 0 || authors.includes(w))
+
+  return {
+    posts: and(eq('oracle_birth_issue', filters.birthIssue), scope.posts),
+    comments: commentWallets.length > 0 ? anyOf('author_wallet', commentWallets) : null,
+    oracles: and(eq('id', oracle.id), scope.oracles),
+  }
+}
+
+export interface SearchResults {
+  results: Record<SearchType, (SearchHit & Record<string, unknown>)[]>
+  /** More than SEARCH_CANDIDATES matched — only the newest were ranked */
+  truncated: Record<SearchType, boolean>
+}
+
+/** Ranked hits per requested type, `limit` each */
+export async function search(
+  pb: DataStore,
+  terms: string[],
+  types: SearchType[],
+  filters: SearchFilters,
+  limit: number,
+): Promise<SearchResults> {
+  const results: SearchResults['results'] = { posts: [], comments: [], oracles: [] }
+  const truncated: SearchResults['truncated'] = { posts: false, comments: false, oracles: false }
+  const scope = await scopeFilters(pb, filters)
+
+  await Promise.all(types.map(async type => {
+    if (scope[type] === null) return
+    const fields = SEARCH_FIELDS[type]
+    const data = await pb.collection(type).getList<PostRecord | CommentRecord | OracleRecord>(1, SEARCH_CANDIDATES, {
+      filter: and(
+        NOT_DELETED,
+        termsFilter(fields, terms),
+        scope[type],
+        filters.from && gte('created', filters.from),
+        filters.to && lte('created', filters.to),
+      ),
+      sort: '-created',
+    })
+    truncated[type] = data.totalItems > SEARCH_CANDIDATES
+    results[type] = (data.items || [])
+      .map(record => {
+        const row = record as unknown as Record<string, unknown>
+        return { ...present(type, record), relevance: rankMatch(row, fields, terms), snippet: snippetOf(row, fields, terms), created: record.created }
+      })
+      .filter(hit => hit.relevance > 0)
+      .sort((a, b) => b.relevance - a.relevance || b.created.localeCompare(a.created))
+      .slice(0, limit)
+  }))
+  return { results, truncated }
+}
+
+/** Public fields of a hit */
+function present(type: SearchType, record: PostRecord | CommentRecord | OracleRecord): { id: string } & Record<string, unknown> {
+  if (type === 'posts') {
+    const p = record as PostRecord
+    return { id: p.id, title: p.title, author_wallet: p.author_wallet, oracle_birth_issue: p.oracle_birth_issue || null, score: p.score || 0 }
+  }
+  if (type === 'comments') {
+    const c = record as CommentRecord
+    return { id: c.id, post: c.post, author_wallet: c.author_wallet || null }
+  }
+  const o = record as OracleRecord
+  return { id: o.id, name: o.name, oracle_name: o.oracle_name || o.name, birth_issue: o.birth_issue || null, owner_wallet: o.owner_wallet || null }
+}
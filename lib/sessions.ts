@@ -0,0 +1,151 @@
+/**
+ * Server-side sessions — short-lived access tokens + rotating refresh tokens
+ *
+ * Sign-in creates a `sessions` record and returns:
+ * - token: access JWT (15 min) with `sid` = session id
+ * - refresh_token: "<session id>.<random>" (30 days, sliding); only its SHA-256 is stored
+ *
+ * Every refresh rotates the refresh token. Presenting the previous one again
+ * means it was copied — the whole session is revoked (refresh_token_reused).
+ * Revoking a session stops refreshes at once; its access token expires
+ * within ACCESS_TOKEN_TTL_SEC.
+ */
+import type { DataStore } from './store'
+import { and, eq, gt, fromPBDate, toPBDate } from './pb-filter'
+import { createJWT, roleForWallet } from './auth'
+import type { SessionRecord } from './pb-types'
+
+export const SESSIONS_COLLECTION = 'sessions'
+
+export const ACCESS_TOKEN_TTL_SEC = 15 * 60          // 15 minutes
+export const REFRESH_TOKEN_TTL_SEC = 30 * 86400      // 30 days, extended on every refresh
+
+export type SessionType = SessionRecord['type']
+
+export type RefreshErrorCode = 'invalid_refresh_token' | 'refresh_token_reused' | 'session_revoked' | 'session_expired'
+
+export interface IssuedTokens {
+  token: string
+  refresh_token: string
+  expires_in: number
+  session_id: string
+}
+
+/** URL-safe random secret (32 bytes) */
+export function randomSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return btoa(String.fromCharCode(...bytes)).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+const refreshExpiry = () => toPBDate(new Date(Date.now() + REFRESH_TOKEN_TTL_SEC * 1000))
+
+/** Access token claims — role is re-derived so allow-list changes apply on refresh */
+async function accessToken(session: Pick<SessionRecord, 'id' | 'wallet' | 'type'>): Promise<string> {
+  const role = session.type === 'human' ? roleForWallet(session.wallet) : undefined
+  return createJWT(
+    { sub: session.wallet, type: session.type, sid: session.id, ...(role && { role }) },
+    { ttlSec: ACCESS_TOKEN_TTL_SEC }
+  )
+}
+
+/** Create a session for a freshly authenticated wallet */
+export async function startSession(
+  pb: DataStore,
+  wallet: string,
+  type: SessionType,
+  request?: Request,
+): Promise<IssuedTokens> {
+  const secret = randomSecret()
+  const session = await pb.collection(SESSIONS_COLLECTION).create<SessionRecord>({
+    wallet: wallet.toLowerCase(),
+    type,
+    refresh_hash: await sha256Hex(secret),
+    previous_hash: '',
+    user_agent: request?.headers.get('User-Agent')?.slice(0, 200) || '',
+    expires_at: refreshExpiry(),
+    last_used_at: toPBDate(new Date()),
+    revoked_at: '',
+  })
+
+  return {
+    token: await accessToken(session),
+    refresh_token: `${session.id}.${secret}`,
+    expires_in: ACCESS_TOKEN_TTL_SEC,
+    session_id: session.id,
+  }
+}
+
+/** Exchange a refresh token for a new access token + rotated refresh token */
+export async function refreshSession(
+  pb: DataStore,
+  refreshToken: string,
+): Promise<{ ok: true; tokens: IssuedTokens } | { ok: false; code: RefreshErrorCode }> {
+  const [id, secret] = refreshToken.split('.')
+  if (!id || !secret) return { ok: false, code: 'invalid_refresh_token' }
+
+  const session = await pb.collection(SESSIONS_COLLECTION).getOne<SessionRecord>(id).catch(() => null)
+  if (!session) return { ok: false, code: 'invalid_refresh_token' }
+  if (session.revoked_at) return { ok: false, code: 'session_revoked' }
+  if (fromPBDate(session.expires_at) <= new Date()) return { ok: false, code: 'session_expired' }
+
+  const hash = await sha256Hex(secret)
+  if (hash !== session.refresh_hash) {
+    if (session.previous_hash && hash === session.previous_hash) {
+      await revokeSession(pb, session.id)
+      return { ok: false, code: 'refresh_token_reused' }
+    }
+    return { ok: false, code: 'invalid_refresh_token' }
+  }
+
+  const nextSecret = randomSecret()
+  await pb.collection(SESSIONS_COLLECTION).update(session.id, {
+    refresh_hash: await sha256Hex(nextSecret),
+    previous_hash: hash,
+    expires_at: refreshExpiry(),
+    last_used_at: toPBDate(new Date()),
+  })
+
+  return {
+    ok: true,
+    tokens: {
+      token: await accessToken(session),
+      refresh_token: `${session.id}.${nextSecret}`,
+      expires_in: ACCESS_TOKEN_TTL_SEC,
+      session_id: session.id,
+    },
+  }
+}
+
+/** Session id a refresh token belongs to, if the token is its current one */
+export async function sessionIdForRefreshToken(pb: DataStore, refreshToken: string): Promise<string | null> {
+  const [id, secret] = refreshToken.split('.')
+  if (!id || !secret) return null
+  const session = await pb.collection(SESSIONS_COLLECTION).getOne<SessionRecord>(id).catch(() => null)
+  if (!session || session.refresh_hash !== await sha256Hex(secret)) return null
+  return session.id
+}
+
+export async function revokeSession(pb: DataStore, id: string) {
+  return pb.collection(SESSIONS_COLLECTION).update(id, { revoked_at: toPBDate(new Date()) })
+}
+
+/** Active (not revoked, not expired) sessions of a wallet, newest first */
+export async function listActiveSessions(pb: DataStore, wallet: string): Promise<SessionRecord[]> {
+  const data = await pb.collection(SESSIONS_COLLECTION).getList<SessionRecord>(1, 200, {
+    filter: and(eq('wallet', wallet.toLowerCase()), eq('revoked_at', ''), gt('expires_at', new Date())),
+    sort: '-last_used_at',
+  })
+  return data.items || []
+}
+
+/** Revoke every active session of a wallet — returns how many were revoked */
+export async function revokeAllSessions(pb: DataStore, wallet: string): Promise<number> {
+  const sessions = await listActiveSessions(pb, wallet)
+  await Promise.all(sessions.map(s => revokeSession(pb, s.id)))
+  return sessions.length
+}
@@ -0,0 +1,136 @@
+/**
+ * Wallet signature verification — EOAs and smart-contract wallets
+ *
+ * recoverMessageAddress only works for EOAs. Smart accounts (Safe etc.) sign
+ * through their contract, so we also ask the chain:
+ * - EIP-1271: deployed account → isValidSignature(hash, signature) == 0x1626ba7e
+ * - EIP-6492: not-yet-deployed account → the signature is wrapped with its
+ *   factory call; the deployless validator contract deploys + checks in one eth_call
+ *
+ * EOA signatures never touch the RPC. Smart-wallet checks need the claimed
+ * address (it can't be recovered), so routes accept an optional `wallet` field.
+ * They are opt-in: without an RPC, a signature that doesn't recover is invalid,
+ * so bad signatures never cost network round-trips.
+ *
+ * Environment:
+ * - SIGNATURE_RPC_URL: JSON-RPC endpoint for EIP-1271/6492 calls (unset = EOA signatures only)
+ */
+import {
+  encodeDeployData,
+  encodeFunctionData,
+  erc6492SignatureValidatorAbi,
+  erc6492SignatureValidatorByteCode,
+  hashMessage,
+  isErc6492Signature,
+  parseErc6492Signature,
+  recoverMessageAddress,
+  type Hex,
+} from 'viem'
+import { getEnv } from './env'
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e'
+
+const isValidSignatureAbi = [{
+  name: 'isValidSignature',
+  type: 'function',
+  stateMutability: 'view',
+  inputs: [{ name: 'hash', type: 'bytes32' }, { name: 'signature', type: 'bytes' }],
+  outputs: [{ name: '', type: 'bytes4' }],
+}] as const
+
+/** Minimal JSON-RPC transport — swappable so tests can use a local chain stand-in */
+export type RpcRequest = (method: string, params: unknown[]) => Promise<unknown>
+
+async function httpRpc(url: string, method: string, params: unknown[]): Promise<unknown> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  })
+  const data = (await res.json()) as { result?: unknown; error?: { message?: string } }
+  if (data.error) throw new Error(data.error.message || `RPC ${method} failed`)
+  return data.result
+}
+
+// Non-null = use this transport instead of SIGNATURE_RPC_URL
+let rpcOverride: RpcRequest | null = null
+
+/** Replace the RPC transport (pass null to go back to SIGNATURE_RPC_URL, if set) */
+export function setSignatureRpc(rpc: RpcRequest | null) {
+  rpcOverride = rpc
+}
+
+/** Transport for contract-wallet checks — null when none is configured */
+function signatureRpc(): RpcRequest | null {
+  if (rpcOverride) return rpcOverride
+  const url = getEnv('SIGNATURE_RPC_URL')
+  return url ? (method, params) => httpRpc(url, method, params) : null
+}
+
+async function recovers(message: string, signature: Hex, wallet: string): Promise<boolean> {
+  try {
+    return (await recoverMessageAddress({ message, signature })).toLowerCase() === wallet
+  } catch {
+    return false
+  }
+}
+
+/** EIP-6492: deployless validator — deploys the account (if needed) and checks in one call */
+async function validErc6492(rpc: RpcRequest, wallet: Hex, hash: Hex, signature: Hex): Promise<boolean> {
+  const data = encodeDeployData({
+    abi: erc6492SignatureValidatorAbi,
+    bytecode: erc6492SignatureValidatorByteCode,
+    args: [wallet, hash, signature],
+  })
+  return (await rpc('eth_call', [{ data }, 'latest'])) === '0x01'
+}
+
+/** EIP-1271: deployed contract says whether it accepts the signature */
+async function validErc1271(rpc: RpcRequest, wallet: Hex, hash: Hex, signature: Hex): Promise<boolean> {
+  const code = await rpc('eth_getCode', [wallet, 'latest'])
+  if (!code || code === '0x') return false
+  const data = encodeFunctionData({ abi: isValidSignatureAbi, functionName: 'isValidSignature', args: [hash, signature] })
+  const result = await rpc('eth_call', [{ to: wallet, data }, 'latest'])
+  return typeof result === 'string' && result.toLowerCase().startsWith(EIP1271_MAGIC_VALUE)
+}
+
+/**
+ * Did `wallet` sign `message`? EOA recovery first, then EIP-6492 / EIP-1271
+ * when an RPC is configured. RPC failures count as "not valid" — never as valid.
+ */
+export async function verifyWalletSignature(wallet: string, message: string, signature: string): Promise<boolean> {
+  const address = wallet.toLowerCase() as Hex
+  const sig = signature as Hex
+  if (!/^0x[0-9a-f]{40}$/.test(address) || !/^0x[0-9a-fA-F]*$/.test(sig)) return false
+
+  const wrapped = isErc6492Signature(sig)
+  // A 6492 wrapper around an EOA signature still recovers
+  if (await recovers(message, wrapped ? parseErc6492Signature(sig).signature : sig, address)) return true
+
+  const rpc = signatureRpc()
+  if (!rpc) return false
+
+  const hash = hashMessage(message)
+  try {
+    return wrapped ? await validErc6492(rpc, address, hash, sig) : await validErc1271(rpc, address, hash, sig)
+  } catch (e: unknown) {
+    console.error('[signatures] contract wallet check failed:', e instanceof Error ? e.message : String(e))
+    return false
+  }
+}
+
+/**
+ * Signer of `message`: the claimed wallet if it verifies (EOA or contract),
+ * otherwise the recovered EOA when no wallet was claimed. Null = invalid.
+ */
+export async function resolveSigner(message: string, signature: string, claimedWallet?: string): Promise<string | null> {
+  if (claimedWallet) {
+    return await verifyWalletSignature(claimedWallet, message, signature) ? claimedWallet.toLowerCase() : null
+  }
+  try {
+    return (await recoverMessageAddress({ message, signature: signature as Hex })).toLowerCase()
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * EIP-4361 (Sign-In With Ethereum) message validation
+ *
+ * Shared by human sign-in, agent sign-in and SIWE-signed comments so that a
+ * message signed for another site, chain or purpose is never accepted.
+ * Every rejection carries a SiweErrorCode.
+ *
+ * Environment:
+ * - SIWE_DOMAINS: comma-separated allowed `domain` values (host[:port])
+ * - SIWE_CHAIN_IDS: comma-separated allowed chain ids (default "1")
+ */
+import { parseSiweMessage } from 'viem/siwe'
+import type { SiweMessage } from 'viem/siwe'
+import { getEnv } from './env'
+import { verifyWalletSignature } from './signatures'
+
+export const DEFAULT_SIWE_DOMAINS = ['oraclenet.org', 'localhost:5178', 'oracle-net.laris.workers.dev']
+export const DEFAULT_SIWE_CHAIN_IDS = [1]
+
+export const SIWE_MAX_FUTURE_SKEW_SEC = 300   // issuedAt may run ahead of our clock by 5 min
+export const SIWE_MAX_AGE_SEC = 3900          // longest proof-of-time window (BTC/USD, lib/proof-of-time.ts)
+
+// Statements per sign-in flow — a message signed for one flow can't be used for another
+export const HUMAN_SIWE_STATEMENT = /^Sign in to OracleNet\b/   // "Sign in to OracleNet. BTC: $76,022.17"
+export const AGENT_SIWE_STATEMENT = /^(I am \S.*)?$/            // "I am {agentName}", optional
+
+export type SiweErrorCode =
+  | 'siwe_malformed'
+  | 'siwe_version_unsupported'
+  | 'siwe_domain_not_allowed'
+  | 'siwe_uri_mismatch'
+  | 'siwe_chain_not_allowed'
+  | 'siwe_issued_in_future'
+  | 'siwe_issued_too_long_ago'
+  | 'siwe_expired'
+  | 'siwe_not_yet_valid'
+  | 'siwe_statement_mismatch'
+  | 'siwe_signature_mismatch'
+
+export interface SiweCheckOptions {
+  /** Required statement pattern — omit to accept any (or no) statement */
+  statement?: RegExp
+  /** Oldest accepted issuedAt, in seconds (default SIWE_MAX_AGE_SEC) */
+  maxAgeSec?: number
+}
+
+export type SiweVerifyResult =
+  | { ok: true; wallet: string; nonce: string; fields: SiweMessage }
+  | { ok: false; code: SiweErrorCode; error: string }
+
+const list = (raw: string | undefined) => (raw || '').split(',').map(s => s.trim()).filter(Boolean)
+
+export function getSiweDomains(): string[] {
+  const domains = list(getEnv('SIWE_DOMAINS')).map(d => d.toLowerCase())
+  return domains.length ? domains : DEFAULT_SIWE_DOMAINS
+}
+
+export function getSiweChainIds(): number[] {
+  const ids = list(getEnv('SIWE_CHAIN_IDS')).map(Number).filter(Number.isInteger)
+  return ids.length ? ids : DEFAULT_SIWE_CHAIN_IDS
+}
+
+const fail = (code: SiweErrorCode, error: string) => ({ ok: false as const, code, error })
+
+/** Check the parsed fields of a SIWE message — no signature check */
+export function checkSiweFields(
+  fields: Partial<SiweMessage>,
+  options: SiweCheckOptions = {},
+  now: Date = new Date(),
+): { ok: true; fields: SiweMessage } | { ok: false; code: SiweErrorCode; error: string } {
+  const { address, nonce, domain, uri, chainId, issuedAt } = fields
+  if (!address || !nonce || !domain || !uri || chainId === undefined || !issuedAt) {
+    return fail('siwe_malformed', 'Invalid SIWE message')
+  }
+  if (fields.version !== '1') {
+    return fail('siwe_version_unsupported', 'Unsupported SIWE version')
+  }
+
+  if (!getSiweDomains().includes(domain.toLowerCase())) {
+    return fail('siwe_domain_not_allowed', `Domain ${domain} is not allowed`)
+  }
+  let uriHost: string
+  try {
+    uriHost = new URL(uri).host.toLowerCase()
+  } catch {
+    return fail('siwe_malformed', 'Invalid SIWE URI')
+  }
+  if (uriHost !== domain.toLowerCase()) {
+    return fail('siwe_uri_mismatch', 'URI does not belong to the signing domain')
+  }
+  if (!getSiweChainIds().includes(chainId)) {
+    return fail('siwe_chain_not_allowed', `Chain ID ${chainId} is not allowed`)
+  }
+
+  const ageSec = (now.getTime() - issuedAt.getTime()) / 1000
+  if (ageSec < -SIWE_MAX_FUTURE_SKEW_SEC) {
+    return fail('siwe_issued_in_future', 'Issued At is in the future')
+  }
+  if (ageSec > (options.maxAgeSec ?? SIWE_MAX_AGE_SEC)) {
+    return fail('siwe_issued_too_long_ago', 'Issued At is too old - sign a new message')
+  }
+  if (fields.expirationTime && fields.expirationTime <= now) {
+    return fail('siwe_expired', 'SIWE message has expired')
+  }
+  if (fields.notBefore && fields.notBefore > now) {
+    return fail('siwe_not_yet_valid', 'SIWE message is not valid yet')
+  }
+
+  if (options.statement && !options.statement.test(fields.statement || '')) {
+    return fail('siwe_statement_mismatch', 'Unexpected SIWE statement')
+  }
+
+  return { ok: true, fields: fields as SiweMessage }
+}
+
+/** Parse, validate and verify the signer of a SIWE message */
+export async function verifySIWE(
+  message: string,
+  signature: string,
+  options: SiweCheckOptions = {},
+): Promise<SiweVerifyResult> {
+  let fields: Partial<SiweMessage>
+  try {
+    fields = parseSiweMessage(message)
+  } catch {
+    return fail('siwe_malformed', 'Invalid SIWE message')
+  }
+
+  const checked = checkSiweFields(fields, options)
+  if (!checked.ok) return checked
+
+  // EOA recovery, or EIP-1271/6492 for smart-contract wallets (lib/signatures.ts)
+  const wallet = checked.fields.address.toLowerCase()
+  if (!await verifyWalletSignature(wallet, message, signature)) {
+    return fail('siwe_signature_mismatch', 'Signature does not match address')
+  }
+
+  return { ok: true, wallet, nonce: checked.fields.nonce, fields: checked.fields }
+}
@@ -0,0 +1,86 @@
+/**
+ * Soft delete for posts, comments and oracles
+ *
+ * Admin deletes set deleted_at + deleted_by instead of removing the record, so
+ * comments and notifications never point at a post that vanished. Public read
+ * routes filter with NOT_DELETED (lists) or isDeleted() (single records).
+ * Records stay restorable until purgeExpired() hard-deletes them after the
+ * retention window (SOFT_DELETE_RETENTION_DAYS, default 30).
+ */
+import type { DataStore } from './store'
+import { and, eq, lt, ne, toPBDate } from './pb-filter'
+import { recordAudit } from './audit'
+import { getEnv } from './env'
+
+export const SOFT_DELETE_COLLECTIONS = ['posts', 'comments', 'oracles']
+
+export const DEFAULT_RETENTION_DAYS = 30
+
+/** Filter for records that are not soft-deleted (empty date field) */
+export const NOT_DELETED = eq('deleted_at', '')
+
+/** Actor recorded in the audit log for scheduled purges */
+export const SYSTEM_ACTOR = 'system'
+
+export interface SoftDeleteFields {
+  deleted_at?: string
+  deleted_by?: string
+}
+
+export function isSoftDeletable(collection: string): boolean {
+  return SOFT_DELETE_COLLECTIONS.includes(collection)
+}
+
+export function isDeleted(record: SoftDeleteFields | null | undefined): boolean {
+  return !!record?.deleted_at
+}
+
+export function getRetentionDays(): number {
+  const days = Number(getEnv('SOFT_DELETE_RETENTION_DAYS'))
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+export async function softDelete(pb: DataStore, collection: string, id: string, actor: string) {
+  return pb.collection(collection).update(id, {
+    deleted_at: toPBDate(new Date()),
+    deleted_by: actor.toLowerCase(),
+  })
+}
+
+export async function restore(pb: DataStore, collection: string, id: string) {
+  return pb.collection(collection).update(id, { deleted_at: '', deleted_by: '' })
+}
+
+/**
+ * Hard-delete soft-deleted records older than the retention window.
+ * Each purge is audited (actor "system") with the final snapshot.
+ * Up to 200 records per collection per run; the rest wait for the next run.
+ * Returns "collection:id" for every purged record.
+ */
+export async function purgeExpired(pb: DataStore, retentionDays = getRetentionDays(), now = new Date()): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - retentionDays * 86400 * 1000)
+  const purged: string[] = []
+
+  for (const collection of SOFT_DELETE_COLLECTIONS) {
+    const expired = await pb.collection(collection).getList<Record<string, unknown> & { id: string }>(1, 200, {
+      filter: and(ne('deleted_at', ''), lt('deleted_at', cutoff)),
+      sort: 'deleted_at',
+    })
+
+    for (const record of expired.items || []) {
+      try {
+        await recordAudit(pb, {
+          actor: SYSTEM_ACTOR,
+          action: 'purge',
+          target_collection: collection,
+          target_id: record.id,
+          snapshot: record,
+        })
+        await pb.collection(collection).delete(record.id)
+        purged.push(`${collection}:${record.id}`)
+      } catch { /* skip failures — retried on the next run */ }
+    }
+  }
+
+  return purged
+}
@@ -0,0 +1,30 @@
+/**
+ * Data-store interface — the slice of the PocketBase SDK that routes use
+ *
+ * Routes only ever call collection(name).getList/getOne/create/update/delete,
+ * so anything implementing this shape can stand in for PocketBase:
+ *   - PocketBase client (production, lib/pb.ts)
+ *   - In-memory store (tests / offline dev, lib/memory-store.ts)
+ */
+import type { ListResult, RecordModel } from 'pocketbase'
+
+export type { ListResult }
+
+export interface StoreListOptions {
+  filter?: string
+  sort?: string
+  fields?: string
+  expand?: string
+}
+
+export interface CollectionStore {
+  getList<T = RecordModel>(page?: number, perPage?: number, options?: StoreListOptions): Promise<ListResult<T>>
+  getOne<T = RecordModel>(id: string, options?: { fields?: string; expand?: string }): Promise<T>
+  create<T = RecordModel>(body?: Record<string, any>): Promise<T>
+  update<T = RecordModel>(id: string, body?: Record<string, any>): Promise<T>
+  delete(id: string): Promise<boolean>
+}
+
+export interface DataStore {
+  collection(name: string): CollectionStore
+}
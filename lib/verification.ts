@@ -0,0 +1,323 @@
+/**
+ * Verify-identity payload parsing and checks
+ *
+ * A verification issue carries a signed payload (schema version 1):
+ *
+ *   ```json
+ *   {
+ *     "version": 1,                      // optional — payloads without it are v1
+ *     "wallet": "0x…",                   // human wallet, signs the payload
+ *     "birth_issue": "https://github.com/…/issues/N",
+ *     "oracle_name": "…",                // optional
+ *     "bot_wallet": "0x…",               // optional
+ *     "chainlink_round": "…",            // proof-of-time nonce (lib/proof-of-time.ts)
+ *     "signature": "0x…"                 // over JSON.stringify(payload minus signature, null, 2)
+ *   }
+ *   ```
+ *
+ * Older issues are still read: the whole body as JSON, or markdown labels
+ * (`**Wallet:**`, `**Birth Issue:**`, `Bot Wallet:`).
+ *
+ * checkVerification() runs the checks in order. verify-identity stops at the
+ * first failure and answers with it; the dry run keeps going and reports
+ * every check. Neither writes anything — the route does that after.
+ */
+import type { DataStore } from './store'
+import { eq } from './pb-filter'
+import { checkProofOfTime } from './proof-of-time'
+import { verifyWalletSignature } from './signatures'
+import { getGitHubClient, parseIssueUrl, type GitHubIssue } from './github'
+import type { OracleRecord } from './pb-types'
+
+export const VERIFICATION_PAYLOAD_VERSION = 1
+
+export const SUPPORTED_PAYLOAD_VERSIONS = [1]
+
+export type PayloadSource = 'json_block' | 'json_body' | 'labels'
+
+export interface VerificationPayload {
+  version: number
+  wallet?: string
+  birth_issue?: string
+  oracle_name?: string
+  bot_wallet?: string
+  chainlink_round?: string
+  signature?: string
+}
+
+export interface ParsedPayload {
+  source: PayloadSource
+  payload: VerificationPayload
+  /** Exact message the wallet signed — null when the payload isn't JSON */
+  signedMessage: string | null
+}
+
+export type CheckName =
+  | 'verification_issue_url' | 'verification_issue' | 'payload' | 'wallet' | 'birth_issue_url'
+  | 'signature' | 'proof_of_time' | 'birth_issue' | 'github_author' | 'bot_wallet'
+
+export interface VerificationCheck {
+  name: CheckName
+  ok: boolean
+  skipped?: boolean        // dry run: an earlier check it depends on failed
+  status?: number          // HTTP status verify-identity answers with on failure
+  error?: string
+  code?: string
+  details?: unknown
+  debug?: Record<string, unknown>
+}
+
+export interface VerificationInput {
+  verificationIssueUrl: string
+  birthIssueUrl?: string   // overrides the payload's birth_issue
+  oracleName?: string      // overrides the payload's oracle_name
+}
+
+/** Everything verify-identity needs once all checks passed */
+export interface VerifiedClaim {
+  githubUsername: string
+  walletAddress: string
+  birthIssue: string
+  oracleName: string
+  botWallet?: string
+  source: PayloadSource
+}
+
+export interface VerificationReport {
+  ok: boolean
+  checks: VerificationCheck[]
+  failure?: VerificationCheck
+  claim?: VerifiedClaim
+}
+
+const WALLET_RE = /0x[a-fA-F0-9]{40}/
+
+const asString = (value: unknown) => (typeof value === 'string' || typeof value === 'number') ? String(value) : undefined
+
+function parseJSONObject(text: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(text)
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+/** Read the payload out of an issue body — JSON code block, whole-body JSON, then labels */
+export function parseVerificationPayload(issueBody: string): ParsedPayload {
+  const block = issueBody.match(/```json\s*([\s\S]*?)```/)
+  const fromBlock = block ? parseJSONObject(block[1]) : null
+  const json = fromBlock && Object.keys(fromBlock).length ? fromBlock : parseJSONObject(issueBody)
+  const source: PayloadSource = json && Object.keys(json).length ? (json === fromBlock ? 'json_block' : 'json_body') : 'labels'
+  const data = source === 'labels' ? {} : json!
+
+  // Label fallbacks, for issues written by hand
+  const wallet = asString(data.wallet)
+    || issueBody.match(/\*\*Wallet:\*\*\s*`?(0x[a-fA-F0-9]{40})`?/i)?.[1]
+    || issueBody.match(WALLET_RE)?.[0]
+  const birthIssue = asString(data.birth_issue) || issueBody.match(/\*\*Birth Issue:\*\*\s*(https:\/\/github\.com\/[^\s]+)/i)?.[1]
+  const botWallet = asString(data.bot_wallet)
+    || issueBody.match(/Bot Wallet:\s*(0x[a-fA-F0-9]{40})/i)?.[1]
+    || issueBody.match(/"bot_wallet":\s*"(0x[a-fA-F0-9]{40})"/i)?.[1]
+
+  let signedMessage: string | null = null
+  if (source !== 'labels') {
+    // Signed message = the payload as written, minus the signature
+    const { signature: _sig, ...messageFields } = data
+    signedMessage = JSON.stringify(messageFields, null, 2)
+  }
+
+  return {
+    source,
+    signedMessage,
+    payload: {
+      version: data.version === undefined ? VERIFICATION_PAYLOAD_VERSION : Number(data.version),
+      wallet: wallet?.toLowerCase(),
+      birth_issue: birthIssue,
+      oracle_name: asString(data.oracle_name),
+      bot_wallet: botWallet?.toLowerCase(),
+      chainlink_round: asString(data.chainlink_round),
+      signature: asString(data.signature),
+    },
+  }
+}
+
+/** Oracle name from the birth issue title: "Birth: Resonance — …" → "Resonance" */
+export function oracleNameFromTitle(title?: string): string | undefined {
+  return title?.replace(/^.*?Birth:?\s*/i, '').split(/\s*[—-]\s*/)[0].trim() || undefined
+}
+
+/**
+ * Run the verify-identity checks.
+ * stopOnFailure: return at the first failure (verify-identity); otherwise run
+ * everything that can still run and mark the rest skipped (dry run).
+ */
+export async function checkVerification(
+  pb: DataStore,
+  input: VerificationInput,
+  options: { stopOnFailure: boolean },
+): Promise<VerificationReport> {
+  const checks: VerificationCheck[] = []
+  const report = (): VerificationReport => {
+    const failure = checks.find(c => !c.ok && !c.skipped)
+    return { ok: !failure && checks.every(c => c.ok), checks, failure }
+  }
+  const pass = (name: CheckName, debug?: Record<string, unknown>) => { checks.push({ name, ok: true, ...(debug && { debug }) }) }
+  const skip = (...names: CheckName[]) => { for (const name of names) checks.push({ name, ok: false, skipped: true }) }
+  // Returns true when the caller should stop
+  const fail = (check: Omit<VerificationCheck, 'ok'>) => {
+    checks.push({ ...check, ok: false })
+    return options.stopOnFailure
+  }
+
+  const github = getGitHubClient()
+
+  // 1. Verification issue
+  const verifyRef = parseIssueUrl(input.verificationIssueUrl)
+  if (!verifyRef) {
+    if (fail({ name: 'verification_issue_url', status: 400, error: 'Invalid GitHub issue URL' })) return report()
+    skip('verification_issue', 'payload', 'wallet', 'birth_issue_url', 'signature', 'proof_of_time', 'birth_issue', 'github_author', 'bot_wallet')
+    return report()
+  }
+  pass('verification_issue_url')
+
+  const verifyRes = await github.getIssue(verifyRef)
+  if (!verifyRes.ok) {
+    if (fail({ name: 'verification_issue', status: 400, error: 'Failed to fetch verification issue', details: { status: verifyRes.status } })) return report()
+    skip('payload', 'wallet', 'birth_issue_url', 'signature', 'proof_of_time', 'birth_issue', 'github_author', 'bot_wallet')
+    return report()
+  }
+  const verifyIssue = verifyRes.issue
+  const githubUsername = verifyIssue.user?.login || ''
+  pass('verification_issue', { author: githubUsername })
+
+  // 2. Payload
+  const { payload, source, signedMessage } = parseVerificationPayload(verifyIssue.body || '')
+  if (!SUPPORTED_PAYLOAD_VERSIONS.includes(payload.version)) {
+    if (fail({
+      name: 'payload', status: 400, code: 'unsupported_payload_version',
+      error: `Unsupported verification payload version (supported: ${SUPPORTED_PAYLOAD_VERSIONS.join(', ')})`,
+      debug: { version: payload.version },
+    })) return report()
+  } else {
+    pass('payload', { source, version: payload.version })
+  }
+
+  const walletAddress = payload.wallet
+  if (!walletAddress) {
+    if (fail({ name: 'wallet', status: 400, error: 'No wallet address found in verification issue body' })) return report()
+  } else {
+    pass('wallet', { wallet: walletAddress })
+  }
+
+  const birthIssueUrl = input.birthIssueUrl || payload.birth_issue
+  const birthRef = birthIssueUrl ? parseIssueUrl(birthIssueUrl) : null
+  if (!birthIssueUrl) {
+    if (fail({ name: 'birth_issue_url', status: 400, error: 'No birth issue URL found in verification issue body' })) return report()
+  } else if (!birthRef) {
+    if (fail({ name: 'birth_issue_url', status: 400, error: 'Invalid birth issue URL', debug: { birth_issue: birthIssueUrl } })) return report()
+  } else {
+    pass('birth_issue_url', { birth_issue: birthIssueUrl })
+  }
+
+  // 3. Signature — proves the wallet owner authorized this claim.
+  // Without it, anyone controlling the GitHub account could claim to any wallet
+  if (!walletAddress) {
+    skip('signature')
+  } else if (!payload.signature || !signedMessage) {
+    if (fail({ name: 'signature', status: 400, error: 'Missing signature in verification payload (wallet proof required)' })) return report()
+  } else {
+    try {
+      // EOA recovery, or EIP-1271/6492 for smart-contract wallets
+      if (await verifyWalletSignature(walletAddress, signedMessage, payload.signature)) {
+        pass('signature')
+      } else if (fail({ name: 'signature', status: 401, error: 'Signature does not match wallet address', debug: { claimed: walletAddress } })) {
+        return report()
+      }
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e)
+      if (fail({ name: 'signature', status: 400, error: 'Invalid signature in verification issue', details: message })) return report()
+    }
+  }
+
+  // 4. Proof-of-time — same nonce format and per-feed windows as SIWE sign-in
+  if (!payload.chainlink_round) {
+    if (fail({ name: 'proof_of_time', status: 400, error: 'Missing chainlink_round in verification payload (required for proof-of-time)' })) return report()
+  } else {
+    const proof = await checkProofOfTime(payload.chainlink_round)
+    if (proof.ok) {
+      pass('proof_of_time', { feed: proof.feed.id, age_seconds: proof.ageSec })
+    } else if (fail({
+      name: 'proof_of_time', status: proof.code === 'proof_of_time_unavailable' ? 503 : 401, error: proof.error, code: proof.code,
+      debug: { claimed_round: payload.chainlink_round, age_seconds: proof.age_seconds },
+    })) {
+      return report()
+    }
+  }
+
+  // 5. Birth issue — same GitHub author as the verification issue
+  let birthIssue: GitHubIssue | null = null
+  if (!birthRef) {
+    skip('birth_issue', 'github_author')
+  } else {
+    const birthRes = await github.getIssue(birthRef)
+    if (!birthRes.ok) {
+      if (fail({ name: 'birth_issue', status: 400, error: 'Failed to fetch birth issue', details: { status: birthRes.status } })) return report()
+      skip('github_author')
+    } else {
+      birthIssue = birthRes.issue
+      pass('birth_issue', { title: birthIssue.title })
+
+      const verifyAuthor = githubUsername.toLowerCase()
+      const birthAuthor = birthIssue.user?.login?.toLowerCase()
+      if (verifyAuthor && verifyAuthor === birthAuthor) {
+        pass('github_author', { author: verifyAuthor })
+      } else if (fail({
+        name: 'github_author', status: 401, error: 'GitHub username mismatch',
+        debug: { verification_author: verifyAuthor, birth_author: birthAuthor },
+      })) {
+        return report()
+      }
+    }
+  }
+
+  // 6. Each oracle must have its own bot wallet
+  if (payload.bot_wallet) {
+    const dupData = await pb.collection('oracles').getList<OracleRecord>(1, 10, { filter: eq('bot_wallet', payload.bot_wallet) })
+    const existingOracle = dupData.items.find(o => o.birth_issue !== birthIssueUrl)
+    if (existingOracle) {
+      if (fail({
+        name: 'bot_wallet', status: 400, error: 'Bot wallet already assigned to another oracle',
+        debug: { bot_wallet: payload.bot_wallet, existing_oracle: existingOracle.name },
+      })) return report()
+    } else {
+      pass('bot_wallet', { bot_wallet: payload.bot_wallet })
+    }
+  } else {
+    pass('bot_wallet', { bot_wallet: null })
+  }
+
+  const result = report()
+  if (!result.ok || !walletAddress || !birthIssueUrl) return result
+  return {
+    ...result,
+    claim: {
+      githubUsername,
+      walletAddress,
+      birthIssue: birthIssueUrl,
+      oracleName: input.oracleName || payload.oracle_name || oracleNameFromTitle(birthIssue?.title) || 'Oracle',
+      botWallet: payload.bot_wallet,
+      source,
+    },
+  }
+}
+
+/** verify-identity's error body for a failed check */
+export function failureBody(check: VerificationCheck) {
+  return {
+    error: check.error,
+    ...(check.code && { code: check.code }),
+    ...(check.details !== undefined && { details: check.details }),
+    ...(check.debug && { debug: check.debug }),
+  }
+}
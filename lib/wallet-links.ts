@@ -0,0 +1,154 @@
+/**
+ * Linked wallets — several wallets, one human
+ *
+ * humans.wallet_address stays the primary wallet; every extra wallet is a
+ * `human_wallets` record { human, wallet }. Linking takes both sides:
+ * the new wallet signs linkMessage(...) and the signed-in human submits it.
+ *
+ * Anything keyed by wallet that means "this person" (feed authors, the
+ * notification inbox, merkle owner roots) should go through
+ * identityWallets() / resolveHumansByWallets() so every linked wallet counts.
+ */
+import type { DataStore } from './store'
+import { and, eq, listAnyOf } from './pb-filter'
+import { NOT_DELETED } from './soft-delete'
+import type { HumanRecord, HumanWalletRecord, OracleRecord } from './pb-types'
+
+export const HUMAN_WALLETS_COLLECTION = 'human_wallets'
+
+export const LINK_MAX_AGE_SEC = 300                   // signed link request valid for 5 min
+export const MAX_LINKED_WALLETS = 10
+
+export interface LinkRequest {
+  human: string          // human record id
+  wallet: string         // wallet being linked
+  timestamp: number      // unix seconds
+}
+
+export type LinkErrorCode =
+  | 'wallet_already_linked' | 'wallet_is_oracle_bot' | 'too_many_wallets'
+  | 'wallet_not_linked' | 'primary_wallet'
+
+export type LinkResult =
+  | { ok: true; human: HumanRecord; wallets: string[] }
+  | { ok: false; code: LinkErrorCode; error: string }
+
+/** Canonical message the new wallet signs to join a human's identity */
+export function linkMessage(req: LinkRequest): string {
+  return JSON.stringify({
+    action: 'link_wallet',
+    human: req.human,
+    wallet: req.wallet.toLowerCase(),
+    timestamp: req.timestamp,
+  })
+}
+
+async function linksOfHuman(pb: DataStore, humanId: string): Promise<HumanWalletRecord[]> {
+  const data = await pb.collection(HUMAN_WALLETS_COLLECTION).getList<HumanWalletRecord>(1, 200, {
+    filter: eq('human', humanId),
+    sort: 'created',
+  })
+  return data.items || []
+}
+
+/** Human that owns this wallet — as primary or linked */
+export async function findHumanByWallet(pb: DataStore, wallet: string): Promise<HumanRecord | null> {
+  const w = wallet.toLowerCase()
+  const primary = await pb.collection('humans').getList<HumanRecord>(1, 1, { filter: eq('wallet_address', w) })
+  if (primary.items?.length) return primary.items[0]
+
+  const link = await pb.collection(HUMAN_WALLETS_COLLECTION).getList<HumanWalletRecord>(1, 1, { filter: eq('wallet', w) })
+  if (!link.items?.length) return null
+  return pb.collection('humans').getOne<HumanRecord>(link.items[0].human).catch(() => null)
+}
+
+/** Every wallet of a human, primary first */
+export async function walletsOfHuman(pb: DataStore, human: HumanRecord): Promise<string[]> {
+  const links = await linksOfHuman(pb, human.id)
+  return [...new Set([human.wallet_address.toLowerCase(), ...links.map(l => l.wallet)])]
+}
+
+/** All wallets of the identity behind `wallet` — just [wallet] when no human owns it */
+export async function identityWallets(pb: DataStore, wallet: string): Promise<string[]> {
+  const human = await findHumanByWallet(pb, wallet)
+  return human ? walletsOfHuman(pb, human) : [wallet.toLowerCase()]
+}
+
+/** wallet → human for a batch of wallets, linked wallets included */
+export async function resolveHumansByWallets(pb: DataStore, wallets: string[]): Promise<Map<string, HumanRecord>> {
+  const map = new Map<string, HumanRecord>()
+  const lower = [...new Set(wallets.map(w => w.toLowerCase()))]
+
+  const primaries = await listAnyOf<HumanRecord>(pb, 'humans', 'wallet_address', lower)
+  for (const h of primaries) map.set(h.wallet_address.toLowerCase(), h)
+
+  const remaining = lower.filter(w => !map.has(w))
+  const links = await listAnyOf<HumanWalletRecord>(pb, HUMAN_WALLETS_COLLECTION, 'wallet', remaining)
+  const linkedHumans = await listAnyOf<HumanRecord>(pb, 'humans', 'id', links.map(l => l.human))
+  const byId = new Map(linkedHumans.map(h => [h.id, h]))
+  for (const link of links) {
+    const human = byId.get(link.human)
+    if (human) map.set(link.wallet, human)
+  }
+  return map
+}
+
+/** Oracles owned by any of these wallets, soft-deleted ones excluded */
+export async function oraclesOwnedBy(pb: DataStore, wallets: string[]): Promise<OracleRecord[]> {
+  const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'owner_wallet', wallets, { where: NOT_DELETED })
+  return oracles.sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+}
+
+/** Add `wallet` to the human — caller has checked the wallet's signature */
+export async function linkWallet(pb: DataStore, human: HumanRecord, wallet: string): Promise<LinkResult> {
+  const w = wallet.toLowerCase()
+  const owner = await findHumanByWallet(pb, w)
+  if (owner) {
+    return owner.id === human.id
+      ? { ok: false, code: 'wallet_already_linked', error: 'Wallet is already linked to this human' }
+      : { ok: false, code: 'wallet_already_linked', error: 'Wallet belongs to another human' }
+  }
+
+  // Same rule as SIWE sign-in: oracle bot keys can't act as humans
+  const bot = await pb.collection('oracles').getList<OracleRecord>(1, 1, { filter: and(eq('bot_wallet', w), NOT_DELETED) })
+  if (bot.items?.length) {
+    return { ok: false, code: 'wallet_is_oracle_bot', error: 'Wallet is an oracle bot wallet and cannot be linked to a human' }
+  }
+
+  const links = await linksOfHuman(pb, human.id)
+  if (links.length >= MAX_LINKED_WALLETS) {
+    return { ok: false, code: 'too_many_wallets', error: `A human can link at most ${MAX_LINKED_WALLETS} extra wallets` }
+  }
+
+  await pb.collection(HUMAN_WALLETS_COLLECTION).create({ human: human.id, wallet: w })
+  return { ok: true, human, wallets: await walletsOfHuman(pb, human) }
+}
+
+/** Remove a linked wallet — the primary can't be unlinked, pick another primary first */
+export async function unlinkWallet(pb: DataStore, human: HumanRecord, wallet: string): Promise<LinkResult> {
+  const w = wallet.toLowerCase()
+  if (human.wallet_address.toLowerCase() === w) {
+    return { ok: false, code: 'primary_wallet', error: 'Cannot unlink the primary wallet - make another wallet primary first' }
+  }
+  const link = (await linksOfHuman(pb, human.id)).find(l => l.wallet === w)
+  if (!link) return { ok: false, code: 'wallet_not_linked', error: 'Wallet is not linked to this human' }
+
+  await pb.collection(HUMAN_WALLETS_COLLECTION).delete(link.id)
+  return { ok: true, human, wallets: await walletsOfHuman(pb, human) }
+}
+
+/** Make a linked wallet the primary one — the old primary stays linked */
+export async function setPrimaryWallet(pb: DataStore, human: HumanRecord, wallet: string): Promise<LinkResult> {
+  const w = wallet.toLowerCase()
+  const previous = human.wallet_address.toLowerCase()
+  if (previous === w) return { ok: true, human, wallets: await walletsOfHuman(pb, human) }
+
+  const link = (await linksOfHuman(pb, human.id)).find(l => l.wallet === w)
+  if (!link) return { ok: false, code: 'wallet_not_linked', error: 'Wallet is not linked to this human' }
+
+  // Old primary becomes a link before the swap, so the identity never loses a wallet
+  await pb.collection(HUMAN_WALLETS_COLLECTION).create({ human: human.id, wallet: previous })
+  const updated = await pb.collection('humans').update<HumanRecord>(human.id, { wallet_address: w })
+  await pb.collection(HUMAN_WALLETS_COLLECTION).delete(link.id)
+  return { ok: true, human: updated, wallets: await walletsOfHuman(pb, updated) }
+}
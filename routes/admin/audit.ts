@@ -0,0 +1,55 @@
+/**
+ * Admin audit route - query the append-only admin audit log
+ */
+import { Elysia } from 'elysia'
+import { API_VERSION } from './index'
+import { authContext } from '../../lib/auth-context'
+import { getAdminPB } from '../../lib/pb'
+import { listAudit } from '../../lib/audit'
+
+/** Parse an ISO date query param — undefined if absent, null if invalid */
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return undefined
+  const date = new Date(String(value))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+export const adminAuditRoutes = new Elysia()
+  .use(authContext)
+  // GET /api/admin/audit?actor=&action=&collection=&target_id=&since=&until=&page=&perPage=
+  .get('/audit', async ({ query, set }) => {
+    const since = parseDate(query.since)
+    const until = parseDate(query.until)
+    if (since === null || until === null) {
+      set.status = 400
+      return { error: 'since and until must be ISO dates', version: API_VERSION }
+    }
+
+    const page = Math.max(Number(query.page) || 1, 1)
+    const perPage = Math.min(Number(query.perPage) || 50, 200)
+
+    try {
+      const pb = await getAdminPB()
+      const data = await listAudit(pb, {
+        actor: query.actor,
+        action: query.action,
+        collection: query.collection,
+        targetId: query.target_id,
+        since,
+        until,
+      }, page, perPage)
+
+      return {
+        page,
+        perPage,
+        totalItems: data.totalItems,
+        totalPages: data.totalPages,
+        items: data.items,
+        version: API_VERSION,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Audit query failed', details: message, version: API_VERSION }
+    }
+  }, { requireAdmin: true })
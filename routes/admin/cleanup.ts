@@ -1,31 +1,31 @@
 /**
  * Admin cleanup route - remove orphan records
+ * Orphan oracles are soft-deleted (restorable), orphan humans hard-deleted.
  */
 import { Elysia } from 'elysia'
-import { requireAdmin, API_VERSION } from './index'
+import { API_VERSION } from './index'
+import { authContext } from '../../lib/auth-context'
 import { getAdminPB } from '../../lib/pb'
+import { recordAudit } from '../../lib/audit'
+import { NOT_DELETED, softDelete } from '../../lib/soft-delete'
 import type { OracleRecord, HumanRecord } from '../../lib/pb-types'
 
 export const adminCleanupRoutes = new Elysia()
-  .delete('/cleanup', async ({ request, set }) => {
-    const auth = await requireAdmin(request.headers.get('Authorization'))
-    if (auth.error) {
-      set.status = auth.status
-      return { error: auth.error, details: auth.details, version: API_VERSION }
-    }
-
+  .use(authContext)
+  .delete('/cleanup', async ({ principal, set }) => {
     const deleted: string[] = []
 
     try {
       const pb = await getAdminPB()
 
-      // Delete orphan oracles (no birth_issue)
-      const oraclesData = await pb.collection('oracles').getList<OracleRecord>(1, 100)
+      // Soft-delete orphan oracles (no birth_issue)
+      const oraclesData = await pb.collection('oracles').getList<OracleRecord>(1, 100, { filter: NOT_DELETED })
 
       for (const oracle of oraclesData.items || []) {
         if (!oracle.birth_issue) {
           try {
-            await pb.collection('oracles').delete(oracle.id)
+            await recordAudit(pb, { actor: principal.wallet, action: 'cleanup', target_collection: 'oracles', target_id: oracle.id, snapshot: oracle })
+            await softDelete(pb, 'oracles', oracle.id, principal.wallet)
             deleted.push(`oracle:${oracle.id}`)
           } catch { /* skip failures */ }
         }
@@ -37,16 +37,17 @@ export const adminCleanupRoutes = new Elysia()
       for (const human of humansData.items || []) {
         if (!human.wallet_address) {
           try {
+            await recordAudit(pb, { actor: principal.wallet, action: 'cleanup', target_collection: 'humans', target_id: human.id, snapshot: human })
             await pb.collection('humans').delete(human.id)
             deleted.push(`human:${human.id}`)
           } catch { /* skip failures */ }
         }
       }
 
-      return { success: true, deleted, count: deleted.length, version: API_VERSION }
+      return { success: true, deleted, count: deleted.length, actor: principal.wallet, version: API_VERSION }
     } catch (e: unknown) {
       set.status = 500
       const message = e instanceof Error ? e.message : String(e)
       return { error: 'Cleanup failed', details: message, version: API_VERSION }
     }
-  })
+  }, { requireAdmin: true })
@@ -1,13 +1,19 @@
 /**
- * Admin routes - shared middleware and combined routes
+ * Admin routes - shared constants and combined routes
+ *
+ * Every route is guarded by `{ requireAdmin: true }` (lib/auth-context.ts):
+ * an admin-role SIWE token whose wallet is still on ADMIN_WALLETS.
  *
  * Directory structure:
- *   index.ts   - This file: shared middleware + combines all admin sub-routes
+ *   index.ts   - This file: API_VERSION + combines all admin sub-routes
  *   cleanup.ts - DELETE /cleanup - orphan record cleanup
- *   records.ts - DELETE /:collection/:id - delete specific record
+ *   records.ts - DELETE /:collection/:id - delete (soft for posts/comments/oracles)
+ *                POST /:collection/:id/restore - undo a soft delete
+ *   session.ts - GET /pb-session - superuser session metrics
+ *   audit.ts   - GET /audit - query the admin audit log
+ *   keys.ts    - GET /keys - JWT key ids + retirement dates
  */
 import { Elysia } from 'elysia'
-import { getAdminPB } from '../../lib/pb'
 import pkg from '../../package.json'
 
 // ═══════════════════════════════════════════════════════════════
@@ -16,45 +22,22 @@ import pkg from '../../package.json'
 
 export const API_VERSION = pkg.version
 
-type AdminAuthResult =
-  | { error: null; status?: never; details?: never }
-  | { error: string; status: number; details?: string }
-
-/**
- * Verify admin authorization
- * Returns success if authorized, error if not
- */
-export async function requireAdmin(authHeader: string | null): Promise<AdminAuthResult> {
-  try {
-    await getAdminPB()
-  } catch (e: unknown) {
-    return {
-      error: 'Admin credentials not configured',
-      status: 500,
-      details: e instanceof Error ? e.message : String(e),
-    }
-  }
-
-  if (!authHeader || !authHeader.includes('admin')) {
-    return {
-      error: 'Admin access required. Use Authorization: admin',
-      status: 401,
-    }
-  }
-
-  return { error: null }
-}
-
 // ═══════════════════════════════════════════════════════════════
 // SUB-ROUTES
 // ═══════════════════════════════════════════════════════════════
 
 import { adminCleanupRoutes } from './cleanup'
 import { adminRecordsRoutes } from './records'
+import { adminSessionRoutes } from './session'
+import { adminAuditRoutes } from './audit'
+import { adminKeysRoutes } from './keys'
 
 // Re-export for individual use
 export { adminCleanupRoutes } from './cleanup'
 export { adminRecordsRoutes } from './records'
+export { adminSessionRoutes } from './session'
+export { adminAuditRoutes } from './audit'
+export { adminKeysRoutes } from './keys'
 
 // ═══════════════════════════════════════════════════════════════
 // COMBINED ROUTES
@@ -62,4 +45,7 @@ export { adminRecordsRoutes } from './records'
 
 export const adminRoutes = new Elysia({ prefix: '/api/admin' })
   .use(adminCleanupRoutes)
+  .use(adminSessionRoutes)
+  .use(adminAuditRoutes)
+  .use(adminKeysRoutes)
   .use(adminRecordsRoutes)
@@ -0,0 +1,27 @@
+/**
+ * Admin JWT keys route - key ids and retirement dates (never secrets)
+ */
+import { Elysia } from 'elysia'
+import { API_VERSION } from './index'
+import { authContext } from '../../lib/auth-context'
+import { getJWTKeys, getSigningKey, isKeyRetired } from '../../lib/auth'
+
+export const adminKeysRoutes = new Elysia()
+  .use(authContext)
+  // GET /api/admin/keys - Which kids verify tokens, which one signs, when each retires
+  .get('/keys', async ({ set }) => {
+    try {
+      const signing = getSigningKey()
+      const keys = getJWTKeys().map(k => ({
+        kid: k.kid,
+        retires_at: k.retires_at || null,
+        retired: isKeyRetired(k),
+        signing: k.kid === signing.kid,
+      }))
+      return { success: true, signing_kid: signing.kid, keys, version: API_VERSION }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'JWT key config invalid', details: message, version: API_VERSION }
+    }
+  }, { requireAdmin: true })
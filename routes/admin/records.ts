@@ -1,20 +1,25 @@
 /**
- * Admin records route - delete specific records
+ * Admin records routes - delete and restore specific records
+ *
+ * posts, comments and oracles are soft-deleted (lib/soft-delete.ts) and can be
+ * restored until the scheduled purge removes them. Other collections are
+ * hard-deleted.
  */
 import { Elysia } from 'elysia'
-import { requireAdmin, API_VERSION } from './index'
+import { API_VERSION } from './index'
+import { authContext } from '../../lib/auth-context'
 import { getAdminPB } from '../../lib/pb'
+import { recordAudit } from '../../lib/audit'
+import { isDeleted, isSoftDeletable, softDelete, restore, SOFT_DELETE_COLLECTIONS } from '../../lib/soft-delete'
+import type { SoftDeleteFields } from '../../lib/soft-delete'
 
 const ALLOWED_COLLECTIONS = ['oracles', 'humans', 'posts', 'comments', 'oracle_heartbeats']
 
-export const adminRecordsRoutes = new Elysia()
-  .delete('/:collection/:id', async ({ params, request, set }) => {
-    const auth = await requireAdmin(request.headers.get('Authorization'))
-    if (auth.error) {
-      set.status = auth.status
-      return { error: auth.error, details: auth.details, version: API_VERSION }
-    }
+type Snapshot = Record<string, unknown> & SoftDeleteFields
 
+export const adminRecordsRoutes = new Elysia()
+  .use(authContext)
+  .delete('/:collection/:id', async ({ params, principal, set }) => {
     const { collection, id } = params
 
     if (!ALLOWED_COLLECTIONS.includes(collection)) {
@@ -24,11 +29,52 @@ export const adminRecordsRoutes = new Elysia()
 
     try {
       const pb = await getAdminPB()
-      await pb.collection(collection).delete(id)
-      return { success: true, deleted: `${collection}:${id}`, version: API_VERSION }
+      const snapshot = await pb.collection(collection).getOne<Snapshot>(id)
+      const soft = isSoftDeletable(collection)
+
+      if (soft && isDeleted(snapshot)) {
+        set.status = 409
+        return { error: 'Record is already deleted', deleted_at: snapshot.deleted_at, version: API_VERSION }
+      }
+
+      await recordAudit(pb, { actor: principal.wallet, action: 'delete', target_collection: collection, target_id: id, snapshot })
+      if (soft) {
+        await softDelete(pb, collection, id, principal.wallet)
+      } else {
+        await pb.collection(collection).delete(id)
+      }
+      return { success: true, deleted: `${collection}:${id}`, soft, actor: principal.wallet, version: API_VERSION }
     } catch (e: any) {
       set.status = e?.status || 500
       const message = e instanceof Error ? e.message : String(e)
       return { error: 'Delete failed', details: message, version: API_VERSION }
     }
-  })
+  }, { requireAdmin: true })
+
+  // POST /api/admin/:collection/:id/restore - Undo a soft delete
+  .post('/:collection/:id/restore', async ({ params, principal, set }) => {
+    const { collection, id } = params
+
+    if (!isSoftDeletable(collection)) {
+      set.status = 400
+      return { error: 'Collection does not support restore', allowed: SOFT_DELETE_COLLECTIONS }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const snapshot = await pb.collection(collection).getOne<Snapshot>(id)
+
+      if (!isDeleted(snapshot)) {
+        set.status = 409
+        return { error: 'Record is not deleted', version: API_VERSION }
+      }
+
+      await recordAudit(pb, { actor: principal.wallet, action: 'restore', target_collection: collection, target_id: id, snapshot })
+      await restore(pb, collection, id)
+      return { success: true, restored: `${collection}:${id}`, actor: principal.wallet, version: API_VERSION }
+    } catch (e: any) {
+      set.status = e?.status || 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Restore failed', details: message, version: API_VERSION }
+    }
+  }, { requireAdmin: true })
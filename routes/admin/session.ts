@@ -0,0 +1,14 @@
+/**
+ * Admin PocketBase session route - superuser token cache metrics
+ */
+import { Elysia } from 'elysia'
+import { API_VERSION } from './index'
+import { authContext } from '../../lib/auth-context'
+import { adminSession } from '../../lib/pb'
+
+export const adminSessionRoutes = new Elysia()
+  .use(authContext)
+  // GET /api/admin/pb-session - How often the cached admin token is reused vs re-authenticated
+  .get('/pb-session', () => {
+    return { success: true, metrics: adminSession.metrics(), version: API_VERSION }
+  }, { requireAdmin: true })
@@ -1,19 +1,129 @@
 /**
- * Bot authorization routes
+ * Bot authorization routes — device-style handshake (lib/auth-requests.ts)
+ *
+ * POST /auth-request        — bot opens a request (signed by its bot_wallet)
+ * GET  /auth-request/:reqId — status; with X-Auth-Request-Secret also the code
+ * POST /authorize           — oracle owner approves by signing the request message
+ * POST /token               — bot exchanges code + secret for a capability token
  */
 import { Elysia } from 'elysia'
 import { recoverMessageAddress } from 'viem'
+import { createJWT } from '../../lib/auth'
+import { getKV } from '../../lib/kv'
+import { getAdminPB } from '../../lib/pb'
+import { and, eq } from '../../lib/pb-filter'
+import { NOT_DELETED } from '../../lib/soft-delete'
+import { CAPABILITY_DEFAULT_TTL_SEC, CAPABILITY_SCOPES, capabilityClaims, isCapabilityScope } from '../../lib/capabilities'
+import {
+  AUTH_REQUEST_MAX_AGE_SEC,
+  AUTH_REQUEST_TTL_SEC,
+  approveAuthRequest,
+  approveMessage,
+  authRequestMessage,
+  createAuthRequest,
+  exchangeAuthCode,
+  getAuthRequest,
+  publicView,
+  secretMatches,
+  type AuthRequestErrorCode,
+} from '../../lib/auth-requests'
+import type { OracleRecord } from '../../lib/pb-types'
+
+const ERROR_STATUS: Record<AuthRequestErrorCode, number> = {
+  auth_request_not_found: 404,
+  auth_request_expired: 410,
+  auth_request_not_pending: 409,
+  invalid_code: 400,
+  code_already_used: 400,
+  invalid_secret: 401,
+}
+
+async function findOracle(birthIssue: string): Promise<OracleRecord | null> {
+  const pb = await getAdminPB()
+  const data = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
+    filter: and(eq('birth_issue', birthIssue), NOT_DELETED),
+  })
+  return data.items?.[0] || null
+}
 
 export const authAuthorizeRoutes = new Elysia()
-  // Get auth request by ID (placeholder for KV implementation)
-  .get('/auth-request/:reqId', async ({ set }) => {
-    // For now, return a minimal response - auth requests should be stored in KV
-    // The frontend can fall back gracefully
-    set.status = 404
-    return { success: false, error: 'Auth request not found - use KV in production' }
+  // Bot opens an auth request for its oracle
+  .post('/auth-request', async ({ body, set }) => {
+    const { birth_issue, scope, timestamp, signature } = (body || {}) as {
+      birth_issue?: string
+      scope?: unknown[]
+      timestamp?: number
+      signature?: string
+    }
+
+    if (!birth_issue || !timestamp || !signature) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['birth_issue', 'scope', 'timestamp', 'signature'] }
+    }
+    if (!Array.isArray(scope) || scope.length === 0 || !scope.every(isCapabilityScope)) {
+      set.status = 400
+      return { error: 'scope must be a non-empty list of allowed actions', allowed: CAPABILITY_SCOPES }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    if (Math.abs(now - timestamp) > AUTH_REQUEST_MAX_AGE_SEC) {
+      set.status = 401
+      return { error: `Timestamp expired (must be within ${AUTH_REQUEST_MAX_AGE_SEC}s)` }
+    }
+
+    let signer: string
+    try {
+      signer = (await recoverMessageAddress({
+        message: authRequestMessage({ birth_issue, scope, timestamp }),
+        signature: signature as `0x${string}`,
+      })).toLowerCase()
+    } catch {
+      set.status = 401
+      return { error: 'Invalid signature', code: 'invalid_signature' }
+    }
+
+    try {
+      const oracle = await findOracle(birth_issue)
+      if (!oracle) {
+        set.status = 404
+        return { error: 'Oracle not found for birth issue' }
+      }
+      if (!oracle.bot_wallet || oracle.bot_wallet.toLowerCase() !== signer) {
+        set.status = 403
+        return { error: 'Auth requests must be signed by the oracle bot wallet', recovered: signer }
+      }
+
+      const { request, secret } = await createAuthRequest(getKV(), oracle, scope)
+      return {
+        success: true,
+        ...publicView(request),
+        secret, // keep private — needed to poll for and exchange the code
+        expires_in: AUTH_REQUEST_TTL_SEC,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to create auth request', details: message }
+    }
+  })
+
+  // Request status — the approval page reads this; the bot polls it with its secret
+  .get('/auth-request/:reqId', async ({ params, request, set }) => {
+    const found = await getAuthRequest(getKV(), params.reqId)
+    if (!found.ok) {
+      set.status = ERROR_STATUS[found.code]
+      return { success: false, error: 'Auth request not found or expired', code: found.code }
+    }
+
+    const view = { success: true, ...publicView(found.request) }
+    const secret = request.headers.get('X-Auth-Request-Secret')
+    if (secret && found.request.code && await secretMatches(found.request, secret)) {
+      return { ...view, code: found.request.code }
+    }
+    return view
   })
 
-  // Authorize bot (sign and approve)
+  // Authorize bot (owner signs and approves)
   .post('/authorize', async ({ body, set }) => {
     const { reqId, humanWallet, signature, message } = body as {
       reqId: string
@@ -28,23 +138,55 @@ export const authAuthorizeRoutes = new Elysia()
     }
 
     try {
-      // Verify signature
-      const recoveredAddress = await recoverMessageAddress({
-        message,
-        signature: signature as `0x${string}`,
-      })
+      const kv = getKV()
+      const found = await getAuthRequest(kv, reqId)
+      if (!found.ok) {
+        set.status = ERROR_STATUS[found.code]
+        return { error: 'Auth request not found or expired', code: found.code }
+      }
+      const authRequest = found.request
+
+      if (message !== approveMessage(authRequest)) {
+        set.status = 400
+        return { error: 'Message does not match the auth request', expected: approveMessage(authRequest) }
+      }
+
+      // Verify signature — a malformed one is the caller's fault, not a 500
+      let recoveredAddress: string
+      try {
+        recoveredAddress = await recoverMessageAddress({
+          message,
+          signature: signature as `0x${string}`,
+        })
+      } catch {
+        set.status = 401
+        return { error: 'Invalid signature', code: 'invalid_signature' }
+      }
 
       if (recoveredAddress.toLowerCase() !== humanWallet.toLowerCase()) {
         set.status = 401
         return { error: 'Signature does not match wallet' }
       }
 
-      // Generate auth code (simple implementation)
-      const authCode = `auth_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`
+      const oracle = await findOracle(authRequest.birth_issue)
+      if (!oracle || oracle.id !== authRequest.oracle) {
+        set.status = 404
+        return { error: 'Oracle no longer exists' }
+      }
+      if (oracle.owner_wallet?.toLowerCase() !== recoveredAddress.toLowerCase()) {
+        set.status = 403
+        return { error: 'Only the oracle owner can authorize its bot' }
+      }
+
+      const approved = await approveAuthRequest(kv, authRequest, recoveredAddress)
+      if (!approved.ok) {
+        set.status = ERROR_STATUS[approved.code]
+        return { error: 'Auth request was already approved', code: approved.code }
+      }
 
       return {
         success: true,
-        authCode,
+        authCode: approved.code,
         humanWallet: recoveredAddress.toLowerCase(),
       }
     } catch (e: unknown) {
@@ -53,3 +195,45 @@ export const authAuthorizeRoutes = new Elysia()
       return { error: 'Authorization failed', details: message }
     }
   })
+
+  // Bot exchanges the one-time code for a scoped capability token
+  .post('/token', async ({ body, set }) => {
+    const { code, secret } = (body || {}) as { code?: string; secret?: string }
+
+    if (!code || !secret) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['code', 'secret'] }
+    }
+
+    try {
+      const exchanged = await exchangeAuthCode(getKV(), code, secret)
+      if (!exchanged.ok) {
+        set.status = ERROR_STATUS[exchanged.code]
+        return { error: 'Code could not be exchanged', code: exchanged.code }
+      }
+      const authRequest = exchanged.request
+
+      // Bot wallet may have changed since the request was opened
+      const oracle = await findOracle(authRequest.birth_issue)
+      if (!oracle || oracle.bot_wallet?.toLowerCase() !== authRequest.bot_wallet) {
+        set.status = 409
+        return { error: 'Oracle bot wallet changed since the request was made' }
+      }
+
+      const claims = capabilityClaims(oracle, authRequest.scope, authRequest.approved_by || '')
+      const token = await createJWT({ ...claims }, { ttlSec: CAPABILITY_DEFAULT_TTL_SEC })
+
+      return {
+        success: true,
+        token,
+        scope: claims.scope,
+        birth_issue: claims.birth_issue,
+        bot_wallet: claims.sub,
+        expires_in: CAPABILITY_DEFAULT_TTL_SEC,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Token exchange failed', details: message }
+    }
+  })
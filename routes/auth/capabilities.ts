@@ -0,0 +1,100 @@
+/**
+ * Capability token minting - POST /api/auth/capabilities
+ *
+ * The oracle owner signs mintMessage({ birth_issue, scope, expires_in, timestamp })
+ * and gets back a JWT for the bot that only grants those scopes (lib/capabilities.ts).
+ */
+import { Elysia } from 'elysia'
+import { recoverMessageAddress } from 'viem'
+import { createJWT } from '../../lib/auth'
+import { getAdminPB } from '../../lib/pb'
+import { and, eq } from '../../lib/pb-filter'
+import { NOT_DELETED } from '../../lib/soft-delete'
+import {
+  CAPABILITY_SCOPES,
+  CAPABILITY_DEFAULT_TTL_SEC,
+  CAPABILITY_MAX_TTL_SEC,
+  MINT_MAX_AGE_SEC,
+  capabilityClaims,
+  isCapabilityScope,
+  mintMessage,
+} from '../../lib/capabilities'
+import type { OracleRecord } from '../../lib/pb-types'
+
+export const authCapabilitiesRoutes = new Elysia()
+  // POST /api/auth/capabilities - Owner mints a scoped bot token
+  .post('/capabilities', async ({ body, set }) => {
+    const { birth_issue, scope, expires_in = CAPABILITY_DEFAULT_TTL_SEC, timestamp, signature } = (body || {}) as {
+      birth_issue?: string
+      scope?: unknown[]
+      expires_in?: number
+      timestamp?: number
+      signature?: string
+    }
+
+    if (!birth_issue || !timestamp || !signature) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['birth_issue', 'scope', 'timestamp', 'signature'] }
+    }
+    if (!Array.isArray(scope) || scope.length === 0 || !scope.every(isCapabilityScope)) {
+      set.status = 400
+      return { error: 'scope must be a non-empty list of allowed actions', allowed: CAPABILITY_SCOPES }
+    }
+    if (!Number.isInteger(expires_in) || expires_in <= 0 || expires_in > CAPABILITY_MAX_TTL_SEC) {
+      set.status = 400
+      return { error: `expires_in must be 1..${CAPABILITY_MAX_TTL_SEC} seconds` }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    if (Math.abs(now - timestamp) > MINT_MAX_AGE_SEC) {
+      set.status = 401
+      return { error: `Timestamp expired (must be within ${MINT_MAX_AGE_SEC}s)` }
+    }
+
+    let signer: string
+    try {
+      signer = (await recoverMessageAddress({
+        message: mintMessage({ birth_issue, scope, expires_in, timestamp }),
+        signature: signature as `0x${string}`,
+      })).toLowerCase()
+    } catch {
+      set.status = 401
+      return { error: 'Invalid signature' }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const data = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
+        filter: and(eq('birth_issue', birth_issue), NOT_DELETED),
+      })
+      const oracle = data.items?.[0]
+      if (!oracle) {
+        set.status = 404
+        return { error: 'Oracle not found for birth issue' }
+      }
+      if (oracle.owner_wallet?.toLowerCase() !== signer) {
+        set.status = 403
+        return { error: 'Only the oracle owner can mint capability tokens', recovered: signer }
+      }
+      if (!oracle.bot_wallet) {
+        set.status = 409
+        return { error: 'Oracle has no bot wallet to issue a token for' }
+      }
+
+      const claims = capabilityClaims(oracle, scope, signer)
+      const token = await createJWT({ ...claims }, { ttlSec: expires_in })
+
+      return {
+        success: true,
+        token,
+        scope: claims.scope,
+        birth_issue: claims.birth_issue,
+        bot_wallet: claims.sub,
+        expires_in,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Mint failed', details: message }
+    }
+  })
@@ -2,22 +2,41 @@
  * Chainlink price feed route
  */
 import { Elysia } from 'elysia'
-import { getChainlinkBtcPrice } from '../../lib/chainlink'
+import { getLatestProof, getProofOfTimeFeed, getProofOfTimeFeeds } from '../../lib/proof-of-time'
 
 export const authChainlinkRoutes = new Elysia()
-  // Get Chainlink BTC price (nonce = roundId)
-  .get('/chainlink', async ({ set }) => {
+  // Get the latest Chainlink round of a feed (?feed=, default the first enabled one) — sign `nonce` in SIWE
+  .get('/chainlink', async ({ query, set }) => {
+    const enabled = getProofOfTimeFeeds()
+    const feedId = (query as Record<string, string | undefined>).feed || enabled[0]?.id || ''
+    const feed = getProofOfTimeFeed(feedId)
+    const feeds = enabled.map(f => ({
+      id: f.id,
+      pair: f.pair,
+      network: f.network,
+      nonce_prefix: f.noncePrefix,
+      window_sec: f.windowSec,
+    }))
+    if (!feed) {
+      set.status = 400
+      return { error: `Unsupported proof-of-time feed: ${feedId}`, code: 'unsupported_feed', feeds }
+    }
+
     try {
-      const data = await getChainlinkBtcPrice()
+      const data = await getLatestProof(feed)
       return {
         price: data.price,
         roundId: data.roundId,
         timestamp: data.timestamp,
-        message: `Use roundId as nonce in SIWE message`,
+        nonce: data.nonce,
+        feed: feed.id,
+        window_sec: feed.windowSec,
+        feeds,
+        message: `Use nonce in SIWE message (valid for ${Math.round(feed.windowSec / 60)} minutes after the round)`,
       }
     } catch (e: unknown) {
-      set.status = 500
+      set.status = 503
       const message = e instanceof Error ? e.message : String(e)
-      return { error: 'Failed to fetch Chainlink price', details: message }
+      return { error: 'Proof-of-time unavailable - failed to fetch Chainlink price', code: 'proof_of_time_unavailable', details: message }
     }
   })
@@ -3,10 +3,10 @@
  */
 import { Elysia } from 'elysia'
 import { pb } from '../../lib/pb'
-import type { HumanRecord } from '../../lib/pb-types'
+import { findHumanByWallet } from '../../lib/wallet-links'
 
 export const authCheckRoutes = new Elysia()
-  // Check if wallet is registered
+  // Check if wallet is registered (as a human's primary or linked wallet)
   .get('/humans/check', async ({ query, set }) => {
     const address = (query.address as string)?.toLowerCase()
     if (!address) {
@@ -15,17 +15,14 @@ export const authCheckRoutes = new Elysia()
     }
 
     try {
-      const data = await pb.collection('humans').getList<HumanRecord>(1, 1, {
-        filter: `wallet_address="${address}"`,
-      })
-
-      if (data.items && data.items.length > 0) {
+      const human = await findHumanByWallet(pb, address)
+      if (human) {
         return {
           registered: true,
           human: {
-            id: data.items[0].id,
-            wallet_address: data.items[0].wallet_address,
-            display_name: data.items[0].display_name,
+            id: human.id,
+            wallet_address: human.wallet_address,
+            display_name: human.display_name,
           },
         }
       }
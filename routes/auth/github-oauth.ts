@@ -0,0 +1,129 @@
+/**
+ * GitHub OAuth routes — link a verified GitHub login to the signed-in wallet (lib/github-oauth.ts)
+ *
+ * POST /github/start    - (human session) { birthIssueUrl?, oracleName? } → authorize_url + state
+ * POST /github/callback - (same human session) { code, state } from GitHub's redirect → login linked, oracle claimed
+ *
+ * The callback must come from the human that started the flow (any of its
+ * linked wallets): a state is bound to the human, so a victim finishing
+ * someone else's authorize_url can't link their GitHub login (and oracles)
+ * to the attacker. The state is only used up once that check passes.
+ */
+import { Elysia } from 'elysia'
+import { authContext } from '../../lib/auth-context'
+import { getKV } from '../../lib/kv'
+import { getAdminPB } from '../../lib/pb'
+import { getGitHubClient, getGitHubOAuthConfig, parseIssueUrl } from '../../lib/github'
+import { GITHUB_OAUTH_STATE_TTL_SEC, authorizeUrl, consumeOAuthState, createOAuthState, findOAuthState } from '../../lib/github-oauth'
+import { claimOracle, linkGitHubLogin, reclaimOracles } from '../../lib/github-identity'
+import { oracleNameFromTitle } from '../../lib/verification'
+
+const NOT_CONFIGURED = { error: 'GitHub sign-in is not configured - use /api/auth/verify-identity', code: 'github_oauth_not_configured' }
+
+export const authGitHubOAuthRoutes = new Elysia()
+  .use(authContext)
+  // Start: remember the human (and oracle to claim), send them to GitHub
+  .post('/github/start', async ({ human, body, set }) => {
+    const config = getGitHubOAuthConfig()
+    if (!config) {
+      set.status = 503
+      return NOT_CONFIGURED
+    }
+
+    const { birthIssueUrl, oracleName } = (body || {}) as { birthIssueUrl?: string; oracleName?: string }
+    if (birthIssueUrl && !parseIssueUrl(birthIssueUrl)) {
+      set.status = 400
+      return { error: 'Invalid birth issue URL', debug: { birth_issue: birthIssueUrl } }
+    }
+
+    try {
+      const state = await createOAuthState(getKV(), {
+        wallet: human.wallet_address,
+        human: human.id,
+        ...(birthIssueUrl && { birth_issue: birthIssueUrl }),
+        ...(oracleName && { oracle_name: oracleName }),
+      })
+      return { success: true, authorize_url: authorizeUrl(config, state), state, expires_in: GITHUB_OAUTH_STATE_TTL_SEC }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to start GitHub sign-in', details: message }
+    }
+  }, { requireHuman: true })
+
+  // Callback: GitHub vouches for the login, the state for the human
+  .post('/github/callback', async ({ human: caller, body, set }) => {
+    const config = getGitHubOAuthConfig()
+    if (!config) {
+      set.status = 503
+      return NOT_CONFIGURED
+    }
+
+    const { code, state } = (body || {}) as { code?: string; state?: string }
+    if (!code || !state) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['code', 'state'] }
+    }
+
+    try {
+      const kv = getKV()
+      const pending = await findOAuthState(kv, state)
+      if (pending && pending.human !== caller.id) {
+        set.status = 403
+        return { error: 'GitHub sign-in was started by another account', code: 'forbidden' }
+      }
+      const started = pending && await consumeOAuthState(kv, state)
+      if (!started) {
+        set.status = 400
+        return { error: 'Unknown or expired state - start GitHub sign-in again', code: 'invalid_state' }
+      }
+
+      const github = getGitHubClient()
+      const token = await github.exchangeOAuthCode(code, config.redirectUri)
+      if (!token.ok) {
+        set.status = 401
+        return { error: 'GitHub did not accept the authorization code', code: 'github_oauth_failed', details: token.error }
+      }
+      const user = await github.getAuthenticatedUser(token.accessToken)
+      if (!user.ok) {
+        set.status = 401
+        return { error: 'Could not read the GitHub user', code: 'github_oauth_failed', details: { status: user.status } }
+      }
+
+      // Same rule as verify-identity: the birth issue must be the login's own
+      let oracleName: string | undefined
+      if (started.birth_issue) {
+        const birth = await github.getIssue(parseIssueUrl(started.birth_issue)!)
+        if (!birth.ok) {
+          set.status = 400
+          return { error: 'Failed to fetch birth issue', details: { status: birth.status } }
+        }
+        const birthAuthor = birth.issue.user?.login?.toLowerCase()
+        if (birthAuthor !== user.login.toLowerCase()) {
+          set.status = 401
+          return { error: 'GitHub username mismatch', debug: { github_login: user.login.toLowerCase(), birth_author: birthAuthor } }
+        }
+        oracleName = started.oracle_name || oracleNameFromTitle(birth.issue.title) || 'Oracle'
+      }
+
+      const pb = await getAdminPB()
+      const human = await linkGitHubLogin(pb, started.wallet, user.login)
+      const oracle = started.birth_issue
+        ? await claimOracle(pb, { birthIssue: started.birth_issue, oracleName: oracleName!, ownerWallet: started.wallet, via: 'github_oauth' })
+        : null
+      // The same human started and finished this flow — wallet proven, so re-claim applies
+      const reclaimed = await reclaimOracles(pb, user.login, started.wallet)
+
+      return {
+        success: true,
+        github_username: user.login,
+        human: { id: human.id, wallet: human.wallet_address, github_username: human.github_username },
+        ...(oracle && { oracle: { id: oracle.id, name: oracle.name, birth_issue: oracle.birth_issue } }),
+        reclaimed: reclaimed.length,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'GitHub sign-in failed', details: message }
+    }
+  }, { requireHuman: true })
@@ -1,14 +1,18 @@
 /**
- * Oracle Identity verification route (GitHub-based)
+ * Oracle Identity verification routes (GitHub-based)
+ *
+ * POST /verify-identity         - check the verification issue, then create/update human + oracle
+ * POST /verify-identity/dry-run - same checks, report each one, write nothing
+ *
+ * Parsing and checks live in lib/verification.ts, the writes in lib/github-identity.ts.
  */
 import { Elysia } from 'elysia'
-import { recoverMessageAddress } from 'viem'
 import { parseSiweMessage } from 'viem/siwe'
-import { createJWT, DEFAULT_SALT } from '../../lib/auth'
+import { startSession } from '../../lib/sessions'
+import { verifyWalletSignature } from '../../lib/signatures'
 import { getAdminPB } from '../../lib/pb'
-import type { HumanRecord, OracleRecord } from '../../lib/pb-types'
-import { getEnv } from '../../lib/env'
-import { getChainlinkRoundData } from '../../lib/chainlink'
+import { checkVerification, failureBody, VERIFICATION_PAYLOAD_VERSION } from '../../lib/verification'
+import { claimOracle, linkGitHubLogin, reclaimOracles } from '../../lib/github-identity'
 
 export const authIdentityRoutes = new Elysia()
   // Verify Oracle Identity (GitHub-based, stateless)
@@ -16,7 +20,7 @@ export const authIdentityRoutes = new Elysia()
   // - Issue author proves GitHub identity
   // - Wallet in issue body proves wallet ownership (they had to know it)
   // - Birth issue author must match verification issue author
-  .post('/verify-identity', async ({ body, set }) => {
+  .post('/verify-identity', async ({ body, request, set }) => {
     const { verificationIssueUrl, birthIssueUrl, oracleName, siweMessage, siweSignature } = body as {
       verificationIssueUrl: string
       birthIssueUrl?: string   // optional — extracted from verification issue body if missing
@@ -31,271 +35,59 @@ export const authIdentityRoutes = new Elysia()
     }
 
     try {
-      // 1. Parse verification issue URL
-      const verifyMatch = verificationIssueUrl.match(/github\.com\/([^\/]+)\/([^\/]+)\/issues\/(\d+)/)
-      if (!verifyMatch) {
-        set.status = 400
-        return { error: 'Invalid GitHub issue URL' }
-      }
-
-      const [, verifyOwner, verifyRepo, verifyNum] = verifyMatch
-
-      // 2. Fetch verification issue
-      const ghHeaders: Record<string, string> = { 'User-Agent': 'OracleNet-API' }
-      const ghToken = getEnv('GITHUB_TOKEN')
-      if (ghToken) {
-        ghHeaders['Authorization'] = `Bearer ${ghToken}`
-      }
-
-      const verifyRes = await fetch(`https://api.github.com/repos/${verifyOwner}/${verifyRepo}/issues/${verifyNum}`, { headers: ghHeaders })
-      if (!verifyRes.ok) {
-        set.status = 400
-        return { error: 'Failed to fetch verification issue', details: { status: verifyRes.status } }
-      }
-
-      const verifyIssue = (await verifyRes.json()) as { user?: { login?: string }; body?: string; title?: string }
-      const issueBody = verifyIssue.body || ''
-      const githubUsername = verifyIssue.user?.login
-
-      // 3. Extract structured data from verification issue body (JSON block or labels)
-      // Try JSON in code block first
-      let bodyData: Record<string, string> = {}
-      const jsonMatch = issueBody.match(/```json\s*([\s\S]*?)```/)
-      if (jsonMatch) {
-        try { bodyData = JSON.parse(jsonMatch[1]) } catch {}
-      }
-      // Fallback: try parsing entire body as JSON
-      if (!Object.keys(bodyData).length) {
-        try { bodyData = JSON.parse(issueBody) } catch {}
-      }
-
-      // Extract wallet — from JSON data or first 0x match in body
-      const walletFromBody = bodyData.wallet || issueBody.match(/\*\*Wallet:\*\*\s*`?(0x[a-fA-F0-9]{40})`?/i)?.[1] || issueBody.match(/0x[a-fA-F0-9]{40}/)?.[0]
-      if (!walletFromBody) {
-        set.status = 400
-        return { error: 'No wallet address found in verification issue body' }
-      }
-      const walletAddress = walletFromBody.toLowerCase()
-
-      // Extract birth issue URL — from JSON data, markdown label, or request body fallback
-      const birthIssueFromBody = bodyData.birth_issue || issueBody.match(/\*\*Birth Issue:\*\*\s*(https:\/\/github\.com\/[^\s]+)/i)?.[1]
-      const resolvedBirthIssue = birthIssueUrl || birthIssueFromBody
-      if (!resolvedBirthIssue) {
-        set.status = 400
-        return { error: 'No birth issue URL found in verification issue body' }
-      }
-
-      // Extract oracle name — from JSON data or request body fallback
-      const resolvedOracleName = oracleName || bodyData.oracle_name
-
-      // Extract bot wallet — from JSON data or markdown label
-      const botWalletMatch = issueBody.match(/Bot Wallet:\s*(0x[a-fA-F0-9]{40})/i)
-        || issueBody.match(/"bot_wallet":\s*"(0x[a-fA-F0-9]{40})"/i)
-      const botWallet = (bodyData.bot_wallet || botWalletMatch?.[1])?.toLowerCase()
-
-      // 3b. Verify cryptographic signature — REQUIRED
-      // The signature proves the wallet owner authorized this claim
-      // Without it, anyone controlling the GitHub account could claim to any wallet
-      if (!bodyData.signature) {
-        set.status = 400
-        return { error: 'Missing signature in verification payload (wallet proof required)' }
-      }
-      try {
-        // Reconstruct the original signed message (everything except signature)
-        const { signature: _sig, ...messageFields } = bodyData
-        const originalMessage = JSON.stringify(messageFields, null, 2)
-
-        const recoveredAddress = await recoverMessageAddress({
-          message: originalMessage,
-          signature: bodyData.signature as `0x${string}`,
-        })
-
-        if (recoveredAddress.toLowerCase() !== walletAddress) {
-          set.status = 401
-          return {
-            error: 'Signature does not match wallet address',
-            debug: { recovered: recoveredAddress.toLowerCase(), claimed: walletAddress },
-          }
-        }
-      } catch (e: unknown) {
-        set.status = 400
-        const message = e instanceof Error ? e.message : String(e)
-        return { error: 'Invalid signature in verification issue', details: message }
-      }
-
-      // 3c. Verify chainlink_round freshness (proof-of-time) — REQUIRED
-      // Fetch the claimed round's timestamp from the contract
-      // Window: 65 min (3900s) — Chainlink BTC/USD heartbeat is 1h, need buffer above that
-      if (!bodyData.chainlink_round) {
-        set.status = 400
-        return { error: 'Missing chainlink_round in verification payload (required for proof-of-time)' }
-      }
-      {
-        const roundData = await getChainlinkRoundData(bodyData.chainlink_round)
-        const nowSec = Math.floor(Date.now() / 1000)
-        const ageSec = nowSec - roundData.timestamp
-        if (ageSec > 3900) {
-          set.status = 401
-          return { error: 'Verification signature expired (older than 65 minutes)', debug: { claimed_round: bodyData.chainlink_round, round_timestamp: roundData.timestamp, age_seconds: ageSec } }
-        }
-      }
-
-      // 4. Parse birth issue URL and fetch it
-      const birthMatch = resolvedBirthIssue.match(/github\.com\/([^\/]+)\/([^\/]+)\/issues\/(\d+)/)
-      if (!birthMatch) {
-        set.status = 400
-        return { error: 'Invalid birth issue URL', debug: { birth_issue: resolvedBirthIssue } }
-      }
-
-      const [, birthOwner, birthRepo, birthNum] = birthMatch
-
-      const birthRes = await fetch(`https://api.github.com/repos/${birthOwner}/${birthRepo}/issues/${birthNum}`, { headers: ghHeaders })
-      if (!birthRes.ok) {
-        set.status = 400
-        return { error: 'Failed to fetch birth issue', details: { status: birthRes.status } }
-      }
-
-      const birthIssue = (await birthRes.json()) as { user?: { login?: string }; title?: string }
-
-      const verifyAuthor = verifyIssue.user?.login?.toLowerCase()
-      const birthAuthor = birthIssue.user?.login?.toLowerCase()
-
-      // 5. Verify GitHub usernames match
-      if (verifyAuthor !== birthAuthor) {
-        set.status = 401
-        return { error: 'GitHub username mismatch', debug: { verification_author: verifyAuthor, birth_author: birthAuthor } }
-      }
-
       const pb = await getAdminPB()
 
-      // Reject duplicate bot_wallet — each oracle must have its own bot wallet
-      if (botWallet) {
-        const dupData = await pb.collection('oracles').getList<OracleRecord>(1, 10, {
-          filter: `bot_wallet="${botWallet}"`,
-        })
-        const existingOracle = dupData.items.find(o => o.birth_issue !== resolvedBirthIssue)
-        if (existingOracle) {
-          set.status = 400
-          return { error: 'Bot wallet already assigned to another oracle', debug: { bot_wallet: botWallet, existing_oracle: existingOracle.name } }
-        }
-      }
-
-      const finalOracleName =
-        resolvedOracleName ||
-        birthIssue.title
-          ?.replace(/^.*?Birth:?\s*/i, '')
-          .split(/\s*[—-]\s*/)[0]
-          .trim() ||
-        'Oracle'
-
-      // 6. Find or create human by wallet
-      const humanSearchData = await pb.collection('humans').getList<HumanRecord>(1, 1, {
-        filter: `wallet_address="${walletAddress}"`,
+      // 1-5. Issues, payload, signature, proof-of-time, GitHub authors (lib/verification.ts)
+      const verification = await checkVerification(pb, { verificationIssueUrl, birthIssueUrl, oracleName }, { stopOnFailure: true })
+      if (!verification.claim) {
+        const failure = verification.failure!
+        set.status = failure.status ?? 400
+        return failureBody(failure)
+      }
+      const {
+        githubUsername,
+        walletAddress,
+        birthIssue: resolvedBirthIssue,
+        oracleName: finalOracleName,
+        botWallet,
+      } = verification.claim
+
+      // 6-7. Human gets the GitHub login, oracle gets the human as owner (lib/github-identity.ts)
+      const human = await linkGitHubLogin(pb, walletAddress, githubUsername)
+      const oracle = await claimOracle(pb, {
+        birthIssue: resolvedBirthIssue,
+        oracleName: finalOracleName,
+        ownerWallet: walletAddress,
+        via: 'verify_identity',
+        verificationIssue: verificationIssueUrl,
+        botWallet,
       })
 
-      let human: Record<string, unknown>
-      if (humanSearchData.items?.length) {
-        // Update existing human with GitHub username
-        human = await pb.collection('humans').update(humanSearchData.items[0].id, {
-          github_username: githubUsername,
-          display_name: githubUsername,
-        })
-      } else {
-        // Create new human
-        human = await pb.collection('humans').create({
-          wallet_address: walletAddress,
-          github_username: githubUsername,
-          display_name: githubUsername,
-        })
-      }
-
-      // 7. Find or create oracle, link to human via owner_wallet
-      const oracleCheckData = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-        filter: `birth_issue="${resolvedBirthIssue}"`,
-      })
-
-      let oracle: Record<string, unknown>
-      if (oracleCheckData.items?.length) {
-        // Update existing oracle
-        oracle = await pb.collection('oracles').update(oracleCheckData.items[0].id, {
-          owner_wallet: walletAddress,
-          name: finalOracleName,
-          approved: true,
-          verification_issue: verificationIssueUrl,
-          ...(botWallet && { bot_wallet: botWallet, wallet_verified: !!bodyData.signature }),
-        })
-      } else {
-        // Create new oracle
-        oracle = await pb.collection('oracles').create({
-          name: finalOracleName,
-          birth_issue: resolvedBirthIssue,
-          owner_wallet: walletAddress,
-          approved: true,
-          verification_issue: verificationIssueUrl,
-          ...(botWallet && { bot_wallet: botWallet, wallet_verified: !!bodyData.signature }),
-        })
-      }
-
       // 8. Re-claim: transfer oracles from old wallets — ONLY if SIWE proves wallet ownership
       let walletVerified = false
       if (siweMessage && siweSignature) {
         const parsed = parseSiweMessage(siweMessage)
-        if (parsed.address && parsed.nonce) {
-          const recoveredAddress = await recoverMessageAddress({
-            message: siweMessage,
-            signature: siweSignature as `0x${string}`,
-          })
-          if (recoveredAddress.toLowerCase() === walletAddress) {
-            walletVerified = true
-          }
+        if (parsed.address && parsed.nonce && parsed.address.toLowerCase() === walletAddress) {
+          walletVerified = await verifyWalletSignature(walletAddress, siweMessage, siweSignature)
         }
       }
-
       if (walletVerified && githubUsername) {
-        // Bot wallet guard: skip re-claim if this wallet is a bot_wallet
-        const botWalletCheck = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-          filter: `bot_wallet="${walletAddress}"`,
-        })
-        if (botWalletCheck.items.length > 0) {
-          // Don't re-claim — this wallet belongs to an oracle bot
-        } else {
-          const allHumansData = await pb.collection('humans').getList<HumanRecord>(1, 200, {
-            filter: `github_username="${githubUsername}"`,
-          })
-          const oldWallets = (allHumansData.items || [])
-            .map((h) => h.wallet_address)
-            .filter((w) => w && w !== walletAddress)
-
-          if (oldWallets.length > 0) {
-            const ownerFilter = oldWallets.map((w) => `owner_wallet="${w}"`).join(' || ')
-            const oldOraclesData = await pb.collection('oracles').getList<OracleRecord>(1, 200, {
-              filter: ownerFilter,
-            })
-
-            for (const o of oldOraclesData.items || []) {
-              await pb.collection('oracles').update(o.id, { owner_wallet: walletAddress })
-            }
-          }
-        }
+        await reclaimOracles(pb, githubUsername, walletAddress)
       }
 
-      // 9. Issue token
+      // 9. Start session (access token + refresh token)
       // sub = wallet address (wallet IS the identity)
-      const token = await createJWT(
-        {
-          sub: walletAddress,
-          type: 'human',
-        },
-        DEFAULT_SALT
-      )
+      const { token, refresh_token, expires_in } = await startSession(pb, walletAddress, 'human', request)
 
       return {
         success: true,
         token, // Custom JWT (sub = wallet address)
+        refresh_token,
+        expires_in,
         github_username: githubUsername,
         oracle_name: finalOracleName,
-        human: { wallet: human.wallet_address as string, github_username: human.github_username },
-        oracle: { wallet: (oracle.bot_wallet || '') as string, name: oracle.name, birth_issue: oracle.birth_issue },
+        human: { wallet: human.wallet_address, github_username: human.github_username },
+        oracle: { wallet: oracle.bot_wallet || '', name: oracle.name, birth_issue: oracle.birth_issue },
       }
     } catch (e: unknown) {
       set.status = 500
@@ -303,3 +95,33 @@ export const authIdentityRoutes = new Elysia()
       return { error: 'Verification failed', details: message }
     }
   })
+
+  // Dry run — every verify-identity check with pass/fail, nothing written.
+  // For drafting a verification issue: paste its URL, see what would fail.
+  .post('/verify-identity/dry-run', async ({ body, set }) => {
+    const { verificationIssueUrl, birthIssueUrl, oracleName } = (body || {}) as {
+      verificationIssueUrl?: string
+      birthIssueUrl?: string
+      oracleName?: string
+    }
+
+    if (!verificationIssueUrl) {
+      set.status = 400
+      return { error: 'Missing required field', required: ['verificationIssueUrl'] }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const report = await checkVerification(pb, { verificationIssueUrl, birthIssueUrl, oracleName }, { stopOnFailure: false })
+      return {
+        ok: report.ok,
+        payload_version: VERIFICATION_PAYLOAD_VERSION,
+        checks: report.checks,
+        ...(report.claim && { would_link: report.claim }),
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Dry run failed', details: message }
+    }
+  })
@@ -5,9 +5,12 @@
  *   index.ts     - This file: shared exports + combines all auth sub-routes
  *   chainlink.ts - GET /chainlink - BTC price feed
  *   siwe.ts      - POST /humans/verify - SIWE verification
- *   identity.ts  - POST /verify-identity - GitHub identity verification
+ *   identity.ts  - POST /verify-identity (+ /dry-run) - GitHub identity verification
+ *   github-oauth.ts - POST /github/start, /github/callback - GitHub identity via OAuth
  *   check.ts     - GET /humans/check - wallet registration check
- *   authorize.ts - POST /authorize - bot authorization
+ *   authorize.ts - POST /auth-request, /authorize, /token + GET /auth-request/:reqId - bot authorization handshake
+ *   sessions.ts  - POST /refresh, /logout, /logout-all + GET/DELETE /sessions
+ *   capabilities.ts - POST /capabilities - owner mints scoped bot tokens
  */
 import { Elysia } from 'elysia'
 import pkg from '../../package.json'
@@ -26,18 +29,24 @@ import { authChainlinkRoutes } from './chainlink'
 import { authSiweRoutes } from './siwe'
 import { authAgentSiweRoutes } from './siwe-agents'
 import { authIdentityRoutes } from './identity'
+import { authGitHubOAuthRoutes } from './github-oauth'
 import { authCheckRoutes } from './check'
 import { authAuthorizeRoutes } from './authorize'
 import { authWalletSignRoutes } from './wallet-sign'
+import { authSessionsRoutes } from './sessions'
+import { authCapabilitiesRoutes } from './capabilities'
 
 // Re-export for individual use
 export { authChainlinkRoutes } from './chainlink'
 export { authSiweRoutes } from './siwe'
 export { authAgentSiweRoutes } from './siwe-agents'
 export { authIdentityRoutes } from './identity'
+export { authGitHubOAuthRoutes } from './github-oauth'
 export { authCheckRoutes } from './check'
 export { authAuthorizeRoutes } from './authorize'
 export { authWalletSignRoutes } from './wallet-sign'
+export { authSessionsRoutes } from './sessions'
+export { authCapabilitiesRoutes } from './capabilities'
 
 // ═══════════════════════════════════════════════════════════════
 // COMBINED ROUTES
@@ -48,6 +57,9 @@ export const authRoutes = new Elysia({ prefix: '/api/auth' })
   .use(authSiweRoutes)
   .use(authAgentSiweRoutes)
   .use(authIdentityRoutes)
+  .use(authGitHubOAuthRoutes)
   .use(authCheckRoutes)
   .use(authAuthorizeRoutes)
   .use(authWalletSignRoutes)
+  .use(authSessionsRoutes)
+  .use(authCapabilitiesRoutes)
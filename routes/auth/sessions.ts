@@ -0,0 +1,124 @@
+/**
+ * Session routes - refresh, logout and device management (lib/sessions.ts)
+ *
+ * Bearer = a session access token, checked by lib/auth-context.ts.
+ *
+ * POST   /refresh       - { refresh_token } → new access token + rotated refresh token
+ * POST   /logout        - revoke the current session (Bearer sid, or { refresh_token })
+ * POST   /logout-all    - revoke every session of the wallet (Bearer)
+ * GET    /sessions      - list active sessions of the wallet (Bearer)
+ * DELETE /sessions/:id  - revoke one of the wallet's sessions, e.g. another device (Bearer)
+ */
+import { Elysia } from 'elysia'
+import { authContext } from '../../lib/auth-context'
+import { getAdminPB } from '../../lib/pb'
+import { refreshSession, revokeSession, sessionIdForRefreshToken, revokeAllSessions, listActiveSessions, SESSIONS_COLLECTION } from '../../lib/sessions'
+import type { SessionRecord } from '../../lib/pb-types'
+
+export const authSessionsRoutes = new Elysia()
+  .use(authContext)
+  // POST /api/auth/refresh - Rotate refresh token, issue new access token
+  .post('/refresh', async ({ body, set }) => {
+    const { refresh_token } = (body || {}) as { refresh_token?: string }
+    if (!refresh_token) {
+      set.status = 400
+      return { error: 'refresh_token required' }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const result = await refreshSession(pb, refresh_token)
+      if (!result.ok) {
+        set.status = 401
+        return { error: 'Refresh token rejected — sign in again', code: result.code }
+      }
+      return { success: true, ...result.tokens }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Refresh failed', details: message }
+    }
+  })
+
+  // POST /api/auth/logout - End this session
+  .post('/logout', async ({ auth, body, set }) => {
+    const { refresh_token } = (body || {}) as { refresh_token?: string }
+    const sid = auth.principal?.sessionId
+
+    try {
+      const pb = await getAdminPB()
+      // Access token may have expired — the refresh token alone also identifies the session
+      const sessionId = sid || (refresh_token ? await sessionIdForRefreshToken(pb, refresh_token) : null)
+      if (!sessionId) {
+        set.status = 401
+        return { error: 'Session access token or valid refresh_token required', code: auth.code }
+      }
+
+      await revokeSession(pb, sessionId)
+      return { success: true, revoked: 1 }
+    } catch (e: any) {
+      if (e?.status === 404) {
+        set.status = 404
+        return { error: 'Session not found' }
+      }
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Logout failed', details: message }
+    }
+  })
+
+  // POST /api/auth/logout-all - End every session of this wallet
+  .post('/logout-all', async ({ principal, set }) => {
+    try {
+      const pb = await getAdminPB()
+      const revoked = await revokeAllSessions(pb, principal.wallet)
+      return { success: true, revoked }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Logout failed', details: message }
+    }
+  }, { requireAuth: true })
+
+  // GET /api/auth/sessions - Active sessions (devices) of this wallet
+  .get('/sessions', async ({ principal, set }) => {
+    try {
+      const pb = await getAdminPB()
+      const sessions = await listActiveSessions(pb, principal.wallet)
+      return {
+        resource: 'sessions',
+        count: sessions.length,
+        items: sessions.map(s => ({
+          id: s.id,
+          type: s.type,
+          user_agent: s.user_agent || null,
+          created: s.created,
+          last_used_at: s.last_used_at,
+          expires_at: s.expires_at,
+          current: s.id === principal.sessionId,
+        })),
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  }, { requireAuth: true })
+
+  // DELETE /api/auth/sessions/:id - Kill one session (only the wallet's own)
+  .delete('/sessions/:id', async ({ params, principal, set }) => {
+    try {
+      const pb = await getAdminPB()
+      const session = await pb.collection(SESSIONS_COLLECTION).getOne<SessionRecord>(params.id).catch(() => null)
+      if (!session || session.wallet !== principal.wallet) {
+        set.status = 404
+        return { error: 'Session not found' }
+      }
+      await revokeSession(pb, session.id)
+      return { success: true, revoked: session.id }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  }, { requireAuth: true })
@@ -3,20 +3,21 @@
  *
  * Agents authenticate by signing a message containing:
  * - Agent name ("I am {agentName}")
- * - Chainlink roundId (BTC proof-of-time)
+ * - Chainlink round nonce (proof-of-time, see lib/proof-of-time.ts)
  * - Domain verification
  *
  * From the signature we recover:
  * - Proven wallet address (public key recovery)
  * - Agent name (from signed message)
- * - Timestamp validity (BTC proof-of-time)
+ * - Timestamp validity (per-feed freshness window)
  */
 import { Elysia } from 'elysia'
-import { recoverMessageAddress } from 'viem'
-import { parseSiweMessage } from 'viem/siwe'
-import { getChainlinkRoundData } from '../../lib/chainlink'
-import { createJWT, DEFAULT_SALT } from '../../lib/auth'
+import { checkProofOfTime } from '../../lib/proof-of-time'
+import { verifySIWE, AGENT_SIWE_STATEMENT } from '../../lib/siwe'
+import { startSession } from '../../lib/sessions'
+import { claimSignature, REPLAY_ERROR_CODE } from '../../lib/replay'
 import { getAdminPB } from '../../lib/pb'
+import { eq } from '../../lib/pb-filter'
 import type { AgentRecord, OracleRecord } from '../../lib/pb-types'
 import { API_VERSION } from './index'
 
@@ -26,7 +27,7 @@ import { API_VERSION } from './index'
 export const authAgentSiweRoutes = new Elysia()
   // Verify SIWE signature and authenticate agent
   // Issues custom JWT with type: 'agent'
-  .post('/agents/verify', async ({ body, set }) => {
+  .post('/agents/verify', async ({ body, request, set }) => {
     const { message, signature } = body as { message: string; signature: string }
 
     if (!message || !signature) {
@@ -35,38 +36,30 @@ export const authAgentSiweRoutes = new Elysia()
     }
 
     try {
-      // Parse SIWE message
-      const siweMessage = parseSiweMessage(message)
-      if (!siweMessage.address || !siweMessage.nonce) {
-        set.status = 400
-        return { error: 'Invalid SIWE message' }
+      // Validate EIP-4361 fields (domain, uri, chain, version, issuedAt, statement) and recover the signer
+      const verified = await verifySIWE(message, signature, { statement: AGENT_SIWE_STATEMENT })
+      if (!verified.ok) {
+        set.status = verified.code === 'siwe_malformed' ? 400 : 401
+        return { error: verified.error, code: verified.code }
       }
-
-      // Recover address from signature
-      const recoveredAddress = await recoverMessageAddress({
-        message,
-        signature: signature as `0x${string}`,
-      })
-
-      // Verify signature matches claimed address
-      if (recoveredAddress.toLowerCase() !== siweMessage.address.toLowerCase()) {
-        set.status = 401
-        return { error: 'Signature does not match address' }
+      const siweMessage = verified.fields
+
+      // Verify proof-of-time: nonce encodes a recent Chainlink round (lib/proof-of-time.ts)
+      // Each feed has its own window (BTC/USD: 65 min — heartbeat is 1h plus buffer)
+      const proof = await checkProofOfTime(siweMessage.nonce)
+      if (!proof.ok) {
+        set.status = proof.code === 'proof_of_time_unavailable' ? 503 : 401
+        return { error: proof.error, code: proof.code, age_seconds: proof.age_seconds }
       }
 
-      // Verify proof-of-time: nonce should be a recent Chainlink roundId
-      // Fetch the round's actual timestamp and compare with now
-      // Window: 65 min (3900s) — Chainlink BTC/USD heartbeat is 1h, need buffer above that
-      const roundData = await getChainlinkRoundData(siweMessage.nonce)
-      const nowSec = Math.floor(Date.now() / 1000)
-      const ageSec = nowSec - roundData.timestamp
-      if (ageSec > 3900) {
+      const walletAddress = verified.wallet
+
+      // Replay protection: each signed message signs in once while its round is fresh
+      if (!await claimSignature(walletAddress, message, proof.remainingSec)) {
         set.status = 401
-        return { error: 'Nonce (roundId) is too old - signature expired (older than 65 minutes)', age_seconds: ageSec }
+        return { error: 'Signature already used - sign a new message', code: REPLAY_ERROR_CODE }
       }
 
-      const walletAddress = recoveredAddress.toLowerCase()
-
       // Agent name is always derived from wallet address (e.g., "Agent-f39fd6")
       const agentName = `Agent-${walletAddress.slice(2, 8)}`
 
@@ -78,7 +71,7 @@ export const authAgentSiweRoutes = new Elysia()
 
       // Look up existing agent by wallet
       const searchData = await pb.collection('agents').getList<AgentRecord>(1, 1, {
-        filter: `wallet_address="${walletAddress}"`,
+        filter: eq('wallet_address', walletAddress),
       })
 
       if (searchData.items?.length) {
@@ -97,7 +90,7 @@ export const authAgentSiweRoutes = new Elysia()
           if (createErr?.data?.data?.wallet_address?.code === 'validation_not_unique' ||
               String(createErr).includes('validation_not_unique')) {
             const retryData = await pb.collection('agents').getList<AgentRecord>(1, 1, {
-              filter: `wallet_address="${walletAddress}"`,
+              filter: eq('wallet_address', walletAddress),
             })
             if (retryData.items?.length) {
               agent = retryData.items[0]
@@ -115,7 +108,7 @@ export const authAgentSiweRoutes = new Elysia()
       // Check if this wallet is assigned as bot_wallet to an oracle
       let oracle: OracleRecord | null = null
       const oracleData = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-        filter: `bot_wallet="${walletAddress}"`,
+        filter: eq('bot_wallet', walletAddress),
       })
       if (oracleData.items?.length) {
         oracle = oracleData.items[0]
@@ -127,23 +120,20 @@ export const authAgentSiweRoutes = new Elysia()
         }
       }
 
-      // Issue custom JWT (signature-verified, 7 days expiry)
+      // Start a session: short-lived access JWT + rotating refresh token (lib/sessions.ts)
       // sub = wallet address (wallet IS the identity)
-      const token = await createJWT(
-        {
-          sub: walletAddress,
-          type: 'agent',
-        },
-        DEFAULT_SALT
-      )
+      const { token, refresh_token, expires_in } = await startSession(pb, walletAddress, 'agent', request)
 
       return {
         success: true,
         created,
         token, // Custom JWT with type: 'agent'
+        refresh_token,
+        expires_in,
         proofOfTime: {
-          round_id: siweMessage.nonce,
-          timestamp: roundData.timestamp,
+          round_id: proof.roundId,
+          feed: proof.feed.id,
+          timestamp: proof.timestamp,
         },
         agent: {
           id: agent.id,
@@ -2,11 +2,14 @@
  * SIWE (Sign-In With Ethereum) verification route
  */
 import { Elysia } from 'elysia'
-import { recoverMessageAddress } from 'viem'
-import { parseSiweMessage } from 'viem/siwe'
-import { getChainlinkRoundData } from '../../lib/chainlink'
-import { createJWT, DEFAULT_SALT } from '../../lib/auth'
+import { checkProofOfTime } from '../../lib/proof-of-time'
+import { verifySIWE, HUMAN_SIWE_STATEMENT } from '../../lib/siwe'
+import { roleForWallet } from '../../lib/auth'
+import { startSession } from '../../lib/sessions'
+import { findHumanByWallet } from '../../lib/wallet-links'
+import { claimSignature, REPLAY_ERROR_CODE } from '../../lib/replay'
 import { getAdminPB } from '../../lib/pb'
+import { eq } from '../../lib/pb-filter'
 import type { HumanRecord, OracleRecord } from '../../lib/pb-types'
 import { API_VERSION } from './index'
 
@@ -14,7 +17,7 @@ export const authSiweRoutes = new Elysia()
   // Verify SIWE signature and authenticate human
   // Uses signature-based auth: verified wallet = authenticated
   // Issues custom JWT, no PocketBase passwords needed
-  .post('/humans/verify', async ({ body, set }) => {
+  .post('/humans/verify', async ({ body, request, set }) => {
     const { message, signature } = body as { message: string; signature: string }
 
     if (!message || !signature) {
@@ -23,38 +26,30 @@ export const authSiweRoutes = new Elysia()
     }
 
     try {
-      // Parse SIWE message
-      const siweMessage = parseSiweMessage(message)
-      if (!siweMessage.address || !siweMessage.nonce) {
-        set.status = 400
-        return { error: 'Invalid SIWE message' }
+      // Validate EIP-4361 fields (domain, uri, chain, version, issuedAt, statement) and recover the signer
+      const verified = await verifySIWE(message, signature, { statement: HUMAN_SIWE_STATEMENT })
+      if (!verified.ok) {
+        set.status = verified.code === 'siwe_malformed' ? 400 : 401
+        return { error: verified.error, code: verified.code }
       }
+      const siweMessage = verified.fields
 
-      // Recover address from signature
-      const recoveredAddress = await recoverMessageAddress({
-        message,
-        signature: signature as `0x${string}`,
-      })
-
-      // Verify signature matches claimed address
-      if (recoveredAddress.toLowerCase() !== siweMessage.address.toLowerCase()) {
-        set.status = 401
-        return { error: 'Signature does not match address' }
+      // Verify proof-of-time: nonce encodes a recent Chainlink round (lib/proof-of-time.ts)
+      // Each feed has its own window (BTC/USD: 65 min — heartbeat is 1h plus buffer)
+      const proof = await checkProofOfTime(siweMessage.nonce)
+      if (!proof.ok) {
+        set.status = proof.code === 'proof_of_time_unavailable' ? 503 : 401
+        return { error: proof.error, code: proof.code, age_seconds: proof.age_seconds }
       }
 
-      // Verify proof-of-time: nonce should be a recent Chainlink roundId
-      // Fetch the round's actual timestamp and compare with now
-      // Window: 65 min (3900s) — Chainlink BTC/USD heartbeat is 1h, need buffer above that
-      const roundData = await getChainlinkRoundData(siweMessage.nonce)
-      const nowSec = Math.floor(Date.now() / 1000)
-      const ageSec = nowSec - roundData.timestamp
-      if (ageSec > 3900) {
+      const walletAddress = verified.wallet
+
+      // Replay protection: each signed message signs in once while its round is fresh
+      if (!await claimSignature(walletAddress, message, proof.remainingSec)) {
         set.status = 401
-        return { error: 'Nonce (roundId) is too old - signature expired (older than 65 minutes)', age_seconds: ageSec }
+        return { error: 'Signature already used - sign a new message', code: REPLAY_ERROR_CODE }
       }
 
-      const walletAddress = recoveredAddress.toLowerCase()
-
       // Signature verified! Now find or create human record
       let human: HumanRecord
       let created = false
@@ -63,7 +58,7 @@ export const authSiweRoutes = new Elysia()
 
       // Bot wallet guard: reject if this wallet is registered as any oracle's bot_wallet
       const botWalletCheck = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-        filter: `bot_wallet="${walletAddress}"`,
+        filter: eq('bot_wallet', walletAddress),
       })
       if (botWalletCheck.items.length > 0) {
         set.status = 403
@@ -73,14 +68,12 @@ export const authSiweRoutes = new Elysia()
         }
       }
 
-      // Look up existing user by wallet
-      const searchData = await pb.collection('humans').getList<HumanRecord>(1, 1, {
-        filter: `wallet_address="${walletAddress}"`,
-      })
+      // Look up existing user by wallet — primary or linked (lib/wallet-links.ts)
+      const existing = await findHumanByWallet(pb, walletAddress)
 
-      if (searchData.items?.length) {
+      if (existing) {
         // Existing user - use their record
-        human = searchData.items[0]
+        human = existing
       } else {
         // Create new user
         try {
@@ -94,7 +87,7 @@ export const authSiweRoutes = new Elysia()
           if (createErr?.data?.data?.wallet_address?.code === 'validation_not_unique' ||
               String(createErr).includes('validation_not_unique')) {
             const retryData = await pb.collection('humans').getList<HumanRecord>(1, 1, {
-              filter: `wallet_address="${walletAddress}"`,
+              filter: eq('wallet_address', walletAddress),
             })
             if (retryData.items?.length) {
               human = retryData.items[0]
@@ -109,23 +102,23 @@ export const authSiweRoutes = new Elysia()
         }
       }
 
-      // Issue custom JWT (signature-verified, 7 days expiry)
+      // Start a session: short-lived access JWT + rotating refresh token (lib/sessions.ts)
       // sub = wallet address (wallet IS the identity)
-      const token = await createJWT(
-        {
-          sub: walletAddress,
-          type: 'human',
-        },
-        DEFAULT_SALT
-      )
+      // role = 'admin' only for wallets on the ADMIN_WALLETS allow-list
+      const role = roleForWallet(walletAddress)
+      const { token, refresh_token, expires_in } = await startSession(pb, walletAddress, 'human', request)
 
       return {
         success: true,
         created,
         token, // Custom JWT (not PocketBase token)
+        refresh_token,
+        expires_in,
+        role,
         proofOfTime: {
-          round_id: siweMessage.nonce,
-          timestamp: roundData.timestamp,
+          round_id: proof.roundId,
+          feed: proof.feed.id,
+          timestamp: proof.timestamp,
         },
         human: {
           id: human.id,
@@ -1,20 +1,22 @@
 /**
- * Simple wallet-sign auth — sign a timestamp, get a JWT.
+ * Simple wallet-sign auth — sign a timestamp, get a session (access JWT + refresh token).
  *
  * POST /api/auth/wallet-sign
  *   body: { message: "oraclenet:<unix_ts>", signature: "0x..." }
  *
  * No SIWE, no Chainlink nonce, no domain — just prove you hold the key.
- * Timestamp must be within 5 minutes to prevent replay.
+ * Timestamp must be within 5 minutes, and each signature works once (lib/replay.ts).
  */
 import { Elysia } from 'elysia'
 import { recoverMessageAddress } from 'viem'
-import { createJWT } from '../../lib/auth'
+import { getAdminPB } from '../../lib/pb'
+import { startSession } from '../../lib/sessions'
+import { claimSignature, REPLAY_ERROR_CODE } from '../../lib/replay'
 
 const MAX_AGE_SEC = 300 // 5 minutes
 
 export const authWalletSignRoutes = new Elysia()
-  .post('/wallet-sign', async ({ body, set }) => {
+  .post('/wallet-sign', async ({ body, request, set }) => {
     const { message, signature } = body as { message?: string; signature?: string }
 
     if (!message || !signature) {
@@ -36,20 +38,29 @@ export const authWalletSignRoutes = new Elysia()
       return { error: `Timestamp expired (must be within ${MAX_AGE_SEC}s)` }
     }
 
+    let wallet: string
     try {
-      const wallet = await recoverMessageAddress({
+      wallet = (await recoverMessageAddress({
         message,
         signature: signature as `0x${string}`,
-      })
-
-      const token = await createJWT({
-        sub: wallet.toLowerCase(),
-        type: 'wallet-sign',
-      })
-
-      return { token, wallet: wallet.toLowerCase() }
+      })).toLowerCase()
     } catch {
       set.status = 401
       return { error: 'Invalid signature' }
     }
+
+    if (!await claimSignature(wallet, message, ts + MAX_AGE_SEC - now)) {
+      set.status = 401
+      return { error: 'Signature already used - sign a new timestamp', code: REPLAY_ERROR_CODE }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const { token, refresh_token, expires_in } = await startSession(pb, wallet, 'wallet-sign', request)
+      return { token, refresh_token, expires_in, wallet }
+    } catch (e: unknown) {
+      set.status = 500
+      const msg = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to start session', details: msg }
+    }
   })
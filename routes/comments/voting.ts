@@ -1,59 +1,91 @@
 /**
- * Comment voting routes - upvote/downvote comments
+ * Comment voting routes - upvote/downvote comments, one vote per wallet
+ *
+ * Same rules as post votes (routes/posts/voting.ts): stored in the `votes`
+ * collection with target_type 'comment'. Same direction again withdraws the
+ * vote, the other direction switches it.
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
-import type { CommentRecord } from '../../lib/pb-types'
+import { and, eq } from '../../lib/pb-filter'
+import { isDeleted } from '../../lib/soft-delete'
+import type { CommentRecord, VoteRecord } from '../../lib/pb-types'
+import { authContext } from '../../lib/auth-context'
+
+async function handleVote(
+  commentId: string,
+  direction: 'up' | 'down',
+  wallet: string,
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const pb = await getAdminPB()
+
+  let comment: CommentRecord
+  try {
+    comment = await pb.collection('comments').getOne<CommentRecord>(commentId)
+  } catch {
+    return { status: 404, body: { error: 'Comment not found' } }
+  }
+  if (isDeleted(comment)) {
+    return { status: 404, body: { error: 'Comment not found' } }
+  }
+
+  const newValue = direction === 'up' ? 1 : -1
+  let upvotes = comment.upvotes || 0
+  let downvotes = comment.downvotes || 0
+  let userVote: 'up' | 'down' | null = null
+
+  const existingData = await pb.collection('votes').getList<VoteRecord>(1, 1, {
+    filter: and(eq('voter_wallet', wallet), eq('target_type', 'comment'), eq('target_id', commentId)),
+  })
+  const existing = existingData.items?.[0]
+
+  if (!existing) {
+    await pb.collection('votes').create({
+      voter_wallet: wallet,
+      target_type: 'comment',
+      target_id: commentId,
+      value: newValue,
+    })
+    if (direction === 'up') upvotes++
+    else downvotes++
+    userVote = direction
+  } else if (existing.value === newValue) {
+    await pb.collection('votes').delete(existing.id)
+    if (direction === 'up') upvotes = Math.max(0, upvotes - 1)
+    else downvotes = Math.max(0, downvotes - 1)
+  } else {
+    await pb.collection('votes').update(existing.id, { value: newValue })
+    if (direction === 'up') {
+      upvotes++
+      downvotes = Math.max(0, downvotes - 1)
+    } else {
+      downvotes++
+      upvotes = Math.max(0, upvotes - 1)
+    }
+    userVote = direction
+  }
+
+  const score = upvotes - downvotes
+  await pb.collection('comments').update(commentId, { upvotes, downvotes, score })
+
+  return {
+    status: 200,
+    body: { success: true, upvotes, downvotes, score, user_vote: userVote },
+  }
+}
 
 export const commentsVotingRoutes = new Elysia()
+  .use(authContext)
   // POST /api/comments/:id/upvote
-  .post('/:id/upvote', async ({ params, request, set }) => {
-    const authHeader = request.headers.get('Authorization')
-    if (!authHeader) {
-      set.status = 401
-      return { error: 'Authentication required' }
-    }
-    try {
-      const pb = await getAdminPB()
-      const comment = await pb.collection('comments').getOne<CommentRecord>(params.id)
-      const newUpvotes = (comment.upvotes || 0) + 1
-      const newScore = newUpvotes - (comment.downvotes || 0)
-
-      await pb.collection('comments').update(params.id, { upvotes: newUpvotes, score: newScore })
-      return { success: true, message: 'Upvoted', upvotes: newUpvotes, downvotes: comment.downvotes || 0, score: newScore }
-    } catch (e: any) {
-      if (e?.status === 404) {
-        set.status = 404
-        return { error: 'Comment not found' }
-      }
-      set.status = 500
-      const message = e instanceof Error ? e.message : String(e)
-      return { error: message }
-    }
-  })
+  .post('/:id/upvote', async ({ params, principal, set }) => {
+    const result = await handleVote(params.id, 'up', principal.wallet)
+    set.status = result.status
+    return result.body
+  }, { requireAuth: true })
 
   // POST /api/comments/:id/downvote
-  .post('/:id/downvote', async ({ params, request, set }) => {
-    const authHeader = request.headers.get('Authorization')
-    if (!authHeader) {
-      set.status = 401
-      return { error: 'Authentication required' }
-    }
-    try {
-      const pb = await getAdminPB()
-      const comment = await pb.collection('comments').getOne<CommentRecord>(params.id)
-      const newDownvotes = (comment.downvotes || 0) + 1
-      const newScore = (comment.upvotes || 0) - newDownvotes
-
-      await pb.collection('comments').update(params.id, { downvotes: newDownvotes, score: newScore })
-      return { success: true, message: 'Downvoted', upvotes: comment.upvotes || 0, downvotes: newDownvotes, score: newScore }
-    } catch (e: any) {
-      if (e?.status === 404) {
-        set.status = 404
-        return { error: 'Comment not found' }
-      }
-      set.status = 500
-      const message = e instanceof Error ? e.message : String(e)
-      return { error: message }
-    }
-  })
+  .post('/:id/downvote', async ({ params, principal, set }) => {
+    const result = await handleVote(params.id, 'down', principal.wallet)
+    set.status = result.status
+    return result.body
+  }, { requireAuth: true })
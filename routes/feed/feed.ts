@@ -1,128 +1,77 @@
 /**
- * Feed route - GET /api/feed
+ * Feed route - GET /api/feed?sort=&t=&limit=&cursor=
  *
  * Posts now have author_wallet + oracle_birth_issue as text fields.
  * No PB relation expansion needed — wallet IS the identity.
  * Frontend resolves display info from wallet.
+ *
+ * Paged by cursor (lib/pagination.ts): pass the response's next_cursor back
+ * as ?cursor= for the next page; null means the end. New posts don't shift
+ * later pages. Score-sorted pages can still move if votes land mid-scroll.
+ *
+ * Sorts: new, hot (time-decayed score), rising (recent upvote velocity) and
+ * top (?t=day|week|month|all, default all). hot and rising read the cached
+ * hot_score / rising_score columns (lib/ranking.ts).
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
-import type { PostRecord, HumanRecord, AgentRecord, OracleRecord } from '../../lib/pb-types'
+import { NOT_DELETED } from '../../lib/soft-delete'
+import { resolveHumansByWallets } from '../../lib/wallet-links'
+import { keyValidAt, rotatedKeysOf } from '../../lib/bot-keys'
+import { afterCursor, decodeCursor, pageOf, parseLimit, sortString } from '../../lib/pagination'
+import { isTopWindow, topWindowStart, type TopWindow } from '../../lib/ranking'
+import { and, gt, gte } from '../../lib/pb-filter'
+import type { PostRecord, AgentRecord, OracleRecord } from '../../lib/pb-types'
+
+export type SortType = 'hot' | 'new' | 'top' | 'rising'
+
+// Descending sort keys per feed sort — last key unique so the cursor position is exact
+const SORT_KEYS: Record<SortType, (keyof PostRecord & string)[]> = {
+  new: ['created', 'id'],
+  hot: ['hot_score', 'id'],
+  rising: ['rising_score', 'id'],
+  top: ['score', 'id'],
+}
 
-export type SortType = 'hot' | 'new' | 'top'
+const NUMERIC_KEYS = new Set(['score', 'hot_score', 'rising_score'])
+
+const isSortType = (value: unknown): value is SortType => typeof value === 'string' && value in SORT_KEYS
 
 export const feedFeedRoutes = new Elysia()
-  // GET /api/feed - Posts feed (sorted)
+  // GET /api/feed - Posts feed (sorted, cursor-paged)
   .get('/feed', async ({ query, set }) => {
-    try {
-      const sort = query.sort || 'new'
-      let orderBy = '-created'
-      if (sort === 'hot') orderBy = '-score,-created'
-      if (sort === 'top') orderBy = '-score'
+    const sort: SortType = isSortType(query.sort) ? query.sort : 'new'
+    const keys = SORT_KEYS[sort]
+    const window: TopWindow = sort === 'top' && isTopWindow(query.t) ? query.t : 'all'
+    // A top cursor is only valid for the window it was made in
+    const cursorSort = window === 'all' ? sort : `${sort}:${window}`
+    const limit = parseLimit(query.limit)
+    const cursor = query.cursor ? decodeCursor(query.cursor, cursorSort, keys.length) : null
+    if (query.cursor && !cursor) {
+      set.status = 400
+      return { success: false, error: 'Invalid cursor - start over without one, or use next_cursor as given', code: 'invalid_cursor', posts: [], count: 0 }
+    }
 
+    try {
       const pb = await getAdminPB()
 
-      const data = await pb.collection('posts').getList<PostRecord>(1, 50, { sort: orderBy })
-      const posts = data.items || []
-
-      // Collect unique wallets and birth issues for batch resolution
-      const authorWallets = [...new Set(posts.map(p => p.author_wallet).filter(Boolean))]
-      const birthIssues = [...new Set(posts.map(p => p.oracle_birth_issue).filter(Boolean))] as string[]
-      const postIds = posts.map(p => p.id)
-
-      // First resolve oracles so we can include owner_wallets in human resolution
-      const [oraclesMap, agentsMap, commentCounts] = await Promise.all([
-        resolveOracles(pb, birthIssues),
-        resolveAgents(pb, authorWallets),
-        resolveCommentCounts(pb, postIds),
-      ])
-
-      // Include oracle owner_wallets in human resolution for owner_github lookup
-      const ownerWallets = [...oraclesMap.values()].map(o => o.owner_wallet).filter(Boolean) as string[]
-      const wallets = [...new Set([...authorWallets, ...ownerWallets])]
-      const humansMap = await resolveHumans(pb, wallets)
-
-      // Enrich posts with display info
-      const enriched = posts.map(post => {
-        const human = humansMap.get(post.author_wallet)
-        const agent = agentsMap.get(post.author_wallet)
-        const oracle = post.oracle_birth_issue ? oraclesMap.get(post.oracle_birth_issue) : null
-
-        // Check if oracle post's signing wallet matches current bot_wallet
-        const isVerifiedOracle = oracle && oracle.bot_wallet?.toLowerCase() === post.author_wallet?.toLowerCase()
-
-        // Build author info for display
-        let author: Record<string, unknown> | null = null
-        if (oracle && isVerifiedOracle) {
-          const owner = oracle.owner_wallet ? humansMap.get(oracle.owner_wallet) : null
-          author = {
-            type: 'oracle',
-            name: oracle.name,
-            oracle_name: oracle.oracle_name || oracle.name,
-            birth_issue: oracle.birth_issue,
-            wallet_address: post.author_wallet,
-            bot_wallet: oracle.bot_wallet,
-            owner_wallet: oracle.owner_wallet,
-            owner_github: owner?.github_username || null,
-          }
-        } else if (oracle && !isVerifiedOracle) {
-          // Oracle post signed by old/revoked wallet — show but mark unverified
-          const owner = oracle.owner_wallet ? humansMap.get(oracle.owner_wallet) : null
-          author = {
-            type: 'unverified_oracle',
-            name: oracle.name,
-            oracle_name: oracle.oracle_name || oracle.name,
-            birth_issue: oracle.birth_issue,
-            wallet_address: post.author_wallet,
-            bot_wallet: oracle.bot_wallet,
-            owner_wallet: oracle.owner_wallet,
-            owner_github: owner?.github_username || null,
-          }
-        } else if (agent) {
-          author = {
-            type: 'agent',
-            name: agent.display_name || `Agent-${post.author_wallet.slice(2, 8)}`,
-            display_name: agent.display_name,
-            wallet_address: post.author_wallet,
-            created: agent.created,
-            updated: agent.updated,
-          }
-        } else if (human) {
-          author = {
-            type: 'human',
-            name: human.github_username || human.display_name || 'Human',
-            github_username: human.github_username,
-            display_name: human.display_name,
-            wallet_address: post.author_wallet,
-            created: human.created,
-            updated: human.updated,
-          }
-        } else {
-          author = {
-            type: 'unknown',
-            name: `User-${post.author_wallet.slice(2, 8)}`,
-            wallet_address: post.author_wallet,
-          }
-        }
-
-        return {
-          id: post.id,
-          title: post.title,
-          content: post.content,
-          author_wallet: post.author_wallet,
-          oracle_birth_issue: post.oracle_birth_issue || null,
-          upvotes: post.upvotes || 0,
-          downvotes: post.downvotes || 0,
-          score: post.score || 0,
-          created: post.created,
-          author,
-          comment_count: commentCounts.get(post.id) || 0,
-          siwe_signature: post.siwe_signature || null,
-          siwe_message: post.siwe_message || null,
-        }
+      // One extra record tells whether there is a next page
+      const since = topWindowStart(window)
+      const data = await pb.collection('posts').getList<PostRecord>(1, limit + 1, {
+        sort: sortString(keys),
+        filter: and(
+          NOT_DELETED,
+          since && gte('created', since),
+          sort === 'rising' && gt('rising_score', 0),   // rising only lists posts with upvotes
+          cursor && afterCursor(keys, cursor),
+        ),
       })
+      const { items: posts, next_cursor } = pageOf(data.items || [], limit, cursorSort, p =>
+        keys.map(k => NUMERIC_KEYS.has(k) ? Number(p[k]) || 0 : String(p[k])))
 
-      return { success: true, sort, posts: enriched, count: enriched.length }
+      const enriched = await enrichPosts(pb, posts)
+
+      return { success: true, sort, ...(sort === 'top' && { t: window }), limit, posts: enriched, count: enriched.length, next_cursor }
     } catch (e: unknown) {
       set.status = 500
       const message = e instanceof Error ? e.message : String(e)
@@ -135,7 +84,7 @@ export const feedFeedRoutes = new Elysia()
   .get('/feed/version', async ({ set }) => {
     try {
       const pb = await getAdminPB()
-      const latest = await pb.collection('posts').getList(1, 1, { sort: '-created' })
+      const latest = await pb.collection('posts').getList(1, 1, { sort: '-created', filter: NOT_DELETED })
       return { ts: latest.items[0]?.created || '' }
     } catch {
       set.status = 500
@@ -143,50 +92,148 @@ export const feedFeedRoutes = new Elysia()
     }
   })
 
-// Batch resolve helpers — fetch all matching records in one call
-
-import type PocketBase from 'pocketbase'
+/**
+ * Posts with display info: author (oracle / unverified_oracle / agent / human / unknown)
+ * and comment_count — shared by GET /feed and GET /feed/following
+ */
+export async function enrichPosts(pb: DataStore, posts: PostRecord[]) {
+  // Collect unique wallets and birth issues for batch resolution
+  const authorWallets = [...new Set(posts.map(p => p.author_wallet).filter(Boolean))]
+  const birthIssues = [...new Set(posts.map(p => p.oracle_birth_issue).filter(Boolean))] as string[]
+  const postIds = posts.map(p => p.id)
+
+  // First resolve oracles so we can include owner_wallets in human resolution
+  const [oraclesMap, agentsMap, commentCounts] = await Promise.all([
+    resolveOracles(pb, birthIssues),
+    resolveAgents(pb, authorWallets),
+    resolveCommentCounts(pb, postIds),
+  ])
+
+  // Include oracle owner_wallets in human resolution for owner_github lookup
+  const ownerWallets = [...oraclesMap.values()].map(o => o.owner_wallet).filter(Boolean) as string[]
+  const wallets = [...new Set([...authorWallets, ...ownerWallets])]
+  // Linked wallets resolve to their human too (lib/wallet-links.ts)
+  // Posts not signed by the current bot_wallet may be from a key rotated out since (lib/bot-keys.ts)
+  const offKeyWallets = posts
+    .filter(p => p.oracle_birth_issue && oraclesMap.get(p.oracle_birth_issue)?.bot_wallet?.toLowerCase() !== p.author_wallet?.toLowerCase())
+    .map(p => p.author_wallet)
+  const [humansMap, rotatedKeys] = await Promise.all([
+    resolveHumansByWallets(pb, wallets),
+    rotatedKeysOf(pb, [...new Set(offKeyWallets)]),
+  ])
+
+  return posts.map(post => {
+    const human = humansMap.get(post.author_wallet?.toLowerCase())
+    const agent = agentsMap.get(post.author_wallet)
+    const oracle = post.oracle_birth_issue ? oraclesMap.get(post.oracle_birth_issue) : null
+
+    // Check if oracle post's signing wallet matches current bot_wallet, or a rotated key valid when it was posted
+    const isCurrentKey = !!oracle && oracle.bot_wallet?.toLowerCase() === post.author_wallet?.toLowerCase()
+    const isRotatedKey = !!oracle && !isCurrentKey && rotatedKeys.some(k =>
+      k.oracle === oracle.id && k.bot_wallet === post.author_wallet?.toLowerCase() && keyValidAt(k, post.created))
+    const isVerifiedOracle = isCurrentKey || isRotatedKey
+
+    // Build author info for display
+    let author: Record<string, unknown> | null = null
+    if (oracle && isVerifiedOracle) {
+      const owner = oracle.owner_wallet ? humansMap.get(oracle.owner_wallet.toLowerCase()) : null
+      author = {
+        type: 'oracle',
+        name: oracle.name,
+        oracle_name: oracle.oracle_name || oracle.name,
+        birth_issue: oracle.birth_issue,
+        wallet_address: post.author_wallet,
+        bot_wallet: oracle.bot_wallet,
+        key_status: isCurrentKey ? 'current' : 'rotated',
+        owner_wallet: oracle.owner_wallet,
+        owner_github: owner?.github_username || null,
+      }
+    } else if (oracle && !isVerifiedOracle) {
+      // Oracle post signed by an unknown or revoked wallet — show but mark unverified
+      const owner = oracle.owner_wallet ? humansMap.get(oracle.owner_wallet.toLowerCase()) : null
+      author = {
+        type: 'unverified_oracle',
+        name: oracle.name,
+        oracle_name: oracle.oracle_name || oracle.name,
+        birth_issue: oracle.birth_issue,
+        wallet_address: post.author_wallet,
+        bot_wallet: oracle.bot_wallet,
+        owner_wallet: oracle.owner_wallet,
+        owner_github: owner?.github_username || null,
+      }
+    } else if (agent) {
+      author = {
+        type: 'agent',
+        name: agent.display_name || `Agent-${post.author_wallet.slice(2, 8)}`,
+        display_name: agent.display_name,
+        wallet_address: post.author_wallet,
+        created: agent.created,
+        updated: agent.updated,
+      }
+    } else if (human) {
+      author = {
+        type: 'human',
+        name: human.github_username || human.display_name || 'Human',
+        github_username: human.github_username,
+        display_name: human.display_name,
+        wallet_address: post.author_wallet,
+        primary_wallet: human.wallet_address,   // same human across linked wallets
+        created: human.created,
+        updated: human.updated,
+      }
+    } else {
+      author = {
+        type: 'unknown',
+        name: `User-${post.author_wallet.slice(2, 8)}`,
+        wallet_address: post.author_wallet,
+      }
+    }
 
-async function resolveHumans(pb: PocketBase, wallets: string[]) {
-  const map = new Map<string, HumanRecord>()
-  if (wallets.length === 0) return map
-  const filter = wallets.map(w => `wallet_address="${w}"`).join(' || ')
-  const data = await pb.collection('humans').getList<HumanRecord>(1, 200, { filter })
-  for (const h of data.items || []) {
-    map.set(h.wallet_address || '', h)
-  }
-  return map
+    return {
+      id: post.id,
+      title: post.title,
+      content: post.content,
+      author_wallet: post.author_wallet,
+      oracle_birth_issue: post.oracle_birth_issue || null,
+      upvotes: post.upvotes || 0,
+      downvotes: post.downvotes || 0,
+      score: post.score || 0,
+      created: post.created,
+      author,
+      comment_count: commentCounts.get(post.id) || 0,
+      siwe_signature: post.siwe_signature || null,
+      siwe_message: post.siwe_message || null,
+    }
+  })
 }
 
-async function resolveAgents(pb: PocketBase, wallets: string[]) {
+// Batch resolve helpers — fetch all matching records per batch of values (lib/pb-filter listAnyOf)
+
+import type { DataStore } from '../../lib/store'
+import { listAnyOf } from '../../lib/pb-filter'
+
+async function resolveAgents(pb: DataStore, wallets: string[]) {
   const map = new Map<string, AgentRecord>()
-  if (wallets.length === 0) return map
-  const filter = wallets.map(w => `wallet_address="${w}"`).join(' || ')
-  const data = await pb.collection('agents').getList<AgentRecord>(1, 200, { filter })
-  for (const a of data.items || []) {
+  const agents = await listAnyOf<AgentRecord>(pb, 'agents', 'wallet_address', wallets)
+  for (const a of agents) {
     map.set(a.wallet_address || '', a)
   }
   return map
 }
 
-async function resolveCommentCounts(pb: PocketBase, postIds: string[]) {
+async function resolveCommentCounts(pb: DataStore, postIds: string[]) {
   const map = new Map<string, number>()
-  if (postIds.length === 0) return map
-  const filter = postIds.map(id => `post="${id}"`).join(' || ')
-  const data = await pb.collection('comments').getList(1, 500, { filter, fields: 'post' })
-  for (const c of data.items || []) {
-    const pid = (c as Record<string, string>).post
-    map.set(pid, (map.get(pid) || 0) + 1)
+  const comments = await listAnyOf<{ post: string }>(pb, 'comments', 'post', postIds, { perPage: 500, fields: 'post', where: NOT_DELETED })
+  for (const c of comments) {
+    map.set(c.post, (map.get(c.post) || 0) + 1)
   }
   return map
 }
 
-async function resolveOracles(pb: PocketBase, birthIssues: string[]) {
+async function resolveOracles(pb: DataStore, birthIssues: string[]) {
   const map = new Map<string, OracleRecord>()
-  if (birthIssues.length === 0) return map
-  const filter = birthIssues.map(b => `birth_issue="${b}"`).join(' || ')
-  const data = await pb.collection('oracles').getList<OracleRecord>(1, 200, { filter })
-  for (const o of data.items || []) {
+  const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'birth_issue', birthIssues)
+  for (const o of oracles) {
     map.set(o.birth_issue || '', o)
   }
   return map
@@ -0,0 +1,66 @@
+/**
+ * Following feed - GET /api/feed/following?limit=&cursor= (auth required)
+ *
+ * Newest posts from the oracles, humans and agents the caller follows
+ * (lib/follows.ts), enriched like GET /api/feed. Cursor-paged the same way.
+ *
+ * Followed authors can run to hundreds of birth issues and wallets, more than
+ * one PocketBase filter carries — so each batch of them is queried for a page
+ * and the batches are merged by (created, id).
+ */
+import { Elysia } from 'elysia'
+import { getAdminPB } from '../../lib/pb'
+import { authContext } from '../../lib/auth-context'
+import { NOT_DELETED } from '../../lib/soft-delete'
+import { followedAuthors, followsOf } from '../../lib/follows'
+import { afterCursor, decodeCursor, pageOf, parseLimit, sortString } from '../../lib/pagination'
+import { ANY_OF_BATCH_SIZE, and, eq, or, type Filter } from '../../lib/pb-filter'
+import type { PostRecord } from '../../lib/pb-types'
+import { enrichPosts } from './feed'
+
+const FOLLOWING_SORT = 'following'
+const KEYS: (keyof PostRecord & string)[] = ['created', 'id']
+
+export const feedFollowingRoutes = new Elysia()
+  .use(authContext)
+  .get('/feed/following', async ({ principal, query, set }) => {
+    const limit = parseLimit(query.limit)
+    const cursor = query.cursor ? decodeCursor(query.cursor, FOLLOWING_SORT, KEYS.length) : null
+    if (query.cursor && !cursor) {
+      set.status = 400
+      return { success: false, error: 'Invalid cursor - start over without one, or use next_cursor as given', code: 'invalid_cursor', posts: [], count: 0 }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const follows = await followsOf(pb, await principal.wallets())
+      const { birthIssues, wallets } = await followedAuthors(pb, follows)
+
+      const authors: Filter[] = [
+        ...birthIssues.map(b => eq('oracle_birth_issue', b)),
+        ...wallets.map(w => eq('author_wallet', w)),
+      ]
+      const batches: Filter[][] = []
+      for (let i = 0; i < authors.length; i += ANY_OF_BATCH_SIZE) batches.push(authors.slice(i, i + ANY_OF_BATCH_SIZE))
+
+      // One extra record per batch tells whether there is a next page
+      const results = await Promise.all(batches.map(batch =>
+        pb.collection('posts').getList<PostRecord>(1, limit + 1, {
+          sort: sortString(KEYS),
+          filter: and(NOT_DELETED, or(...batch), cursor && afterCursor(KEYS, cursor)),
+        })
+      ))
+      // A post can match two batches (followed oracle + followed owner wallet)
+      const merged = [...new Map(results.flatMap(r => r.items || []).map(p => [p.id, p])).values()]
+        .sort((a, b) => b.created.localeCompare(a.created) || b.id.localeCompare(a.id))
+
+      const { items: posts, next_cursor } = pageOf(merged, limit, FOLLOWING_SORT, p => [p.created, p.id])
+      const enriched = await enrichPosts(pb, posts)
+
+      return { success: true, following: follows.length, limit, posts: enriched, count: enriched.length, next_cursor }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { success: false, error: message, posts: [], count: 0 }
+    }
+  }, { requireAuth: true })
@@ -2,18 +2,26 @@
  * Heartbeats route - POST /api/heartbeats
  *
  * Uses admin token for PB writes (user JWT is not a PB auth token).
+ * Caller must be the oracle's owner (any wallet of that human) or bot, or hold
+ * a capability token with the "heartbeat" scope for this oracle — checked by
+ * lib/auth-context.ts, so failures carry the shared 401/403/404 bodies.
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
 import { sendHeartbeat } from '../../lib/heartbeat'
+import { authContext, checkOracleBot, checkPrincipal, isFailure } from '../../lib/auth-context'
+import { isDeleted } from '../../lib/soft-delete'
+import type { OracleRecord } from '../../lib/pb-types'
 
 export const feedHeartbeatsRoutes = new Elysia()
+  .use(authContext)
   // POST /api/heartbeats - Register/update heartbeat (requires auth)
-  .post('/heartbeats', async ({ request, body, set }) => {
-    const authHeader = request.headers.get('Authorization')
-    if (!authHeader) {
-      set.status = 401
-      return { error: 'Authentication required' }
+  .post('/heartbeats', async ({ auth, body, set }) => {
+    // The oracle comes from the body, so requireOracleBot (route param) can't name it
+    const principal = checkPrincipal(auth)
+    if (isFailure(principal)) {
+      set.status = principal.status
+      return principal.body
     }
     const { oracle, status } = body as { oracle: string; status: string }
     if (!oracle) {
@@ -22,6 +30,20 @@ export const feedHeartbeatsRoutes = new Elysia()
     }
     try {
       const pb = await getAdminPB()
+
+      const record = await pb.collection('oracles').getOne<OracleRecord>(oracle).catch(() => null)
+      if (!record || isDeleted(record)) {
+        set.status = 404
+        return { error: 'Oracle not found', code: 'not_found' }
+      }
+
+      // Capability tokens of a rotated / revoked bot key stop working
+      const denied = await checkOracleBot(principal, record, { scope: 'heartbeat', allowOwner: true })
+      if (denied) {
+        set.status = denied.status
+        return denied.body
+      }
+
       sendHeartbeat(pb, oracle, (status as 'online' | 'away' | 'offline') || 'online')
       return { success: true, oracle, status: status || 'online' }
     } catch (e: unknown) {
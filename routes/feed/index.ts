@@ -4,6 +4,7 @@
  * Directory structure:
  *   index.ts      - This file: combines all feed sub-routes
  *   feed.ts       - GET /api/feed
+ *   following.ts  - GET /api/feed/following
  *   presence.ts   - GET /api/presence
  *   heartbeats.ts - POST /api/heartbeats
  *   stats.ts      - GET /api/stats
@@ -11,6 +12,7 @@
 import { Elysia } from 'elysia'
 
 import { feedFeedRoutes } from './feed'
+import { feedFollowingRoutes } from './following'
 import { feedPresenceRoutes } from './presence'
 import { feedHeartbeatsRoutes } from './heartbeats'
 import { feedStatsRoutes } from './stats'
@@ -20,6 +22,7 @@ export { type SortType } from './feed'
 
 export const feedRoutes = new Elysia({ prefix: '/api' })
   .use(feedFeedRoutes)
+  .use(feedFollowingRoutes)
   .use(feedPresenceRoutes)
   .use(feedHeartbeatsRoutes)
   .use(feedStatsRoutes)
@@ -3,6 +3,7 @@
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
+import { gte, listAnyOf } from '../../lib/pb-filter'
 import type { OracleHeartbeatRecord, OracleRecord } from '../../lib/pb-types'
 
 export const feedPresenceRoutes = new Elysia()
@@ -10,9 +11,9 @@ export const feedPresenceRoutes = new Elysia()
   .get('/presence', async () => {
     try {
       const pb = await getAdminPB()
-      const cutoff = new Date(Date.now() - 300_000).toISOString().replace('T', ' ').slice(0, 23) + 'Z'
+      const cutoff = new Date(Date.now() - 300_000)
       const data = await pb.collection('oracle_heartbeats').getList<OracleHeartbeatRecord>(1, 50, {
-        filter: `updated >= "${cutoff}"`,
+        filter: gte('updated', cutoff),
         sort: '-updated',
       })
       const heartbeats = data.items || []
@@ -22,9 +23,8 @@ export const feedPresenceRoutes = new Elysia()
 
       // Enrich with oracle names
       const oracleIds = heartbeats.map(hb => hb.oracle).filter(Boolean)
-      const oracleFilter = oracleIds.map(id => `id="${id}"`).join(' || ')
-      const oracles = await pb.collection('oracles').getList<OracleRecord>(1, 50, { filter: oracleFilter })
-      const oracleMap = new Map(oracles.items.map(o => [o.id, o.name]))
+      const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'id', oracleIds, { perPage: 50 })
+      const oracleMap = new Map(oracles.map(o => [o.id, o.name]))
 
       const items = heartbeats.map(hb => ({
         id: hb.oracle,
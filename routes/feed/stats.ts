@@ -3,15 +3,16 @@
  */
 import { Elysia } from 'elysia'
 import { pb } from '../../lib/pb'
+import { NOT_DELETED } from '../../lib/soft-delete'
 
 export const feedStatsRoutes = new Elysia()
   // GET /api/stats - Universe stats
   .get('/stats', async () => {
     try {
       const [oracles, humans, posts] = await Promise.all([
-        pb.collection('oracles').getList(1, 1),
+        pb.collection('oracles').getList(1, 1, { filter: NOT_DELETED }),
         pb.collection('humans').getList(1, 1),
-        pb.collection('posts').getList(1, 1),
+        pb.collection('posts').getList(1, 1, { filter: NOT_DELETED }),
       ])
       return {
         oracleCount: oracles.totalItems || 0,
@@ -0,0 +1,119 @@
+/**
+ * Follow routes — follow oracles, humans and agents (lib/follows.ts)
+ *
+ * POST   /api/follows                     - (auth) { target_type, target_id } → follow
+ * DELETE /api/follows/:type/:id           - (auth) unfollow
+ * GET    /api/follows                     - (auth) who the caller follows
+ * GET    /api/follows/:type/:id/followers - follower count; the wallets too, for the target itself
+ *
+ * Their posts show up in GET /api/feed/following.
+ */
+import { Elysia } from 'elysia'
+import { getAdminPB } from '../lib/pb'
+import { authContext } from '../lib/auth-context'
+import { parseLimit } from '../lib/pagination'
+import {
+  FOLLOW_TARGET_TYPES, follow, followersOf, followsOf, isFollowTargetType, resolveFollowTarget, unfollow,
+  type FollowErrorCode,
+} from '../lib/follows'
+
+const ERROR_STATUS: Record<FollowErrorCode, number> = {
+  target_not_found: 404,
+  cannot_follow_self: 400,
+  too_many_follows: 400,
+  not_following: 404,
+}
+
+const INVALID_TYPE = { error: 'target_type must be one of: ' + FOLLOW_TARGET_TYPES.join(', '), code: 'invalid_target_type' }
+
+export const followsRoutes = new Elysia({ prefix: '/api/follows' })
+  .use(authContext)
+  .post('/', async ({ principal, body, set }) => {
+    const { target_type, target_id } = (body || {}) as { target_type?: string; target_id?: string }
+    if (!isFollowTargetType(target_type)) {
+      set.status = 400
+      return INVALID_TYPE
+    }
+    if (!target_id || typeof target_id !== 'string') {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['target_type', 'target_id'] }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const result = await follow(pb, { wallet: principal.wallet, wallets: await principal.wallets() }, target_type, target_id)
+      if (!result.ok) {
+        set.status = ERROR_STATUS[result.code]
+        return { error: result.error, code: result.code }
+      }
+      return { success: true, following: result.target, followed_at: result.follow.created, created: result.created }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to follow', details: message }
+    }
+  }, { requireAuth: true })
+
+  .delete('/:type/:id', async ({ principal, params, set }) => {
+    if (!isFollowTargetType(params.type)) {
+      set.status = 400
+      return INVALID_TYPE
+    }
+    try {
+      const result = await unfollow(await getAdminPB(), await principal.wallets(), params.type, params.id)
+      if (!result.ok) {
+        set.status = ERROR_STATUS[result.code]
+        return { error: result.error, code: result.code }
+      }
+      return { success: true }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to unfollow', details: message }
+    }
+  }, { requireAuth: true })
+
+  .get('/', async ({ principal, set }) => {
+    try {
+      const pb = await getAdminPB()
+      const follows = await followsOf(pb, await principal.wallets())
+      const targets = await Promise.all(follows.map(f => resolveFollowTarget(pb, f.target_type, f.target_id)))
+      return {
+        success: true,
+        // Targets deleted since still count as follows, shown without a name
+        follows: follows.map((f, i) => ({
+          type: f.target_type,
+          id: f.target_id,
+          name: targets[i]?.name ?? null,
+          followed_at: f.created,
+        })),
+        count: follows.length,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to list follows', details: message }
+    }
+  }, { requireAuth: true })
+
+  .get('/:type/:id/followers', async ({ auth, params, query, set }) => {
+    if (!isFollowTargetType(params.type)) {
+      set.status = 400
+      return INVALID_TYPE
+    }
+    try {
+      const pb = await getAdminPB()
+      const { wallets, total } = await followersOf(pb, params.type, params.id, parseLimit(query.limit))
+
+      // Who follows whom is private — only the followed oracle owner, human or agent sees the wallets
+      const { principal } = auth
+      const target = principal && !principal.capability ? await resolveFollowTarget(pb, params.type, params.id) : null
+      const isTarget = !!(principal && target?.wallet && (await principal.wallets()).includes(target.wallet))
+
+      return { success: true, type: params.type, id: params.id, count: total, ...(isTarget && { followers: wallets }) }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to list followers', details: message }
+    }
+  })
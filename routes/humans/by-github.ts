@@ -3,6 +3,8 @@
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
+import { and, eq, ne } from '../../lib/pb-filter'
+import { NOT_DELETED } from '../../lib/soft-delete'
 import type { HumanRecord, OracleRecord } from '../../lib/pb-types'
 
 export const humansByGithubRoutes = new Elysia()
@@ -11,7 +13,7 @@ export const humansByGithubRoutes = new Elysia()
     try {
       const pb = await getAdminPB()
       const data = await pb.collection('humans').getList<HumanRecord>(1, 1, {
-        filter: `github_username="${params.username}"`,
+        filter: eq('github_username', params.username),
       })
       if (!data.items || data.items.length === 0) {
         set.status = 404
@@ -32,7 +34,7 @@ export const humansByGithubRoutes = new Elysia()
 
       // First find the human
       const humanData = await pb.collection('humans').getList<HumanRecord>(1, 1, {
-        filter: `github_username="${params.username}"`,
+        filter: eq('github_username', params.username),
       })
 
       if (!humanData.items?.length) {
@@ -46,7 +48,7 @@ export const humansByGithubRoutes = new Elysia()
       }
 
       const oracleData = await pb.collection('oracles').getList<OracleRecord>(1, 100, {
-        filter: `owner_wallet="${humanWallet}" && birth_issue != ""`,
+        filter: and(eq('owner_wallet', humanWallet), ne('birth_issue', ''), NOT_DELETED),
         sort: 'name',
       })
 
@@ -4,6 +4,7 @@
  * Directory structure:
  *   index.ts      - This file: combines all human sub-routes
  *   me.ts         - GET /api/humans/me
+ *   wallets.ts    - GET/POST /api/humans/me/wallets, PUT /me/wallets/primary, DELETE /me/wallets/:wallet
  *   by-github.ts  - GET /api/humans/by-github/:username, GET /api/humans/by-github/:username/oracles
  *   oracles.ts    - GET /api/humans/:id/oracles
  *   my-oracles.ts - GET /api/me/oracles
@@ -11,12 +12,14 @@
 import { Elysia } from 'elysia'
 
 import { humansMeRoutes } from './me'
+import { humansWalletsRoutes } from './wallets'
 import { humansByGithubRoutes } from './by-github'
 import { humansOraclesRoutes } from './oracles'
 import { meOraclesRoutes } from './my-oracles'
 
 export const humansRoutes = new Elysia({ prefix: '/api/humans' })
   .use(humansMeRoutes)
+  .use(humansWalletsRoutes)
   .use(humansByGithubRoutes)
   .use(humansOraclesRoutes)
 
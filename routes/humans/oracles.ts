@@ -3,6 +3,8 @@
  */
 import { Elysia } from 'elysia'
 import { pb } from '../../lib/pb'
+import { and, eq } from '../../lib/pb-filter'
+import { NOT_DELETED } from '../../lib/soft-delete'
 import type { OracleRecord } from '../../lib/pb-types'
 
 export const humansOraclesRoutes = new Elysia()
@@ -23,7 +25,7 @@ export const humansOraclesRoutes = new Elysia()
       }
 
       const data = await pb.collection('oracles').getList<OracleRecord>(1, 100, {
-        filter: `owner_wallet="${human.wallet_address}"`,
+        filter: and(eq('owner_wallet', human.wallet_address), NOT_DELETED),
       })
       return {
         resource: 'oracles',
@@ -0,0 +1,125 @@
+/**
+ * Linked wallet routes (lib/wallet-links.ts) — all require human sign-in
+ *
+ * GET    /me/wallets          - primary + linked wallets
+ * POST   /me/wallets          - { wallet, timestamp, signature } link a wallet; it signs linkMessage(...)
+ * PUT    /me/wallets/primary  - { wallet } make a linked wallet the primary one
+ * DELETE /me/wallets/:wallet  - unlink a wallet (not the primary)
+ */
+import { Elysia } from 'elysia'
+import { authContext } from '../../lib/auth-context'
+import { getAdminPB } from '../../lib/pb'
+import { verifyWalletSignature } from '../../lib/signatures'
+import { claimSignature, REPLAY_ERROR_CODE } from '../../lib/replay'
+import {
+  LINK_MAX_AGE_SEC,
+  linkMessage,
+  linkWallet,
+  setPrimaryWallet,
+  unlinkWallet,
+  walletsOfHuman,
+  type LinkErrorCode,
+  type LinkResult,
+} from '../../lib/wallet-links'
+
+const ERROR_STATUS: Record<LinkErrorCode, number> = {
+  wallet_already_linked: 409,
+  wallet_is_oracle_bot: 403,
+  too_many_wallets: 400,
+  wallet_not_linked: 404,
+  primary_wallet: 400,
+}
+
+const walletsView = (wallets: string[]) => ({
+  primary: wallets[0],
+  wallets: wallets.map((wallet, i) => ({ wallet, primary: i === 0 })),
+})
+
+/** Route response for a link/unlink/primary result */
+function respond(result: LinkResult, set: { status?: number | string }) {
+  if (!result.ok) {
+    set.status = ERROR_STATUS[result.code]
+    return { error: result.error, code: result.code }
+  }
+  return { success: true, ...walletsView(result.wallets) }
+}
+
+const isAddress = (value: unknown): value is string => typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)
+
+export const humansWalletsRoutes = new Elysia()
+  .use(authContext)
+  // GET /api/humans/me/wallets - Wallets of the signed-in human, primary first
+  .get('/me/wallets', async ({ human, set }) => {
+    try {
+      const pb = await getAdminPB()
+      return walletsView(await walletsOfHuman(pb, human))
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  }, { requireHuman: true })
+
+  // POST /api/humans/me/wallets - Link a wallet: the wallet signed linkMessage, the human confirms with their JWT
+  .post('/me/wallets', async ({ human, body, set }) => {
+    const { wallet, timestamp, signature } = (body || {}) as { wallet?: string; timestamp?: number; signature?: string }
+    if (!isAddress(wallet) || !timestamp || !signature) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['wallet', 'timestamp', 'signature'] }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    if (Math.abs(now - timestamp) > LINK_MAX_AGE_SEC) {
+      set.status = 401
+      return { error: `Timestamp expired (must be within ${LINK_MAX_AGE_SEC}s)` }
+    }
+
+    const message = linkMessage({ human: human.id, wallet, timestamp })
+    if (!await verifyWalletSignature(wallet, message, signature)) {
+      set.status = 401
+      return { error: 'Invalid signature - the wallet being linked must sign the link message', message }
+    }
+    if (!await claimSignature(wallet, message, timestamp + LINK_MAX_AGE_SEC - now)) {
+      set.status = 401
+      return { error: 'Signature already used - sign a new link message', code: REPLAY_ERROR_CODE }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      return respond(await linkWallet(pb, human, wallet), set)
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  }, { requireHuman: true })
+
+  // PUT /api/humans/me/wallets/primary - Choose the primary wallet
+  .put('/me/wallets/primary', async ({ human, body, set }) => {
+    const { wallet } = (body || {}) as { wallet?: string }
+    if (!isAddress(wallet)) {
+      set.status = 400
+      return { error: 'wallet required' }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      return respond(await setPrimaryWallet(pb, human, wallet), set)
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  }, { requireHuman: true })
+
+  // DELETE /api/humans/me/wallets/:wallet - Unlink a wallet
+  .delete('/me/wallets/:wallet', async ({ human, params, set }) => {
+    try {
+      const pb = await getAdminPB()
+      return respond(await unlinkWallet(pb, human, params.wallet), set)
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  }, { requireHuman: true })
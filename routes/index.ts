@@ -2,7 +2,7 @@
  * Routes - Central export
  *
  * Hybrid organization:
- *   - Single routes: flat files (github.ts)
+ *   - Single routes: flat files (github.ts, votes.ts, follows.ts, search.ts)
  *   - Multi-file routes: directories (admin/, agents/, auth/, comments/, feed/, humans/, oracles/, posts/)
  */
 
@@ -23,3 +23,5 @@ export { merkleRoutes } from './merkle'
 // Flat files (single routes)
 export { githubRoutes } from './github'
 export { votesRoutes } from './votes'
+export { followsRoutes } from './follows'
+export { searchRoutes } from './search'
@@ -5,22 +5,25 @@
  *
  * Signed payload: JSON.stringify({ action: "mention", oracle, post_id?, comment_id?, message? })
  * Signature proves who is mentioning. Oracle name is fuzzy-matched (case-insensitive).
+ * Smart-contract wallets pass `wallet` so the signature can be checked via EIP-1271/6492.
  */
 import { Elysia } from 'elysia'
-import { recoverMessageAddress } from 'viem'
 import { getAdminPB } from '../../lib/pb'
+import { resolveSigner } from '../../lib/signatures'
+import { like } from '../../lib/pb-filter'
 import { broadcast } from '../../lib/ws-clients'
 import { createNotification } from '../../lib/notifications'
 import type { OracleRecord, PostRecord } from '../../lib/pb-types'
 
 export const mentionsRoutes = new Elysia({ prefix: '/api/mentions' })
   .post('/', async ({ body, set }) => {
-    const { oracle, post_id, comment_id, message, signature } = body as {
+    const { oracle, post_id, comment_id, message, signature, wallet } = body as {
       oracle: string
       post_id?: string
       comment_id?: string
       message?: string
       signature: string
+      wallet?: string
     }
 
     if (!oracle) {
@@ -40,15 +43,9 @@ export const mentionsRoutes = new Elysia({ prefix: '/api/mentions' })
 
     const signedPayload = JSON.stringify(payloadObj)
 
-    // Recover signer
-    let signerWallet: string
-    try {
-      const recovered = await recoverMessageAddress({
-        message: signedPayload,
-        signature: signature as `0x${string}`,
-      })
-      signerWallet = recovered.toLowerCase()
-    } catch {
+    // Recover signer (or verify the claimed contract wallet)
+    const signerWallet = await resolveSigner(signedPayload, signature, wallet)
+    if (!signerWallet) {
       set.status = 401
       return { error: 'Invalid signature' }
     }
@@ -60,7 +57,7 @@ export const mentionsRoutes = new Elysia({ prefix: '/api/mentions' })
     try {
       // PocketBase filter: case-insensitive match on name
       const data = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-        filter: `name~"${oracle}"`,
+        filter: like('name', oracle),
       })
       targetOracle = data.items?.[0] || null
     } catch {
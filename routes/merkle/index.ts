@@ -4,51 +4,40 @@
  * GET  /api/merkle/my-root              — authenticated, returns caller's Merkle root
  * GET  /api/merkle/owner/:wallet        — public, returns any owner's Merkle root
  * GET  /api/merkle/proof/:wallet/:issue — public, returns proof for a specific oracle leaf
+ *
+ * An owner is a human identity: any linked wallet gives the same root (lib/wallet-links.ts).
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
+import { listAnyOf } from '../../lib/pb-filter'
+import { NOT_DELETED } from '../../lib/soft-delete'
+import { identityWallets } from '../../lib/wallet-links'
 import type { OracleRecord } from '../../lib/pb-types'
-import { verifyJWT, DEFAULT_SALT } from '../../lib/auth'
+import { authContext } from '../../lib/auth-context'
 import { oraclesToAssignments, getMerkleRoot, buildMerkleTree, extractIssueNumber } from '../../lib/merkle'
 
-/** Extract wallet from JWT in Authorization header */
-async function getWalletFromAuth(request: Request): Promise<string | null> {
-  const authHeader = request.headers.get('Authorization')
-  if (!authHeader) return null
-  const token = authHeader.replace(/^Bearer\s+/i, '')
-  if (!token) return null
-  const payload = await verifyJWT(token, DEFAULT_SALT)
-  if (!payload?.sub) return null
-  return payload.sub as string
-}
-
-/** Fetch oracles for an owner wallet and compute Merkle data */
+/** Fetch oracles for an owner (all of their linked wallets) and compute Merkle data */
 async function getOwnerMerkle(wallet: string) {
-  const w = wallet.toLowerCase()
   const pb = await getAdminPB()
-  const data = await pb.collection('oracles').getList<OracleRecord>(1, 200, {
-    filter: `owner_wallet="${w}"`,
-    sort: 'name',
-  })
-  const assignments = oraclesToAssignments(data.items)
+  const wallets = await identityWallets(pb, wallet)
+  const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'owner_wallet', wallets, { sort: 'name', where: NOT_DELETED })
+  const assignments = oraclesToAssignments(oracles)
   const root = getMerkleRoot(assignments)
-  return { assignments, root, oracles: data.items }
+  return { assignments, root, oracles, wallets }
 }
 
 export const merkleRoutes = new Elysia({ prefix: '/api/merkle' })
+  .use(authContext)
 
   // GET /api/merkle/my-root — authenticated owner's Merkle root
-  .get('/my-root', async ({ request, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required' }
-    }
+  .get('/my-root', async ({ principal, set }) => {
+    const { wallet } = principal
 
     try {
-      const { assignments, root } = await getOwnerMerkle(wallet)
+      const { assignments, root, wallets } = await getOwnerMerkle(wallet)
       return {
         wallet,
+        wallets,
         merkle_root: root,
         oracle_count: assignments.length,
         leaves: assignments.map(a => ({
@@ -62,7 +51,7 @@ export const merkleRoutes = new Elysia({ prefix: '/api/merkle' })
       const msg = e instanceof Error ? e.message : String(e)
       return { error: msg }
     }
-  })
+  }, { requireAuth: true })
 
   // GET /api/merkle/owner/:wallet — public Merkle root for any owner
   .get('/owner/:wallet', async ({ params, set }) => {
@@ -73,9 +62,10 @@ export const merkleRoutes = new Elysia({ prefix: '/api/merkle' })
     }
 
     try {
-      const { assignments, root, oracles } = await getOwnerMerkle(wallet)
+      const { assignments, root, oracles, wallets } = await getOwnerMerkle(wallet)
       return {
         wallet,
+        wallets,
         merkle_root: root,
         oracle_count: assignments.length,
         leaves: assignments.map(a => {
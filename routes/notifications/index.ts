@@ -6,49 +6,40 @@
  * PATCH /api/notifications/:id/read  — mark one as read (JWT)
  * PATCH /api/notifications/read-all  — mark all as read (JWT)
  * POST /api/notifications/inbox      — signature-authenticated inbox (no JWT)
+ *
+ * Every route covers all wallets linked to the caller's human (lib/wallet-links.ts);
+ * the inbox also covers the bot wallets of their oracles.
  */
 import { Elysia } from 'elysia'
 import { recoverMessageAddress } from 'viem'
 import { getAdminPB } from '../../lib/pb'
-import type { NotificationRecord, OracleRecord, HumanRecord } from '../../lib/pb-types'
-import { verifyJWT, DEFAULT_SALT } from '../../lib/auth'
+import { and, anyOf, eq, listAnyOf } from '../../lib/pb-filter'
+import type { NotificationRecord, OracleRecord } from '../../lib/pb-types'
+import { identityWallets, resolveHumansByWallets } from '../../lib/wallet-links'
+import { authContext } from '../../lib/auth-context'
+import { claimSignature, REPLAY_ERROR_CODE } from '../../lib/replay'
 
 const INBOX_MAX_AGE_SEC = 300 // 5 minutes
 
-/** Extract wallet from JWT in Authorization header */
-async function getWalletFromAuth(request: Request): Promise<string | null> {
-  const authHeader = request.headers.get('Authorization')
-  if (!authHeader) return null
-  const token = authHeader.replace(/^Bearer\s+/i, '')
-  if (!token) return null
-  const payload = await verifyJWT(token, DEFAULT_SALT)
-  if (!payload?.sub) return null
-  return payload.sub as string
-}
-
 export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
-  // GET /api/notifications — paginated list for authenticated wallet
-  .get('/', async ({ request, query, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required' }
-    }
-
+  .use(authContext)
+  // GET /api/notifications — paginated list for authenticated wallet (and its linked wallets)
+  .get('/', async ({ principal, query, set }) => {
     const page = Number(query?.page) || 1
     const perPage = Math.min(Number(query?.perPage) || 20, 50)
 
     try {
       const pb = await getAdminPB()
+      const recipientFilter = anyOf('recipient_wallet', await principal.wallets())
 
       const data = await pb.collection('notifications').getList<NotificationRecord>(page, perPage, {
-        filter: `recipient_wallet="${wallet}"`,
+        filter: recipientFilter,
         sort: '-created',
       })
 
       // Count unread
       const unreadData = await pb.collection('notifications').getList<NotificationRecord>(1, 1, {
-        filter: `recipient_wallet="${wallet}" && read=false`,
+        filter: and(recipientFilter, eq('read', false)),
       })
 
       // Enrich actor info
@@ -57,9 +48,8 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
 
       if (actorWallets.length > 0) {
         // Check oracles by bot_wallet
-        const oracleFilter = actorWallets.map(w => `bot_wallet="${w}"`).join(' || ')
-        const oracles = await pb.collection('oracles').getList<OracleRecord>(1, 200, { filter: oracleFilter })
-        for (const o of oracles.items || []) {
+        const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'bot_wallet', actorWallets)
+        for (const o of oracles) {
           if (o.bot_wallet) {
             actorMap.set(o.bot_wallet.toLowerCase(), {
               type: 'oracle', name: o.name, birth_issue: o.birth_issue,
@@ -70,10 +60,9 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
         // Check humans for remaining
         const remaining = actorWallets.filter(w => !actorMap.has(w.toLowerCase()))
         if (remaining.length > 0) {
-          const humanFilter = remaining.map(w => `wallet_address="${w}"`).join(' || ')
-          const humans = await pb.collection('humans').getList<HumanRecord>(1, 200, { filter: humanFilter })
-          for (const h of humans.items || []) {
-            actorMap.set(h.wallet_address.toLowerCase(), {
+          const humans = await resolveHumansByWallets(pb, remaining)
+          for (const [w, h] of humans) {
+            actorMap.set(w, {
               type: 'human', name: h.github_username || h.display_name || 'Human',
               github_username: h.github_username,
             })
@@ -101,20 +90,14 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
       const msg = e instanceof Error ? e.message : String(e)
       return { error: msg }
     }
-  })
+  }, { requireAuth: true })
 
   // GET /api/notifications/unread-count — lightweight poll
-  .get('/unread-count', async ({ request, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required' }
-    }
-
+  .get('/unread-count', async ({ principal, set }) => {
     try {
       const pb = await getAdminPB()
       const data = await pb.collection('notifications').getList<NotificationRecord>(1, 1, {
-        filter: `recipient_wallet="${wallet}" && read=false`,
+        filter: and(anyOf('recipient_wallet', await principal.wallets()), eq('read', false)),
       })
       return { unreadCount: data.totalItems }
     } catch (e: unknown) {
@@ -122,22 +105,17 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
       const msg = e instanceof Error ? e.message : String(e)
       return { error: msg }
     }
-  })
+  }, { requireAuth: true })
 
   // PATCH /api/notifications/:id/read — mark one as read
-  .patch('/:id/read', async ({ params, request, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required' }
-    }
-
+  .patch('/:id/read', async ({ params, principal, set }) => {
     try {
       const pb = await getAdminPB()
       const notification = await pb.collection('notifications').getOne<NotificationRecord>(params.id)
 
-      // Ownership check
-      if (notification.recipient_wallet?.toLowerCase() !== wallet.toLowerCase()) {
+      // Ownership check — any wallet of the caller's identity
+      const wallets = await principal.wallets()
+      if (!wallets.includes(notification.recipient_wallet?.toLowerCase())) {
         set.status = 403
         return { error: 'Not your notification' }
       }
@@ -149,20 +127,14 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
       const msg = e instanceof Error ? e.message : String(e)
       return { error: msg }
     }
-  })
+  }, { requireAuth: true })
 
   // PATCH /api/notifications/read-all — mark all as read for wallet
-  .patch('/read-all', async ({ request, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required' }
-    }
-
+  .patch('/read-all', async ({ principal, set }) => {
     try {
       const pb = await getAdminPB()
       const unread = await pb.collection('notifications').getList<NotificationRecord>(1, 200, {
-        filter: `recipient_wallet="${wallet}" && read=false`,
+        filter: and(anyOf('recipient_wallet', await principal.wallets()), eq('read', false)),
       })
 
       let marked = 0
@@ -177,7 +149,7 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
       const msg = e instanceof Error ? e.message : String(e)
       return { error: msg }
     }
-  })
+  }, { requireAuth: true })
 
   // POST /api/notifications/inbox — signature-authenticated inbox (no JWT needed)
   .post('/inbox', async ({ body, query, set }) => {
@@ -213,23 +185,26 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
       return { error: 'Invalid signature' }
     }
 
+    if (!await claimSignature(wallet, message, ts + INBOX_MAX_AGE_SEC - now)) {
+      set.status = 401
+      return { error: 'Signature already used - sign a new timestamp', code: REPLAY_ERROR_CODE }
+    }
+
     const page = Number(query?.page) || 1
     const perPage = Math.min(Number(query?.perPage) || 20, 50)
 
     try {
       const pb = await getAdminPB()
 
-      // Find all wallets belonging to this owner (owner_wallet on oracles)
-      const ownerOracles = await pb.collection('oracles').getList<OracleRecord>(1, 200, {
-        filter: `owner_wallet="${wallet}"`,
-      })
-      const botWallets = ownerOracles.items
+      // Find all wallets belonging to this owner: linked wallets + bot wallets of their oracles
+      const wallets = await identityWallets(pb, wallet)
+      const ownerOracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'owner_wallet', wallets)
+      const botWallets = ownerOracles
         .map(o => o.bot_wallet?.toLowerCase())
         .filter(Boolean) as string[]
 
-      // Build filter: notifications for owner wallet OR any of their oracle bot wallets
-      const walletFilters = [wallet, ...botWallets].map(w => `recipient_wallet="${w}"`)
-      const recipientFilter = walletFilters.join(' || ')
+      // Build filter: notifications for any owner wallet OR any of their oracle bot wallets
+      const recipientFilter = anyOf('recipient_wallet', [...wallets, ...botWallets])
 
       const data = await pb.collection('notifications').getList<NotificationRecord>(page, perPage, {
         filter: recipientFilter,
@@ -238,7 +213,7 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
 
       // Count unread
       const unreadData = await pb.collection('notifications').getList<NotificationRecord>(1, 1, {
-        filter: `(${recipientFilter}) && read=false`,
+        filter: and(recipientFilter, eq('read', false)),
       })
 
       // Enrich actor info
@@ -246,9 +221,8 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
       const actorMap = new Map<string, Record<string, unknown>>()
 
       if (actorWallets.length > 0) {
-        const oracleFilter = actorWallets.map(w => `bot_wallet="${w}"`).join(' || ')
-        const oracles = await pb.collection('oracles').getList<OracleRecord>(1, 200, { filter: oracleFilter })
-        for (const o of oracles.items || []) {
+        const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'bot_wallet', actorWallets)
+        for (const o of oracles) {
           if (o.bot_wallet) {
             actorMap.set(o.bot_wallet.toLowerCase(), {
               type: 'oracle', name: o.name, birth_issue: o.birth_issue,
@@ -258,10 +232,9 @@ export const notificationsRoutes = new Elysia({ prefix: '/api/notifications' })
 
         const remaining = actorWallets.filter(w => !actorMap.has(w.toLowerCase()))
         if (remaining.length > 0) {
-          const humanFilter = remaining.map(w => `wallet_address="${w}"`).join(' || ')
-          const humans = await pb.collection('humans').getList<HumanRecord>(1, 200, { filter: humanFilter })
-          for (const h of humans.items || []) {
-            actorMap.set(h.wallet_address.toLowerCase(), {
+          const humans = await resolveHumansByWallets(pb, remaining)
+          for (const [w, h] of humans) {
+            actorMap.set(w, {
               type: 'human', name: h.github_username || h.display_name || 'Human',
               github_username: h.github_username,
             })
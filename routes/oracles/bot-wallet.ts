@@ -0,0 +1,175 @@
+/**
+ * Oracle bot wallet rotation / revocation (lib/bot-keys.ts) — owner-signed
+ *
+ * POST /:id/bot-wallet/rotate  - { new_wallet, timestamp, owner_signature, bot_signature }
+ *                                both sign rotateMessage(...)
+ * POST /:id/bot-wallet/revoke  - { timestamp, signature } owner signs revokeMessage(...)
+ * GET  /:id/bot-keys           - current bot wallet + retired keys with their validity windows
+ */
+import { Elysia } from 'elysia'
+import { getAdminPB } from '../../lib/pb'
+import { isDeleted } from '../../lib/soft-delete'
+import { verifyWalletSignature } from '../../lib/signatures'
+import { claimSignature, REPLAY_ERROR_CODE } from '../../lib/replay'
+import {
+  BOT_KEY_MAX_AGE_SEC,
+  botKeyHistory,
+  revokeBotWallet,
+  revokeMessage,
+  rotateBotWallet,
+  rotateMessage,
+  type BotKeyErrorCode,
+  type BotKeyResult,
+} from '../../lib/bot-keys'
+import type { DataStore } from '../../lib/store'
+import type { OracleRecord } from '../../lib/pb-types'
+
+const ERROR_STATUS: Record<BotKeyErrorCode, number> = {
+  same_bot_wallet: 400,
+  bot_wallet_in_use: 409,
+  no_bot_wallet: 409,
+}
+
+const isAddress = (value: unknown): value is string => typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)
+
+async function findOracle(pb: DataStore, id: string): Promise<OracleRecord | null> {
+  const oracle = await pb.collection('oracles').getOne<OracleRecord>(id).catch(() => null)
+  return oracle && !isDeleted(oracle) ? oracle : null
+}
+
+function respond(result: BotKeyResult, set: { status?: number | string }) {
+  if (!result.ok) {
+    set.status = ERROR_STATUS[result.code]
+    return { error: result.error, code: result.code }
+  }
+  return {
+    success: true,
+    oracle: { id: result.oracle.id, name: result.oracle.name, birth_issue: result.oracle.birth_issue, bot_wallet: result.oracle.bot_wallet || null },
+    retired: result.retired,
+  }
+}
+
+export const oraclesBotWalletRoutes = new Elysia()
+  // POST /api/oracles/:id/bot-wallet/rotate - Owner and new bot wallet both sign
+  .post('/:id/bot-wallet/rotate', async ({ params, body, set }) => {
+    const { new_wallet, timestamp, owner_signature, bot_signature } = (body || {}) as {
+      new_wallet?: string
+      timestamp?: number
+      owner_signature?: string
+      bot_signature?: string
+    }
+    if (!isAddress(new_wallet) || !timestamp || !owner_signature || !bot_signature) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['new_wallet', 'timestamp', 'owner_signature', 'bot_signature'] }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    if (Math.abs(now - timestamp) > BOT_KEY_MAX_AGE_SEC) {
+      set.status = 401
+      return { error: `Timestamp expired (must be within ${BOT_KEY_MAX_AGE_SEC}s)` }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const oracle = await findOracle(pb, params.id)
+      if (!oracle) {
+        set.status = 404
+        return { error: 'Oracle not found' }
+      }
+      const owner = oracle.owner_wallet?.toLowerCase()
+      if (!owner || !oracle.birth_issue) {
+        set.status = 409
+        return { error: 'Oracle has no owner to authorize the rotation' }
+      }
+
+      const message = rotateMessage({ birth_issue: oracle.birth_issue, new_wallet, timestamp })
+      if (!await verifyWalletSignature(owner, message, owner_signature)) {
+        set.status = 401
+        return { error: 'Invalid owner signature - the oracle owner must sign the rotation', message }
+      }
+      if (!await verifyWalletSignature(new_wallet, message, bot_signature)) {
+        set.status = 401
+        return { error: 'Invalid bot signature - the new bot wallet must sign the rotation', message }
+      }
+      if (!await claimSignature(owner, message, timestamp + BOT_KEY_MAX_AGE_SEC - now)) {
+        set.status = 401
+        return { error: 'Signature already used - sign a new rotation', code: REPLAY_ERROR_CODE }
+      }
+
+      return respond(await rotateBotWallet(pb, oracle, new_wallet, owner), set)
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Rotation failed', details: message }
+    }
+  })
+
+  // POST /api/oracles/:id/bot-wallet/revoke - Emergency: owner clears a leaked bot wallet
+  .post('/:id/bot-wallet/revoke', async ({ params, body, set }) => {
+    const { timestamp, signature } = (body || {}) as { timestamp?: number; signature?: string }
+    if (!timestamp || !signature) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['timestamp', 'signature'] }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    if (Math.abs(now - timestamp) > BOT_KEY_MAX_AGE_SEC) {
+      set.status = 401
+      return { error: `Timestamp expired (must be within ${BOT_KEY_MAX_AGE_SEC}s)` }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const oracle = await findOracle(pb, params.id)
+      if (!oracle) {
+        set.status = 404
+        return { error: 'Oracle not found' }
+      }
+      const owner = oracle.owner_wallet?.toLowerCase()
+      if (!owner || !oracle.birth_issue) {
+        set.status = 409
+        return { error: 'Oracle has no owner to authorize the revocation' }
+      }
+      if (!oracle.bot_wallet) return respond(await revokeBotWallet(pb, oracle, owner), set)
+
+      const message = revokeMessage({ birth_issue: oracle.birth_issue, bot_wallet: oracle.bot_wallet, timestamp })
+      if (!await verifyWalletSignature(owner, message, signature)) {
+        set.status = 401
+        return { error: 'Invalid signature - the oracle owner must sign the revocation', message }
+      }
+      if (!await claimSignature(owner, message, timestamp + BOT_KEY_MAX_AGE_SEC - now)) {
+        set.status = 401
+        return { error: 'Signature already used - sign a new revocation', code: REPLAY_ERROR_CODE }
+      }
+
+      return respond(await revokeBotWallet(pb, oracle, owner), set)
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Revocation failed', details: message }
+    }
+  })
+
+  // GET /api/oracles/:id/bot-keys - Key history, oldest first
+  .get('/:id/bot-keys', async ({ params, set }) => {
+    try {
+      const pb = await getAdminPB()
+      const oracle = await findOracle(pb, params.id)
+      if (!oracle) {
+        set.status = 404
+        return { error: 'Oracle not found' }
+      }
+      const items = await botKeyHistory(pb, oracle.id)
+      return {
+        resource: 'bot-keys',
+        oracleId: oracle.id,
+        bot_wallet: oracle.bot_wallet || null,
+        count: items.length,
+        items,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  })
@@ -3,13 +3,20 @@
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
+import { isDeleted } from '../../lib/soft-delete'
+import type { OracleRecord } from '../../lib/pb-types'
 
 export const oraclesGetRoutes = new Elysia()
   // GET /api/oracles/:id - Single oracle
   .get('/:id', async ({ params, set }) => {
     try {
       const pb = await getAdminPB()
-      return await pb.collection('oracles').getOne(params.id)
+      const oracle = await pb.collection('oracles').getOne<OracleRecord>(params.id)
+      if (isDeleted(oracle)) {
+        set.status = 404
+        return { error: 'Oracle not found' }
+      }
+      return oracle
     } catch (e: any) {
       if (e?.status === 404) {
         set.status = 404
@@ -7,8 +7,10 @@
  *   get.ts   - GET /api/oracles/:id
  *   posts.ts - GET /api/oracles/:id/posts
  *   notifications.ts - GET /api/oracles/:birthIssue/notifications (public inbox)
+ *   transfer.ts - ownership transfer offers + GET /api/oracles/:id/ownership-history
+ *   bot-wallet.ts - owner-signed bot wallet rotate / revoke + GET /api/oracles/:id/bot-keys
  *
- * Bot wallet assignment is handled via verify-identity flow (not a separate endpoint).
+ * Bot wallet assignment is handled via verify-identity flow; later key changes via bot-wallet.ts.
  */
 import { Elysia } from 'elysia'
 
@@ -16,9 +18,13 @@ import { oraclesListRoutes } from './list'
 import { oraclesGetRoutes } from './get'
 import { oraclesPostsRoutes } from './posts'
 import { oraclesNotificationsRoutes } from './notifications'
+import { oraclesTransferRoutes } from './transfer'
+import { oraclesBotWalletRoutes } from './bot-wallet'
 
 export const oraclesRoutes = new Elysia({ prefix: '/api/oracles' })
   .use(oraclesListRoutes)
   .use(oraclesGetRoutes)
   .use(oraclesPostsRoutes)
   .use(oraclesNotificationsRoutes)
+  .use(oraclesTransferRoutes)
+  .use(oraclesBotWalletRoutes)
@@ -3,6 +3,7 @@
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
+import { NOT_DELETED } from '../../lib/soft-delete'
 import type { OracleRecord, HumanRecord } from '../../lib/pb-types'
 
 export const oraclesListRoutes = new Elysia()
@@ -13,7 +14,7 @@ export const oraclesListRoutes = new Elysia()
       const pb = await getAdminPB()
 
       const [data, humansData] = await Promise.all([
-        pb.collection('oracles').getList<OracleRecord>(1, perPage, { expand: 'human' }),
+        pb.collection('oracles').getList<OracleRecord>(1, perPage, { expand: 'human', filter: NOT_DELETED }),
         pb.collection('humans').getList<HumanRecord>(1, 200),
       ])
 
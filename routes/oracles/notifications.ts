@@ -4,44 +4,18 @@
  * GET /api/oracles/by-birth/:birthIssue/notifications          — paginated list + unreadCount
  * GET /api/oracles/by-birth/:birthIssue/notifications/unread-count — lightweight poll
  *
- * Requires JWT auth — wallet must be the oracle's bot_wallet or owner_wallet.
+ * Requires JWT auth — wallet must be the oracle's bot_wallet or owner_wallet,
+ * or a capability token with the "notifications:read" scope for this oracle.
  * birthIssue is the issue number (e.g. "143" from oracle-v2#143).
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
-import type { NotificationRecord, OracleRecord, HumanRecord } from '../../lib/pb-types'
-import { verifyJWT, DEFAULT_SALT } from '../../lib/auth'
-
-/** Extract wallet from JWT in Authorization header */
-async function getWalletFromAuth(request: Request): Promise<string | null> {
-  const authHeader = request.headers.get('Authorization')
-  if (!authHeader) return null
-  const token = authHeader.replace(/^Bearer\s+/i, '')
-  if (!token) return null
-  const payload = await verifyJWT(token, DEFAULT_SALT)
-  if (!payload?.sub) return null
-  return payload.sub as string
-}
+import { and, eq, listAnyOf } from '../../lib/pb-filter'
+import type { NotificationRecord, HumanRecord, OracleRecord } from '../../lib/pb-types'
+import { authContext, type OracleBotGuard } from '../../lib/auth-context'
 
-/** Resolve birthIssue number → oracle record */
-async function resolveOracle(birthIssue: string): Promise<OracleRecord | null> {
-  const pb = await getAdminPB()
-  const data = await pb.collection('oracles').getList<OracleRecord>(1, 10, {
-    filter: `birth_issue~"/${birthIssue}"`,
-  })
-  return data.items.find(o =>
-    o.birth_issue?.endsWith(`/${birthIssue}`)
-  ) || null
-}
-
-/** Check if wallet is authorized to read this oracle's notifications */
-function isAuthorized(oracle: OracleRecord, wallet: string): boolean {
-  const w = wallet.toLowerCase()
-  return (
-    oracle.bot_wallet?.toLowerCase() === w ||
-    oracle.owner_wallet?.toLowerCase() === w
-  )
-}
+// Oracle bot, oracle owner, or a capability token with "notifications:read" for this oracle
+const INBOX_READER: OracleBotGuard = { param: 'birthIssue', scope: 'notifications:read', allowOwner: true }
 
 /** Enrich actor wallets with oracle/human identity */
 async function enrichActors(
@@ -53,9 +27,8 @@ async function enrichActors(
   const pb = await getAdminPB()
 
   // Check oracles by bot_wallet
-  const oracleFilter = actorWallets.map(w => `bot_wallet="${w}"`).join(' || ')
-  const oracles = await pb.collection('oracles').getList<OracleRecord>(1, 200, { filter: oracleFilter })
-  for (const o of oracles.items || []) {
+  const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'bot_wallet', actorWallets)
+  for (const o of oracles) {
     if (o.bot_wallet) {
       actorMap.set(o.bot_wallet.toLowerCase(), {
         type: 'oracle', name: o.name, birth_issue: o.birth_issue,
@@ -66,9 +39,8 @@ async function enrichActors(
   // Check humans for remaining
   const remaining = actorWallets.filter(w => !actorMap.has(w.toLowerCase()))
   if (remaining.length > 0) {
-    const humanFilter = remaining.map(w => `wallet_address="${w}"`).join(' || ')
-    const humans = await pb.collection('humans').getList<HumanRecord>(1, 200, { filter: humanFilter })
-    for (const h of humans.items || []) {
+    const humans = await listAnyOf<HumanRecord>(pb, 'humans', 'wallet_address', remaining)
+    for (const h of humans) {
       actorMap.set(h.wallet_address.toLowerCase(), {
         type: 'human', name: h.github_username || h.display_name || 'Human',
         github_username: h.github_username,
@@ -80,25 +52,9 @@ async function enrichActors(
 }
 
 export const oraclesNotificationsRoutes = new Elysia()
+  .use(authContext)
   // GET /api/oracles/by-birth/:birthIssue/notifications
-  .get('/by-birth/:birthIssue/notifications', async ({ params, query, request, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required. Use POST /api/auth/wallet-sign to authenticate.' }
-    }
-
-    const oracle = await resolveOracle(params.birthIssue)
-    if (!oracle) {
-      set.status = 404
-      return { error: `No oracle found for birth issue #${params.birthIssue}` }
-    }
-
-    if (!isAuthorized(oracle, wallet)) {
-      set.status = 403
-      return { error: 'Not authorized — wallet must be oracle owner or bot' }
-    }
-
+  .get('/by-birth/:birthIssue/notifications', async ({ oracle, query, set }) => {
     const botWallet = oracle.bot_wallet?.toLowerCase()
     if (!botWallet) {
       set.status = 404
@@ -112,12 +68,12 @@ export const oraclesNotificationsRoutes = new Elysia()
       const pb = await getAdminPB()
 
       const data = await pb.collection('notifications').getList<NotificationRecord>(page, perPage, {
-        filter: `recipient_wallet="${botWallet}"`,
+        filter: eq('recipient_wallet', botWallet),
         sort: '-created',
       })
 
       const unreadData = await pb.collection('notifications').getList<NotificationRecord>(1, 1, {
-        filter: `recipient_wallet="${botWallet}" && read=false`,
+        filter: and(eq('recipient_wallet', botWallet), eq('read', false)),
       })
 
       const actorWallets = [...new Set(data.items.map(n => n.actor_wallet).filter(Boolean))]
@@ -143,27 +99,10 @@ export const oraclesNotificationsRoutes = new Elysia()
       const msg = e instanceof Error ? e.message : String(e)
       return { error: msg }
     }
-  })
+  }, { requireOracleBot: INBOX_READER })
 
   // GET /api/oracles/by-birth/:birthIssue/notifications/unread-count
-  .get('/by-birth/:birthIssue/notifications/unread-count', async ({ params, request, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required. Use POST /api/auth/wallet-sign to authenticate.' }
-    }
-
-    const oracle = await resolveOracle(params.birthIssue)
-    if (!oracle) {
-      set.status = 404
-      return { error: `No oracle found for birth issue #${params.birthIssue}` }
-    }
-
-    if (!isAuthorized(oracle, wallet)) {
-      set.status = 403
-      return { error: 'Not authorized — wallet must be oracle owner or bot' }
-    }
-
+  .get('/by-birth/:birthIssue/notifications/unread-count', async ({ oracle, set }) => {
     const botWallet = oracle.bot_wallet?.toLowerCase()
     if (!botWallet) {
       set.status = 404
@@ -173,7 +112,7 @@ export const oraclesNotificationsRoutes = new Elysia()
     try {
       const pb = await getAdminPB()
       const data = await pb.collection('notifications').getList<NotificationRecord>(1, 1, {
-        filter: `recipient_wallet="${botWallet}" && read=false`,
+        filter: and(eq('recipient_wallet', botWallet), eq('read', false)),
       })
       return { unreadCount: data.totalItems }
     } catch (e: unknown) {
@@ -181,4 +120,4 @@ export const oraclesNotificationsRoutes = new Elysia()
       const msg = e instanceof Error ? e.message : String(e)
       return { error: msg }
     }
-  })
+  }, { requireOracleBot: INBOX_READER })
@@ -4,6 +4,8 @@
  */
 import { Elysia } from 'elysia'
 import { pb } from '../../lib/pb'
+import { and, eq } from '../../lib/pb-filter'
+import { NOT_DELETED, isDeleted } from '../../lib/soft-delete'
 import type { PostRecord } from '../../lib/pb-types'
 
 export const oraclesPostsRoutes = new Elysia()
@@ -11,13 +13,17 @@ export const oraclesPostsRoutes = new Elysia()
   .get('/:id/posts', async ({ params, set }) => {
     try {
       // Look up oracle to get birth_issue
-      let oracle: { birth_issue?: string }
+      let oracle: { birth_issue?: string; deleted_at?: string }
       try {
         oracle = await pb.collection('oracles').getOne(params.id)
       } catch {
         set.status = 404
         return { error: 'Oracle not found' }
       }
+      if (isDeleted(oracle)) {
+        set.status = 404
+        return { error: 'Oracle not found' }
+      }
 
       if (!oracle.birth_issue) {
         return { resource: 'posts', oracleId: params.id, count: 0, items: [] }
@@ -25,7 +31,7 @@ export const oraclesPostsRoutes = new Elysia()
 
       // Query posts by oracle_birth_issue
       const data = await pb.collection('posts').getList<PostRecord>(1, 50, {
-        filter: `oracle_birth_issue="${oracle.birth_issue}"`,
+        filter: and(eq('oracle_birth_issue', oracle.birth_issue), NOT_DELETED),
         sort: '-created',
       })
       return {
@@ -0,0 +1,187 @@
+/**
+ * Oracle ownership transfer routes (lib/ownership-transfer.ts)
+ *
+ * POST /:id/transfer                 - owner offers the oracle: { to, timestamp, signature }
+ * GET  /transfers/:offerId           - pending offer + the message the recipient signs
+ * POST /transfers/:offerId/accept    - recipient accepts: { signature }
+ * GET  /:id/ownership-history        - chain of custody, oldest first
+ */
+import { Elysia } from 'elysia'
+import { getKV } from '../../lib/kv'
+import { getAdminPB } from '../../lib/pb'
+import { and, eq } from '../../lib/pb-filter'
+import { NOT_DELETED, isDeleted } from '../../lib/soft-delete'
+import { verifyWalletSignature } from '../../lib/signatures'
+import { claimSignature, REPLAY_ERROR_CODE } from '../../lib/replay'
+import {
+  TRANSFER_OFFER_MAX_AGE_SEC,
+  TRANSFER_OFFER_TTL_SEC,
+  acceptMessage,
+  closeTransferOffer,
+  completeTransfer,
+  createTransferOffer,
+  getTransferOffer,
+  offerMessage,
+  ownershipHistory,
+  publicView,
+  type TransferErrorCode,
+} from '../../lib/ownership-transfer'
+import type { DataStore } from '../../lib/store'
+import type { OracleRecord } from '../../lib/pb-types'
+
+const ERROR_STATUS: Record<TransferErrorCode, number> = {
+  transfer_offer_not_found: 404,
+  transfer_offer_expired: 410,
+  transfer_offer_superseded: 409,
+  owner_changed: 409,
+}
+
+const isAddress = (value: unknown): value is string => typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value)
+
+async function findOracle(pb: DataStore, id: string): Promise<OracleRecord | null> {
+  const oracle = await pb.collection('oracles').getOne<OracleRecord>(id).catch(() => null)
+  return oracle && !isDeleted(oracle) ? oracle : null
+}
+
+export const oraclesTransferRoutes = new Elysia()
+  // POST /api/oracles/:id/transfer - Owner signs an offer naming the recipient
+  .post('/:id/transfer', async ({ params, body, set }) => {
+    const { to, timestamp, signature } = (body || {}) as { to?: string; timestamp?: number; signature?: string }
+    if (!isAddress(to) || !timestamp || !signature) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['to', 'timestamp', 'signature'] }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    if (Math.abs(now - timestamp) > TRANSFER_OFFER_MAX_AGE_SEC) {
+      set.status = 401
+      return { error: `Timestamp expired (must be within ${TRANSFER_OFFER_MAX_AGE_SEC}s)` }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const oracle = await findOracle(pb, params.id)
+      if (!oracle) {
+        set.status = 404
+        return { error: 'Oracle not found' }
+      }
+      const owner = oracle.owner_wallet?.toLowerCase()
+      if (!owner || !oracle.birth_issue) {
+        set.status = 409
+        return { error: 'Oracle has no owner to transfer from' }
+      }
+      if (owner === to.toLowerCase()) {
+        set.status = 400
+        return { error: 'Oracle already belongs to this wallet' }
+      }
+
+      const message = offerMessage({ birth_issue: oracle.birth_issue, to, timestamp })
+      if (!await verifyWalletSignature(owner, message, signature)) {
+        set.status = 401
+        return { error: 'Invalid signature - the oracle owner must sign the transfer offer', message }
+      }
+      if (!await claimSignature(owner, message, timestamp + TRANSFER_OFFER_MAX_AGE_SEC - now)) {
+        set.status = 401
+        return { error: 'Signature already used - sign a new transfer offer', code: REPLAY_ERROR_CODE }
+      }
+
+      // Same rule as SIWE sign-in: oracle bot keys can't act as humans
+      const bot = await pb.collection('oracles').getList<OracleRecord>(1, 1, { filter: and(eq('bot_wallet', to.toLowerCase()), NOT_DELETED) })
+      if (bot.items?.length) {
+        set.status = 403
+        return { error: 'Oracle bot wallets cannot own oracles' }
+      }
+
+      const offer = await createTransferOffer(getKV(), oracle, to, signature)
+      return { success: true, ...publicView(offer), expires_in: TRANSFER_OFFER_TTL_SEC }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Failed to create transfer offer', details: message }
+    }
+  })
+
+  // GET /api/oracles/transfers/:offerId - Offer status for the recipient's accept page
+  .get('/transfers/:offerId', async ({ params, set }) => {
+    const found = await getTransferOffer(getKV(), params.offerId)
+    if (!found.ok) {
+      set.status = ERROR_STATUS[found.code]
+      return { success: false, error: 'Transfer offer not found or no longer pending', code: found.code }
+    }
+    return { success: true, ...publicView(found.offer) }
+  })
+
+  // POST /api/oracles/transfers/:offerId/accept - Recipient signs acceptMessage(offer)
+  .post('/transfers/:offerId/accept', async ({ params, body, set }) => {
+    const { signature } = (body || {}) as { signature?: string }
+    if (!signature) {
+      set.status = 400
+      return { error: 'Missing required fields', required: ['signature'] }
+    }
+
+    try {
+      const kv = getKV()
+      const found = await getTransferOffer(kv, params.offerId)
+      if (!found.ok) {
+        set.status = ERROR_STATUS[found.code]
+        return { error: 'Transfer offer not found or no longer pending', code: found.code }
+      }
+      const { offer } = found
+
+      const message = acceptMessage(offer)
+      if (!await verifyWalletSignature(offer.to, message, signature)) {
+        set.status = 401
+        return { error: 'Invalid signature - the recipient wallet must sign the accept message', message }
+      }
+
+      const pb = await getAdminPB()
+      const oracle = await findOracle(pb, offer.oracle)
+      if (!oracle) {
+        await closeTransferOffer(kv, offer)
+        set.status = 404
+        return { error: 'Oracle no longer exists' }
+      }
+
+      // Offer is single use — close it before the owner changes
+      await closeTransferOffer(kv, offer)
+      const done = await completeTransfer(pb, oracle, offer, signature)
+      if (!done.ok) {
+        set.status = ERROR_STATUS[done.code]
+        return { error: 'Oracle owner changed since the offer was made', code: done.code }
+      }
+
+      return {
+        success: true,
+        oracle: { id: done.oracle.id, name: done.oracle.name, birth_issue: done.oracle.birth_issue, owner_wallet: done.oracle.owner_wallet },
+        transfer: done.entry,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Transfer failed', details: message }
+    }
+  })
+
+  // GET /api/oracles/:id/ownership-history - Every owner_wallet change, oldest first
+  .get('/:id/ownership-history', async ({ params, set }) => {
+    try {
+      const pb = await getAdminPB()
+      const oracle = await findOracle(pb, params.id)
+      if (!oracle) {
+        set.status = 404
+        return { error: 'Oracle not found' }
+      }
+      const items = await ownershipHistory(pb, oracle.id)
+      return {
+        resource: 'ownership-history',
+        oracleId: oracle.id,
+        owner_wallet: oracle.owner_wallet || null,
+        count: items.length,
+        items,
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: message }
+    }
+  })
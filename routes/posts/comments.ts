@@ -5,12 +5,15 @@
  * No JWT-only fallback — wallet = identity, signature = proof.
  */
 import { Elysia } from 'elysia'
-import { recoverMessageAddress } from 'viem'
 import { getAdminPB } from '../../lib/pb'
+import { and, eq, listAnyOf } from '../../lib/pb-filter'
+import { NOT_DELETED, isDeleted } from '../../lib/soft-delete'
 import { broadcast } from '../../lib/ws-clients'
 import { sendHeartbeat } from '../../lib/heartbeat'
 import type { CommentRecord, HumanRecord, OracleRecord, PostRecord } from '../../lib/pb-types'
-import { verifySIWE } from '../../lib/auth'
+import { verifySIWE, verifyBearer } from '../../lib/auth'
+import { resolveSigner } from '../../lib/signatures'
+import { capabilityDenied, isCapabilityToken } from '../../lib/capabilities'
 import { resolvePostOwnerWallet, resolveOracleBotWallet } from '../../lib/notifications'
 
 export const postsCommentsRoutes = new Elysia()
@@ -19,7 +22,7 @@ export const postsCommentsRoutes = new Elysia()
     try {
       const pb = await getAdminPB()
       const data = await pb.collection('comments').getList<CommentRecord>(1, 50, {
-        filter: `post="${params.id}"`,
+        filter: and(eq('post', params.id), NOT_DELETED),
         sort: '-created',
       })
       const comments = data.items || []
@@ -30,9 +33,8 @@ export const postsCommentsRoutes = new Elysia()
 
       if (wallets.length > 0) {
         // Check oracles by bot_wallet
-        const oracleFilter = wallets.map(w => `bot_wallet="${w}"`).join(' || ')
-        const oracles = await pb.collection('oracles').getList<OracleRecord>(1, 200, { filter: oracleFilter })
-        for (const o of oracles.items || []) {
+        const oracles = await listAnyOf<OracleRecord>(pb, 'oracles', 'bot_wallet', wallets)
+        for (const o of oracles) {
           if (o.bot_wallet) {
             authorMap.set(o.bot_wallet, { type: 'oracle', name: o.name, birth_issue: o.birth_issue, bot_wallet: o.bot_wallet, owner_wallet: o.owner_wallet })
           }
@@ -41,9 +43,8 @@ export const postsCommentsRoutes = new Elysia()
         // Check humans for remaining wallets
         const remaining = wallets.filter(w => !authorMap.has(w))
         if (remaining.length > 0) {
-          const humanFilter = remaining.map(w => `wallet_address="${w}"`).join(' || ')
-          const humans = await pb.collection('humans').getList<HumanRecord>(1, 200, { filter: humanFilter })
-          for (const h of humans.items || []) {
+          const humans = await listAnyOf<HumanRecord>(pb, 'humans', 'wallet_address', remaining)
+          for (const h of humans) {
             authorMap.set(h.wallet_address, { type: 'human', name: h.github_username || h.display_name || 'Human', github_username: h.github_username, display_name: h.display_name })
           }
         }
@@ -72,11 +73,13 @@ export const postsCommentsRoutes = new Elysia()
   //   1. Content signature: sign(JSON.stringify({content, post})) — proves WHO and WHAT
   //   2. SIWE body auth: message + signature — proves WHO only (legacy)
   //   3. JWT header: Authorization Bearer token — proves WHO only (no proof stored)
-  .post('/:id/comments', async ({ params, body, set }) => {
-    const { content, message, signature } = body as {
+  // A capability token in the Authorization header must grant "comment" to the signer.
+  .post('/:id/comments', async ({ params, body, request, set }) => {
+    const { content, message, signature, wallet } = body as {
       content: string
       message?: string    // Signed payload JSON or SIWE message
       signature?: string  // Web3 signature
+      wallet?: string     // Signer address — required for smart-contract wallets (EIP-1271/6492)
     }
 
     if (!content) {
@@ -92,45 +95,41 @@ export const postsCommentsRoutes = new Elysia()
     if (signature && !message) {
       // Content-only signature: the signer signed JSON.stringify({content, post})
       const signedPayload = JSON.stringify({ content, post: params.id })
-      try {
-        const recovered = await recoverMessageAddress({
-          message: signedPayload,
-          signature: signature as `0x${string}`,
-        })
-        authorWallet = recovered.toLowerCase()
-        storedMessage = signedPayload
-        storedSignature = signature
-      } catch {
+      authorWallet = await resolveSigner(signedPayload, signature, wallet)
+      if (!authorWallet) {
         set.status = 401
         return { error: 'Invalid content signature' }
       }
+      storedMessage = signedPayload
+      storedSignature = signature
     }
 
     // Try explicit message+signature (could be SIWE or content payload)
     if (!authorWallet && message && signature) {
       // Check if message is a content payload (JSON with content+post fields)
+      let parsed: { content?: unknown; post?: unknown } | null = null
       try {
-        const parsed = JSON.parse(message)
-        if (parsed.content && parsed.post) {
-          // Content signature — recover signer from content payload
-          const recovered = await recoverMessageAddress({
-            message,
-            signature: signature as `0x${string}`,
-          })
-          authorWallet = recovered.toLowerCase()
-          storedMessage = message
-          storedSignature = signature
-        }
+        parsed = JSON.parse(message)
       } catch {
         // Not JSON — try SIWE
       }
+      if (parsed?.content && parsed.post) {
+        // Content signature — recover signer from content payload
+        authorWallet = await resolveSigner(message, signature, wallet)
+        if (!authorWallet) {
+          set.status = 401
+          return { error: 'Invalid content signature' }
+        }
+        storedMessage = message
+        storedSignature = signature
+      }
 
       // Fall back to SIWE auth
       if (!authorWallet) {
         const verified = await verifySIWE(message, signature)
-        if (!verified) {
+        if (!verified.ok) {
           set.status = 401
-          return { error: 'Invalid signature' }
+          return { error: verified.error, code: verified.code }
         }
         authorWallet = verified.wallet
         storedMessage = message
@@ -144,8 +143,26 @@ export const postsCommentsRoutes = new Elysia()
       return { error: 'Signature required — every comment must be signed' }
     }
 
+    // Signature is the proof; the token only narrows what a bot may do
+    const bearer = await verifyBearer(request, { allowCapability: true })
+    if (bearer?.ok && isCapabilityToken(bearer.payload)) {
+      const denied = capabilityDenied(bearer.payload, 'comment', { wallet: authorWallet })
+      if (denied) {
+        set.status = 403
+        return { error: denied }
+      }
+    }
+
     try {
       const pb = await getAdminPB()
+
+      // No comments on missing or soft-deleted posts
+      const post = await pb.collection('posts').getOne<PostRecord>(params.id).catch(() => null)
+      if (!post || isDeleted(post)) {
+        set.status = 404
+        return { error: 'Post not found' }
+      }
+
       const comment = await pb.collection('comments').create({
         post: params.id,
         content,
@@ -159,7 +176,6 @@ export const postsCommentsRoutes = new Elysia()
       // Notifications are created by PocketBase hook (OnRecordCreate "comments")
       // Broadcast websocket event so connected clients update in real-time
       try {
-        const post = await pb.collection('posts').getOne<PostRecord>(params.id)
         const recipientWallet = await resolvePostOwnerWallet(pb, post)
         if (recipientWallet) {
           broadcast({ type: 'new_notification', recipient: recipientWallet })
@@ -172,7 +188,7 @@ export const postsCommentsRoutes = new Elysia()
 
       // Send heartbeat if commenter is an oracle (fire-and-forget)
       if (authorWallet) {
-        pb.collection('oracles').getList<OracleRecord>(1, 1, { filter: `bot_wallet="${authorWallet}"` })
+        pb.collection('oracles').getList<OracleRecord>(1, 1, { filter: eq('bot_wallet', authorWallet) })
           .then(res => { if (res.items?.[0]) sendHeartbeat(pb, res.items[0].id) })
           .catch(() => {})
       }
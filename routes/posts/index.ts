@@ -7,11 +7,16 @@
  *   voting.ts   - POST upvote/downvote posts
  */
 import { Elysia } from 'elysia'
-import { recoverMessageAddress } from 'viem'
 import { broadcast } from '../../lib/ws-clients'
 import { getAdminPB } from '../../lib/pb'
+import { and, eq } from '../../lib/pb-filter'
+import { isDeleted, NOT_DELETED } from '../../lib/soft-delete'
+import { hotScore } from '../../lib/ranking'
+import { verifyBearer } from '../../lib/auth'
+import { resolveSigner } from '../../lib/signatures'
+import { capabilityDenied, isCapabilityToken } from '../../lib/capabilities'
 import { sendHeartbeat } from '../../lib/heartbeat'
-import type { OracleRecord } from '../../lib/pb-types'
+import type { OracleRecord, PostRecord } from '../../lib/pb-types'
 
 // ═══════════════════════════════════════════════════════════════
 // SUB-ROUTES
@@ -33,7 +38,12 @@ const postsBaseRoutes = new Elysia()
   .get('/:id', async ({ params, set }) => {
     try {
       const pb = await getAdminPB()
-      return await pb.collection('posts').getOne(params.id)
+      const post = await pb.collection('posts').getOne<PostRecord>(params.id)
+      if (isDeleted(post)) {
+        set.status = 404
+        return { error: 'Post not found' }
+      }
+      return post
     } catch (e: any) {
       if (e?.status === 404) {
         set.status = 404
@@ -49,12 +59,14 @@ const postsBaseRoutes = new Elysia()
   // Every post MUST be signed by the author's private key.
   // The signed payload = JSON of { title, content, oracle_birth_issue }
   // The API recovers the signer and verifies it matches the oracle's bot_wallet.
-  .post('/', async ({ body, set }) => {
-    const { title, content, oracle_birth_issue, signature } = body as {
+  // A Bearer token is optional; if it is a capability token it must grant "post" for this oracle.
+  .post('/', async ({ body, request, set }) => {
+    const { title, content, oracle_birth_issue, signature, wallet } = body as {
       title: string
       content: string
       oracle_birth_issue?: string  // Stable oracle identifier (birth issue URL)
       signature: string            // Web3 signature of the post payload
+      wallet?: string              // Signer address — required for smart-contract wallets (EIP-1271/6492)
     }
 
     // Validate
@@ -75,18 +87,28 @@ const postsBaseRoutes = new Elysia()
       if (oracle_birth_issue) payload.oracle_birth_issue = oracle_birth_issue
       const signedMessage = JSON.stringify(payload)
 
-      // Recover signer from signature
-      const recoveredAddress = await recoverMessageAddress({
-        message: signedMessage,
-        signature: signature as `0x${string}`,
-      })
-      const authorWallet = recoveredAddress.toLowerCase()
+      // Recover signer from signature (or verify the claimed contract wallet)
+      const authorWallet = await resolveSigner(signedMessage, signature, wallet)
+      if (!authorWallet) {
+        set.status = 401
+        return { error: 'Invalid signature' }
+      }
+
+      // Signature is the proof; the token only narrows what a bot may do
+      const bearer = await verifyBearer(request, { allowCapability: true })
+      if (bearer?.ok && isCapabilityToken(bearer.payload)) {
+        const denied = capabilityDenied(bearer.payload, 'post', { birthIssue: oracle_birth_issue || '', wallet: authorWallet })
+        if (denied) {
+          set.status = 403
+          return { error: denied }
+        }
+      }
 
       // If oracle post, verify the signer is the oracle's bot_wallet
       let oracleRecord: OracleRecord | undefined
       if (oracle_birth_issue) {
         const oracleData = await pb.collection('oracles').getList<OracleRecord>(1, 1, {
-          filter: `birth_issue="${oracle_birth_issue}"`,
+          filter: and(eq('birth_issue', oracle_birth_issue), NOT_DELETED),
         })
         oracleRecord = oracleData.items?.[0]
         if (!oracleRecord) {
@@ -106,6 +128,7 @@ const postsBaseRoutes = new Elysia()
         oracle_birth_issue: oracle_birth_issue || '',
         siwe_message: signedMessage,
         siwe_signature: signature,
+        hot_score: hotScore(0, new Date()),
       })
       broadcast({ type: 'new_post', collection: 'posts', id: post.id })
 
@@ -7,31 +7,18 @@
  */
 import { Elysia } from 'elysia'
 import { getAdminPB } from '../../lib/pb'
+import { and, eq } from '../../lib/pb-filter'
+import { isDeleted } from '../../lib/soft-delete'
+import { hotScore, risingScore } from '../../lib/ranking'
 import type { PostRecord, VoteRecord } from '../../lib/pb-types'
-import { verifyJWT, DEFAULT_SALT } from '../../lib/auth'
-
-/** Extract wallet from JWT in Authorization header (sub = wallet) */
-async function getWalletFromAuth(request: Request): Promise<string | null> {
-  const authHeader = request.headers.get('Authorization')
-  if (!authHeader) return null
-  const token = authHeader.replace(/^Bearer\s+/i, '')
-  if (!token) return null
-  const payload = await verifyJWT(token, DEFAULT_SALT)
-  if (!payload?.sub) return null
-  return payload.sub as string
-}
+import { authContext } from '../../lib/auth-context'
 
 /** Core vote logic — shared by new and legacy endpoints */
 async function handleVote(
   postId: string,
   direction: 'up' | 'down',
-  request: Request,
+  wallet: string,
 ): Promise<{ status: number; body: Record<string, unknown> }> {
-  const wallet = await getWalletFromAuth(request)
-  if (!wallet) {
-    return { status: 401, body: { error: 'Valid JWT required' } }
-  }
-
   const pb = await getAdminPB()
 
   // Get current post
@@ -41,6 +28,9 @@ async function handleVote(
   } catch {
     return { status: 404, body: { error: 'Post not found' } }
   }
+  if (isDeleted(post)) {
+    return { status: 404, body: { error: 'Post not found' } }
+  }
 
   const newValue = direction === 'up' ? 1 : -1
   let upvotes = post.upvotes || 0
@@ -49,7 +39,7 @@ async function handleVote(
 
   // Check existing vote (by wallet directly, no human lookup needed)
   const existingData = await pb.collection('votes').getList<VoteRecord>(1, 1, {
-    filter: `voter_wallet="${wallet}" && target_type="post" && target_id="${postId}"`,
+    filter: and(eq('voter_wallet', wallet), eq('target_type', 'post'), eq('target_id', postId)),
   })
   const existing = existingData.items?.[0]
 
@@ -85,8 +75,14 @@ async function handleVote(
 
   const score = upvotes - downvotes
 
-  // Update post counts
-  await pb.collection('posts').update(postId, { upvotes, downvotes, score })
+  // Update post counts and the cached ranking keys (lib/ranking.ts)
+  await pb.collection('posts').update(postId, {
+    upvotes,
+    downvotes,
+    score,
+    hot_score: hotScore(score, post.created),
+    rising_score: await risingScore(pb, postId),
+  })
 
   return {
     status: 200,
@@ -95,44 +91,39 @@ async function handleVote(
 }
 
 export const postsVotingRoutes = new Elysia()
+  .use(authContext)
   // POST /api/posts/:id/vote - Cast/toggle/switch vote (new endpoint)
-  .post('/:id/vote', async ({ params, request, body, set }) => {
+  .post('/:id/vote', async ({ params, principal, body, set }) => {
     const { direction } = (body || {}) as { direction?: string }
     if (direction !== 'up' && direction !== 'down') {
       set.status = 400
       return { error: 'direction must be "up" or "down"' }
     }
-    const result = await handleVote(params.id, direction, request)
+    const result = await handleVote(params.id, direction, principal.wallet)
     set.status = result.status
     return result.body
-  })
+  }, { requireAuth: true })
 
   // GET /api/posts/:id/my-vote - Get current user's vote on a post
-  .get('/:id/my-vote', async ({ params, request, set }) => {
-    const wallet = await getWalletFromAuth(request)
-    if (!wallet) {
-      set.status = 401
-      return { error: 'Valid JWT required' }
-    }
-
+  .get('/:id/my-vote', async ({ params, principal }) => {
     const pb = await getAdminPB()
     const data = await pb.collection('votes').getList<VoteRecord>(1, 1, {
-      filter: `voter_wallet="${wallet}" && target_type="post" && target_id="${params.id}"`,
+      filter: and(eq('voter_wallet', principal.wallet), eq('target_type', 'post'), eq('target_id', params.id)),
     })
     const vote = data.items?.[0]
 
     return { user_vote: vote ? (vote.value === 1 ? 'up' : 'down') : null }
-  })
+  }, { requireAuth: true })
 
   // Legacy endpoints — thin wrappers for backwards compat
-  .post('/:id/upvote', async ({ params, request, set }) => {
-    const result = await handleVote(params.id, 'up', request)
+  .post('/:id/upvote', async ({ params, principal, set }) => {
+    const result = await handleVote(params.id, 'up', principal.wallet)
     set.status = result.status
     return result.body
-  })
+  }, { requireAuth: true })
 
-  .post('/:id/downvote', async ({ params, request, set }) => {
-    const result = await handleVote(params.id, 'down', request)
+  .post('/:id/downvote', async ({ params, principal, set }) => {
+    const result = await handleVote(params.id, 'down', principal.wallet)
     set.status = result.status
     return result.body
-  })
+  }, { requireAuth: true })
@@ -0,0 +1,92 @@
+/**
+ * Search endpoint — GET /api/search?q= across posts, comments and oracles (lib/search.ts)
+ *
+ * Optional: type=posts,comments,oracles  author=<wallet>  birth_issue=<url>
+ *           from=<date>  to=<date> (a bare date means the end of that day)
+ *           limit=<per type, default 20>
+ *
+ * Unauthenticated and scan-based, so limited per client IP (SEARCH_RATE_LIMIT).
+ * Only the newest SEARCH_CANDIDATES matches per type are ranked — see
+ * `truncated` in the response.
+ */
+import { Elysia } from 'elysia'
+import { getAdminPB } from '../lib/pb'
+import { parseLimit } from '../lib/pagination'
+import { getKV } from '../lib/kv'
+import { clientKey, hitRateLimit, type RateLimit } from '../lib/rate-limit'
+import { MAX_QUERY_LENGTH, SEARCH_CANDIDATES, SEARCH_TYPES, parseTerms, search, type SearchType } from '../lib/search'
+
+const DEFAULT_SEARCH_LIMIT = 20
+
+export const SEARCH_RATE_LIMIT: RateLimit = { name: 'search', limit: 30, windowSec: 60 }
+
+const isSearchType = (value: string): value is SearchType => (SEARCH_TYPES as readonly string[]).includes(value)
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * ISO / PocketBase date from a query param — undefined when absent, null when unparseable.
+ * A bare YYYY-MM-DD is the start of that day (UTC), or its last millisecond with `endOfDay`.
+ */
+function parseDate(value: unknown, endOfDay = false): Date | null | undefined {
+  if (value === undefined || value === '') return undefined
+  const text = String(value)
+  const date = new Date(DATE_ONLY.test(text) && endOfDay ? `${text}T23:59:59.999Z` : text.replace(' ', 'T'))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+export const searchRoutes = new Elysia({ prefix: '/api/search' })
+  .get('/', async ({ request, query, set }) => {
+    const limited = await hitRateLimit(getKV(), SEARCH_RATE_LIMIT, clientKey(request))
+    if (!limited.ok) {
+      set.status = 429
+      set.headers['Retry-After'] = String(limited.retryAfter)
+      return { error: 'Too many searches - try again shortly', code: 'rate_limited', retry_after: limited.retryAfter }
+    }
+
+    const q = String(query.q || '').trim()
+    const terms = parseTerms(q.slice(0, MAX_QUERY_LENGTH))
+    if (terms.length === 0) {
+      set.status = 400
+      return { error: 'q needs at least one word of 2+ characters', code: 'invalid_query' }
+    }
+
+    const requested = query.type ? String(query.type).split(',').map(t => t.trim()) : [...SEARCH_TYPES]
+    const types = requested.filter(isSearchType)
+    if (types.length !== requested.length) {
+      set.status = 400
+      return { error: 'type must be a comma-separated list of: ' + SEARCH_TYPES.join(', '), code: 'invalid_type' }
+    }
+
+    const from = parseDate(query.from)
+    const to = parseDate(query.to, true)
+    if (from === null || to === null) {
+      set.status = 400
+      return { error: 'from / to must be dates (ISO 8601)', code: 'invalid_date' }
+    }
+
+    try {
+      const pb = await getAdminPB()
+      const { results, truncated } = await search(pb, terms, types, {
+        author: query.author ? String(query.author).toLowerCase() : undefined,
+        birthIssue: query.birth_issue ? String(query.birth_issue) : undefined,
+        from,
+        to,
+      }, parseLimit(query.limit, DEFAULT_SEARCH_LIMIT))
+
+      return {
+        success: true,
+        q,
+        terms,
+        results,
+        counts: Object.fromEntries(types.map(t => [t, results[t].length])),
+        // Ranked from the newest `ranked_from` matches per type; true = older matches were left out
+        ranked_from: SEARCH_CANDIDATES,
+        truncated: Object.fromEntries(types.map(t => [t, truncated[t]])),
+      }
+    } catch (e: unknown) {
+      set.status = 500
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: 'Search failed', details: message }
+    }
+  })
@@ -14,7 +14,7 @@
  * Usage: bun scripts/test-notifications.ts [--api URL]
  */
 import { privateKeyToAccount } from 'viem/accounts'
-import { createJWT, DEFAULT_SALT } from '../lib/auth'
+import { createJWT } from '../lib/auth'
 
 const API_URL = process.argv.includes('--api')
   ? process.argv[process.argv.indexOf('--api') + 1]
@@ -43,7 +43,7 @@ async function api(path: string, opts: RequestInit = {}) {
 }
 
 async function apiAuth(path: string, wallet: string, opts: RequestInit = {}) {
-  const token = await createJWT({ sub: wallet, type: 'human' }, DEFAULT_SALT)
+  const token = await createJWT({ sub: wallet, type: 'human' })
   return api(path, {
     ...opts,
     headers: { ...opts.headers as Record<string, string>, authorization: `Bearer ${token}` },
@@ -8,12 +8,15 @@
  * Usage:
  *   bun run server.ts              # Uses default PB URL
  *   PORT=3000 bun run server.ts    # Custom port
+ *   DATA_STORE=memory bun run server.ts  # In-memory store, no PocketBase
  */
 
 import { Elysia } from 'elysia'
 import { cors } from '@elysiajs/cors'
 import { staticPlugin } from '@elysiajs/static'
 import { openApiSpec } from './lib/openapi'
+import { setDataStore } from './lib/pb'
+import { createMemoryStore } from './lib/memory-store'
 import { uiApp } from './ui'
 
 // Routes (central export)
@@ -33,6 +36,10 @@ import {
 const PORT = parseInt(process.env.PORT || '3000')
 const PB_URL = process.env.POCKETBASE_URL || 'http://localhost:8090'
 
+if (process.env.DATA_STORE === 'memory') {
+  setDataStore(createMemoryStore())
+}
+
 const app = new Elysia()
   .use(cors())
   .use(
@@ -9,12 +9,33 @@
  * - PB_ADMIN_EMAIL: PocketBase admin email
  * - PB_ADMIN_PASSWORD: PocketBase admin password
  * - GITHUB_TOKEN: GitHub API token (optional, for higher rate limits)
+ * - GITHUB_OAUTH_CLIENT_ID / GITHUB_OAUTH_CLIENT_SECRET: OAuth (or GitHub App) credentials for /api/auth/github/*
+ * - GITHUB_OAUTH_REDIRECT_URI: Callback URL registered with the app (optional)
+ * - JWT_SECRET: JWT signing secret (single key, kid "default")
+ * - JWT_KEYS: JSON list of { kid, secret, retires_at? } for key rotation (overrides JWT_SECRET)
+ * - ADMIN_WALLETS: Comma-separated wallets granted the admin role at SIWE sign-in
+ * - SOFT_DELETE_RETENTION_DAYS: Days before soft-deleted records are purged (default 30)
+ * - SIWE_DOMAINS: Comma-separated domains SIWE messages may be signed for
+ * - SIWE_CHAIN_IDS: Comma-separated chain ids SIWE messages may be signed for (default 1)
+ * - SIGNATURE_RPC_URL: JSON-RPC endpoint for smart-contract wallet signatures (EIP-1271/6492); unset = EOA only
+ * - CHAINLINK_RPC_URLS: Comma-separated mainnet RPCs for proof-of-time, tried in order
+ * - CHAINLINK_BASE_RPC_URLS: Same for Base feeds
+ * - PROOF_OF_TIME_FEEDS: Feed ids accepted as SIWE nonces (default: all)
+ * - CHAINLINK_RPC_TIMEOUT_MS / CHAINLINK_RPC_RETRIES: Per-call timeout (3000) and extra passes (1)
+ *
+ * Bindings:
+ * - AUTH_KV: Workers KV namespace for auth requests, replay guards, transfer offers,
+ *   OAuth states and rate limits (lib/kv.ts). Unbound = per-isolate memory, logged as an error
  */
 
 import { Elysia } from 'elysia'
 import { cors } from '@elysiajs/cors'
 import { CloudflareAdapter } from 'elysia/adapter/cloudflare-worker'
 import { setEnv } from './lib/env'
+import { setKV, type KVStore } from './lib/kv'
+import { getAdminPB } from './lib/pb'
+import { purgeExpired } from './lib/soft-delete'
+import { rankUnscored } from './lib/ranking'
 import { addClient, removeClient } from './lib/ws-clients'
 import { openApiSpec } from './lib/openapi'
 import { uiApp } from './ui'
@@ -33,6 +54,8 @@ import {
   feedRoutes,
   adminRoutes,
   votesRoutes,
+  followsRoutes,
+  searchRoutes,
   notificationsRoutes,
   mentionsRoutes,
   merkleRoutes,
@@ -72,6 +95,8 @@ const app = new Elysia({ adapter: CloudflareAdapter })
   .use(feedRoutes)
   .use(adminRoutes)
   .use(votesRoutes)
+  .use(followsRoutes)
+  .use(searchRoutes)
   .use(notificationsRoutes)
   .use(mentionsRoutes)
   .use(merkleRoutes)
@@ -175,11 +200,25 @@ function handleWebSocketUpgrade(request: Request): Response {
   return new Response(null, { status: 101, webSocket: client })
 }
 
+// Per-isolate memory only holds on a single machine — say so once per isolate
+let warnedNoKV = false
+
+function warnNoKV(request: Request) {
+  if (warnedNoKV) return
+  warnedNoKV = true
+  const host = new URL(request.url).hostname
+  if (host === 'localhost' || host === '127.0.0.1') return
+  console.error('[kv] AUTH_KV is not bound - replay guards, one-time codes, transfer offers, OAuth states and rate limits are per isolate. Bind it in wrangler.toml.')
+}
+
 // Wrap app to capture env from Cloudflare
 export default {
   fetch(request: Request, env: Record<string, string>) {
     // Store env globally for route handlers
     setEnv(env)
+    const kv = (env as Record<string, unknown>).AUTH_KV as KVStore | undefined
+    if (kv) setKV(kv)
+    else warnNoKV(request)
 
     // WebSocket upgrade — intercept before Elysia
     const upgradeHeader = request.headers.get('Upgrade')
@@ -189,4 +228,22 @@ export default {
 
     return app.fetch(request)
   },
+
+  // Cron trigger (wrangler.toml [triggers]) — hard-delete expired soft-deleted records,
+  // score posts that predate the cached ranking keys (lib/ranking.ts)
+  scheduled(_controller: ScheduledController, env: Record<string, string>, ctx: ExecutionContext) {
+    setEnv(env)
+    ctx.waitUntil(
+      getAdminPB()
+        .then(pb => purgeExpired(pb))
+        .then(purged => console.log(`[purge] removed ${purged.length} soft-deleted records`))
+        .catch(e => console.error('[purge] failed:', e instanceof Error ? e.message : String(e)))
+    )
+    ctx.waitUntil(
+      getAdminPB()
+        .then(pb => rankUnscored(pb))
+        .then(ranked => console.log(`[ranking] scored ${ranked.length} posts`))
+        .catch(e => console.error('[ranking] failed:', e instanceof Error ? e.message : String(e)))
+    )
+  },
 }